@@ -4,12 +4,32 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import { AuthGuard } from "./components/AuthGuard";
+import { TillProvider } from "./components/TillProvider";
+import { MANAGER_ROLES } from "./lib/roles";
 import Dashboard from "./pages/Dashboard";
 import Auth from "./pages/Auth";
 import Inventory from "./pages/Inventory";
 import Sales from "./pages/Sales";
+import SaleReceipt from "./pages/SaleReceipt";
+import CreditNote from "./pages/CreditNote";
 import Prescriptions from "./pages/Prescriptions";
 import Suppliers from "./pages/Suppliers";
+import StockMovements from "./pages/StockMovements";
+import StockTakes from "./pages/StockTakes";
+import StockTakeSession from "./pages/StockTakeSession";
+import ExpiredStock from "./pages/ExpiredStock";
+import DisposalRecord from "./pages/DisposalRecord";
+import PurchaseOrders from "./pages/PurchaseOrders";
+import PurchaseOrderPrint from "./pages/PurchaseOrderPrint";
+import GoodsReceived from "./pages/GoodsReceived";
+import ReorderPlanner from "./pages/ReorderPlanner";
+import Staff from "./pages/Staff";
+import Audit from "./pages/Audit";
+import Shifts from "./pages/Shifts";
+import ShiftReport from "./pages/ShiftReport";
+import MpesaReconciliation from "./pages/MpesaReconciliation";
+import Profile from "./pages/Profile";
+import ResetPassword from "./pages/ResetPassword";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -20,50 +40,189 @@ const App = () => (
       <Toaster />
       <Sonner />
       <BrowserRouter>
-        <Routes>
-          <Route path="/auth" element={<Auth />} />
-          <Route
-            path="/"
-            element={
-              <AuthGuard>
-                <Dashboard />
-              </AuthGuard>
-            }
-          />
-          <Route
-            path="/inventory"
-            element={
-              <AuthGuard>
-                <Inventory />
-              </AuthGuard>
-            }
-          />
-          <Route
-            path="/sales"
-            element={
-              <AuthGuard>
-                <Sales />
-              </AuthGuard>
-            }
-          />
-          <Route
-            path="/prescriptions"
-            element={
-              <AuthGuard>
-                <Prescriptions />
-              </AuthGuard>
-            }
-          />
-          <Route
-            path="/suppliers"
-            element={
-              <AuthGuard>
-                <Suppliers />
-              </AuthGuard>
-            }
-          />
-          <Route path="*" element={<NotFound />} />
-        </Routes>
+        <TillProvider>
+          <Routes>
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route
+              path="/"
+              element={
+                <AuthGuard>
+                  <Dashboard />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/inventory"
+              element={
+                <AuthGuard>
+                  <Inventory />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/sales"
+              element={
+                <AuthGuard>
+                  <Sales />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/sales/:saleNumber/receipt"
+              element={
+                <AuthGuard>
+                  <SaleReceipt />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/returns/:id/credit-note"
+              element={
+                <AuthGuard>
+                  <CreditNote />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/shifts"
+              element={
+                <AuthGuard>
+                  <Shifts />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/shifts/:id/report"
+              element={
+                <AuthGuard>
+                  <ShiftReport />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/mpesa-reconciliation"
+              element={
+                <AuthGuard roles={MANAGER_ROLES}>
+                  <MpesaReconciliation />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/prescriptions"
+              element={
+                <AuthGuard>
+                  <Prescriptions />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/suppliers"
+              element={
+                <AuthGuard roles={MANAGER_ROLES}>
+                  <Suppliers />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/stock-movements"
+              element={
+                <AuthGuard>
+                  <StockMovements />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/stock-takes"
+              element={
+                <AuthGuard>
+                  <StockTakes />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/stock-takes/:id"
+              element={
+                <AuthGuard>
+                  <StockTakeSession />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/expired-stock"
+              element={
+                <AuthGuard roles={MANAGER_ROLES}>
+                  <ExpiredStock />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/disposals/:id/print"
+              element={
+                <AuthGuard roles={MANAGER_ROLES}>
+                  <DisposalRecord />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/purchase-orders"
+              element={
+                <AuthGuard roles={MANAGER_ROLES}>
+                  <PurchaseOrders />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/purchase-orders/:id/print"
+              element={
+                <AuthGuard roles={MANAGER_ROLES}>
+                  <PurchaseOrderPrint />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/goods-received"
+              element={
+                <AuthGuard roles={MANAGER_ROLES}>
+                  <GoodsReceived />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/reorder"
+              element={
+                <AuthGuard roles={MANAGER_ROLES}>
+                  <ReorderPlanner />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/staff"
+              element={
+                <AuthGuard roles={["admin"]}>
+                  <Staff />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/audit"
+              element={
+                <AuthGuard roles={["admin"]}>
+                  <Audit />
+                </AuthGuard>
+              }
+            />
+            <Route
+              path="/profile"
+              element={
+                <AuthGuard>
+                  <Profile />
+                </AuthGuard>
+              }
+            />
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </TillProvider>
       </BrowserRouter>
     </TooltipProvider>
   </QueryClientProvider>
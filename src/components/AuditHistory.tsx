@@ -0,0 +1,100 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "@/components/ui/badge";
+import {
+  AUDIT_ACTION_CLASSES,
+  AUDIT_ACTION_LABELS,
+  AuditAction,
+  AuditEntry,
+  AuditedTable,
+  auditChanges,
+  auditFieldLabel,
+  formatAuditValue,
+} from "@/lib/audit";
+import { Loader2 } from "lucide-react";
+
+const fetchRecordHistory = async (tableName: AuditedTable, recordId: string): Promise<AuditEntry[]> => {
+  const { data, error } = await supabase
+    .from("audit_log")
+    .select("*, actor:profiles!audit_log_actor_id_fkey ( full_name )")
+    .eq("table_name", tableName)
+    .eq("record_id", recordId)
+    .order("created_at", { ascending: false })
+    .limit(100);
+
+  if (error) throw error;
+  return (data as AuditEntry[]) ?? [];
+};
+
+export const AuditChangeList = ({ entry }: { entry: AuditEntry }) => {
+  const changes = auditChanges(entry);
+
+  if (changes.length === 0) {
+    return <span className="text-xs text-white/50">No field changes</span>;
+  }
+
+  return (
+    <ul className="space-y-1 text-xs">
+      {changes.map((change) => (
+        <li key={change.field} className="flex flex-wrap gap-x-2">
+          <span className="text-white/60">{auditFieldLabel(change.field)}:</span>
+          {entry.action === "update" ? (
+            <span className="text-white/80">
+              <span className="text-white/50 line-through">{formatAuditValue(change.before)}</span>
+              {" → "}
+              {formatAuditValue(change.after)}
+            </span>
+          ) : (
+            <span className="text-white/80">{formatAuditValue(entry.action === "delete" ? change.before : change.after)}</span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+// Change history for one row, newest first
+export const AuditHistory = ({ tableName, recordId }: { tableName: AuditedTable; recordId: string }) => {
+  const { data: entries = [], isLoading, isError, error } = useQuery({
+    queryKey: ["audit", tableName, recordId],
+    queryFn: () => fetchRecordHistory(tableName, recordId),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center gap-2 py-8 text-white/60">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Loading history...
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <p className="py-8 text-center text-destructive">
+        {error instanceof Error ? error.message : "We couldn't load the history."}
+      </p>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="py-8 text-center text-white/60">No changes recorded yet.</p>;
+  }
+
+  return (
+    <ol className="max-h-[420px] space-y-3 overflow-y-auto pr-1">
+      {entries.map((entry) => (
+        <li key={entry.id} className="rounded-xl border border-white/10 bg-white/5 p-3">
+          <div className="mb-2 flex flex-wrap items-center gap-2 text-sm">
+            <Badge variant="secondary" className={`uppercase tracking-wide ${AUDIT_ACTION_CLASSES[entry.action as AuditAction]}`}>
+              {AUDIT_ACTION_LABELS[entry.action as AuditAction]}
+            </Badge>
+            <span className="text-white/80">{entry.actor?.full_name ?? "System"}</span>
+            <span className="ml-auto text-xs text-white/50">{new Date(entry.created_at).toLocaleString()}</span>
+          </div>
+          <AuditChangeList entry={entry} />
+        </li>
+      ))}
+    </ol>
+  );
+};
@@ -1,20 +1,42 @@
 import { useEffect, useState } from "react";
-import { useNavigate, useLocation } from "react-router-dom";
+import { useNavigate, useLocation, Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { TillLockScreen } from "@/components/TillLockScreen";
+import { useCurrentProfile } from "@/hooks/use-current-profile";
+import { useTill } from "@/hooks/use-till";
+import { ROLE_LABELS, UserRole, hasRole } from "@/lib/roles";
+import { toast } from "sonner";
+import { ShieldAlert } from "lucide-react";
 
-export const AuthGuard = ({ children }: { children: React.ReactNode }) => {
+interface AuthGuardProps {
+  children: React.ReactNode;
+  // Leave out to allow any signed-in user
+  roles?: UserRole[];
+}
+
+export const AuthGuard = ({ children, roles }: AuthGuardProps) => {
   const navigate = useNavigate();
   const location = useLocation();
+  const queryClient = useQueryClient();
   const [session, setSession] = useState<Session | null>(null);
   const [loading, setLoading] = useState(true);
+  const { data: profile, isLoading: loadingProfile } = useCurrentProfile();
+  const { till, session: tillSession } = useTill();
 
   useEffect(() => {
     // Set up auth state listener first
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (_event, session) => {
+      (event, session) => {
         setSession(session);
         setLoading(false);
+
+        // A different user may now be signed in on this till
+        if (event === "SIGNED_IN" || event === "SIGNED_OUT") {
+          queryClient.invalidateQueries({ queryKey: ["profile"] });
+        }
       }
     );
 
@@ -25,7 +47,7 @@ export const AuthGuard = ({ children }: { children: React.ReactNode }) => {
     });
 
     return () => subscription.unsubscribe();
-  }, []);
+  }, [queryClient]);
 
   useEffect(() => {
     if (!loading && !session && location.pathname !== "/auth") {
@@ -33,7 +55,18 @@ export const AuthGuard = ({ children }: { children: React.ReactNode }) => {
     }
   }, [session, loading, navigate, location]);
 
-  if (loading) {
+  // A deactivated account keeps its session until the token expires, so end it here
+  useEffect(() => {
+    if (session && profile && !profile.is_active) {
+      supabase.auth.signOut().then(() => {
+        queryClient.removeQueries({ queryKey: ["profile"] });
+        toast.error("This account has been deactivated. Ask an admin to restore access.");
+        navigate("/auth");
+      });
+    }
+  }, [session, profile, queryClient, navigate]);
+
+  if (loading || (roles && session && loadingProfile)) {
     return (
       <div className="flex min-h-screen items-center justify-center bg-background">
         <div className="text-center">
@@ -44,5 +77,28 @@ export const AuthGuard = ({ children }: { children: React.ReactNode }) => {
     );
   }
 
+  if (session && till && !tillSession) {
+    return <TillLockScreen till={till} />;
+  }
+
+  // On an unlocked till, pages follow the role of whoever unlocked it
+  if (session && !hasRole(tillSession?.operator ?? profile, roles)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background px-4">
+        <div className="glass-panel max-w-md space-y-4 border border-white/10 p-8 text-center">
+          <ShieldAlert className="mx-auto h-10 w-10 text-warning" />
+          <h1 className="text-2xl font-semibold text-white">Access restricted</h1>
+          <p className="text-muted-foreground">
+            This page is available to {roles.map((role) => ROLE_LABELS[role].toLowerCase()).join(" and ")} accounts
+            only. Ask an admin if you need access.
+          </p>
+          <Button asChild className="frosted-button">
+            <Link to="/">Back to dashboard</Link>
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
   return <>{children}</>;
 };
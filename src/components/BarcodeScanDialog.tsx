@@ -0,0 +1,193 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Camera, Loader2 } from "lucide-react";
+
+interface BarcodeScanDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onScan: (code: string) => void;
+  description?: string;
+}
+
+// The Shape Detection API isn't in TypeScript's DOM types yet
+type DetectedBarcode = { rawValue: string };
+type BarcodeDetectorInstance = { detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]> };
+type BarcodeDetectorConstructor = {
+  new (options?: { formats: string[] }): BarcodeDetectorInstance;
+  getSupportedFormats: () => Promise<string[]>;
+};
+
+const BARCODE_FORMATS = ["ean_13", "ean_8", "upc_a", "upc_e", "code_128", "data_matrix", "qr_code"];
+const DETECT_INTERVAL_MS = 250;
+
+const getBarcodeDetector = () =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// Reads one frame, resolving to null when there's no barcode in it
+type ReadFrame = (video: HTMLVideoElement) => Promise<string | null>;
+
+const createFrameReader = async (): Promise<ReadFrame> => {
+  const BarcodeDetector = getBarcodeDetector();
+  if (BarcodeDetector) {
+    const supported = await BarcodeDetector.getSupportedFormats();
+    const detector = new BarcodeDetector({ formats: BARCODE_FORMATS.filter((format) => supported.includes(format)) });
+    return async (video) => (await detector.detect(video))[0]?.rawValue || null;
+  }
+
+  // Safari and Firefox have no BarcodeDetector, so they decode in JavaScript.
+  // It's only loaded here to keep it out of the bundle everywhere else.
+  const [{ BrowserMultiFormatReader }, zxing] = await Promise.all([import("@zxing/browser"), import("@zxing/library")]);
+  const { BarcodeFormat, DecodeHintType, NotFoundException, ChecksumException, FormatException } = zxing;
+
+  const hints = new Map([
+    [
+      DecodeHintType.POSSIBLE_FORMATS,
+      [
+        BarcodeFormat.EAN_13,
+        BarcodeFormat.EAN_8,
+        BarcodeFormat.UPC_A,
+        BarcodeFormat.UPC_E,
+        BarcodeFormat.CODE_128,
+        BarcodeFormat.DATA_MATRIX,
+        BarcodeFormat.QR_CODE,
+      ],
+    ],
+  ]);
+  const reader = new BrowserMultiFormatReader(hints);
+
+  return async (video) => {
+    try {
+      return reader.decode(video).getText();
+    } catch (error) {
+      // Frames without a readable code are the norm, not a failure
+      if (error instanceof NotFoundException || error instanceof ChecksumException || error instanceof FormatException) {
+        return null;
+      }
+      throw error;
+    }
+  };
+};
+
+const BarcodeScanDialog = ({ open, onOpenChange, onScan, description }: BarcodeScanDialogProps) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const onScanRef = useRef(onScan);
+  const [status, setStatus] = useState<"starting" | "scanning" | "failed">("starting");
+  const [failure, setFailure] = useState<string | null>(null);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const fail = (message: string) => {
+      if (cancelled) return;
+      setFailure(message);
+      setStatus("failed");
+    };
+
+    const start = async () => {
+      setStatus("starting");
+      setFailure(null);
+
+      if (!navigator.mediaDevices?.getUserMedia) {
+        fail("This browser can't use the camera here. Open the site over HTTPS, or use a handheld scanner.");
+        return;
+      }
+
+      const readFrame = await createFrameReader();
+
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: { ideal: "environment" } } });
+      } catch (error) {
+        console.error("Failed to open camera", error);
+        fail("The camera couldn't be opened. Allow camera access for this site and try again.");
+        return;
+      }
+
+      const video = videoRef.current;
+      if (cancelled || !video) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
+
+      video.srcObject = stream;
+      await video.play();
+      setStatus("scanning");
+
+      const detect = async () => {
+        if (cancelled) return;
+
+        try {
+          const code = await readFrame(video);
+          if (code && !cancelled) {
+            cancelled = true;
+            stream?.getTracks().forEach((track) => track.stop());
+            onScanRef.current(code);
+            onOpenChange(false);
+            return;
+          }
+        } catch (error) {
+          console.error("Barcode detection failed", error);
+        }
+
+        timer = setTimeout(detect, DETECT_INTERVAL_MS);
+      };
+
+      detect();
+    };
+
+    start().catch((error) => {
+      console.error("Failed to start barcode scanner", error);
+      fail("The scanner couldn't be started.");
+    });
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [open, onOpenChange]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl font-semibold text-white">
+            <Camera className="h-6 w-6 text-primary" /> Scan barcode
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            {description ?? "Hold the barcode steady in front of the camera."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {status === "failed" ? (
+          <p className="rounded-lg border border-warning/40 bg-warning/10 px-3 py-2 text-sm text-warning">{failure}</p>
+        ) : (
+          <div className="relative overflow-hidden rounded-2xl border border-white/10 bg-black">
+            <video ref={videoRef} muted playsInline className="aspect-video w-full object-cover" />
+            {status === "starting" && (
+              <div className="absolute inset-0 flex items-center justify-center gap-2 text-white/70">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Opening camera...
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BarcodeScanDialog;
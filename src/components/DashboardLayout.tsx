@@ -1,14 +1,29 @@
-import { ReactNode, useEffect, useState } from "react";
+import { ReactNode, useState } from "react";
 import { useNavigate, Link, useLocation } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
+import { useCurrentProfile } from "@/hooks/use-current-profile";
+import { useActingUser, useTill } from "@/hooks/use-till";
+import { MANAGER_ROLES, ROLE_LABELS, UserRole, hasRole } from "@/lib/roles";
 import {
   LayoutDashboard,
   Package,
+  ArrowLeftRight,
+  ClipboardList,
+  CalendarX,
   ShoppingCart,
+  Wallet,
+  Smartphone,
   FileText,
   Truck,
+  ClipboardPen,
+  TrendingDown,
+  PackageCheck,
+  UserCog,
+  History,
   LogOut,
+  Lock,
   Pill,
   Menu,
   X,
@@ -22,32 +37,40 @@ interface DashboardLayoutProps {
 const DashboardLayout = ({ children }: DashboardLayoutProps) => {
   const navigate = useNavigate();
   const location = useLocation();
-  const [userEmail, setUserEmail] = useState<string>("");
+  const queryClient = useQueryClient();
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
-
-  useEffect(() => {
-    supabase.auth.getUser().then(({ data: { user } }) => {
-      if (user) {
-        setUserEmail(user.email || "");
-      }
-    });
-  }, []);
+  const { data: profile } = useCurrentProfile();
+  const { till, session: tillSession, lock } = useTill();
+  // On an unlocked till the menu follows whoever unlocked it
+  const actingUser = useActingUser();
 
   const handleLogout = async () => {
     await supabase.auth.signOut();
+    queryClient.removeQueries({ queryKey: ["profile"] });
     toast.success("Logged out successfully");
     navigate("/auth");
   };
 
-  const navItems = [
+  const navItems: { path: string; icon: typeof Package; label: string; roles?: UserRole[] }[] = [
     { path: "/", icon: LayoutDashboard, label: "Dashboard" },
     { path: "/inventory", icon: Package, label: "Inventory" },
+    { path: "/stock-movements", icon: ArrowLeftRight, label: "Stock Ledger" },
+    { path: "/stock-takes", icon: ClipboardList, label: "Stock Takes" },
+    { path: "/expired-stock", icon: CalendarX, label: "Expired Stock", roles: MANAGER_ROLES },
     { path: "/sales", icon: ShoppingCart, label: "Sales" },
+    { path: "/shifts", icon: Wallet, label: "Cash Shifts" },
+    { path: "/mpesa-reconciliation", icon: Smartphone, label: "M-Pesa Reconciliation", roles: MANAGER_ROLES },
     { path: "/prescriptions", icon: FileText, label: "Prescriptions" },
-    { path: "/suppliers", icon: Truck, label: "Suppliers" },
+    { path: "/suppliers", icon: Truck, label: "Suppliers", roles: MANAGER_ROLES },
+    { path: "/reorder", icon: TrendingDown, label: "Reorder Planner", roles: MANAGER_ROLES },
+    { path: "/purchase-orders", icon: ClipboardPen, label: "Purchase Orders", roles: MANAGER_ROLES },
+    { path: "/goods-received", icon: PackageCheck, label: "Goods Received", roles: MANAGER_ROLES },
+    { path: "/staff", icon: UserCog, label: "Staff", roles: ["admin"] },
+    { path: "/audit", icon: History, label: "Audit Trail", roles: ["admin"] },
   ];
 
-  const isActive = (path: string) => location.pathname === path;
+  const isActive = (path: string) =>
+    path === "/" ? location.pathname === path : location.pathname.startsWith(path);
 
   return (
     <div className="relative flex min-h-screen overflow-hidden">
@@ -78,7 +101,7 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
         </div>
 
         <nav className="flex-1 space-y-2 overflow-y-auto p-4">
-          {navItems.map((item) => (
+          {navItems.filter((item) => hasRole(actingUser, item.roles)).map((item) => (
             <Link
               key={item.path}
               to={item.path}
@@ -100,10 +123,37 @@ const DashboardLayout = ({ children }: DashboardLayoutProps) => {
         </nav>
 
         <div className="border-t border-white/10 p-5">
-          <div className="mb-4 rounded-xl border border-white/10 bg-white/5 p-4 text-sm text-white/70">
-            <p className="text-xs uppercase tracking-[0.2em] text-white/40">Signed in</p>
-            <p className="truncate text-base font-semibold text-white">{userEmail}</p>
-          </div>
+          {till && tillSession ? (
+            <div className="mb-4 rounded-xl border border-white/10 bg-white/5 p-4 text-sm text-white/70">
+              <p className="text-xs uppercase tracking-[0.2em] text-white/40">Serving • {till.name}</p>
+              <p className="truncate text-base font-semibold text-white">{tillSession.operator.full_name}</p>
+              <p className="truncate text-xs text-white/60">{ROLE_LABELS[tillSession.operator.role]}</p>
+            </div>
+          ) : (
+            <Link
+              to="/profile"
+              onClick={() => setMobileMenuOpen(false)}
+              className="mb-4 block rounded-xl border border-white/10 bg-white/5 p-4 text-sm text-white/70 transition hover:border-white/20 hover:bg-white/10"
+            >
+              <p className="text-xs uppercase tracking-[0.2em] text-white/40">Signed in • My profile</p>
+              <p className="truncate text-base font-semibold text-white">{profile?.full_name ?? profile?.email}</p>
+              {profile && (
+                <p className="truncate text-xs text-white/60">
+                  {ROLE_LABELS[profile.role]} • {profile.email}
+                </p>
+              )}
+            </Link>
+          )}
+          {till && (
+            <Button
+              onClick={() => lock()}
+              variant="outline"
+              className="mb-3 w-full justify-center gap-3 rounded-xl border-white/20 bg-white/10 text-white hover:bg-white/20"
+            >
+              <Lock className="h-4 w-4" />
+              Lock till
+            </Button>
+          )}
           <Button
             onClick={handleLogout}
             variant="outline"
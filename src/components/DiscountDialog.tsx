@@ -0,0 +1,167 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { DISCOUNT_TYPE_LABELS, Discount, LineDiscountType } from "@/lib/discounts";
+import { toast } from "sonner";
+import { BadgePercent } from "lucide-react";
+
+interface DiscountDialogProps<T extends LineDiscountType> {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  title: string;
+  description: string;
+  types: readonly T[];
+  discount: Discount<T> | null | undefined;
+  // What the line or basket costs before this discount
+  amount: number;
+  // Units on the line, for price overrides
+  quantity?: number;
+  onApply: (discount: Discount<T> | null) => void;
+}
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const discountOff = (type: LineDiscountType, value: number, amount: number, quantity: number) => {
+  if (type === "percent") return (amount * value) / 100;
+  if (type === "price") return amount - quantity * value;
+  return value;
+};
+
+const DiscountDialog = <T extends LineDiscountType>({
+  open,
+  onOpenChange,
+  title,
+  description,
+  types,
+  discount,
+  amount,
+  quantity = 1,
+  onApply,
+}: DiscountDialogProps<T>) => {
+  const [type, setType] = useState<T>(types[0]);
+  const [value, setValue] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setType(discount?.type ?? types[0]);
+      setValue(discount ? String(discount.value) : "");
+    }
+  }, [open, discount, types]);
+
+  const numericValue = Number(value) || 0;
+  const off = discountOff(type, numericValue, amount, quantity);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (value.trim() === "" || Number.isNaN(Number(value)) || numericValue < 0) {
+      toast.error("Enter a discount of zero or more");
+      return;
+    }
+
+    if (type === "percent" && numericValue > 100) {
+      toast.error("A percentage discount can't be more than 100%");
+      return;
+    }
+
+    if (off < 0) {
+      toast.error("A price override can't be above the selling price");
+      return;
+    }
+
+    if (off > amount) {
+      toast.error("The discount can't be more than the price");
+      return;
+    }
+
+    onApply(off === 0 ? null : { type, value: numericValue });
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl font-semibold text-white">
+            <BadgePercent className="h-6 w-6 text-primary" /> {title}
+          </DialogTitle>
+          <DialogDescription className="text-white/60">{description}</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <ToggleGroup
+            type="single"
+            value={type}
+            onValueChange={(next) => next && setType(next as T)}
+            className="justify-start rounded-lg border border-white/20 p-0.5"
+          >
+            {types.map((option) => (
+              <ToggleGroupItem key={option} value={option} className="h-8 px-3 text-white/70 data-[state=on]:text-white">
+                {DISCOUNT_TYPE_LABELS[option]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-white/80">
+              {type === "percent" ? "Percentage" : type === "price" ? "Unit price (KES)" : "Amount (KES)"}
+            </label>
+            <Input
+              type="number"
+              min={0}
+              step="0.01"
+              value={value}
+              onChange={(event) => setValue(event.target.value)}
+              autoFocus
+            />
+            <p className="text-xs text-white/60">
+              KES {formatKes(Math.max(off, 0))} off KES {formatKes(amount)}
+            </p>
+          </div>
+
+          <div className="flex justify-between gap-3">
+            {discount ? (
+              <Button
+                type="button"
+                variant="ghost"
+                onClick={() => {
+                  onApply(null);
+                  onOpenChange(false);
+                }}
+                className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+              >
+                Remove discount
+              </Button>
+            ) : (
+              <span />
+            )}
+            <div className="flex gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" className="frosted-button">
+                Apply
+              </Button>
+            </div>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DiscountDialog;
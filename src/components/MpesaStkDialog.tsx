@@ -0,0 +1,226 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { usePharmacySettings } from "@/hooks/use-pharmacy-settings";
+import { useTill } from "@/hooks/use-till";
+import { Tender } from "@/lib/payments";
+import { toast } from "sonner";
+import { Loader2, Smartphone } from "lucide-react";
+
+interface MpesaStkDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Most the customer can be asked for: the balance left on the sale
+  maxAmount: number;
+  defaultPhone: string;
+  onPaid: (tender: Tender) => void;
+}
+
+const POLL_INTERVAL_MS = 3000;
+
+const fetchMpesaPayment = async (id: string): Promise<Tables<"mpesa_payments">> => {
+  const { data, error } = await supabase.from("mpesa_payments").select("*").eq("id", id).single();
+
+  if (error) throw error;
+  return data;
+};
+
+// Edge function errors carry our message in the response body
+const functionErrorMessage = async (error: Error) => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    if (body?.error) return body.error as string;
+  }
+  return error.message;
+};
+
+// Sends the customer an M-Pesa PIN prompt and waits for Safaricom's
+// confirmation. The tender is only added to the sale once the payment is
+// confirmed, and record_sale checks that again before accepting it.
+const MpesaStkDialog = ({
+  open,
+  onOpenChange,
+  maxAmount,
+  defaultPhone,
+  onPaid,
+}: MpesaStkDialogProps) => {
+  const { data: settings } = usePharmacySettings();
+  const { session: tillSession } = useTill();
+  const [phone, setPhone] = useState("");
+  const [amount, setAmount] = useState("");
+  const [paymentId, setPaymentId] = useState<string | null>(null);
+
+  // STK Push only takes whole shillings; any cents are left for another tender
+  const suggestedAmount = Math.floor(maxAmount);
+
+  useEffect(() => {
+    if (open) {
+      setPhone(defaultPhone);
+      setAmount(suggestedAmount >= 1 ? String(suggestedAmount) : "");
+      setPaymentId(null);
+    }
+  }, [open, defaultPhone, suggestedAmount]);
+
+  const { data: payment } = useQuery({
+    queryKey: ["mpesa-payments", paymentId],
+    queryFn: () => fetchMpesaPayment(paymentId),
+    enabled: Boolean(paymentId),
+    refetchInterval: (query) => (query.state.data?.status === "pending" || !query.state.data ? POLL_INTERVAL_MS : false),
+  });
+
+  useEffect(() => {
+    if (!payment || payment.id !== paymentId || payment.status === "pending") return;
+
+    setPaymentId(null);
+    if (payment.status === "paid") {
+      toast.success(`M-Pesa payment ${payment.mpesa_receipt_number} received`);
+      onPaid({
+        method: "mpesa",
+        amount: Number(payment.amount),
+        tendered: null,
+        reference: payment.mpesa_receipt_number,
+        mpesaPaymentId: payment.id,
+      });
+      onOpenChange(false);
+    } else {
+      toast.error(payment.result_description ?? "The M-Pesa payment did not go through");
+    }
+  }, [payment, paymentId, onPaid, onOpenChange]);
+
+  const pushMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.functions.invoke("mpesa-stk-push", {
+        body: {
+          phone: phone.trim(),
+          amount: Number(amount),
+          account_reference: settings?.pharmacy_name,
+          till_session_id: tillSession?.id ?? null,
+        },
+      });
+
+      if (error) throw new Error(await functionErrorMessage(error));
+      return data as { id: string; customerMessage: string };
+    },
+    onSuccess: (result) => {
+      setPaymentId(result.id);
+    },
+    onError: (error) => {
+      console.error("Failed to send M-Pesa request", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send M-Pesa request");
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    const value = Number(amount);
+    if (!Number.isInteger(value) || value < 1) {
+      toast.error("M-Pesa payments must be whole shillings of at least KES 1");
+      return;
+    }
+
+    if (value > maxAmount) {
+      toast.error(`Only KES ${maxAmount.toLocaleString()} is left to pay`);
+      return;
+    }
+
+    if (!phone.trim()) {
+      toast.error("Enter the customer's M-Pesa number");
+      return;
+    }
+
+    pushMutation.mutate();
+  };
+
+  const waiting = Boolean(paymentId);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl font-semibold text-white">
+            <Smartphone className="h-6 w-6 text-success" /> M-Pesa STK Push
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            The customer gets a prompt on their phone to enter their M-Pesa PIN. The payment is added to the sale
+            once Safaricom confirms it.
+          </DialogDescription>
+        </DialogHeader>
+
+        {waiting ? (
+          <div className="space-y-5">
+            <div className="flex flex-col items-center gap-3 py-6 text-center">
+              <Loader2 className="h-8 w-8 animate-spin text-success" />
+              <p className="font-medium text-white">Waiting for the customer to enter their PIN</p>
+              <p className="text-sm text-white/60">
+                KES {Number(amount).toLocaleString()} requested from {phone}
+              </p>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                Stop waiting
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Phone number</label>
+                <Input
+                  type="tel"
+                  placeholder="0712 345 678"
+                  value={phone}
+                  onChange={(event) => setPhone(event.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Amount (KES)</label>
+                <Input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={amount}
+                  onChange={(event) => setAmount(event.target.value)}
+                />
+              </div>
+            </div>
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={pushMutation.isPending} className="frosted-button">
+                {pushMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send request
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MpesaStkDialog;
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useParkedBaskets } from "@/hooks/use-parked-baskets";
+import { useTill } from "@/hooks/use-till";
+import { ParkedBasket, ParkedBasketEntry } from "@/lib/parked-baskets";
+import { toast } from "sonner";
+import { Loader2, PauseCircle, Trash2 } from "lucide-react";
+
+interface ParkedBasketsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Recalling replaces the basket on screen, so it is only offered when that is empty
+  canRecall: boolean;
+  onRecall: (basket: ParkedBasket) => void;
+}
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const ParkedBasketsDialog = ({ open, onOpenChange, canRecall, onRecall }: ParkedBasketsDialogProps) => {
+  const queryClient = useQueryClient();
+  const { session: tillSession } = useTill();
+  const [discarding, setDiscarding] = useState<ParkedBasketEntry | null>(null);
+
+  const { data: baskets = [], isLoading } = useParkedBaskets();
+
+  // Picking up claims the basket; it stays listed until it is sold or discarded
+  const recallMutation = useMutation({
+    mutationFn: async (basket: ParkedBasketEntry) => {
+      const { data, error } = await supabase.rpc("recall_parked_basket", {
+        p_basket_id: basket.id,
+        p_till_session_id: tillSession?.id ?? null,
+      });
+      if (error) throw error;
+      return data as unknown as ParkedBasket;
+    },
+    onSuccess: (recalled) => {
+      queryClient.invalidateQueries({ queryKey: ["parked-baskets"] });
+      onRecall(recalled);
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error("Failed to pick up parked basket", error);
+      toast.error(error instanceof Error ? error.message : "Failed to pick up parked basket");
+      queryClient.invalidateQueries({ queryKey: ["parked-baskets"] });
+    },
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: async (basket: ParkedBasketEntry) => {
+      const { error } = await supabase.rpc("discard_parked_basket", {
+        p_basket_id: basket.id,
+        p_till_session_id: tillSession?.id ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, basket) => {
+      toast.success(`Discarded "${basket.label}"`);
+      setDiscarding(null);
+      queryClient.invalidateQueries({ queryKey: ["parked-baskets"] });
+    },
+    onError: (error) => {
+      console.error("Failed to discard parked basket", error);
+      toast.error(error instanceof Error ? error.message : "Failed to discard parked basket");
+      queryClient.invalidateQueries({ queryKey: ["parked-baskets"] });
+    },
+  });
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-2xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2 text-2xl font-semibold text-white">
+              <PauseCircle className="h-6 w-6 text-primary" /> Parked baskets
+            </DialogTitle>
+            <DialogDescription className="text-white/60">
+              Baskets put aside on any till, oldest first. A basket that has been picked up stays here until its
+              sale is recorded. Prices and stock are checked again when the sale is completed.
+            </DialogDescription>
+          </DialogHeader>
+
+          {!canRecall && (
+            <p className="rounded-lg border border-warning/40 bg-warning/10 px-3 py-2 text-sm text-warning">
+              Complete or park the basket you're serving before picking up another.
+            </p>
+          )}
+
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto">
+            {isLoading ? (
+              <div className="flex items-center justify-center gap-2 py-6 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading parked baskets...
+              </div>
+            ) : baskets.length === 0 ? (
+              <p className="py-6 text-center text-muted-foreground">No baskets are parked</p>
+            ) : (
+              baskets.map((basket) => (
+                <div
+                  key={basket.id}
+                  className="flex flex-col gap-3 rounded-2xl border border-white/10 p-4 sm:flex-row sm:items-center sm:justify-between"
+                >
+                  <div className="space-y-1">
+                    <p className="font-medium text-white">{basket.label}</p>
+                    <p className="text-sm text-white/70">
+                      {basket.items.map((item) => `${item.name} ×${item.quantity}`).join(" • ")}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      KES {formatKes(Number(basket.total_amount))} • parked{" "}
+                      {basket.created_at ? new Date(basket.created_at).toLocaleTimeString() : ""}
+                      {basket.parker?.full_name && ` by ${basket.parker.full_name}`}
+                      {basket.tills?.name && ` on ${basket.tills.name}`}
+                    </p>
+                    {basket.claimed_at && (
+                      <p className="text-xs text-warning">
+                        Picked up {new Date(basket.claimed_at).toLocaleTimeString()}
+                        {basket.claimer?.full_name && ` by ${basket.claimer.full_name}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex shrink-0 items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setDiscarding(basket)}
+                      disabled={recallMutation.isPending || discardMutation.isPending}
+                      className="text-destructive/80 hover:text-destructive"
+                      title="Discard basket"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      onClick={() => recallMutation.mutate(basket)}
+                      disabled={!canRecall || recallMutation.isPending}
+                      className="frosted-button"
+                    >
+                      Pick up
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={Boolean(discarding)} onOpenChange={(next) => !next && setDiscarding(null)}>
+        <AlertDialogContent className="border border-white/10 bg-background/95 text-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Discard parked basket</AlertDialogTitle>
+            <AlertDialogDescription className="text-white/60">
+              "{discarding?.label}" will be removed from the parked list. Nothing has been sold, so stock is unaffected.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-white/20 bg-transparent text-white hover:bg-white/10">
+              Keep it
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => discarding && discardMutation.mutate(discarding)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/80"
+            >
+              Discard
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default ParkedBasketsDialog;
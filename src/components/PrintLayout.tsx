@@ -0,0 +1,74 @@
+import { ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { usePharmacySettings } from "@/hooks/use-pharmacy-settings";
+import { ArrowLeft, Loader2, Printer } from "lucide-react";
+
+interface PrintLayoutProps {
+  title: string;
+  documentNumber?: string;
+  loading?: boolean;
+  error?: string | null;
+  actions?: ReactNode;
+  children: ReactNode;
+}
+
+// A4 document shell for printable records. The toolbar is hidden when
+// printing, and "Save as PDF" in the browser print dialog gives a PDF copy.
+const PrintLayout = ({ title, documentNumber, loading, error, actions, children }: PrintLayoutProps) => {
+  const navigate = useNavigate();
+  const { data: settings } = usePharmacySettings();
+
+  return (
+    <div className="min-h-screen px-4 py-8 print:p-0">
+      <div className="mx-auto mb-6 flex max-w-[210mm] items-center justify-between print:hidden">
+        <Button variant="ghost" onClick={() => navigate(-1)} className="text-white/70 hover:bg-white/10 hover:text-white">
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+        <div className="flex items-center gap-3">
+          {actions}
+          <Button onClick={() => window.print()} disabled={loading || Boolean(error)} className="frosted-button">
+            <Printer className="mr-2 h-4 w-4" /> Print
+          </Button>
+        </div>
+      </div>
+
+      <div className="print-sheet">
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-24 text-slate-500">
+            <Loader2 className="h-5 w-5 animate-spin" /> Loading document...
+          </div>
+        ) : error ? (
+          <p className="py-24 text-center text-red-600">{error}</p>
+        ) : (
+          <>
+            <header className="mb-8 flex items-start justify-between border-b border-slate-300 pb-6">
+              <div>
+                <p className="text-2xl font-bold tracking-wide">{settings?.pharmacy_name ?? "Pawa Pharmacy"}</p>
+                <p className="whitespace-pre-line text-sm text-slate-500">{settings?.pharmacy_address || "Kenya"}</p>
+                {settings?.pharmacy_phone && <p className="text-sm text-slate-500">Tel: {settings.pharmacy_phone}</p>}
+                {(settings?.kra_pin || settings?.ppb_licence_number) && (
+                  <p className="text-xs text-slate-500">
+                    {[
+                      settings.kra_pin && `KRA PIN ${settings.kra_pin}`,
+                      settings.ppb_licence_number && `PPB Licence ${settings.ppb_licence_number}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                )}
+              </div>
+              <div className="text-right">
+                <p className="text-lg font-semibold uppercase tracking-wide">{title}</p>
+                {documentNumber && <p className="font-mono text-sm text-slate-600">{documentNumber}</p>}
+              </div>
+            </header>
+            {children}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PrintLayout;
@@ -0,0 +1,393 @@
+import { useEffect, useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useActingUser, useTill } from "@/hooks/use-till";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentMethod } from "@/lib/payments";
+import { MANAGER_ROLES, hasRole } from "@/lib/roles";
+import { RETURN_RESTOCK_TARGETS, ReturnRestockTarget, isExpired } from "@/lib/stock";
+import { withSupervisorSession } from "@/lib/supervisor";
+import { toast } from "sonner";
+import { Loader2, Undo2 } from "lucide-react";
+
+type ReturnableSale = Tables<"sales"> & {
+  sale_items: (Tables<"sale_items"> & {
+    medicines?: { name: string; requires_prescription: boolean | null } | null;
+    medicine_batches?: { batch_number: string; expiry_date: string; status: string } | null;
+    sale_return_items: { quantity: number; total_price: number }[];
+  })[];
+};
+
+type ReturnLine = {
+  quantity: string;
+  restockTo: ReturnRestockTarget;
+};
+
+const fetchReturnableSale = async (saleId: string): Promise<ReturnableSale> => {
+  const { data, error } = await supabase
+    .from("sales")
+    .select(
+      `*, sale_items ( *, medicines ( name, requires_prescription ),
+      medicine_batches ( batch_number, expiry_date, status ), sale_return_items ( quantity, total_price ) )`,
+    )
+    .eq("id", saleId)
+    .single();
+
+  if (error) throw error;
+  return data as ReturnableSale;
+};
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+interface ReturnSaleDialogProps {
+  saleId: string | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Units can only go back on sale into the batch they came from while it is
+// still in date and on sale; otherwise they default to quarantine. Returning
+// prescription-only items needs a pharmacist: one serving signs off
+// themselves, anyone else has a pharmacist sign in to approve.
+const ReturnSaleDialog = ({ saleId, onOpenChange }: ReturnSaleDialogProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const actingUser = useActingUser();
+  const { session: tillSession } = useTill();
+  const [lines, setLines] = useState<Record<string, ReturnLine>>({});
+  const [refundMethod, setRefundMethod] = useState<PaymentMethod>("cash");
+  const [reason, setReason] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const open = Boolean(saleId);
+
+  const { data: sale, isLoading } = useQuery({
+    queryKey: ["sales", saleId, "returnable"],
+    queryFn: () => fetchReturnableSale(saleId),
+    enabled: open,
+  });
+
+  const items = useMemo(
+    () =>
+      (sale?.sale_items ?? []).map((item) => {
+        const returned = item.sale_return_items.reduce((sum, line) => sum + line.quantity, 0);
+        const refunded = item.sale_return_items.reduce((sum, line) => sum + Number(line.total_price), 0);
+        const batch = item.medicine_batches;
+        return {
+          ...item,
+          remaining: item.quantity - returned,
+          refunded,
+          canRestock: Boolean(batch) && batch.status === "available" && !isExpired(batch.expiry_date),
+        };
+      }),
+    [sale],
+  );
+
+  useEffect(() => {
+    if (open) {
+      setLines({});
+      setReason("");
+      setEmail("");
+      setPassword("");
+    }
+  }, [open, saleId]);
+
+  useEffect(() => {
+    // Sales paid with several tenders default to a cash refund
+    if (sale) {
+      const method = sale.payment_method as PaymentMethod;
+      setRefundMethod(PAYMENT_METHODS.includes(method) ? method : "cash");
+    }
+  }, [sale]);
+
+  const lineFor = (item: (typeof items)[number]): ReturnLine =>
+    lines[item.id] ?? { quantity: "", restockTo: item.canRestock ? "available" : "quarantined" };
+
+  const updateLine = (item: (typeof items)[number], update: Partial<ReturnLine>) =>
+    setLines((prev) => ({ ...prev, [item.id]: { ...lineFor(item), ...update } }));
+
+  // Mirrors record_sale_return: the net price paid, with the last units of a
+  // line refunding whatever is left of it
+  const refundFor = (item: (typeof items)[number], quantity: number) =>
+    quantity === item.remaining
+      ? Number(item.total_price) - item.refunded
+      : Math.round((Number(item.total_price) * quantity * 100) / item.quantity) / 100;
+
+  const selected = items
+    .map((item) => ({ item, line: lineFor(item), quantity: Number(lineFor(item).quantity) || 0 }))
+    .filter(({ quantity }) => quantity > 0);
+
+  const refundTotal = selected.reduce((sum, { item, quantity }) => sum + refundFor(item, quantity), 0);
+  const needsApproval =
+    selected.some(({ item }) => item.medicines?.requires_prescription) && !hasRole(actingUser, MANAGER_ROLES);
+
+  const returnMutation = useMutation({
+    mutationFn: async () => {
+      let approvalId: string | null = null;
+
+      if (needsApproval) {
+        approvalId = await withSupervisorSession(email, password, async (client) => {
+          const { data, error } = await client.rpc("grant_return_approval", {
+            p_sale_id: sale.id,
+            p_requested_by: actingUser?.id ?? null,
+          });
+          if (error) throw error;
+          return data;
+        });
+      }
+
+      const { data, error } = await supabase.rpc("record_sale_return", {
+        p_sale_id: sale.id,
+        p_items: selected.map(({ item, line, quantity }) => ({
+          sale_item_id: item.id,
+          quantity,
+          restock_to: line.restockTo,
+        })),
+        p_refund_method: refundMethod,
+        p_reason: reason.trim(),
+        p_till_session_id: tillSession?.id ?? null,
+        p_approval_id: approvalId,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (returnId) => {
+      toast.success(`Return recorded. Refund KES ${formatKes(refundTotal)}`);
+      onOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory", "medicines"] });
+      queryClient.invalidateQueries({ queryKey: ["cash-shifts"] });
+      navigate(`/returns/${returnId}/credit-note`);
+    },
+    onError: (error) => {
+      console.error("Failed to record return", error);
+      toast.error(error instanceof Error ? error.message : "Failed to record return");
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (selected.length === 0) {
+      toast.error("Enter a quantity for at least one item");
+      return;
+    }
+
+    const excessive = selected.find(({ item, quantity }) => quantity > item.remaining);
+    if (excessive) {
+      toast.error(`Only ${excessive.item.remaining} of ${excessive.item.medicines?.name ?? "this item"} can be returned`);
+      return;
+    }
+
+    if (reason.trim().length < 3) {
+      toast.error("Give a reason for the return");
+      return;
+    }
+
+    if (needsApproval && (!email.trim() || !password)) {
+      toast.error("A pharmacist must sign in to approve returning prescription-only items");
+      return;
+    }
+
+    returnMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl font-semibold text-white">
+            <Undo2 className="h-6 w-6 text-primary" /> Return items
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            {sale
+              ? `Sale ${sale.sale_number} on ${new Date(sale.created_at).toLocaleString()}. A credit note is issued for the refund.`
+              : "Loading sale..."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading sale...
+          </div>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-5">
+            <div className="overflow-x-auto rounded-2xl border border-white/10">
+              <Table>
+                <TableHeader className="bg-white/5">
+                  <TableRow className="border-white/10">
+                    <TableHead className="text-white/70">Item</TableHead>
+                    <TableHead className="text-right text-white/70">Sold</TableHead>
+                    <TableHead className="text-white/70">Return</TableHead>
+                    <TableHead className="text-white/70">Restock to</TableHead>
+                    <TableHead className="text-right text-white/70">Refund</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {items.map((item) => {
+                    const line = lineFor(item);
+                    return (
+                      <TableRow key={item.id} className="border-white/5">
+                        <TableCell className="text-white/80">
+                          {item.medicines?.name ?? "Item"}
+                          {item.medicines?.requires_prescription && (
+                            <span className="ml-2 text-xs text-warning">Rx</span>
+                          )}
+                          {item.medicine_batches && (
+                            <span className="block text-xs text-muted-foreground">
+                              Batch {item.medicine_batches.batch_number}
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right text-white/80">
+                          {item.quantity}
+                          {item.remaining < item.quantity && (
+                            <span className="block text-xs text-muted-foreground">
+                              {item.quantity - item.remaining} returned
+                            </span>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={item.remaining}
+                            value={line.quantity}
+                            placeholder="0"
+                            disabled={item.remaining === 0}
+                            onChange={(event) => updateLine(item, { quantity: event.target.value })}
+                            className="h-9 w-20"
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={line.restockTo}
+                            onValueChange={(value) => updateLine(item, { restockTo: value as ReturnRestockTarget })}
+                            disabled={item.remaining === 0}
+                          >
+                            <SelectTrigger className="h-9 w-40">
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(RETURN_RESTOCK_TARGETS) as ReturnRestockTarget[]).map((target) => (
+                                <SelectItem
+                                  key={target}
+                                  value={target}
+                                  disabled={target === "available" && !item.canRestock}
+                                >
+                                  {RETURN_RESTOCK_TARGETS[target]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell className="text-right text-white/80">
+                          {formatKes(refundFor(item, Number(line.quantity) || 0))}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Refund paid by</label>
+                <Select value={refundMethod} onValueChange={(value) => setRefundMethod(value as PaymentMethod)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Reason</label>
+                <Input
+                  placeholder="e.g. Wrong strength dispensed"
+                  value={reason}
+                  onChange={(event) => setReason(event.target.value)}
+                />
+              </div>
+            </div>
+
+            {needsApproval && (
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white/80">Pharmacist email</label>
+                  <Input type="email" autoComplete="off" value={email} onChange={(event) => setEmail(event.target.value)} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-sm font-medium text-white/80">Password</label>
+                  <Input
+                    type="password"
+                    autoComplete="off"
+                    value={password}
+                    onChange={(event) => setPassword(event.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <p className="text-lg font-semibold text-white">
+                Refund: <span className="text-primary">KES {formatKes(refundTotal)}</span>
+              </p>
+              <div className="flex justify-end gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange(false)}
+                  className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={returnMutation.isPending || !sale} className="frosted-button">
+                  {returnMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Record return
+                </Button>
+              </div>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReturnSaleDialog;
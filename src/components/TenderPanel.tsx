@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import MpesaStkDialog from "@/components/MpesaStkDialog";
+import {
+  MPESA_CODE_PATTERN,
+  PAYMENT_METHODS,
+  PAYMENT_METHOD_LABELS,
+  PaymentMethod,
+  TENDER_REFERENCE_LABELS,
+  Tender,
+  tenderChange,
+  tenderedTotal,
+} from "@/lib/payments";
+import { toast } from "sonner";
+import { Plus, Smartphone, X } from "lucide-react";
+
+interface TenderPanelProps {
+  total: number;
+  tenders: Tender[];
+  onChange: (tenders: Tender[]) => void;
+  // Prefills the M-Pesa prompt
+  customerPhone?: string;
+}
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const roundKes = (value: number) => Math.round(value * 100) / 100;
+
+// Tenders are taken one at a time until nothing is left to pay. Leaving the
+// amount blank pays the rest of the balance; cash handed over beyond the
+// balance is recorded as tendered and the difference given as change.
+// M-Pesa is best taken by STK Push. When the customer has already paid to the
+// till number the code from their message is typed in, and the sale is only
+// recorded once that payment has reached M-Pesa reconciliation.
+const TenderPanel = ({ total, tenders, onChange, customerPhone = "" }: TenderPanelProps) => {
+  const [method, setMethod] = useState<PaymentMethod>("cash");
+  const [amount, setAmount] = useState("");
+  const [reference, setReference] = useState("");
+  const [stkOpen, setStkOpen] = useState(false);
+
+  const remaining = roundKes(total - tenderedTotal(tenders));
+  const change = tenderChange(tenders);
+  const referenceLabel = TENDER_REFERENCE_LABELS[method];
+
+  const handleAdd = () => {
+    if (remaining <= 0) {
+      toast.error("The sale is already paid in full");
+      return;
+    }
+
+    const entered = amount.trim() ? roundKes(Number(amount)) : remaining;
+    if (!Number.isFinite(entered) || entered <= 0) {
+      toast.error("Enter the amount paid");
+      return;
+    }
+
+    if (entered > remaining && method !== "cash") {
+      toast.error(`${PAYMENT_METHOD_LABELS[method]} can't pay more than the KES ${formatKes(remaining)} left`);
+      return;
+    }
+
+    if (method === "mpesa" && !MPESA_CODE_PATTERN.test(reference.trim())) {
+      toast.error("Enter the 10-character M-Pesa code from the customer's message, or request it by STK Push");
+      return;
+    }
+
+    onChange([
+      ...tenders,
+      {
+        method,
+        amount: Math.min(entered, remaining),
+        tendered: entered > remaining ? entered : null,
+        reference: referenceLabel ? reference.trim() || null : null,
+      },
+    ]);
+    setAmount("");
+    setReference("");
+  };
+
+  return (
+    <div className="space-y-3 rounded-2xl border border-primary/10 p-4">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium text-white/80">Payment</span>
+        {remaining > 0 ? (
+          <span className="text-sm text-warning">KES {formatKes(remaining)} to pay</span>
+        ) : remaining < 0 ? (
+          <span className="text-sm text-destructive">Overpaid by KES {formatKes(-remaining)}</span>
+        ) : (
+          <span className="text-sm text-success">Paid in full</span>
+        )}
+      </div>
+
+      {tenders.length > 0 && (
+        <ul className="space-y-2">
+          {tenders.map((tender, index) => (
+            <li key={index} className="flex items-center justify-between gap-3 rounded-lg bg-white/5 px-3 py-2 text-sm">
+              <div>
+                <span className="font-medium text-white">{PAYMENT_METHOD_LABELS[tender.method]}</span>
+                {tender.reference && <span className="ml-2 font-mono text-xs text-white/60">{tender.reference}</span>}
+                {tender.tendered !== null && (
+                  <span className="ml-2 text-xs text-white/60">KES {formatKes(tender.tendered)} handed over</span>
+                )}
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">KES {formatKes(tender.amount)}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => onChange(tenders.filter((_, position) => position !== index))}
+                  className="h-7 w-7 text-destructive/80 hover:text-destructive"
+                  aria-label="Remove payment"
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {change > 0 && (
+        <p className="text-lg font-semibold">
+          Change: <span className="text-success">KES {formatKes(change)}</span>
+        </p>
+      )}
+
+      {remaining > 0 && (
+        <div className="grid gap-3 md:grid-cols-12">
+          <Select value={method} onValueChange={(value) => setMethod(value as PaymentMethod)}>
+            <SelectTrigger className="glass-panel border-primary/10 md:col-span-3">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {PAYMENT_METHODS.map((option) => (
+                <SelectItem key={option} value={option}>
+                  {PAYMENT_METHOD_LABELS[option]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Input
+            type="number"
+            min={0}
+            step="0.01"
+            placeholder={formatKes(remaining)}
+            value={amount}
+            onChange={(event) => setAmount(event.target.value)}
+            className="glass-panel border-primary/10 md:col-span-3"
+          />
+          <Input
+            placeholder={referenceLabel ?? "No reference needed"}
+            value={reference}
+            onChange={(event) => setReference(event.target.value)}
+            disabled={!referenceLabel}
+            className="glass-panel border-primary/10 md:col-span-4"
+          />
+          <Button type="button" variant="outline" onClick={handleAdd} className="md:col-span-2">
+            <Plus className="mr-1 h-4 w-4" /> Add
+          </Button>
+          {method === "mpesa" && (
+            <Button
+              type="button"
+              onClick={() => setStkOpen(true)}
+              disabled={remaining < 1}
+              className="frosted-button md:col-span-12"
+            >
+              <Smartphone className="mr-2 h-4 w-4" /> Request payment by STK Push
+            </Button>
+          )}
+        </div>
+      )}
+
+      <MpesaStkDialog
+        open={stkOpen}
+        onOpenChange={setStkOpen}
+        maxAmount={remaining}
+        defaultPhone={customerPhone}
+        onPaid={(tender) => onChange([...tenders, tender])}
+      />
+    </div>
+  );
+};
+
+export default TenderPanel;
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { TillOperator, useTill } from "@/hooks/use-till";
+import { RegisteredTill, TILL_PIN_PATTERN } from "@/lib/till";
+import { ROLE_LABELS } from "@/lib/roles";
+import { toast } from "sonner";
+import { ArrowLeft, Loader2, Lock, LogOut } from "lucide-react";
+
+const PIN_LENGTH = 6;
+
+const fetchTillStaff = async (tillId: string): Promise<TillOperator[]> => {
+  const { data, error } = await supabase.rpc("list_till_staff", { p_till_id: tillId });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+export const TillLockScreen = ({ till }: { till: RegisteredTill }) => {
+  const { unlock, forgetDevice } = useTill();
+  const [operator, setOperator] = useState<TillOperator | null>(null);
+  const [pin, setPin] = useState("");
+
+  const { data: staff = [], isLoading, error } = useQuery({
+    queryKey: ["till", "staff", till.id],
+    queryFn: () => fetchTillStaff(till.id),
+  });
+
+  // The till was retired or this browser is now signed in with another
+  // account; drop back to a normal session.
+  useEffect(() => {
+    if (error instanceof Error && error.message.includes("not registered")) {
+      toast.error(`${till.name} is no longer registered as a till on this account`);
+      forgetDevice();
+    }
+  }, [error, till.name, forgetDevice]);
+
+  const unlockMutation = useMutation({
+    mutationFn: async ({ member, value }: { member: TillOperator; value: string }) => {
+      const { data, error } = await supabase.rpc("unlock_till", {
+        p_till_id: till.id,
+        p_staff_id: member.id,
+        p_pin: value,
+      });
+
+      if (error) throw error;
+      if (!data) throw new Error("Wrong PIN");
+      return { id: data, operator: member };
+    },
+    onSuccess: (session) => {
+      setPin("");
+      setOperator(null);
+      unlock(session);
+      toast.success(`Till unlocked for ${session.operator.full_name}`);
+    },
+    onError: (error) => {
+      setPin("");
+      toast.error(error instanceof Error ? error.message : "Failed to unlock the till");
+    },
+  });
+
+  const submitPin = (value: string) => {
+    if (!operator || !TILL_PIN_PATTERN.test(value) || unlockMutation.isPending) return;
+    unlockMutation.mutate({ member: operator, value });
+  };
+
+  const handleSignOut = async () => {
+    await supabase.auth.signOut();
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-background via-muted to-secondary p-4">
+      <div className="glass-panel w-full max-w-2xl space-y-8 border border-white/10 p-8">
+        <div className="space-y-2 text-center">
+          <span className="mx-auto flex h-14 w-14 items-center justify-center rounded-2xl bg-primary/20 text-primary">
+            <Lock className="h-7 w-7" />
+          </span>
+          <p className="text-xs uppercase tracking-[0.3em] text-primary/70">{till.name}</p>
+          <h1 className="text-3xl font-semibold text-white">
+            {operator ? `Enter PIN for ${operator.full_name}` : "Who's serving?"}
+          </h1>
+          <p className="text-muted-foreground">
+            {operator
+              ? "Sales made until the till locks are recorded against you."
+              : "Tap your name and enter your PIN to unlock the till."}
+          </p>
+        </div>
+
+        {operator ? (
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              submitPin(pin);
+            }}
+            className="flex flex-col items-center gap-6"
+          >
+            <InputOTP
+              maxLength={PIN_LENGTH}
+              value={pin}
+              onChange={(value) => setPin(value.replace(/\D/g, ""))}
+              onComplete={submitPin}
+              inputMode="numeric"
+              autoFocus
+              disabled={unlockMutation.isPending}
+            >
+              <InputOTPGroup>
+                {Array.from({ length: PIN_LENGTH }, (_, index) => (
+                  <InputOTPSlot key={index} index={index} className="h-12 w-12 text-lg text-white" />
+                ))}
+              </InputOTPGroup>
+            </InputOTP>
+            <p className="text-xs text-muted-foreground">PINs are 4 to 6 digits. Press Enter after a shorter PIN.</p>
+            <div className="flex gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => {
+                  setOperator(null);
+                  setPin("");
+                }}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                <ArrowLeft className="mr-2 h-4 w-4" /> Back
+              </Button>
+              <Button
+                type="submit"
+                className="frosted-button"
+                disabled={!TILL_PIN_PATTERN.test(pin) || unlockMutation.isPending}
+              >
+                {unlockMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Unlock
+              </Button>
+            </div>
+          </form>
+        ) : isLoading ? (
+          <div className="flex items-center justify-center gap-2 py-6 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading staff...
+          </div>
+        ) : staff.length === 0 ? (
+          <p className="py-6 text-center text-muted-foreground">
+            Nobody has set a till PIN yet. Staff set their PIN from My profile on their own sign-in.
+          </p>
+        ) : (
+          <div className="grid grid-cols-2 gap-3 sm:grid-cols-3">
+            {staff.map((member) => (
+              <button
+                key={member.id}
+                type="button"
+                onClick={() => setOperator(member)}
+                className="flex flex-col items-center gap-2 rounded-xl border border-white/10 bg-white/5 p-4 text-white transition hover:border-primary/40 hover:bg-white/10"
+              >
+                <span className="flex h-12 w-12 items-center justify-center rounded-full bg-primary/20 text-lg font-semibold text-primary">
+                  {initials(member.full_name)}
+                </span>
+                <span className="w-full truncate text-center font-medium">{member.full_name}</span>
+                <span className="text-xs uppercase tracking-wide text-white/50">{ROLE_LABELS[member.role]}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex justify-center">
+          <Button variant="ghost" onClick={handleSignOut} className="text-white/60 hover:bg-white/10 hover:text-white">
+            <LogOut className="mr-2 h-4 w-4" /> Sign the till out
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+};
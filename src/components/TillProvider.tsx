@@ -0,0 +1,94 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { TillContext, TillSession } from "@/hooks/use-till";
+import {
+  DEFAULT_TILL_AUTO_LOCK_MINUTES,
+  RegisteredTill,
+  clearRegisteredTill,
+  readRegisteredTill,
+  saveRegisteredTill,
+} from "@/lib/till";
+import { toast } from "sonner";
+
+const ACTIVITY_EVENTS = ["pointerdown", "keydown", "touchstart", "wheel"] as const;
+
+const fetchAutoLockMinutes = async () => {
+  const { data, error } = await supabase.from("pharmacy_settings").select("till_auto_lock_minutes").maybeSingle();
+
+  if (error) throw error;
+  return data?.till_auto_lock_minutes ?? DEFAULT_TILL_AUTO_LOCK_MINUTES;
+};
+
+export const TillProvider = ({ children }: { children: React.ReactNode }) => {
+  const [till, setTill] = useState<RegisteredTill | null>(() => readRegisteredTill());
+  const [session, setSession] = useState<TillSession | null>(null);
+  const sessionRef = useRef<TillSession | null>(null);
+  sessionRef.current = session;
+
+  const { data: autoLockMinutes = DEFAULT_TILL_AUTO_LOCK_MINUTES } = useQuery({
+    queryKey: ["settings", "till-auto-lock"],
+    queryFn: fetchAutoLockMinutes,
+    enabled: Boolean(till),
+  });
+
+  const lock = useCallback(async (reason: "manual" | "inactivity" = "manual") => {
+    const current = sessionRef.current;
+    setSession(null);
+    if (!current) return;
+
+    const { error } = await supabase.rpc("lock_till", { p_session_id: current.id, p_reason: reason });
+    if (error) console.error("Failed to close till session", error);
+  }, []);
+
+  const registerDevice = useCallback((registered: RegisteredTill) => {
+    saveRegisteredTill(registered);
+    setSession(null);
+    setTill(registered);
+  }, []);
+
+  const forgetDevice = useCallback(async () => {
+    await lock();
+    clearRegisteredTill();
+    setTill(null);
+  }, [lock]);
+
+  const unlock = useCallback((next: TillSession) => setSession(next), []);
+
+  // Signing the terminal out always leaves the till locked
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event) => {
+      if (event === "SIGNED_OUT") setSession(null);
+    });
+
+    return () => subscription.unsubscribe();
+  }, []);
+
+  useEffect(() => {
+    if (!session) return;
+
+    let timer: number;
+    const restart = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => {
+        lock("inactivity");
+        toast.info("Till locked after inactivity");
+      }, autoLockMinutes * 60 * 1000);
+    };
+
+    restart();
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, restart, { passive: true }));
+
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, restart));
+    };
+  }, [session, autoLockMinutes, lock]);
+
+  const value = useMemo(
+    () => ({ till, session, registerDevice, forgetDevice, unlock, lock }),
+    [till, session, registerDevice, forgetDevice, unlock, lock],
+  );
+
+  return <TillContext.Provider value={value}>{children}</TillContext.Provider>;
+};
@@ -0,0 +1,163 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { useActingUser, useTill } from "@/hooks/use-till";
+import { MANAGER_ROLES, hasRole } from "@/lib/roles";
+import { withSupervisorSession } from "@/lib/supervisor";
+import { toast } from "sonner";
+import { Ban, Loader2 } from "lucide-react";
+
+export type VoidableSale = {
+  id: string;
+  sale_number: string | null;
+  total_amount: number;
+};
+
+interface VoidSaleDialogProps {
+  sale: VoidableSale | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Same sign-off rule as prescription overrides: a pharmacist or admin voids
+// themselves, whether signed in or at a till they unlocked; otherwise they
+// authorise with their credentials here.
+const VoidSaleDialog = ({ sale, onOpenChange }: VoidSaleDialogProps) => {
+  const queryClient = useQueryClient();
+  const actingUser = useActingUser();
+  const { session: tillSession } = useTill();
+  const [reason, setReason] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const canApproveSelf = hasRole(actingUser, MANAGER_ROLES);
+  const open = Boolean(sale);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setEmail("");
+      setPassword("");
+    }
+  }, [open]);
+
+  const voidMutation = useMutation({
+    mutationFn: async () => {
+      const args = {
+        p_sale_id: sale.id,
+        p_reason: reason.trim(),
+        p_requested_by: actingUser?.id ?? null,
+        p_till_session_id: tillSession?.id ?? null,
+      };
+
+      const voidSale = async (client: typeof supabase) => {
+        const { error } = await client.rpc("void_sale", args);
+        if (error) throw error;
+      };
+
+      if (canApproveSelf) {
+        await voidSale(supabase);
+      } else {
+        await withSupervisorSession(email, password, voidSale);
+      }
+    },
+    onSuccess: () => {
+      toast.success(`Sale ${sale.sale_number} voided`);
+      onOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory", "medicines"] });
+      queryClient.invalidateQueries({ queryKey: ["cash-shifts"] });
+    },
+    onError: (error) => {
+      console.error("Failed to void sale", error);
+      toast.error(error instanceof Error ? error.message : "Failed to void sale");
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (reason.trim().length < 5) {
+      toast.error("Give a reason for voiding the sale");
+      return;
+    }
+
+    if (!canApproveSelf && (!email.trim() || !password)) {
+      toast.error("A pharmacist or admin must sign in to authorise the void");
+      return;
+    }
+
+    voidMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl font-semibold text-white">
+            <Ban className="h-6 w-6 text-destructive" /> Void sale {sale?.sale_number}
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            Cancels the whole sale of KES {Number(sale?.total_amount ?? 0).toLocaleString()} and puts its stock back,
+            quarantining any from batches that have expired or come off sale since. Use a return instead if the customer is bringing items back.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-white/80">Reason</label>
+            <Input
+              placeholder="e.g. Wrong payment method recorded"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+            />
+          </div>
+
+          {!canApproveSelf && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Supervisor email</label>
+                <Input type="email" autoComplete="off" value={email} onChange={(event) => setEmail(event.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Password</label>
+                <Input
+                  type="password"
+                  autoComplete="off"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-white/20 bg-transparent text-white hover:bg-white/10"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={voidMutation.isPending}>
+              {voidMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Void sale
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default VoidSaleDialog;
@@ -0,0 +1,64 @@
+import { useEffect, useRef } from "react";
+
+// USB and Bluetooth scanners act as keyboards, typing the code and pressing
+// Enter faster than anyone can type. Keystrokes arriving closer together than
+// this are collected; a slower key starts over, so ordinary typing is ignored.
+const MAX_KEY_GAP_MS = 50;
+const MIN_CODE_LENGTH = 8;
+
+// Typing into a field, or anything behind an open dialog, is left alone:
+// fields that expect a scan handle Enter themselves
+const isIgnoredTarget = (target: EventTarget | null) => {
+  if (!(target instanceof HTMLElement)) return false;
+  if (target.isContentEditable) return true;
+  if (["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return true;
+  return Boolean(target.closest('[role="dialog"], [role="alertdialog"]'));
+};
+
+export function useBarcodeScanner(onScan: (code: string) => void, enabled = true) {
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let buffer = "";
+    let lastKeyAt = 0;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      // GS1 codes separate fields with GS, which scanners in keyboard mode send as Ctrl+]
+      const isGroupSeparator = event.ctrlKey && event.key === "]";
+
+      if (isIgnoredTarget(event.target) || ((event.ctrlKey || event.altKey || event.metaKey) && !isGroupSeparator)) {
+        buffer = "";
+        return;
+      }
+
+      const now = performance.now();
+      if (now - lastKeyAt > MAX_KEY_GAP_MS) buffer = "";
+      lastKeyAt = now;
+
+      if (event.key === "Enter") {
+        if (buffer.length >= MIN_CODE_LENGTH) {
+          event.preventDefault();
+          onScanRef.current(buffer);
+        }
+        buffer = "";
+        return;
+      }
+
+      if (isGroupSeparator) {
+        event.preventDefault();
+        buffer += "\u001d";
+      } else if (event.key.length === 1) {
+        buffer += event.key;
+      }
+    };
+
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [enabled]);
+}
@@ -0,0 +1,37 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useCurrentProfile } from "@/hooks/use-current-profile";
+import { useTill } from "@/hooks/use-till";
+
+export type CashShift = Tables<"cash_shifts"> & {
+  opener?: { full_name: string } | null;
+};
+
+// A registered till shares one drawer whoever is serving; elsewhere each
+// person has their own shift.
+const fetchOpenShift = async (tillId: string | null, userId: string): Promise<CashShift | null> => {
+  let query = supabase
+    .from("cash_shifts")
+    .select("*, opener:profiles!cash_shifts_opened_by_fkey ( full_name )")
+    .is("closed_at", null);
+
+  query = tillId ? query.eq("till_id", tillId) : query.is("till_id", null).eq("opened_by", userId);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) throw error;
+  return data as CashShift | null;
+};
+
+export function useOpenShift() {
+  const { till } = useTill();
+  const { data: profile } = useCurrentProfile();
+  const tillId = till?.id ?? null;
+
+  return useQuery({
+    queryKey: ["cash-shifts", "open", tillId ?? profile?.id],
+    queryFn: () => fetchOpenShift(tillId, profile.id),
+    enabled: Boolean(profile),
+  });
+}
@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type CurrentProfile = Tables<"profiles"> & { email: string };
+
+const fetchCurrentProfile = async (): Promise<CurrentProfile | null> => {
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  if (!user) return null;
+
+  const { data, error } = await supabase.from("profiles").select("*").eq("id", user.id).maybeSingle();
+
+  if (error) throw error;
+  return data ? { ...data, email: user.email ?? "" } : null;
+};
+
+export function useCurrentProfile() {
+  return useQuery({ queryKey: ["profile", "current"], queryFn: fetchCurrentProfile, staleTime: 5 * 60 * 1000 });
+}
@@ -0,0 +1,27 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { ParkedBasketEntry } from "@/lib/parked-baskets";
+
+// Parked baskets are shared by every till, so the list is polled to pick up
+// baskets parked elsewhere.
+const PARKED_BASKETS_REFRESH_MS = 30_000;
+
+const fetchParkedBaskets = async (): Promise<ParkedBasketEntry[]> => {
+  const { data, error } = await supabase
+    .from("parked_baskets")
+    .select(
+      "*, parker:profiles!parked_baskets_parked_by_fkey ( full_name ), claimer:profiles!parked_baskets_claimed_by_fkey ( full_name ), tills ( name )",
+    )
+    .order("created_at");
+
+  if (error) throw error;
+  return (data as unknown as ParkedBasketEntry[]) ?? [];
+};
+
+export function useParkedBaskets() {
+  return useQuery({
+    queryKey: ["parked-baskets"],
+    queryFn: fetchParkedBaskets,
+    refetchInterval: PARKED_BASKETS_REFRESH_MS,
+  });
+}
@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+const fetchPharmacySettings = async (): Promise<Tables<"pharmacy_settings"> | null> => {
+  const { data, error } = await supabase.from("pharmacy_settings").select("*").maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+export function usePharmacySettings() {
+  return useQuery({ queryKey: ["settings"], queryFn: fetchPharmacySettings });
+}
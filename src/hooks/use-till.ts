@@ -0,0 +1,44 @@
+import { createContext, useContext } from "react";
+import { useCurrentProfile } from "@/hooks/use-current-profile";
+import { RegisteredTill } from "@/lib/till";
+import { UserRole } from "@/lib/roles";
+
+export interface TillOperator {
+  id: string;
+  full_name: string;
+  role: UserRole;
+}
+
+export interface TillSession {
+  id: string;
+  operator: TillOperator;
+}
+
+export interface TillContextValue {
+  // The till this device is registered as, if any
+  till: RegisteredTill | null;
+  // Who unlocked the till; null while it is locked
+  session: TillSession | null;
+  registerDevice: (till: RegisteredTill) => void;
+  forgetDevice: () => Promise<void>;
+  unlock: (session: TillSession) => void;
+  lock: (reason?: "manual" | "inactivity") => Promise<void>;
+}
+
+export const TillContext = createContext<TillContextValue | null>(null);
+
+export function useTill() {
+  const context = useContext(TillContext);
+  if (!context) {
+    throw new Error("useTill must be used within a TillProvider");
+  }
+  return context;
+}
+
+// Whoever is working at this browser: the operator while a shared till is
+// unlocked, otherwise the signed-in account. Role checks in the UI use this.
+export function useActingUser(): TillOperator | null {
+  const { session } = useTill();
+  const { data: profile } = useCurrentProfile();
+  return session?.operator ?? profile ?? null;
+}
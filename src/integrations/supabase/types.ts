@@ -14,6 +14,332 @@ export type Database = {
   }
   public: {
     Tables: {
+      audit_log: {
+        Row: {
+          action: string
+          actor_id: string | null
+          changed_fields: string[] | null
+          created_at: string
+          id: string
+          new_data: Json | null
+          old_data: Json | null
+          record_id: string | null
+          table_name: string
+        }
+        Insert: {
+          action: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name: string
+        }
+        Update: {
+          action?: string
+          actor_id?: string | null
+          changed_fields?: string[] | null
+          created_at?: string
+          id?: string
+          new_data?: Json | null
+          old_data?: Json | null
+          record_id?: string | null
+          table_name?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "audit_log_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_shift_totals: {
+        Row: {
+          counted_amount: number
+          expected_amount: number
+          payment_method: string
+          shift_id: string
+        }
+        Insert: {
+          counted_amount?: number
+          expected_amount?: number
+          payment_method: string
+          shift_id: string
+        }
+        Update: {
+          counted_amount?: number
+          expected_amount?: number
+          payment_method?: string
+          shift_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_shift_totals_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_shifts: {
+        Row: {
+          closed_at: string | null
+          closed_by: string | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opened_by: string
+          opening_float: number
+          shift_number: string
+          till_id: string | null
+        }
+        Insert: {
+          closed_at?: string | null
+          closed_by?: string | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by: string
+          opening_float?: number
+          shift_number: string
+          till_id?: string | null
+        }
+        Update: {
+          closed_at?: string | null
+          closed_by?: string | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string
+          opening_float?: number
+          shift_number?: string
+          till_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_shifts_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_shifts_opened_by_fkey"
+            columns: ["opened_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_shifts_till_id_fkey"
+            columns: ["till_id"]
+            isOneToOne: false
+            referencedRelation: "tills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_received_items: {
+        Row: {
+          batch_id: string | null
+          batch_number: string
+          expiry_date: string
+          grn_id: string
+          id: string
+          manufacture_date: string | null
+          medicine_id: string
+          purchase_order_item_id: string | null
+          quantity_damaged: number
+          quantity_delivered: number
+          quantity_expected: number | null
+          unit_cost: number
+        }
+        Insert: {
+          batch_id?: string | null
+          batch_number: string
+          expiry_date: string
+          grn_id: string
+          id?: string
+          manufacture_date?: string | null
+          medicine_id: string
+          purchase_order_item_id?: string | null
+          quantity_damaged?: number
+          quantity_delivered: number
+          quantity_expected?: number | null
+          unit_cost?: number
+        }
+        Update: {
+          batch_id?: string | null
+          batch_number?: string
+          expiry_date?: string
+          grn_id?: string
+          id?: string
+          manufacture_date?: string | null
+          medicine_id?: string
+          purchase_order_item_id?: string | null
+          quantity_damaged?: number
+          quantity_delivered?: number
+          quantity_expected?: number | null
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_received_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "medicine_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_items_grn_id_fkey"
+            columns: ["grn_id"]
+            isOneToOne: false
+            referencedRelation: "goods_received_notes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_items_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "medicines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_items_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      goods_received_notes: {
+        Row: {
+          created_at: string | null
+          delivery_note_number: string | null
+          grn_number: string
+          id: string
+          notes: string | null
+          purchase_order_id: string | null
+          received_by: string | null
+          received_date: string
+          supplier_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          delivery_note_number?: string | null
+          grn_number: string
+          id?: string
+          notes?: string | null
+          purchase_order_id?: string | null
+          received_by?: string | null
+          received_date?: string
+          supplier_id: string
+        }
+        Update: {
+          created_at?: string | null
+          delivery_note_number?: string | null
+          grn_number?: string
+          id?: string
+          notes?: string | null
+          purchase_order_id?: string | null
+          received_by?: string | null
+          received_date?: string
+          supplier_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "goods_received_notes_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_notes_received_by_fkey"
+            columns: ["received_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "goods_received_notes_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      medicine_batches: {
+        Row: {
+          batch_number: string
+          created_at: string | null
+          expiry_date: string
+          id: string
+          manufacture_date: string | null
+          medicine_id: string
+          quantity: number
+          quarantine_reason: string | null
+          quarantined_at: string | null
+          quarantined_by: string | null
+          status: string
+          unit_cost: number
+          updated_at: string | null
+        }
+        Insert: {
+          batch_number: string
+          created_at?: string | null
+          expiry_date: string
+          id?: string
+          manufacture_date?: string | null
+          medicine_id: string
+          quantity?: number
+          quarantine_reason?: string | null
+          quarantined_at?: string | null
+          quarantined_by?: string | null
+          status?: string
+          unit_cost?: number
+          updated_at?: string | null
+        }
+        Update: {
+          batch_number?: string
+          created_at?: string | null
+          expiry_date?: string
+          id?: string
+          manufacture_date?: string | null
+          medicine_id?: string
+          quantity?: number
+          quarantine_reason?: string | null
+          quarantined_at?: string | null
+          quarantined_by?: string | null
+          status?: string
+          unit_cost?: number
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "medicine_batches_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "medicines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "medicine_batches_quarantined_by_fkey"
+            columns: ["quarantined_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       medicine_categories: {
         Row: {
           created_at: string | null
@@ -37,6 +363,7 @@ export type Database = {
       }
       medicines: {
         Row: {
+          barcode: string | null
           batch_number: string
           category_id: string | null
           created_at: string | null
@@ -54,6 +381,7 @@ export type Database = {
           updated_at: string | null
         }
         Insert: {
+          barcode?: string | null
           batch_number: string
           category_id?: string | null
           created_at?: string | null
@@ -71,6 +399,7 @@ export type Database = {
           updated_at?: string | null
         }
         Update: {
+          barcode?: string | null
           batch_number?: string
           category_id?: string | null
           created_at?: string | null
@@ -104,170 +433,1211 @@ export type Database = {
           },
         ]
       }
-      prescriptions: {
+      mpesa_payments: {
         Row: {
+          account_reference: string | null
+          amount: number
+          callback_payload: Json | null
+          checkout_request_id: string | null
+          completed_at: string | null
           created_at: string | null
-          created_by: string | null
-          doctor_license: string | null
-          doctor_name: string
           id: string
-          notes: string | null
-          patient_name: string
-          patient_phone: string | null
-          prescription_date: string
-          prescription_number: string
+          merchant_request_id: string | null
+          mpesa_receipt_number: string | null
+          phone: string
+          requested_by: string | null
+          result_code: number | null
+          result_description: string | null
+          sale_id: string | null
+          status: string
+          transaction_date: string | null
         }
         Insert: {
+          account_reference?: string | null
+          amount: number
+          callback_payload?: Json | null
+          checkout_request_id?: string | null
+          completed_at?: string | null
           created_at?: string | null
-          created_by?: string | null
-          doctor_license?: string | null
-          doctor_name: string
           id?: string
-          notes?: string | null
-          patient_name: string
-          patient_phone?: string | null
-          prescription_date: string
-          prescription_number: string
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          phone: string
+          requested_by?: string | null
+          result_code?: number | null
+          result_description?: string | null
+          sale_id?: string | null
+          status?: string
+          transaction_date?: string | null
         }
         Update: {
+          account_reference?: string | null
+          amount?: number
+          callback_payload?: Json | null
+          checkout_request_id?: string | null
+          completed_at?: string | null
           created_at?: string | null
-          created_by?: string | null
-          doctor_license?: string | null
-          doctor_name?: string
           id?: string
-          notes?: string | null
-          patient_name?: string
-          patient_phone?: string | null
-          prescription_date?: string
-          prescription_number?: string
+          merchant_request_id?: string | null
+          mpesa_receipt_number?: string | null
+          phone?: string
+          requested_by?: string | null
+          result_code?: number | null
+          result_description?: string | null
+          sale_id?: string | null
+          status?: string
+          transaction_date?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "prescriptions_created_by_fkey"
-            columns: ["created_by"]
+            foreignKeyName: "mpesa_payments_requested_by_fkey"
+            columns: ["requested_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "mpesa_payments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      profiles: {
+      mpesa_transactions: {
         Row: {
+          amount: number
+          bill_ref_number: string | null
           created_at: string | null
-          full_name: string
+          details: string | null
           id: string
+          imported_by: string | null
+          match_method: string | null
+          matched_at: string | null
+          matched_by: string | null
+          notes: string | null
+          payer_name: string | null
+          payload: Json | null
           phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
-          updated_at: string | null
+          sale_payment_id: string | null
+          source: string
+          status: string
+          transaction_id: string
+          transaction_time: string
         }
         Insert: {
+          amount: number
+          bill_ref_number?: string | null
           created_at?: string | null
-          full_name: string
-          id: string
+          details?: string | null
+          id?: string
+          imported_by?: string | null
+          match_method?: string | null
+          matched_at?: string | null
+          matched_by?: string | null
+          notes?: string | null
+          payer_name?: string | null
+          payload?: Json | null
           phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string | null
+          sale_payment_id?: string | null
+          source: string
+          status?: string
+          transaction_id: string
+          transaction_time: string
         }
         Update: {
+          amount?: number
+          bill_ref_number?: string | null
           created_at?: string | null
-          full_name?: string
+          details?: string | null
           id?: string
+          imported_by?: string | null
+          match_method?: string | null
+          matched_at?: string | null
+          matched_by?: string | null
+          notes?: string | null
+          payer_name?: string | null
+          payload?: Json | null
           phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
-          updated_at?: string | null
+          sale_payment_id?: string | null
+          source?: string
+          status?: string
+          transaction_id?: string
+          transaction_time?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "mpesa_transactions_imported_by_fkey"
+            columns: ["imported_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mpesa_transactions_matched_by_fkey"
+            columns: ["matched_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "mpesa_transactions_sale_payment_id_fkey"
+            columns: ["sale_payment_id"]
+            isOneToOne: true
+            referencedRelation: "sale_payments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      sale_items: {
+      parked_baskets: {
         Row: {
+          claimed_at: string | null
+          claimed_by: string | null
+          claimed_till_session_id: string | null
           created_at: string | null
+          details: Json
           id: string
-          medicine_id: string | null
-          quantity: number
-          sale_id: string | null
-          total_price: number
-          unit_price: number
+          item_count: number
+          items: Json
+          label: string
+          parked_by: string | null
+          till_id: string | null
+          total_amount: number
         }
         Insert: {
+          claimed_at?: string | null
+          claimed_by?: string | null
+          claimed_till_session_id?: string | null
           created_at?: string | null
+          details?: Json
           id?: string
-          medicine_id?: string | null
-          quantity: number
-          sale_id?: string | null
-          total_price: number
-          unit_price: number
+          item_count: number
+          items: Json
+          label: string
+          parked_by?: string | null
+          till_id?: string | null
+          total_amount: number
         }
         Update: {
+          claimed_at?: string | null
+          claimed_by?: string | null
+          claimed_till_session_id?: string | null
           created_at?: string | null
+          details?: Json
           id?: string
-          medicine_id?: string | null
+          item_count?: number
+          items?: Json
+          label?: string
+          parked_by?: string | null
+          till_id?: string | null
+          total_amount?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "parked_baskets_claimed_by_fkey"
+            columns: ["claimed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parked_baskets_claimed_till_session_id_fkey"
+            columns: ["claimed_till_session_id"]
+            isOneToOne: false
+            referencedRelation: "till_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parked_baskets_parked_by_fkey"
+            columns: ["parked_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "parked_baskets_till_id_fkey"
+            columns: ["till_id"]
+            isOneToOne: false
+            referencedRelation: "tills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pharmacy_settings: {
+        Row: {
+          adjustment_approval_threshold: number
+          cashier_max_discount_percent: number
+          id: boolean
+          kra_pin: string | null
+          pharmacist_max_discount_percent: number
+          pharmacy_address: string | null
+          pharmacy_name: string
+          pharmacy_phone: string | null
+          ppb_licence_number: string | null
+          receipt_footer: string | null
+          receipt_width: number
+          reorder_cover_days: number
+          reorder_lead_time_days: number
+          reorder_window_days: number
+          till_auto_lock_minutes: number
+          updated_at: string | null
+        }
+        Insert: {
+          adjustment_approval_threshold?: number
+          cashier_max_discount_percent?: number
+          id?: boolean
+          kra_pin?: string | null
+          pharmacist_max_discount_percent?: number
+          pharmacy_address?: string | null
+          pharmacy_name?: string
+          pharmacy_phone?: string | null
+          ppb_licence_number?: string | null
+          receipt_footer?: string | null
+          receipt_width?: number
+          reorder_cover_days?: number
+          reorder_lead_time_days?: number
+          reorder_window_days?: number
+          till_auto_lock_minutes?: number
+          updated_at?: string | null
+        }
+        Update: {
+          adjustment_approval_threshold?: number
+          cashier_max_discount_percent?: number
+          id?: boolean
+          kra_pin?: string | null
+          pharmacist_max_discount_percent?: number
+          pharmacy_address?: string | null
+          pharmacy_name?: string
+          pharmacy_phone?: string | null
+          ppb_licence_number?: string | null
+          receipt_footer?: string | null
+          receipt_width?: number
+          reorder_cover_days?: number
+          reorder_lead_time_days?: number
+          reorder_window_days?: number
+          till_auto_lock_minutes?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      prescription_overrides: {
+        Row: {
+          approved_by: string
+          created_at: string | null
+          id: string
+          medicine_id: string
+          reason: string
+          requested_by: string | null
+          sale_id: string | null
+          used_at: string | null
+        }
+        Insert: {
+          approved_by: string
+          created_at?: string | null
+          id?: string
+          medicine_id: string
+          reason: string
+          requested_by?: string | null
+          sale_id?: string | null
+          used_at?: string | null
+        }
+        Update: {
+          approved_by?: string
+          created_at?: string | null
+          id?: string
+          medicine_id?: string
+          reason?: string
+          requested_by?: string | null
+          sale_id?: string | null
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prescription_overrides_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescription_overrides_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "medicines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescription_overrides_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "prescription_overrides_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      prescriptions: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          doctor_license: string | null
+          doctor_name: string
+          id: string
+          notes: string | null
+          patient_name: string
+          patient_phone: string | null
+          prescription_date: string
+          prescription_number: string
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          doctor_license?: string | null
+          doctor_name: string
+          id?: string
+          notes?: string | null
+          patient_name: string
+          patient_phone?: string | null
+          prescription_date: string
+          prescription_number: string
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          doctor_license?: string | null
+          doctor_name?: string
+          id?: string
+          notes?: string | null
+          patient_name?: string
+          patient_phone?: string | null
+          prescription_date?: string
+          prescription_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "prescriptions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string | null
+          deactivated_at: string | null
+          full_name: string
+          id: string
+          is_active: boolean
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          deactivated_at?: string | null
+          full_name: string
+          id: string
+          is_active?: boolean
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          deactivated_at?: string | null
+          full_name?: string
+          id?: string
+          is_active?: boolean
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      purchase_order_items: {
+        Row: {
+          id: string
+          medicine_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          unit_cost: number
+        }
+        Insert: {
+          id?: string
+          medicine_id: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          unit_cost?: number
+        }
+        Update: {
+          id?: string
+          medicine_id?: string
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "medicines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_orders: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          expected_date: string | null
+          id: string
+          notes: string | null
+          order_date: string
+          po_number: string
+          sent_at: string | null
+          status: string
+          supplier_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          po_number: string
+          sent_at?: string | null
+          status?: string
+          supplier_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          expected_date?: string | null
+          id?: string
+          notes?: string | null
+          order_date?: string
+          po_number?: string
+          sent_at?: string | null
+          status?: string
+          supplier_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_orders_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_items: {
+        Row: {
+          batch_id: string | null
+          created_at: string | null
+          discount_amount: number
+          id: string
+          medicine_id: string | null
+          original_price: number
+          quantity: number
+          sale_id: string | null
+          total_price: number
+          unit_price: number
+        }
+        Insert: {
+          batch_id?: string | null
+          created_at?: string | null
+          discount_amount?: number
+          id?: string
+          medicine_id?: string | null
+          original_price: number
+          quantity: number
+          sale_id?: string | null
+          total_price: number
+          unit_price: number
+        }
+        Update: {
+          batch_id?: string | null
+          created_at?: string | null
+          discount_amount?: number
+          id?: string
+          medicine_id?: string | null
+          original_price?: number
+          quantity?: number
+          sale_id?: string | null
+          total_price?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "medicine_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "medicines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_items_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_payments: {
+        Row: {
+          amount: number
+          created_at: string | null
+          id: string
+          method: string
+          mpesa_payment_id: string | null
+          reference: string | null
+          sale_id: string
+          tendered: number | null
+        }
+        Insert: {
+          amount: number
+          created_at?: string | null
+          id?: string
+          method: string
+          mpesa_payment_id?: string | null
+          reference?: string | null
+          sale_id: string
+          tendered?: number | null
+        }
+        Update: {
+          amount?: number
+          created_at?: string | null
+          id?: string
+          method?: string
+          mpesa_payment_id?: string | null
+          reference?: string | null
+          sale_id?: string
+          tendered?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_payments_mpesa_payment_id_fkey"
+            columns: ["mpesa_payment_id"]
+            isOneToOne: true
+            referencedRelation: "mpesa_payments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_payments_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_return_approvals: {
+        Row: {
+          approved_by: string
+          created_at: string | null
+          id: string
+          requested_by: string | null
+          return_id: string | null
+          sale_id: string
+          used_at: string | null
+        }
+        Insert: {
+          approved_by: string
+          created_at?: string | null
+          id?: string
+          requested_by?: string | null
+          return_id?: string | null
+          sale_id: string
+          used_at?: string | null
+        }
+        Update: {
+          approved_by?: string
+          created_at?: string | null
+          id?: string
+          requested_by?: string | null
+          return_id?: string | null
+          sale_id?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_return_approvals_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_approvals_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_approvals_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "sale_returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_approvals_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_return_items: {
+        Row: {
+          batch_id: string | null
+          id: string
+          medicine_id: string | null
+          quantity: number
+          restock_to: string
+          return_id: string
+          sale_item_id: string
+          total_price: number
+          unit_price: number
+        }
+        Insert: {
+          batch_id?: string | null
+          id?: string
+          medicine_id?: string | null
+          quantity: number
+          restock_to: string
+          return_id: string
+          sale_item_id: string
+          total_price: number
+          unit_price: number
+        }
+        Update: {
+          batch_id?: string | null
+          id?: string
+          medicine_id?: string | null
+          quantity?: number
+          restock_to?: string
+          return_id?: string
+          sale_item_id?: string
+          total_price?: number
+          unit_price?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_return_items_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "medicine_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_items_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "medicines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_items_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "sale_returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_return_items_sale_item_id_fkey"
+            columns: ["sale_item_id"]
+            isOneToOne: false
+            referencedRelation: "sale_items"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sale_returns: {
+        Row: {
+          approved_by: string | null
+          created_at: string | null
+          id: string
+          processed_by: string | null
+          reason: string
+          refund_amount: number
+          refund_method: string
+          return_number: string
+          sale_id: string
+          shift_id: string | null
+          till_session_id: string | null
+        }
+        Insert: {
+          approved_by?: string | null
+          created_at?: string | null
+          id?: string
+          processed_by?: string | null
+          reason: string
+          refund_amount?: number
+          refund_method: string
+          return_number: string
+          sale_id: string
+          shift_id?: string | null
+          till_session_id?: string | null
+        }
+        Update: {
+          approved_by?: string | null
+          created_at?: string | null
+          id?: string
+          processed_by?: string | null
+          reason?: string
+          refund_amount?: number
+          refund_method?: string
+          return_number?: string
+          sale_id?: string
+          shift_id?: string | null
+          till_session_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sale_returns_approved_by_fkey"
+            columns: ["approved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_returns_processed_by_fkey"
+            columns: ["processed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_returns_sale_id_fkey"
+            columns: ["sale_id"]
+            isOneToOne: false
+            referencedRelation: "sales"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_returns_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sale_returns_till_session_id_fkey"
+            columns: ["till_session_id"]
+            isOneToOne: false
+            referencedRelation: "till_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sales: {
+        Row: {
+          created_at: string | null
+          customer_name: string | null
+          customer_phone: string | null
+          discount_amount: number
+          discount_reason: string | null
+          id: string
+          payment_method: string
+          prescription_id: string | null
+          sale_number: string
+          served_by: string | null
+          shift_id: string | null
+          status: string
+          subtotal: number
+          till_session_id: string | null
+          total_amount: number
+          void_reason: string | null
+          void_requested_by: string | null
+          voided_at: string | null
+          voided_by: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          discount_amount?: number
+          discount_reason?: string | null
+          id?: string
+          payment_method: string
+          prescription_id?: string | null
+          sale_number: string
+          served_by?: string | null
+          shift_id?: string | null
+          status?: string
+          subtotal?: number
+          till_session_id?: string | null
+          total_amount: number
+          void_reason?: string | null
+          void_requested_by?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          customer_name?: string | null
+          customer_phone?: string | null
+          discount_amount?: number
+          discount_reason?: string | null
+          id?: string
+          payment_method?: string
+          prescription_id?: string | null
+          sale_number?: string
+          served_by?: string | null
+          shift_id?: string | null
+          status?: string
+          subtotal?: number
+          till_session_id?: string | null
+          total_amount?: number
+          void_reason?: string | null
+          void_requested_by?: string | null
+          voided_at?: string | null
+          voided_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sales_prescription_id_fkey"
+            columns: ["prescription_id"]
+            isOneToOne: false
+            referencedRelation: "prescriptions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_served_by_fkey"
+            columns: ["served_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_till_session_id_fkey"
+            columns: ["till_session_id"]
+            isOneToOne: false
+            referencedRelation: "till_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_void_requested_by_fkey"
+            columns: ["void_requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sales_voided_by_fkey"
+            columns: ["voided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_invitations: {
+        Row: {
+          accepted_at: string | null
+          accepted_by: string | null
+          created_at: string | null
+          email: string
+          expires_at: string
+          full_name: string | null
+          id: string
+          invited_by: string | null
+          revoked_at: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          token: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string | null
+          email: string
+          expires_at?: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          token?: string
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_by?: string | null
+          created_at?: string | null
+          email?: string
+          expires_at?: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          revoked_at?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_invitations_accepted_by_fkey"
+            columns: ["accepted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "staff_invitations_invited_by_fkey"
+            columns: ["invited_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      staff_pins: {
+        Row: {
+          failed_attempts: number
+          locked_until: string | null
+          pin_hash: string
+          profile_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash: string
+          profile_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          failed_attempts?: number
+          locked_until?: string | null
+          pin_hash?: string
+          profile_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "staff_pins_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_adjustments: {
+        Row: {
+          batch_id: string
+          created_at: string | null
+          id: string
+          medicine_id: string
+          notes: string | null
+          quantity_change: number
+          reason_code: string
+          requested_by: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+        }
+        Insert: {
+          batch_id: string
+          created_at?: string | null
+          id?: string
+          medicine_id: string
+          notes?: string | null
+          quantity_change: number
+          reason_code: string
+          requested_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Update: {
+          batch_id?: string
+          created_at?: string | null
+          id?: string
+          medicine_id?: string
+          notes?: string | null
+          quantity_change?: number
+          reason_code?: string
+          requested_by?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_adjustments_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "medicine_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustments_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "medicines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustments_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_adjustments_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_disposal_items: {
+        Row: {
+          batch_id: string | null
+          batch_number: string
+          disposal_id: string
+          expiry_date: string
+          id: string
+          medicine_id: string | null
+          medicine_name: string
+          quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          batch_id?: string | null
+          batch_number: string
+          disposal_id: string
+          expiry_date: string
+          id?: string
+          medicine_id?: string | null
+          medicine_name: string
+          quantity: number
+          unit_cost?: number
+        }
+        Update: {
+          batch_id?: string | null
+          batch_number?: string
+          disposal_id?: string
+          expiry_date?: string
+          id?: string
+          medicine_id?: string | null
+          medicine_name?: string
           quantity?: number
-          sale_id?: string | null
-          total_price?: number
-          unit_price?: number
+          unit_cost?: number
         }
         Relationships: [
           {
-            foreignKeyName: "sale_items_medicine_id_fkey"
-            columns: ["medicine_id"]
+            foreignKeyName: "stock_disposal_items_batch_id_fkey"
+            columns: ["batch_id"]
             isOneToOne: false
-            referencedRelation: "medicines"
+            referencedRelation: "medicine_batches"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "sale_items_sale_id_fkey"
-            columns: ["sale_id"]
+            foreignKeyName: "stock_disposal_items_disposal_id_fkey"
+            columns: ["disposal_id"]
             isOneToOne: false
-            referencedRelation: "sales"
+            referencedRelation: "stock_disposals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_disposal_items_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "medicines"
             referencedColumns: ["id"]
           },
         ]
       }
-      sales: {
+      stock_disposals: {
         Row: {
           created_at: string | null
-          customer_name: string | null
-          customer_phone: string | null
+          disposal_date: string
+          disposal_method: string
+          disposal_number: string
+          disposed_by: string | null
           id: string
-          payment_method: string
-          prescription_id: string | null
-          sale_number: string
-          served_by: string | null
-          total_amount: number
+          notes: string | null
+          witness_designation: string | null
+          witness_name: string
         }
         Insert: {
           created_at?: string | null
-          customer_name?: string | null
-          customer_phone?: string | null
+          disposal_date?: string
+          disposal_method: string
+          disposal_number: string
+          disposed_by?: string | null
           id?: string
-          payment_method: string
-          prescription_id?: string | null
-          sale_number: string
-          served_by?: string | null
-          total_amount: number
+          notes?: string | null
+          witness_designation?: string | null
+          witness_name: string
         }
         Update: {
           created_at?: string | null
-          customer_name?: string | null
-          customer_phone?: string | null
+          disposal_date?: string
+          disposal_method?: string
+          disposal_number?: string
+          disposed_by?: string | null
           id?: string
-          payment_method?: string
-          prescription_id?: string | null
-          sale_number?: string
-          served_by?: string | null
-          total_amount?: number
+          notes?: string | null
+          witness_designation?: string | null
+          witness_name?: string
         }
         Relationships: [
           {
-            foreignKeyName: "sales_prescription_id_fkey"
-            columns: ["prescription_id"]
-            isOneToOne: false
-            referencedRelation: "prescriptions"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "sales_served_by_fkey"
-            columns: ["served_by"]
+            foreignKeyName: "stock_disposals_disposed_by_fkey"
+            columns: ["disposed_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
@@ -276,6 +1646,7 @@ export type Database = {
       }
       stock_movements: {
         Row: {
+          batch_id: string | null
           created_at: string | null
           created_by: string | null
           id: string
@@ -286,6 +1657,7 @@ export type Database = {
           reference_id: string | null
         }
         Insert: {
+          batch_id?: string | null
           created_at?: string | null
           created_by?: string | null
           id?: string
@@ -296,6 +1668,7 @@ export type Database = {
           reference_id?: string | null
         }
         Update: {
+          batch_id?: string | null
           created_at?: string | null
           created_by?: string | null
           id?: string
@@ -306,6 +1679,13 @@ export type Database = {
           reference_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "stock_movements_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "medicine_batches"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "stock_movements_created_by_fkey"
             columns: ["created_by"]
@@ -322,6 +1702,129 @@ export type Database = {
           },
         ]
       }
+      stock_take_lines: {
+        Row: {
+          batch_id: string
+          counted_at: string | null
+          counted_by: string | null
+          counted_quantity: number | null
+          id: string
+          medicine_id: string
+          stock_take_id: string
+          system_quantity: number
+          unit_cost: number
+        }
+        Insert: {
+          batch_id: string
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          id?: string
+          medicine_id: string
+          stock_take_id: string
+          system_quantity: number
+          unit_cost?: number
+        }
+        Update: {
+          batch_id?: string
+          counted_at?: string | null
+          counted_by?: string | null
+          counted_quantity?: number | null
+          id?: string
+          medicine_id?: string
+          stock_take_id?: string
+          system_quantity?: number
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_take_lines_batch_id_fkey"
+            columns: ["batch_id"]
+            isOneToOne: false
+            referencedRelation: "medicine_batches"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_take_lines_counted_by_fkey"
+            columns: ["counted_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_take_lines_medicine_id_fkey"
+            columns: ["medicine_id"]
+            isOneToOne: false
+            referencedRelation: "medicines"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_take_lines_stock_take_id_fkey"
+            columns: ["stock_take_id"]
+            isOneToOne: false
+            referencedRelation: "stock_takes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_takes: {
+        Row: {
+          category_id: string | null
+          closed_at: string | null
+          closed_by: string | null
+          id: string
+          notes: string | null
+          opened_at: string | null
+          opened_by: string | null
+          status: string
+          take_number: string
+        }
+        Insert: {
+          category_id?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          id?: string
+          notes?: string | null
+          opened_at?: string | null
+          opened_by?: string | null
+          status?: string
+          take_number: string
+        }
+        Update: {
+          category_id?: string | null
+          closed_at?: string | null
+          closed_by?: string | null
+          id?: string
+          notes?: string | null
+          opened_at?: string | null
+          opened_by?: string | null
+          status?: string
+          take_number?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_takes_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "medicine_categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_takes_closed_by_fkey"
+            columns: ["closed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_takes_opened_by_fkey"
+            columns: ["opened_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       suppliers: {
         Row: {
           address: string | null
@@ -355,12 +1858,316 @@ export type Database = {
         }
         Relationships: []
       }
+      till_sessions: {
+        Row: {
+          id: string
+          lock_reason: string | null
+          locked_at: string | null
+          staff_id: string
+          till_id: string
+          unlocked_at: string
+        }
+        Insert: {
+          id?: string
+          lock_reason?: string | null
+          locked_at?: string | null
+          staff_id: string
+          till_id: string
+          unlocked_at?: string
+        }
+        Update: {
+          id?: string
+          lock_reason?: string | null
+          locked_at?: string | null
+          staff_id?: string
+          till_id?: string
+          unlocked_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "till_sessions_staff_id_fkey"
+            columns: ["staff_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "till_sessions_till_id_fkey"
+            columns: ["till_id"]
+            isOneToOne: false
+            referencedRelation: "tills"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tills: {
+        Row: {
+          account_id: string
+          created_at: string | null
+          id: string
+          name: string
+          retired_at: string | null
+        }
+        Insert: {
+          account_id: string
+          created_at?: string | null
+          id?: string
+          name: string
+          retired_at?: string | null
+        }
+        Update: {
+          account_id?: string
+          created_at?: string | null
+          id?: string
+          name?: string
+          retired_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tills_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
-      [_ in never]: never
+      stock_ledger_balances: {
+        Row: {
+          last_movement_at: string | null
+          ledger_quantity: number | null
+          medicine_id: string | null
+          medicine_name: string | null
+          movement_count: number | null
+          on_hand_quantity: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
-      [_ in never]: never
+      acting_user_id: {
+        Args: never
+        Returns: string
+      }
+      auto_match_mpesa_transactions: {
+        Args: { p_window?: unknown }
+        Returns: number
+      }
+      cancel_stock_take: {
+        Args: { p_stock_take_id: string }
+        Returns: undefined
+      }
+      cash_shift_expected: {
+        Args: { p_shift_id: string }
+        Returns: {
+          expected_amount: number
+          payment_method: string
+          sale_count: number
+        }[]
+      }
+      close_cash_shift: {
+        Args: { p_counts: Json; p_notes?: string; p_shift_id: string; p_till_session_id?: string }
+        Returns: undefined
+      }
+      create_medicine: {
+        Args: { p_batch_number: string; p_expiry_date: string; p_manufacture_date?: string; p_medicine: Json; p_quantity?: number; p_unit_cost?: number }
+        Returns: string
+      }
+      current_user_role: {
+        Args: never
+        Returns: Database["public"]["Enums"]["user_role"]
+      }
+      discard_parked_basket: {
+        Args: { p_basket_id: string; p_till_session_id?: string }
+        Returns: undefined
+      }
+      get_sales_velocity: {
+        Args: { p_window_days?: number }
+        Returns: {
+          medicine_id: string
+          units_sold: number
+        }[]
+      }
+      grant_prescription_override: {
+        Args: { p_medicine_id: string; p_reason: string; p_requested_by?: string }
+        Returns: string
+      }
+      grant_return_approval: {
+        Args: { p_requested_by?: string; p_sale_id: string }
+        Returns: string
+      }
+      has_till_pin: {
+        Args: never
+        Returns: boolean
+      }
+      ignore_mpesa_transaction: {
+        Args: { p_reason: string; p_transaction_id: string }
+        Returns: undefined
+      }
+      import_mpesa_transactions: {
+        Args: { transactions: Json }
+        Returns: Json
+      }
+      invite_staff: {
+        Args: { p_email: string; p_full_name?: string; p_role: Database["public"]["Enums"]["user_role"] }
+        Returns: string
+      }
+      link_mpesa_transaction: {
+        Args: { p_sale_payment_id: string; p_transaction_id: string }
+        Returns: undefined
+      }
+      list_staff: {
+        Args: never
+        Returns: {
+          created_at: string
+          email: string
+          full_name: string
+          id: string
+          is_active: boolean
+          last_sign_in_at: string
+          phone: string
+          role: Database["public"]["Enums"]["user_role"]
+        }[]
+      }
+      list_till_staff: {
+        Args: { p_till_id: string }
+        Returns: {
+          full_name: string
+          id: string
+          role: Database["public"]["Enums"]["user_role"]
+        }[]
+      }
+      lock_till: {
+        Args: { p_reason?: string; p_session_id: string }
+        Returns: undefined
+      }
+      lookup_staff_invitation: {
+        Args: { p_token: string }
+        Returns: {
+          email: string
+          expires_at: string
+          full_name: string
+          role: Database["public"]["Enums"]["user_role"]
+        }[]
+      }
+      match_mpesa_transactions: {
+        Args: never
+        Returns: number
+      }
+      mpesa_phone_suffix: {
+        Args: { p_phone: string }
+        Returns: string
+      }
+      mpesa_requester: {
+        Args: { p_till_session_id?: string }
+        Returns: string
+      }
+      open_cash_shift: {
+        Args: { p_opening_float: number; p_till_session_id?: string }
+        Returns: string
+      }
+      open_stock_take: {
+        Args: { p_category_id?: string; p_notes?: string }
+        Returns: string
+      }
+      park_basket: {
+        Args: { p_details: Json; p_items: Json; p_label: string; p_replaces?: string; p_till_session_id?: string; p_total: number }
+        Returns: string
+      }
+      post_goods_received: {
+        Args: { p_delivery_note_number?: string; p_items: Json; p_notes?: string; p_purchase_order_id?: string; p_supplier_id: string }
+        Returns: string
+      }
+      post_stock_take: {
+        Args: { p_stock_take_id: string }
+        Returns: number
+      }
+      recall_parked_basket: {
+        Args: { p_basket_id: string; p_till_session_id?: string }
+        Returns: Json
+      }
+      receive_medicine_batch: {
+        Args: { p_batch_number: string; p_expiry_date: string; p_manufacture_date?: string; p_medicine_id: string; p_quantity: number; p_reason?: string; p_unit_cost?: number }
+        Returns: string
+      }
+      record_sale: {
+        Args: { items: Json; payment: Json }
+        Returns: string
+      }
+      record_sale_return: {
+        Args: { p_approval_id?: string; p_items: Json; p_reason: string; p_refund_method: string; p_sale_id: string; p_till_session_id?: string }
+        Returns: string
+      }
+      record_stock_count: {
+        Args: { p_counted_quantity: number; p_line_id: string }
+        Returns: undefined
+      }
+      register_till: {
+        Args: { p_account_email: string; p_name: string }
+        Returns: string
+      }
+      request_stock_adjustment: {
+        Args: { p_batch_id: string; p_notes?: string; p_quantity_change: number; p_reason_code: string }
+        Returns: string
+      }
+      retire_till: {
+        Args: { p_till_id: string }
+        Returns: undefined
+      }
+      review_stock_adjustment: {
+        Args: { p_adjustment_id: string; p_approve: boolean }
+        Returns: string
+      }
+      revoke_staff_invitation: {
+        Args: { p_invitation_id: string }
+        Returns: undefined
+      }
+      save_purchase_order: {
+        Args: { p_expected_date?: string; p_items: Json; p_notes?: string; p_purchase_order_id?: string; p_supplier_id: string }
+        Returns: string
+      }
+      save_purchase_orders: {
+        Args: { p_orders: Json }
+        Returns: number
+      }
+      set_batch_quarantine: {
+        Args: { p_batch_id: string; p_quarantine: boolean; p_reason?: string }
+        Returns: undefined
+      }
+      set_my_pin: {
+        Args: { p_pin: string }
+        Returns: undefined
+      }
+      set_purchase_order_status: {
+        Args: { p_purchase_order_id: string; p_status: string }
+        Returns: undefined
+      }
+      set_staff_active: {
+        Args: { p_active: boolean; p_profile_id: string }
+        Returns: undefined
+      }
+      set_staff_role: {
+        Args: { p_profile_id: string; p_role: Database["public"]["Enums"]["user_role"] }
+        Returns: undefined
+      }
+      unlock_till: {
+        Args: { p_pin: string; p_staff_id: string; p_till_id: string }
+        Returns: string
+      }
+      unmatch_mpesa_transaction: {
+        Args: { p_transaction_id: string }
+        Returns: undefined
+      }
+      void_sale: {
+        Args: { p_reason: string; p_requested_by?: string; p_sale_id: string; p_till_session_id?: string }
+        Returns: undefined
+      }
+      write_off_batches: {
+        Args: { p_batch_ids: string[]; p_disposal_method: string; p_notes?: string; p_witness_designation?: string; p_witness_name: string }
+        Returns: string
+      }
     }
     Enums: {
       user_role: "admin" | "pharmacist" | "cashier"
@@ -0,0 +1,82 @@
+import { Json, Tables } from "@/integrations/supabase/types";
+
+export type AuditEntry = Tables<"audit_log"> & {
+  actor?: { full_name: string } | null;
+};
+
+export const AUDITED_TABLES = ["medicines", "suppliers", "prescriptions", "sales", "profiles"] as const;
+
+export type AuditedTable = (typeof AUDITED_TABLES)[number];
+
+export const AUDITED_TABLE_LABELS: Record<AuditedTable, string> = {
+  medicines: "Medicines",
+  suppliers: "Suppliers",
+  prescriptions: "Prescriptions",
+  sales: "Sales",
+  profiles: "Staff profiles",
+};
+
+export const AUDIT_ACTIONS = ["insert", "update", "delete"] as const;
+
+export type AuditAction = (typeof AUDIT_ACTIONS)[number];
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  insert: "Created",
+  update: "Updated",
+  delete: "Deleted",
+};
+
+export const AUDIT_ACTION_CLASSES: Record<AuditAction, string> = {
+  insert: "bg-success/20 text-success",
+  update: "bg-primary/20 text-primary",
+  delete: "bg-destructive/20 text-destructive",
+};
+
+export interface AuditChange {
+  field: string;
+  before: Json | undefined;
+  after: Json | undefined;
+}
+
+// Bookkeeping columns that say nothing about what changed
+const IGNORED_FIELDS = new Set(["id", "created_at", "updated_at"]);
+
+const asRecord = (data: Json | null): Record<string, Json> =>
+  data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, Json>) : {};
+
+// Updates list the columns the trigger saw change; creations and deletions
+// list every column that had a value.
+export const auditChanges = (entry: AuditEntry): AuditChange[] => {
+  const before = asRecord(entry.old_data);
+  const after = asRecord(entry.new_data);
+
+  const fields =
+    entry.action === "update"
+      ? entry.changed_fields ?? []
+      : Object.keys(entry.action === "delete" ? before : after).filter(
+          (field) => (entry.action === "delete" ? before : after)[field] !== null,
+        );
+
+  return fields
+    .filter((field) => !IGNORED_FIELDS.has(field))
+    .map((field) => ({ field, before: before[field], after: after[field] }));
+};
+
+export const auditFieldLabel = (field: string) => {
+  const label = field.replace(/_id$/, "").replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+};
+
+export const formatAuditValue = (value: Json | undefined) => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+// A readable name for the row an entry is about
+export const auditRecordLabel = (entry: AuditEntry) => {
+  const data = asRecord(entry.new_data ?? entry.old_data);
+  const label = data.name ?? data.sale_number ?? data.prescription_number ?? data.full_name;
+  return typeof label === "string" ? label : entry.record_id?.slice(0, 8) ?? "—";
+};
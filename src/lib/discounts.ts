@@ -0,0 +1,105 @@
+import { Tables } from "@/integrations/supabase/types";
+import { UserRole } from "@/lib/roles";
+
+// A line can be discounted by a percentage, by an amount off the line, or by
+// overriding the unit price; the basket only by a percentage or amount.
+export const LINE_DISCOUNT_TYPES = ["percent", "amount", "price"] as const;
+
+export type LineDiscountType = (typeof LINE_DISCOUNT_TYPES)[number];
+
+export const BASKET_DISCOUNT_TYPES = ["percent", "amount"] as const;
+
+export type BasketDiscountType = (typeof BASKET_DISCOUNT_TYPES)[number];
+
+export const DISCOUNT_TYPE_LABELS: Record<LineDiscountType, string> = {
+  percent: "% off",
+  amount: "KES off",
+  price: "Set price",
+};
+
+export type Discount<T extends string = LineDiscountType> = {
+  type: T;
+  value: number;
+};
+
+type DiscountedLine = {
+  quantity: number;
+  unitPrice: number;
+  discount?: Discount;
+};
+
+const roundKes = (value: number) => Math.round(value * 100) / 100;
+
+// Mirrors how record_sale prices a line, so the total shown at the counter is
+// the total the sale is recorded at.
+export const lineDiscountAmount = ({ quantity, unitPrice, discount }: DiscountedLine) => {
+  if (!discount) return 0;
+
+  switch (discount.type) {
+    case "percent":
+      return roundKes((quantity * unitPrice * discount.value) / 100);
+    case "amount":
+      return roundKes(discount.value);
+    case "price":
+      return roundKes(quantity * (unitPrice - discount.value));
+  }
+};
+
+export const basketDiscountAmount = (net: number, discount: Discount<BasketDiscountType> | null) => {
+  if (!discount) return 0;
+  return discount.type === "percent" ? roundKes((net * discount.value) / 100) : roundKes(discount.value);
+};
+
+export type BasketTotals = {
+  subtotal: number;
+  lineDiscounts: number;
+  basketDiscount: number;
+  total: number;
+};
+
+export const basketTotals = (
+  lines: DiscountedLine[],
+  basketDiscount: Discount<BasketDiscountType> | null,
+): BasketTotals => {
+  const subtotal = lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0);
+  const lineDiscounts = lines.reduce((sum, line) => sum + lineDiscountAmount(line), 0);
+  const basket = basketDiscountAmount(subtotal - lineDiscounts, basketDiscount);
+
+  return {
+    subtotal,
+    lineDiscounts,
+    basketDiscount: basket,
+    total: roundKes(subtotal - lineDiscounts - basket),
+  };
+};
+
+/**
+ * The deepest discount, as a percentage of a line's price, that a role can
+ * give. Admins are not limited; the other limits are set in pharmacy
+ * settings and enforced again by record_sale.
+ */
+export const maxDiscountPercent = (role: UserRole | undefined, settings: Tables<"pharmacy_settings"> | null | undefined) => {
+  if (role === "admin") return 100;
+  if (role === "pharmacist") return Number(settings?.pharmacist_max_discount_percent ?? 0);
+  return Number(settings?.cashier_max_discount_percent ?? 0);
+};
+
+/**
+ * Percentage taken off each line once the basket discount is shared out in
+ * proportion to what the lines cost after their own discounts.
+ */
+export const effectiveDiscountPercents = (
+  lines: DiscountedLine[],
+  basketDiscount: Discount<BasketDiscountType> | null,
+): number[] => {
+  const { subtotal, lineDiscounts, basketDiscount: basket } = basketTotals(lines, basketDiscount);
+  const net = subtotal - lineDiscounts;
+
+  return lines.map((line) => {
+    const gross = line.quantity * line.unitPrice;
+    if (gross === 0) return 0;
+    const lineNet = gross - lineDiscountAmount(line);
+    const share = net > 0 ? (basket * lineNet) / net : 0;
+    return ((gross - lineNet + share) / gross) * 100;
+  });
+};
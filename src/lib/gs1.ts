@@ -0,0 +1,147 @@
+// Reads what a barcode scanner hands over for a medicine pack. Retail packs
+// carry a plain EAN/UPC; packs serialised for verification carry a GS1
+// DataMatrix whose element string holds the GTIN alongside the batch and
+// expiry, e.g. "01 09501101530003 17 261231 10 AB123" with a GS character
+// ending each variable-length field.
+
+export type Gs1Scan = {
+  gtin: string | null;
+  batch: string | null;
+  // ISO dates (YYYY-MM-DD)
+  expiryDate: string | null;
+  manufactureDate: string | null;
+  serial: string | null;
+};
+
+const GROUP_SEPARATOR = "\u001d";
+
+// Application identifiers seen on pharmaceutical packs. Anything else stops
+// the parse, as its length can't be known and everything after it is suspect.
+const APPLICATION_IDENTIFIERS: Record<string, { fixed?: number; max?: number }> = {
+  "00": { fixed: 18 },
+  "01": { fixed: 14 },
+  "02": { fixed: 14 },
+  "10": { max: 20 },
+  "11": { fixed: 6 },
+  "13": { fixed: 6 },
+  "15": { fixed: 6 },
+  "16": { fixed: 6 },
+  "17": { fixed: 6 },
+  "21": { max: 20 },
+  "22": { max: 20 },
+  "30": { max: 8 },
+  "37": { max: 8 },
+  "240": { max: 30 },
+  "710": { max: 20 },
+  "711": { max: 20 },
+  "712": { max: 20 },
+  "713": { max: 20 },
+  "714": { max: 20 },
+  "715": { max: 20 },
+  "91": { max: 90 },
+  "92": { max: 90 },
+  "93": { max: 90 },
+  "94": { max: 90 },
+  "95": { max: 90 },
+  "96": { max: 90 },
+  "97": { max: 90 },
+  "98": { max: 90 },
+  "99": { max: 90 },
+};
+
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+export const isValidGtin = (value: string) => {
+  if (!/^\d+$/.test(value) || !GTIN_LENGTHS.includes(value.length)) return false;
+
+  const digits = value.split("").map(Number);
+  const checkDigit = digits.pop();
+  // Weights alternate 3, 1, 3... working left from the digit before the check digit
+  const sum = digits.reverse().reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+
+  return (10 - (sum % 10)) % 10 === checkDigit;
+};
+
+// An EAN-13 and the GTIN-14 in a DataMatrix on the same pack differ only by
+// leading zeros, so barcodes are compared in their 14-digit form
+export const toGtin14 = (value: string) => value.padStart(14, "0");
+
+export const sameGtin = (left: string, right: string) => toGtin14(left) === toGtin14(right);
+
+// YYMMDD, where a day of 00 means the end of the month
+const parseGs1Date = (value: string) => {
+  if (!/^\d{6}$/.test(value)) return null;
+
+  const year = 2000 + Number(value.slice(0, 2));
+  const month = Number(value.slice(2, 4));
+  let day = Number(value.slice(4, 6));
+
+  if (month < 1 || month > 12) return null;
+
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  if (day === 0) day = lastDay;
+  if (day > lastDay) return null;
+
+  return `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+const parseElementString = (value: string) => {
+  const fields: Record<string, string> = {};
+  let position = 0;
+
+  while (position < value.length) {
+    if (value[position] === GROUP_SEPARATOR) {
+      position += 1;
+      continue;
+    }
+
+    const ai = [2, 3].map((length) => value.slice(position, position + length)).find((key) => key in APPLICATION_IDENTIFIERS);
+    if (!ai) break;
+
+    const { fixed, max } = APPLICATION_IDENTIFIERS[ai];
+    const start = position + ai.length;
+    let end: number;
+
+    if (fixed) {
+      end = start + fixed;
+    } else {
+      const separator = value.indexOf(GROUP_SEPARATOR, start);
+      end = Math.min(separator === -1 ? value.length : separator, start + (max ?? value.length));
+    }
+
+    fields[ai] = value.slice(start, end);
+    position = end;
+  }
+
+  return fields;
+};
+
+// The printed form, "(01)09501101530003(17)261231(10)AB123", as typed in
+// from the text under the code or sent by some scanners
+const parseBracketed = (value: string) => {
+  const fields: Record<string, string> = {};
+  for (const [, ai, data] of value.matchAll(/\((\d{2,4})\)([^(]*)/g)) {
+    fields[ai] = data.trim();
+  }
+  return fields;
+};
+
+export const parseGs1 = (raw: string): Gs1Scan => {
+  // Scanners set up to report the symbology prefix the data with "]d2", "]C1" and the like
+  const value = raw.trim().replace(/^\][A-Za-z]\d/, "");
+
+  if (/^\d+$/.test(value) && GTIN_LENGTHS.includes(value.length)) {
+    return { gtin: value, batch: null, expiryDate: null, manufactureDate: null, serial: null };
+  }
+
+  const fields = value.startsWith("(") ? parseBracketed(value) : parseElementString(value);
+  const gtin = fields["01"] ?? fields["02"] ?? null;
+
+  return {
+    gtin: gtin && isValidGtin(gtin) ? gtin : null,
+    batch: fields["10"] || null,
+    expiryDate: fields["17"] ? parseGs1Date(fields["17"]) : null,
+    manufactureDate: fields["11"] ? parseGs1Date(fields["11"]) : null,
+    serial: fields["21"] || null,
+  };
+};
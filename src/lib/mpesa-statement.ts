@@ -0,0 +1,163 @@
+import { MPESA_CODE_PATTERN } from "@/lib/payments";
+
+// Reads the CSV statement exported from the M-Pesa org portal. The export
+// opens with a few lines about the account before the column headings, and
+// lists every movement on the till; only completed payments in are kept.
+
+export type StatementTransaction = {
+  transactionId: string;
+  transactionTime: string;
+  amount: number;
+  phone: string | null;
+  payerName: string | null;
+  billRefNumber: string | null;
+  details: string | null;
+};
+
+export type ParsedStatement = {
+  transactions: StatementTransaction[];
+  // Withdrawals, charges and incomplete transactions
+  skipped: number;
+  // Line numbers of payments in that couldn't be read
+  invalidLines: number[];
+};
+
+const COLUMN_ALIASES = {
+  transactionId: ["receipt no", "receipt number", "transaction id", "receipt"],
+  completionTime: ["completion time", "transaction time", "date"],
+  paidIn: ["paid in", "amount"],
+  status: ["transaction status", "status"],
+  otherParty: ["other party info", "other party"],
+  details: ["details"],
+  account: ["a/c no", "account no", "bill ref number"],
+} as const;
+
+type Column = keyof typeof COLUMN_ALIASES;
+
+const normaliseHeading = (value: string) => value.trim().toLowerCase().replace(/\.$/, "");
+
+const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index += 1) {
+    const char = text[index];
+
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        cell += '"';
+        index += 1;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[index + 1] === "\n") index += 1;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+};
+
+// Statement times are East Africa Time, written 2024-01-15 14:23:11 or
+// 15-01-2024 14:23:11 depending on the export.
+const parseStatementTime = (value: string): string | null => {
+  const match =
+    /^(\d{4})[-/](\d{2})[-/](\d{2})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim()) ??
+    /^(\d{2})[-/](\d{2})[-/](\d{4})[ T](\d{2}):(\d{2})(?::(\d{2}))?$/.exec(value.trim());
+  if (!match) return null;
+
+  const [, first, month, third, hour, minute, second = "00"] = match;
+  const [year, day] = first.length === 4 ? [first, third] : [third, first];
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+03:00`);
+
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const parseAmount = (value: string | undefined) => Number((value ?? "").replace(/[,\s]/g, "")) || 0;
+
+// "254712***678 - JOHN DOE"
+const parseOtherParty = (value: string | undefined) => {
+  const [phone, ...name] = (value ?? "").split(" - ");
+  return {
+    phone: /\d/.test(phone) ? phone.trim() : null,
+    payerName: name.join(" - ").trim() || (/\d/.test(phone) ? null : phone.trim() || null),
+  };
+};
+
+export const parseMpesaStatement = (text: string): ParsedStatement => {
+  const rows = parseCsv(text.replace(/^\uFEFF/, ""));
+  const headerIndex = rows.findIndex((row) =>
+    row.some((cell) => (COLUMN_ALIASES.transactionId as readonly string[]).includes(normaliseHeading(cell))),
+  );
+
+  if (headerIndex === -1) {
+    throw new Error("This doesn't look like an M-Pesa statement: there is no Receipt No. column");
+  }
+
+  const headings = rows[headerIndex].map(normaliseHeading);
+  const columns = Object.fromEntries(
+    (Object.keys(COLUMN_ALIASES) as Column[]).map((column) => [
+      column,
+      headings.findIndex((heading) => (COLUMN_ALIASES[column] as readonly string[]).includes(heading)),
+    ]),
+  ) as Record<Column, number>;
+
+  if (columns.completionTime === -1 || columns.paidIn === -1) {
+    throw new Error("The statement needs Completion Time and Paid In columns");
+  }
+
+  const cell = (row: string[], column: Column) => (columns[column] === -1 ? undefined : row[columns[column]]?.trim());
+
+  const parsed: ParsedStatement = { transactions: [], skipped: 0, invalidLines: [] };
+
+  rows.slice(headerIndex + 1).forEach((row, index) => {
+    if (row.every((value) => !value.trim())) return;
+
+    const status = cell(row, "status");
+    const amount = parseAmount(cell(row, "paidIn"));
+
+    if (amount <= 0 || (status && status.toLowerCase() !== "completed")) {
+      parsed.skipped += 1;
+      return;
+    }
+
+    const transactionId = (cell(row, "transactionId") ?? "").toUpperCase();
+    const transactionTime = parseStatementTime(cell(row, "completionTime") ?? "");
+
+    if (!MPESA_CODE_PATTERN.test(transactionId) || !transactionTime) {
+      parsed.invalidLines.push(headerIndex + index + 2);
+      return;
+    }
+
+    parsed.transactions.push({
+      transactionId,
+      transactionTime,
+      amount,
+      ...parseOtherParty(cell(row, "otherParty")),
+      billRefNumber: cell(row, "account") || null,
+      details: cell(row, "details") || null,
+    });
+  });
+
+  return parsed;
+};
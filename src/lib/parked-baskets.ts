@@ -0,0 +1,36 @@
+import { Tables } from "@/integrations/supabase/types";
+import { BasketDiscountType, LineDiscountType } from "@/lib/discounts";
+
+// The shapes park_basket stores in parked_baskets.items and .details
+
+export type ParkedItem = {
+  medicine_id: string;
+  name: string;
+  quantity: number;
+  unit_price: number;
+  requires_prescription: boolean;
+  override_id: string | null;
+  override_reason: string | null;
+  discount_type: LineDiscountType | null;
+  discount_value: number | null;
+};
+
+export type ParkedDetails = {
+  customer_name: string | null;
+  customer_phone: string | null;
+  prescription_id: string | null;
+  discount_type: BasketDiscountType | null;
+  discount_value: number | null;
+  discount_reason: string | null;
+};
+
+export type ParkedBasket = Omit<Tables<"parked_baskets">, "items" | "details"> & {
+  items: ParkedItem[];
+  details: Partial<ParkedDetails>;
+};
+
+export type ParkedBasketEntry = ParkedBasket & {
+  parker?: { full_name: string } | null;
+  claimer?: { full_name: string } | null;
+  tills?: { name: string } | null;
+};
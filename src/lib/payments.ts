@@ -0,0 +1,44 @@
+export const PAYMENT_METHODS = ["cash", "mpesa", "card", "insurance"] as const;
+
+export type PaymentMethod = (typeof PAYMENT_METHODS)[number];
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  mpesa: "M-Pesa",
+  card: "Card",
+  insurance: "Insurance",
+};
+
+// What to note against each tender so it can be traced later
+export const TENDER_REFERENCE_LABELS: Partial<Record<PaymentMethod, string>> = {
+  mpesa: "M-Pesa code",
+  card: "Authorisation code",
+  insurance: "Scheme and member number",
+};
+
+// Sales paid with more than one tender are recorded with this payment method
+export const SPLIT_PAYMENT = "split";
+
+export const paymentMethodLabel = (method: string) =>
+  method === SPLIT_PAYMENT ? "Split" : (PAYMENT_METHOD_LABELS[method as PaymentMethod] ?? method);
+
+// amount is what the tender pays towards the sale; tendered is the cash
+// handed over when change was given. M-Pesa tenders confirmed by STK Push
+// carry the mpesa_payments row the sale claims.
+export type Tender = {
+  method: PaymentMethod;
+  amount: number;
+  tendered: number | null;
+  reference: string | null;
+  mpesaPaymentId?: string | null;
+};
+
+// M-Pesa transaction codes are ten letters and digits, e.g. SKD4XYZ12A
+export const MPESA_CODE_PATTERN = /^[A-Z0-9]{10}$/i;
+
+export const tenderChange = (tenders: Pick<Tender, "amount" | "tendered">[]) =>
+  tenders.reduce((sum, tender) => sum + (tender.tendered !== null ? tender.tendered - tender.amount : 0), 0);
+
+// What the tenders pay towards the sale, excluding change
+export const tenderedTotal = (tenders: Pick<Tender, "amount">[]) =>
+  Math.round(tenders.reduce((sum, tender) => sum + tender.amount, 0) * 100) / 100;
@@ -0,0 +1,26 @@
+import { Tables } from "@/integrations/supabase/types";
+
+type OrderLine = Pick<Tables<"purchase_order_items">, "quantity_ordered" | "unit_cost">;
+
+export const PURCHASE_ORDER_STATUSES = ["draft", "sent", "partially_received", "received", "cancelled"] as const;
+
+export type PurchaseOrderStatus = (typeof PURCHASE_ORDER_STATUSES)[number];
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: "Draft",
+  sent: "Sent",
+  partially_received: "Partially received",
+  received: "Received",
+  cancelled: "Cancelled",
+};
+
+export const PURCHASE_ORDER_STATUS_CLASSES: Record<PurchaseOrderStatus, string> = {
+  draft: "bg-white/10 text-white/70",
+  sent: "bg-primary/20 text-primary",
+  partially_received: "bg-warning/20 text-warning",
+  received: "bg-success/20 text-success",
+  cancelled: "bg-destructive/20 text-destructive",
+};
+
+export const purchaseOrderTotal = (lines: OrderLine[]) =>
+  lines.reduce((sum, line) => sum + line.quantity_ordered * Number(line.unit_cost), 0);
@@ -0,0 +1,214 @@
+import { Tables } from "@/integrations/supabase/types";
+import { paymentMethodLabel, tenderChange } from "@/lib/payments";
+
+export const RECEIPT_WIDTHS = [58, 80] as const;
+
+export type ReceiptWidth = (typeof RECEIPT_WIDTHS)[number];
+
+export type ReceiptFormat = "a4" | `${ReceiptWidth}`;
+
+// Characters per line in the printer's default font (font A, 12 dots wide)
+export const RECEIPT_COLUMNS: Record<ReceiptWidth, number> = {
+  58: 32,
+  80: 48,
+};
+
+// Each character of font A is 1.5mm wide, which is how the on-screen
+// thermal layout is sized to match what the printer produces.
+export const RECEIPT_CHAR_WIDTH_MM = 1.5;
+
+export type ReceiptPharmacy = {
+  name: string;
+  address: string | null;
+  phone: string | null;
+  kraPin: string | null;
+  ppbLicenceNumber: string | null;
+  footer: string | null;
+};
+
+// unitPrice is the listed price; total is what was charged after discount
+export type ReceiptItem = {
+  name: string;
+  quantity: number;
+  unitPrice: number;
+  discount: number;
+  total: number;
+};
+
+export type ReceiptPayment = {
+  method: string;
+  amount: number;
+  tendered: number | null;
+  reference: string | null;
+};
+
+export type Receipt = {
+  pharmacy: ReceiptPharmacy;
+  saleNumber: string;
+  createdAt: string;
+  servedBy: string | null;
+  customerName: string | null;
+  prescriptionNumber: string | null;
+  payments: ReceiptPayment[];
+  items: ReceiptItem[];
+  subtotal: number;
+  discount: number;
+  total: number;
+  reprint: boolean;
+  voided: boolean;
+};
+
+export const isReceiptWidth = (value: unknown): value is ReceiptWidth =>
+  RECEIPT_WIDTHS.includes(Number(value) as ReceiptWidth);
+
+export const receiptPharmacy = (settings: Tables<"pharmacy_settings"> | null | undefined): ReceiptPharmacy => ({
+  name: settings?.pharmacy_name ?? "Pawa Pharmacy",
+  address: settings?.pharmacy_address ?? null,
+  phone: settings?.pharmacy_phone ?? null,
+  kraPin: settings?.kra_pin ?? null,
+  ppbLicenceNumber: settings?.ppb_licence_number ?? null,
+  footer: settings?.receipt_footer ?? null,
+});
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-KE", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const center = (text: string, columns: number) => {
+  const padding = Math.max(0, Math.floor((columns - text.length) / 2));
+  return `${" ".repeat(padding)}${text}`;
+};
+
+// Left text and right text on one line, wrapping the left side if both
+// don't fit.
+const justify = (left: string, right: string, columns: number): string[] => {
+  const room = columns - right.length - 1;
+  const wrapped = wrap(left, Math.max(room, 1));
+  const last = wrapped.pop() ?? "";
+  return [...wrapped, `${last}${" ".repeat(Math.max(1, columns - last.length - right.length))}${right}`];
+};
+
+const wrap = (text: string, columns: number): string[] => {
+  const lines: string[] = [];
+  let line = "";
+
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    if (!line) {
+      line = word;
+    } else if (line.length + 1 + word.length <= columns) {
+      line = `${line} ${word}`;
+    } else {
+      lines.push(line);
+      line = word;
+    }
+
+    while (line.length > columns) {
+      lines.push(line.slice(0, columns));
+      line = line.slice(columns);
+    }
+  }
+
+  if (line) lines.push(line);
+  return lines;
+};
+
+/**
+ * Lays a receipt out as fixed-width text lines for a thermal roll. The same
+ * lines back the on-screen thermal preview and the ESC/POS byte stream, so
+ * what is previewed is what the printer produces.
+ */
+export function receiptLines(receipt: Receipt, width: ReceiptWidth): string[] {
+  const columns = RECEIPT_COLUMNS[width];
+  const rule = "-".repeat(columns);
+  const { pharmacy } = receipt;
+  const lines: string[] = [];
+
+  lines.push(...wrap(pharmacy.name, columns).map((line) => center(line, columns)));
+  for (const detail of [
+    pharmacy.address,
+    pharmacy.phone && `Tel: ${pharmacy.phone}`,
+    pharmacy.kraPin && `KRA PIN: ${pharmacy.kraPin}`,
+    pharmacy.ppbLicenceNumber && `PPB Licence: ${pharmacy.ppbLicenceNumber}`,
+  ]) {
+    if (detail) {
+      lines.push(...detail.split("\n").flatMap((part) => wrap(part, columns)).map((line) => center(line, columns)));
+    }
+  }
+
+  lines.push(rule);
+  if (receipt.voided) lines.push(center("*** VOIDED ***", columns));
+  if (receipt.reprint) lines.push(center("*** REPRINT ***", columns));
+  lines.push(...justify("Receipt", receipt.saleNumber, columns));
+  lines.push(...justify("Date", new Date(receipt.createdAt).toLocaleString("en-KE"), columns));
+  if (receipt.servedBy) lines.push(...justify("Served by", receipt.servedBy, columns));
+  if (receipt.customerName) lines.push(...justify("Customer", receipt.customerName, columns));
+  if (receipt.prescriptionNumber) lines.push(...justify("Prescription", receipt.prescriptionNumber, columns));
+  lines.push(rule);
+
+  for (const item of receipt.items) {
+    lines.push(...wrap(item.name, columns));
+    lines.push(
+      ...justify(`${item.quantity} x ${formatAmount(item.unitPrice)}`, formatAmount(item.quantity * item.unitPrice), columns - 2).map(
+        (line) => `  ${line}`,
+      ),
+    );
+    if (item.discount > 0) {
+      lines.push(...justify("Discount", `-${formatAmount(item.discount)}`, columns - 2).map((line) => `  ${line}`));
+    }
+  }
+
+  lines.push(rule);
+  if (receipt.discount > 0) {
+    lines.push(...justify("Subtotal", formatAmount(receipt.subtotal), columns));
+    lines.push(...justify("Discount", `-${formatAmount(receipt.discount)}`, columns));
+  }
+  lines.push(...justify("TOTAL KES", formatAmount(receipt.total), columns));
+  for (const payment of receipt.payments) {
+    lines.push(...justify(paymentMethodLabel(payment.method), formatAmount(payment.tendered ?? payment.amount), columns));
+    if (payment.reference) lines.push(...wrap(payment.reference, columns - 2).map((line) => `  ${line}`));
+  }
+  const change = tenderChange(receipt.payments);
+  if (change > 0) lines.push(...justify("Change", formatAmount(change), columns));
+  lines.push(rule);
+
+  if (pharmacy.footer) {
+    lines.push(...pharmacy.footer.split("\n").flatMap((part) => wrap(part, columns)).map((line) => center(line, columns)));
+  }
+
+  return lines;
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Thermal printers default to code page 437; anything outside ASCII is
+// reduced to its base letter (é -> e) or dropped to '?'.
+const toPrinterBytes = (text: string) =>
+  Array.from(text.normalize("NFD").replace(/[\u0300-\u036f]/g, ""), (char) => {
+    const code = char.charCodeAt(0);
+    return code >= 0x20 && code < 0x7f ? code : 0x3f;
+  });
+
+/**
+ * ESC/POS commands for the receipt: the pharmacy name in double height, the
+ * body in font A, then a feed and partial cut.
+ */
+export function escPosReceipt(receipt: Receipt, width: ReceiptWidth): Uint8Array {
+  const [heading, ...body] = receiptLines(receipt, width);
+  const bytes: number[] = [
+    ESC, 0x40, // initialise
+    ESC, 0x21, 0x10, // double height
+    ...toPrinterBytes(heading ?? ""),
+    LF,
+    ESC, 0x21, 0x00, // normal text
+  ];
+
+  for (const line of body) {
+    bytes.push(...toPrinterBytes(line), LF);
+  }
+
+  bytes.push(ESC, 0x64, 0x04); // feed four lines
+  bytes.push(GS, 0x56, 0x01); // partial cut
+
+  return Uint8Array.from(bytes);
+}
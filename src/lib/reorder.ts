@@ -0,0 +1,53 @@
+export const REORDER_WINDOWS = [14, 30, 60, 90] as const;
+
+export interface ReorderParameters {
+  windowDays: number;
+  leadTimeDays: number;
+  coverDays: number;
+}
+
+export const DEFAULT_REORDER_PARAMETERS: ReorderParameters = {
+  windowDays: 30,
+  leadTimeDays: 7,
+  coverDays: 30,
+};
+
+interface ReorderInput {
+  stock: number;
+  onOrder: number;
+  reorderLevel: number;
+  unitsSold: number;
+}
+
+export interface ReorderSuggestion {
+  dailyDemand: number;
+  // null when nothing sold in the window, so stock never runs out on current demand
+  daysOfCover: number | null;
+  reorderPoint: number;
+  targetStock: number;
+  suggestedQuantity: number;
+  due: boolean;
+}
+
+// Reorder once stock plus open orders would not last the supplier lead time
+// (or has dropped to the reorder level), then order enough to cover the lead
+// time plus the cover period.
+export const suggestReorder = (input: ReorderInput, parameters: ReorderParameters): ReorderSuggestion => {
+  const dailyDemand = parameters.windowDays > 0 ? input.unitsSold / parameters.windowDays : 0;
+  const position = input.stock + input.onOrder;
+  const reorderPoint = Math.max(input.reorderLevel, Math.ceil(dailyDemand * parameters.leadTimeDays));
+  const targetStock = Math.max(
+    reorderPoint,
+    Math.ceil(dailyDemand * (parameters.leadTimeDays + parameters.coverDays)),
+  );
+  const suggestedQuantity = Math.max(targetStock - position, 0);
+
+  return {
+    dailyDemand,
+    daysOfCover: dailyDemand > 0 ? input.stock / dailyDemand : null,
+    reorderPoint,
+    targetStock,
+    suggestedQuantity,
+    due: suggestedQuantity > 0 && position <= reorderPoint,
+  };
+};
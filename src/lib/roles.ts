@@ -0,0 +1,18 @@
+import { Enums } from "@/integrations/supabase/types";
+
+export type UserRole = Enums<"user_role">;
+
+export const USER_ROLES: UserRole[] = ["admin", "pharmacist", "cashier"];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Admin",
+  pharmacist: "Pharmacist",
+  cashier: "Cashier",
+};
+
+// Roles allowed to manage pricing, the catalogue, suppliers and procurement;
+// mirrors the current_user_role() checks in the database.
+export const MANAGER_ROLES: UserRole[] = ["admin", "pharmacist"];
+
+export const hasRole = (profile: { role: UserRole } | null | undefined, roles?: UserRole[]) =>
+  !roles || (Boolean(profile) && roles.includes(profile.role));
@@ -0,0 +1,82 @@
+import { Tables } from "@/integrations/supabase/types";
+
+type BatchStock = Pick<Tables<"medicine_batches">, "quantity" | "expiry_date" | "status">;
+
+export const isExpired = (expiryDate: string) => new Date(expiryDate) < new Date();
+
+export const isExpiringSoon = (expiryDate: string, days = 90) => {
+  const today = new Date();
+  const expiry = new Date(expiryDate);
+  const horizon = new Date();
+  horizon.setDate(today.getDate() + days);
+  return expiry <= horizon && expiry >= today;
+};
+
+// Stock checkout can still draw from; mirrors the batch filter in record_sale.
+export const isBatchSellable = (batch: BatchStock) =>
+  batch.quantity > 0 && batch.status === "available" && !isExpired(batch.expiry_date);
+
+export const sellableQuantity = (batches: BatchStock[]) =>
+  batches.reduce((sum, batch) => (isBatchSellable(batch) ? sum + batch.quantity : sum), 0);
+
+// Expired stock still on the shelf and not yet quarantined
+export const expiredQuantity = (batches: BatchStock[]) =>
+  batches.reduce(
+    (sum, batch) => (batch.status === "available" && isExpired(batch.expiry_date) ? sum + batch.quantity : sum),
+    0,
+  );
+
+// Orders batches the way checkout consumes them: first expiry, first out.
+export const sortBatchesByExpiry = <T extends BatchStock>(batches: T[]) =>
+  [...batches].sort((a, b) => a.expiry_date.localeCompare(b.expiry_date));
+
+export const MOVEMENT_TYPES = ["in", "out", "adjustment", "expired"] as const;
+
+export type MovementType = (typeof MOVEMENT_TYPES)[number];
+
+export const MOVEMENT_TYPE_LABELS: Record<MovementType, string> = {
+  in: "Stock in",
+  out: "Stock out",
+  adjustment: "Adjustment",
+  expired: "Expired",
+};
+
+// Effect of a movement on on-hand stock; adjustment quantities are stored signed.
+export const signedMovementQuantity = (movementType: string, quantity: number) => {
+  if (movementType === "in" || movementType === "adjustment") return quantity;
+  return -quantity;
+};
+
+export const ADJUSTMENT_REASONS = {
+  damage: "Damage",
+  theft: "Theft",
+  count_correction: "Count correction",
+  sample: "Sample",
+  return_to_supplier: "Return to supplier",
+} as const;
+
+export type AdjustmentReason = keyof typeof ADJUSTMENT_REASONS;
+
+export const BATCH_STATUS_LABELS: Record<string, string> = {
+  available: "Available",
+  quarantined: "Quarantined",
+  written_off: "Written off",
+};
+
+export const DISPOSAL_METHODS = {
+  incineration: "Incineration",
+  encapsulation: "Encapsulation",
+  inertisation: "Inertisation",
+  return_to_supplier: "Return to supplier",
+  other: "Other",
+} as const;
+
+export type DisposalMethod = keyof typeof DISPOSAL_METHODS;
+
+// Where customer-returned units go: back on sale, or held for inspection
+export const RETURN_RESTOCK_TARGETS = {
+  available: "Back on sale",
+  quarantined: "Quarantine",
+} as const;
+
+export type ReturnRestockTarget = keyof typeof RETURN_RESTOCK_TARGETS;
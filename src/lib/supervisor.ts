@@ -0,0 +1,26 @@
+import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import type { Database } from "@/integrations/supabase/types";
+
+// Signs a pharmacist or admin in on a throwaway client so they can approve an
+// action at someone else's till without replacing that user's session. The
+// callback runs with the supervisor's client; the session is dropped after.
+export const withSupervisorSession = async <T>(
+  email: string,
+  password: string,
+  action: (client: SupabaseClient<Database>, supervisorId: string) => Promise<T>,
+) => {
+  const client = createClient<Database>(import.meta.env.VITE_SUPABASE_URL, import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false, detectSessionInUrl: false },
+  });
+
+  const { data, error } = await client.auth.signInWithPassword({ email: email.trim(), password });
+  if (error || !data.user) {
+    throw new Error("Supervisor sign-in failed. Check the email and password.");
+  }
+
+  try {
+    return await action(client, data.user.id);
+  } finally {
+    await client.auth.signOut({ scope: "local" });
+  }
+};
@@ -0,0 +1,30 @@
+export interface RegisteredTill {
+  id: string;
+  name: string;
+}
+
+const TILL_STORAGE_KEY = "pawa.till";
+
+export const DEFAULT_TILL_AUTO_LOCK_MINUTES = 5;
+
+export const TILL_PIN_PATTERN = /^\d{4,6}$/;
+
+// Which till this browser is registered as. Kept in localStorage so the
+// terminal comes back locked after a reload instead of falling back to the
+// account it is signed in with.
+export const readRegisteredTill = (): RegisteredTill | null => {
+  try {
+    const stored = window.localStorage.getItem(TILL_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as RegisteredTill) : null;
+  } catch {
+    return null;
+  }
+};
+
+export const saveRegisteredTill = (till: RegisteredTill) => {
+  window.localStorage.setItem(TILL_STORAGE_KEY, JSON.stringify(till));
+};
+
+export const clearRegisteredTill = () => {
+  window.localStorage.removeItem(TILL_STORAGE_KEY);
+};
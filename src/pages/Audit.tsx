@@ -0,0 +1,299 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { AuditChangeList } from "@/components/AuditHistory";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  AUDITED_TABLES,
+  AUDITED_TABLE_LABELS,
+  AUDIT_ACTION_CLASSES,
+  AUDIT_ACTION_LABELS,
+  AuditAction,
+  AuditEntry,
+  AuditedTable,
+  auditRecordLabel,
+} from "@/lib/audit";
+import { History, Loader2 } from "lucide-react";
+
+type AuditFilters = {
+  tableName: string;
+  userId: string;
+  recordId: string;
+  dateFrom: string;
+  dateTo: string;
+};
+
+const ALL = "all";
+
+const PAGE_SIZE = 200;
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Date inputs are local calendar days; these bound them in local time
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`);
+
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`);
+
+const fetchAuditLog = async (filters: AuditFilters): Promise<AuditEntry[]> => {
+  let query = supabase
+    .from("audit_log")
+    .select("*, actor:profiles!audit_log_actor_id_fkey ( full_name )")
+    .order("created_at", { ascending: false })
+    .limit(PAGE_SIZE);
+
+  if (filters.tableName !== ALL) query = query.eq("table_name", filters.tableName);
+  if (filters.userId !== ALL) query = query.eq("actor_id", filters.userId);
+  if (UUID_PATTERN.test(filters.recordId.trim())) query = query.eq("record_id", filters.recordId.trim());
+  if (filters.dateFrom) query = query.gte("created_at", startOfDay(filters.dateFrom).toISOString());
+  if (filters.dateTo) query = query.lte("created_at", endOfDay(filters.dateTo).toISOString());
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data as AuditEntry[]) ?? [];
+};
+
+const fetchStaff = async () => {
+  const { data, error } = await supabase.from("profiles").select("id, full_name").order("full_name");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const Audit = () => {
+  const [filters, setFilters] = useState<AuditFilters>({
+    tableName: ALL,
+    userId: ALL,
+    recordId: "",
+    dateFrom: "",
+    dateTo: "",
+  });
+
+  const updateFilter = (key: keyof AuditFilters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const {
+    data: entries = [],
+    isLoading,
+    isError,
+    error: auditError,
+  } = useQuery({ queryKey: ["audit", filters], queryFn: () => fetchAuditLog(filters) });
+
+  const { data: staff = [] } = useQuery({ queryKey: ["staff", "options"], queryFn: fetchStaff });
+
+  const recordFilterInvalid = filters.recordId.trim() !== "" && !UUID_PATTERN.test(filters.recordId.trim());
+
+  const getAuditErrorMessage = (error: unknown) => {
+    if (!error) return "We couldn't load the audit log.";
+    const message = (error as Error).message ?? "";
+    if (message.toLowerCase().includes("schema cache")) {
+      return "Supabase is missing the audit log table. Apply the latest migrations and redeploy.";
+    }
+    return message;
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Compliance</span>
+          <h1 className="text-4xl font-semibold leading-tight text-white">Audit Trail</h1>
+          <p className="max-w-2xl text-muted-foreground">
+            Every change to medicines, suppliers, prescriptions, sales and staff profiles, with who made it and what it
+            was before.
+          </p>
+        </div>
+
+        {isError && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Audit log unavailable</AlertTitle>
+            <AlertDescription>{getAuditErrorMessage(auditError)}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <History className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Change log</span>
+                <span className="text-lg font-semibold">Audit Trail</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-6">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Table</label>
+                <Select value={filters.tableName} onValueChange={(value) => updateFilter("tableName", value)}>
+                  <SelectTrigger className="glass-panel border-primary/10">
+                    <SelectValue placeholder="All tables" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All tables</SelectItem>
+                    {AUDITED_TABLES.map((table) => (
+                      <SelectItem key={table} value={table}>
+                        {AUDITED_TABLE_LABELS[table]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">User</label>
+                <Select value={filters.userId} onValueChange={(value) => updateFilter("userId", value)}>
+                  <SelectTrigger className="glass-panel border-primary/10">
+                    <SelectValue placeholder="All staff" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All staff</SelectItem>
+                    {staff.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.full_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2 lg:col-span-2">
+                <label className="text-sm font-medium text-white/80">Record ID</label>
+                <div className="flex gap-2">
+                  <Input
+                    value={filters.recordId}
+                    onChange={(event) => updateFilter("recordId", event.target.value)}
+                    placeholder="Paste a record ID"
+                    className="glass-panel border-primary/10 font-mono text-xs"
+                  />
+                  {filters.recordId && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      onClick={() => updateFilter("recordId", "")}
+                      className="text-white/70 hover:bg-white/10 hover:text-white"
+                    >
+                      Clear
+                    </Button>
+                  )}
+                </div>
+                {recordFilterInvalid && <p className="text-xs text-warning">Not a valid record ID; showing all records.</p>}
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">From</label>
+                <Input
+                  type="date"
+                  value={filters.dateFrom}
+                  onChange={(event) => updateFilter("dateFrom", event.target.value)}
+                  className="glass-panel border-primary/10"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">To</label>
+                <Input
+                  type="date"
+                  value={filters.dateTo}
+                  onChange={(event) => updateFilter("dateTo", event.target.value)}
+                  className="glass-panel border-primary/10"
+                />
+              </div>
+            </div>
+
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[960px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>Date</TableHead>
+                    <TableHead>Table</TableHead>
+                    <TableHead>Record</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>User</TableHead>
+                    <TableHead className="w-[380px]">Changes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading audit log...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : entries.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        No changes match these filters
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    entries.map((entry) => (
+                      <TableRow key={entry.id} className="align-top">
+                        <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+                        <TableCell>{AUDITED_TABLE_LABELS[entry.table_name as AuditedTable] ?? entry.table_name}</TableCell>
+                        <TableCell>
+                          {entry.record_id ? (
+                            <button
+                              type="button"
+                              onClick={() => updateFilter("recordId", entry.record_id)}
+                              title="Show this record's history"
+                              className="text-left font-medium text-primary hover:underline"
+                            >
+                              {auditRecordLabel(entry)}
+                            </button>
+                          ) : (
+                            auditRecordLabel(entry)
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant="secondary"
+                            className={`uppercase tracking-wide ${AUDIT_ACTION_CLASSES[entry.action as AuditAction]}`}
+                          >
+                            {AUDIT_ACTION_LABELS[entry.action as AuditAction]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell>{entry.actor?.full_name ?? "System"}</TableCell>
+                        <TableCell>
+                          <AuditChangeList entry={entry} />
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+            {entries.length === PAGE_SIZE && (
+              <p className="text-xs text-muted-foreground">
+                Showing the latest {PAGE_SIZE} changes. Narrow the filters to see older entries.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Audit;
@@ -1,15 +1,18 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ROLE_LABELS, UserRole } from "@/lib/roles";
 import { toast } from "sonner";
 import { Pill } from "lucide-react";
 
 const Auth = () => {
   const navigate = useNavigate();
+  const queryClient = useQueryClient();
   const [isLogin, setIsLogin] = useState(true);
   const [loading, setLoading] = useState(false);
   const [formData, setFormData] = useState({
@@ -17,6 +20,9 @@ const Auth = () => {
     password: "",
     fullName: "",
   });
+  const [searchParams] = useSearchParams();
+  const inviteToken = searchParams.get("invite");
+  const [invitedRole, setInvitedRole] = useState<UserRole | null>(null);
 
   useEffect(() => {
     // Check if user is already logged in
@@ -27,6 +33,26 @@ const Auth = () => {
     });
   }, [navigate]);
 
+  useEffect(() => {
+    if (!inviteToken) return;
+
+    supabase.rpc("lookup_staff_invitation", { p_token: inviteToken }).then(({ data, error }) => {
+      const invitation = data?.[0];
+      if (error || !invitation) {
+        toast.error("This invitation link is invalid or has expired");
+        return;
+      }
+
+      setIsLogin(false);
+      setInvitedRole(invitation.role);
+      setFormData((current) => ({
+        ...current,
+        email: invitation.email,
+        fullName: invitation.full_name ?? current.fullName,
+      }));
+    });
+  }, [inviteToken]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setLoading(true);
@@ -40,6 +66,8 @@ const Auth = () => {
 
         if (error) throw error;
 
+        // Drop any profile cached before sign-in so role checks see this user
+        queryClient.removeQueries({ queryKey: ["profile"] });
         toast.success("Welcome back!");
         navigate("/");
       } else {
@@ -47,8 +75,11 @@ const Auth = () => {
           email: formData.email,
           password: formData.password,
           options: {
+            // Roles are never taken from signup data; an invite token lets
+            // the database apply the role the admin chose.
             data: {
               full_name: formData.fullName,
+              ...(invitedRole ? { invite_token: inviteToken } : {}),
             },
             emailRedirectTo: `${window.location.origin}/`,
           },
@@ -56,6 +87,7 @@ const Auth = () => {
 
         if (error) throw error;
 
+        queryClient.removeQueries({ queryKey: ["profile"] });
         toast.success("Account created successfully!");
         navigate("/");
       }
@@ -67,6 +99,30 @@ const Auth = () => {
     }
   };
 
+  const handleForgotPassword = async () => {
+    if (!formData.email) {
+      toast.error("Enter your email first");
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.auth.resetPasswordForEmail(formData.email, {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+
+      if (error) throw error;
+
+      toast.success("Check your email for a link to reset your password");
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "An error occurred";
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="flex min-h-screen items-center justify-center bg-gradient-to-br from-background via-muted to-secondary p-4">
       <Card className="w-full max-w-md shadow-2xl border-primary/20">
@@ -79,6 +135,11 @@ const Auth = () => {
             <CardDescription className="text-base">
               {isLogin ? "Welcome back" : "Create your account"}
             </CardDescription>
+            {!isLogin && invitedRole && (
+              <p className="mt-2 text-sm text-muted-foreground">
+                You've been invited to join as <span className="font-semibold text-primary">{ROLE_LABELS[invitedRole]}</span>
+              </p>
+            )}
           </div>
         </CardHeader>
         <CardContent>
@@ -109,11 +170,24 @@ const Auth = () => {
                   setFormData({ ...formData, email: e.target.value })
                 }
                 required
+                readOnly={!isLogin && Boolean(invitedRole)}
                 className="h-11"
               />
             </div>
             <div className="space-y-2">
-              <Label htmlFor="password">Password</Label>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="password">Password</Label>
+                {isLogin && (
+                  <button
+                    type="button"
+                    onClick={handleForgotPassword}
+                    disabled={loading}
+                    className="text-xs text-primary hover:underline font-medium"
+                  >
+                    Forgot password?
+                  </button>
+                )}
+              </div>
               <Input
                 id="password"
                 type="password"
@@ -0,0 +1,149 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import PrintLayout from "@/components/PrintLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from "@/lib/payments";
+import { RETURN_RESTOCK_TARGETS, ReturnRestockTarget } from "@/lib/stock";
+
+type CreditNoteDetail = Tables<"sale_returns"> & {
+  sales?: Pick<Tables<"sales">, "sale_number" | "created_at" | "customer_name" | "customer_phone"> | null;
+  processor?: { full_name: string } | null;
+  approver?: { full_name: string } | null;
+  sale_return_items: (Tables<"sale_return_items"> & {
+    medicines?: { name: string } | null;
+    medicine_batches?: { batch_number: string } | null;
+  })[];
+};
+
+const fetchCreditNote = async (id: string): Promise<CreditNoteDetail> => {
+  const { data, error } = await supabase
+    .from("sale_returns")
+    .select(
+      `*, sales ( sale_number, created_at, customer_name, customer_phone ),
+      processor:profiles!sale_returns_processed_by_fkey ( full_name ),
+      approver:profiles!sale_returns_approved_by_fkey ( full_name ),
+      sale_return_items ( *, medicines ( name ), medicine_batches ( batch_number ) )`,
+    )
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return data as CreditNoteDetail;
+};
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const CreditNote = () => {
+  const { id = "" } = useParams();
+
+  const { data: creditNote, isLoading, isError, error } = useQuery({
+    queryKey: ["sale-returns", id],
+    queryFn: () => fetchCreditNote(id),
+    enabled: Boolean(id),
+  });
+
+  const sale = creditNote?.sales;
+
+  return (
+    <PrintLayout
+      title="Credit Note"
+      documentNumber={creditNote?.return_number}
+      loading={isLoading}
+      error={isError ? ((error as Error)?.message ?? "We couldn't load this credit note.") : null}
+    >
+      {creditNote && (
+        <div className="space-y-8 text-sm">
+          <div className="grid grid-cols-2 gap-8">
+            <div>
+              <p className="text-xs uppercase tracking-wide text-slate-500">Customer</p>
+              <p className="text-base font-semibold">{sale?.customer_name ?? "Walk-in customer"}</p>
+              {sale?.customer_phone && <p>{sale.customer_phone}</p>}
+            </div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 self-start">
+              <dt className="text-slate-500">Date</dt>
+              <dd className="text-right font-medium">{new Date(creditNote.created_at).toLocaleString()}</dd>
+              <dt className="text-slate-500">Original sale</dt>
+              <dd className="text-right font-mono font-medium">{sale?.sale_number ?? "—"}</dd>
+              <dt className="text-slate-500">Sold on</dt>
+              <dd className="text-right font-medium">
+                {sale?.created_at ? new Date(sale.created_at).toLocaleDateString() : "—"}
+              </dd>
+              <dt className="text-slate-500">Refunded by</dt>
+              <dd className="text-right font-medium">
+                {PAYMENT_METHOD_LABELS[creditNote.refund_method as PaymentMethod] ?? creditNote.refund_method}
+              </dd>
+              <dt className="text-slate-500">Processed by</dt>
+              <dd className="text-right font-medium">{creditNote.processor?.full_name ?? "—"}</dd>
+              {creditNote.approver && (
+                <>
+                  <dt className="text-slate-500">Approved by</dt>
+                  <dd className="text-right font-medium">{creditNote.approver.full_name}</dd>
+                </>
+              )}
+            </dl>
+          </div>
+
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b-2 border-slate-800 text-left text-xs uppercase tracking-wide">
+                <th className="py-2 pr-2">#</th>
+                <th className="py-2 pr-2">Item</th>
+                <th className="py-2 pr-2">Restocked to</th>
+                <th className="py-2 pr-2 text-right">Quantity</th>
+                <th className="py-2 pr-2 text-right">Unit price</th>
+                <th className="py-2 text-right">Amount (KES)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {creditNote.sale_return_items.map((item, index) => (
+                <tr key={item.id} className="border-b border-slate-200">
+                  <td className="py-2 pr-2">{index + 1}</td>
+                  <td className="py-2 pr-2">
+                    {item.medicines?.name ?? "Item"}
+                    {item.medicine_batches?.batch_number && (
+                      <span className="block text-xs text-slate-500">Batch {item.medicine_batches.batch_number}</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2">
+                    {RETURN_RESTOCK_TARGETS[item.restock_to as ReturnRestockTarget] ?? item.restock_to}
+                  </td>
+                  <td className="py-2 pr-2 text-right">{item.quantity}</td>
+                  <td className="py-2 pr-2 text-right">{formatKes(Number(item.unit_price))}</td>
+                  <td className="py-2 text-right">{formatKes(Number(item.total_price))}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="text-base font-semibold">
+                <td colSpan={5} className="py-3 pr-2 text-right">
+                  Total refunded
+                </td>
+                <td className="py-3 text-right">{formatKes(Number(creditNote.refund_amount))}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <div>
+            <p className="text-xs uppercase tracking-wide text-slate-500">Reason</p>
+            <p className="whitespace-pre-line">{creditNote.reason}</p>
+          </div>
+
+          <div className="flex gap-16">
+            <div className="w-64 space-y-6 pt-8">
+              <div className="border-b border-slate-400 pb-8" />
+              <p className="text-xs uppercase tracking-wide text-slate-500">Customer signature</p>
+            </div>
+            <div className="w-64 space-y-6 pt-8">
+              <div className="border-b border-slate-400 pb-8" />
+              <p className="text-xs uppercase tracking-wide text-slate-500">Authorised by</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </PrintLayout>
+  );
+};
+
+export default CreditNote;
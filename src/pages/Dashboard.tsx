@@ -10,6 +10,7 @@ import {
   DollarSign,
 } from "lucide-react";
 import DashboardLayout from "@/components/DashboardLayout";
+import { PAYMENT_METHODS, PAYMENT_METHOD_LABELS, PaymentMethod } from "@/lib/payments";
 
 const Dashboard = () => {
   const [stats, setStats] = useState({
@@ -19,6 +20,7 @@ const Dashboard = () => {
     todayRevenue: 0,
     expiringItems: 0,
   });
+  const [tenderTotals, setTenderTotals] = useState<Partial<Record<PaymentMethod, number>>>({});
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
 
   useEffect(() => {
@@ -45,17 +47,44 @@ const Dashboard = () => {
       const today = new Date().toISOString().split("T")[0];
       const { count: salesCount, data: salesData } = await supabase
         .from("sales")
-        .select("total_amount")
+        .select("total_amount", { count: "exact" })
+        .eq("status", "completed")
         .gte("created_at", today);
 
       const revenue = salesData?.reduce((sum, sale) => sum + Number(sale.total_amount), 0) || 0;
 
-      // Expiring items (within 90 days)
+      // Today's takings by tender; a split sale counts towards each of its tenders
+      const { data: paymentsData } = await supabase
+        .from("sale_payments")
+        .select("method, amount, sales!inner ( status, created_at )")
+        .eq("sales.status", "completed")
+        .gte("sales.created_at", today);
+
+      const byTender: Partial<Record<PaymentMethod, number>> = {};
+      paymentsData?.forEach((payment) => {
+        const method = payment.method as PaymentMethod;
+        byTender[method] = (byTender[method] ?? 0) + Number(payment.amount);
+      });
+
+      // Less today's refunds, taken from the tender they were paid out of,
+      // as the shift's expected takings are
+      const { data: refundsData } = await supabase
+        .from("sale_returns")
+        .select("refund_method, refund_amount")
+        .gte("created_at", today);
+
+      refundsData?.forEach((refund) => {
+        const method = refund.refund_method as PaymentMethod;
+        byTender[method] = (byTender[method] ?? 0) - Number(refund.refund_amount);
+      });
+
+      // Expiring batches still holding stock (within 90 days)
       const ninetyDaysFromNow = new Date();
       ninetyDaysFromNow.setDate(ninetyDaysFromNow.getDate() + 90);
       const { count: expiringCount } = await supabase
-        .from("medicines")
+        .from("medicine_batches")
         .select("*", { count: "exact", head: true })
+        .gt("quantity", 0)
         .lte("expiry_date", ninetyDaysFromNow.toISOString().split("T")[0])
         .gte("expiry_date", today);
 
@@ -66,6 +95,7 @@ const Dashboard = () => {
         todayRevenue: revenue,
         expiringItems: expiringCount || 0,
       });
+      setTenderTotals(byTender);
       setErrorMessage(null);
     } catch (error) {
       console.error("Error loading dashboard stats:", error);
@@ -157,6 +187,25 @@ const Dashboard = () => {
           ))}
         </div>
 
+        <Card className="glass-panel border border-white/10">
+          <CardHeader>
+            <CardTitle className="flex items-center justify-between text-lg font-semibold text-white">
+              <span>Today's Takings by Tender</span>
+              <span className="text-xs uppercase tracking-[0.3em] text-white/50">Net of refunds</span>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-6 sm:grid-cols-2 lg:grid-cols-4">
+            {PAYMENT_METHODS.map((method) => (
+              <div key={method} className="rounded-2xl border border-white/10 bg-white/5 p-4">
+                <p className="text-sm font-semibold uppercase tracking-widest text-white/60">
+                  {PAYMENT_METHOD_LABELS[method]}
+                </p>
+                <p className="mt-2 text-2xl font-black text-white">KES {(tenderTotals[method] ?? 0).toLocaleString()}</p>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
         <Card className="glass-panel border border-white/10">
           <CardHeader>
             <CardTitle className="flex items-center justify-between text-lg font-semibold text-white">
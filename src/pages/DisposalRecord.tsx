@@ -0,0 +1,142 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import PrintLayout from "@/components/PrintLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { DISPOSAL_METHODS, DisposalMethod } from "@/lib/stock";
+
+type DisposalDetail = Tables<"stock_disposals"> & {
+  disposer?: { full_name: string } | null;
+  stock_disposal_items: Tables<"stock_disposal_items">[];
+};
+
+const fetchDisposal = async (id: string): Promise<DisposalDetail> => {
+  const { data, error } = await supabase
+    .from("stock_disposals")
+    .select("*, disposer:profiles!stock_disposals_disposed_by_fkey ( full_name ), stock_disposal_items ( * )")
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return data as DisposalDetail;
+};
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// Destruction record for expired or quarantined stock, laid out for filing
+// and Pharmacy and Poisons Board inspection.
+const DisposalRecord = () => {
+  const { id = "" } = useParams();
+
+  const { data: disposal, isLoading, isError, error } = useQuery({
+    queryKey: ["expired-stock", "disposals", id],
+    queryFn: () => fetchDisposal(id),
+    enabled: Boolean(id),
+  });
+
+  const items = [...(disposal?.stock_disposal_items ?? [])].sort((a, b) =>
+    a.medicine_name.localeCompare(b.medicine_name),
+  );
+  const totalUnits = items.reduce((sum, item) => sum + item.quantity, 0);
+  const totalValue = items.reduce((sum, item) => sum + item.quantity * Number(item.unit_cost), 0);
+
+  return (
+    <PrintLayout
+      title="Destruction Record"
+      documentNumber={disposal?.disposal_number}
+      loading={isLoading}
+      error={isError ? ((error as Error)?.message ?? "We couldn't load this record.") : null}
+    >
+      {disposal && (
+        <div className="space-y-8 text-sm">
+          <dl className="grid grid-cols-2 gap-x-8 gap-y-3">
+            <div>
+              <dt className="text-xs uppercase tracking-wide text-slate-500">Date of disposal</dt>
+              <dd className="font-medium">{new Date(disposal.disposal_date).toLocaleDateString()}</dd>
+            </div>
+            <div>
+              <dt className="text-xs uppercase tracking-wide text-slate-500">Method of disposal</dt>
+              <dd className="font-medium">
+                {DISPOSAL_METHODS[disposal.disposal_method as DisposalMethod] ?? disposal.disposal_method}
+              </dd>
+            </div>
+            <div>
+              <dt className="text-xs uppercase tracking-wide text-slate-500">Authorised by</dt>
+              <dd className="font-medium">{disposal.disposer?.full_name ?? "—"}</dd>
+            </div>
+            <div>
+              <dt className="text-xs uppercase tracking-wide text-slate-500">Witness</dt>
+              <dd className="font-medium">
+                {disposal.witness_name}
+                {disposal.witness_designation && `, ${disposal.witness_designation}`}
+              </dd>
+            </div>
+            {disposal.notes && (
+              <div className="col-span-2">
+                <dt className="text-xs uppercase tracking-wide text-slate-500">Notes</dt>
+                <dd>{disposal.notes}</dd>
+              </div>
+            )}
+          </dl>
+
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b-2 border-slate-800 text-left text-xs uppercase tracking-wide">
+                <th className="py-2 pr-2">#</th>
+                <th className="py-2 pr-2">Product</th>
+                <th className="py-2 pr-2">Batch</th>
+                <th className="py-2 pr-2">Expiry</th>
+                <th className="py-2 pr-2 text-right">Quantity</th>
+                <th className="py-2 pr-2 text-right">Unit cost</th>
+                <th className="py-2 text-right">Value (KES)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, index) => (
+                <tr key={item.id} className="border-b border-slate-200">
+                  <td className="py-2 pr-2">{index + 1}</td>
+                  <td className="py-2 pr-2">{item.medicine_name}</td>
+                  <td className="py-2 pr-2 font-mono">{item.batch_number}</td>
+                  <td className="py-2 pr-2">{new Date(item.expiry_date).toLocaleDateString()}</td>
+                  <td className="py-2 pr-2 text-right">{item.quantity}</td>
+                  <td className="py-2 pr-2 text-right">{formatKes(Number(item.unit_cost))}</td>
+                  <td className="py-2 text-right">{formatKes(item.quantity * Number(item.unit_cost))}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="font-semibold">
+                <td colSpan={4} className="py-3 pr-2 text-right">
+                  Total
+                </td>
+                <td className="py-3 pr-2 text-right">{totalUnits}</td>
+                <td />
+                <td className="py-3 text-right">{formatKes(totalValue)}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          <p className="text-slate-600">
+            We certify that the products listed above were removed from saleable stock and destroyed by the method
+            stated, in our presence.
+          </p>
+
+          <div className="grid grid-cols-2 gap-12 pt-8">
+            {["Pharmacist in charge", "Witness"].map((role) => (
+              <div key={role} className="space-y-6">
+                <div className="border-b border-slate-400 pb-8" />
+                <div className="flex justify-between text-xs uppercase tracking-wide text-slate-500">
+                  <span>{role}: name &amp; signature</span>
+                  <span>Date</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </PrintLayout>
+  );
+};
+
+export default DisposalRecord;
@@ -0,0 +1,620 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { BATCH_STATUS_LABELS, DISPOSAL_METHODS, DisposalMethod, isExpired } from "@/lib/stock";
+import { toast } from "sonner";
+import { AlertTriangle, FileText, Loader2, ShieldAlert, Trash2 } from "lucide-react";
+
+type ExpiryBatch = Tables<"medicine_batches"> & {
+  medicines?: { name: string; generic_name: string | null } | null;
+};
+
+type DisposalSummary = Tables<"stock_disposals"> & {
+  disposer?: { full_name: string } | null;
+  stock_disposal_items: Pick<Tables<"stock_disposal_items">, "quantity" | "unit_cost">[];
+};
+
+const HORIZONS = {
+  "0": "Expired only",
+  "30": "Expiring within 30 days",
+  "60": "Expiring within 60 days",
+  "90": "Expiring within 90 days",
+} as const;
+
+const writeOffFormSchema = z.object({
+  disposalMethod: z.string().min(1, "Select a disposal method"),
+  witnessName: z.string().trim().min(2, "Witness name is required"),
+  witnessDesignation: z.string().optional().or(z.literal("")),
+  notes: z.string().optional().or(z.literal("")),
+});
+
+type WriteOffFormValues = z.infer<typeof writeOffFormSchema>;
+
+const toDateInput = (date: Date) => date.toISOString().slice(0, 10);
+
+const daysUntil = (date: string) => Math.ceil((new Date(date).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+
+const fetchExpiryQueue = async (horizonDays: number): Promise<ExpiryBatch[]> => {
+  const horizon = new Date();
+  horizon.setDate(horizon.getDate() + horizonDays);
+
+  const { data, error } = await supabase
+    .from("medicine_batches")
+    .select("*, medicines ( name, generic_name )")
+    .gt("quantity", 0)
+    .neq("status", "written_off")
+    .lte("expiry_date", toDateInput(horizon))
+    .order("expiry_date");
+
+  if (error) throw error;
+  return (data as ExpiryBatch[]) ?? [];
+};
+
+const fetchDisposals = async (): Promise<DisposalSummary[]> => {
+  const { data, error } = await supabase
+    .from("stock_disposals")
+    .select(
+      "*, disposer:profiles!stock_disposals_disposed_by_fkey ( full_name ), stock_disposal_items ( quantity, unit_cost )",
+    )
+    .order("created_at", { ascending: false })
+    .limit(20);
+
+  if (error) throw error;
+  return (data as DisposalSummary[]) ?? [];
+};
+
+// Quarantined batches and anything already past expiry can go on a write-off
+const canWriteOff = (batch: ExpiryBatch) => batch.status === "quarantined" || isExpired(batch.expiry_date);
+
+const ExpiredStock = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [horizon, setHorizon] = useState<keyof typeof HORIZONS>("90");
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [writeOffOpen, setWriteOffOpen] = useState(false);
+
+  const {
+    data: batches = [],
+    isLoading,
+    isError,
+    error: batchesError,
+  } = useQuery({
+    queryKey: ["expired-stock", "queue", horizon],
+    queryFn: () => fetchExpiryQueue(Number(horizon)),
+  });
+
+  const { data: disposals = [], isLoading: loadingDisposals } = useQuery({
+    queryKey: ["expired-stock", "disposals"],
+    queryFn: fetchDisposals,
+  });
+
+  // Selections outside the current window, or released since, drop out here
+  const selectedBatches = useMemo(
+    () => batches.filter((batch) => selectedIds.includes(batch.id) && canWriteOff(batch)),
+    [batches, selectedIds],
+  );
+
+  const totals = useMemo(
+    () =>
+      batches.reduce(
+        (sum, batch) => ({
+          expired: sum.expired + (isExpired(batch.expiry_date) ? 1 : 0),
+          quarantined: sum.quarantined + (batch.status === "quarantined" ? 1 : 0),
+          value: sum.value + batch.quantity * Number(batch.unit_cost),
+        }),
+        { expired: 0, quarantined: 0, value: 0 },
+      ),
+    [batches],
+  );
+
+  const quarantineMutation = useMutation({
+    mutationFn: async ({ batch, quarantine }: { batch: ExpiryBatch; quarantine: boolean }) => {
+      const { error } = await supabase.rpc("set_batch_quarantine", {
+        p_batch_id: batch.id,
+        p_quarantine: quarantine,
+        p_reason: quarantine ? (isExpired(batch.expiry_date) ? "Expired" : "Near expiry") : null,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { quarantine }) => {
+      toast.success(quarantine ? "Batch quarantined" : "Batch released for sale");
+      queryClient.invalidateQueries({ queryKey: ["expired-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
+    },
+    onError: (error) => {
+      console.error("Failed to update quarantine", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update quarantine");
+    },
+  });
+
+  const toggleSelected = (batchId: string, checked: boolean) => {
+    setSelectedIds((prev) => (checked ? [...prev, batchId] : prev.filter((id) => id !== batchId)));
+  };
+
+  const getQueueErrorMessage = (error: unknown) => {
+    if (!error) return "We couldn't load the expiry queue.";
+    const message = (error as Error).message ?? "";
+    if (message.toLowerCase().includes("schema cache")) {
+      return "Supabase is missing the expiry write-off changes. Apply the latest migrations and redeploy.";
+    }
+    return message;
+  };
+
+  const queueErrorMessage = isError ? getQueueErrorMessage(batchesError) : null;
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Stock Control</span>
+          <h1 className="text-4xl font-semibold leading-tight text-white">Expired Stock</h1>
+          <p className="max-w-2xl text-muted-foreground">
+            Quarantine expired and near-expiry batches so they cannot be sold, then write them off with a witnessed
+            destruction record.
+          </p>
+        </div>
+
+        {queueErrorMessage && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Expiry queue unavailable</AlertTitle>
+            <AlertDescription>{queueErrorMessage}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="glass-panel border border-white/10 p-5">
+            <p className="text-xs uppercase tracking-[0.3em] text-white/50">Expired batches</p>
+            <p className="text-3xl font-black text-destructive">{totals.expired}</p>
+          </div>
+          <div className="glass-panel border border-white/10 p-5">
+            <p className="text-xs uppercase tracking-[0.3em] text-white/50">Quarantined</p>
+            <p className="text-3xl font-black text-warning">{totals.quarantined}</p>
+          </div>
+          <div className="glass-panel border border-white/10 p-5">
+            <p className="text-xs uppercase tracking-[0.3em] text-white/50">Value at cost</p>
+            <p className="text-3xl font-black text-white">
+              KES {totals.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+            </p>
+          </div>
+        </div>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-4 md:flex md:flex-row md:items-center md:justify-between md:space-y-0">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-destructive/20 text-destructive">
+                <ShieldAlert className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Queue</span>
+                <span className="text-lg font-semibold">Expired &amp; Near Expiry</span>
+              </div>
+            </CardTitle>
+            <div className="flex flex-wrap items-center gap-3">
+              <Select value={horizon} onValueChange={(value) => setHorizon(value as keyof typeof HORIZONS)}>
+                <SelectTrigger className="glass-panel w-[220px] border-primary/10">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(HORIZONS) as (keyof typeof HORIZONS)[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {HORIZONS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => setWriteOffOpen(true)}
+                disabled={selectedBatches.length === 0}
+                className="rounded-full bg-destructive/80 text-white hover:bg-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" /> Write off ({selectedBatches.length})
+              </Button>
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[880px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead className="w-10" />
+                    <TableHead>Medicine</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Expiry</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    <TableHead className="text-right">Value (KES)</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Action</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading expiry queue...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : batches.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="py-6 text-center text-muted-foreground">
+                        No batches in this window
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    batches.map((batch) => {
+                      const expired = isExpired(batch.expiry_date);
+                      const days = daysUntil(batch.expiry_date);
+
+                      return (
+                        <TableRow key={batch.id}>
+                          <TableCell>
+                            <Checkbox
+                              checked={selectedIds.includes(batch.id)}
+                              disabled={!canWriteOff(batch)}
+                              onCheckedChange={(checked) => toggleSelected(batch.id, Boolean(checked))}
+                              aria-label={`Select ${batch.batch_number}`}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="font-medium">{batch.medicines?.name}</span>
+                              {batch.medicines?.generic_name && (
+                                <span className="text-xs text-muted-foreground">{batch.medicines.generic_name}</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="font-mono text-sm">{batch.batch_number}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span>{new Date(batch.expiry_date).toLocaleDateString()}</span>
+                              <span className={`text-xs ${expired ? "text-destructive" : "text-warning"}`}>
+                                {expired ? `Expired ${Math.abs(days)} days ago` : `${days} days left`}
+                              </span>
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">{batch.quantity}</TableCell>
+                          <TableCell className="text-right">
+                            {(batch.quantity * Number(batch.unit_cost)).toLocaleString(undefined, {
+                              maximumFractionDigits: 2,
+                            })}
+                          </TableCell>
+                          <TableCell>
+                            {batch.status === "quarantined" ? (
+                              <Badge variant="outline" className="border-warning/60 text-warning">
+                                {BATCH_STATUS_LABELS.quarantined}
+                              </Badge>
+                            ) : expired ? (
+                              <Badge variant="destructive">Expired</Badge>
+                            ) : (
+                              <Badge variant="outline" className="flex w-fit items-center gap-1 border-warning/60 text-warning">
+                                <AlertTriangle className="h-3 w-3" /> Near expiry
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {batch.status === "quarantined" ? (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                disabled={expired || quarantineMutation.isPending}
+                                onClick={() => quarantineMutation.mutate({ batch, quarantine: false })}
+                                className="text-white/70 hover:bg-white/10 hover:text-white"
+                              >
+                                Release
+                              </Button>
+                            ) : (
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={quarantineMutation.isPending}
+                                onClick={() => quarantineMutation.mutate({ batch, quarantine: true })}
+                                className="border-warning/50 bg-transparent text-warning hover:bg-warning/10"
+                              >
+                                Quarantine
+                              </Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <FileText className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Records</span>
+                <span className="text-lg font-semibold">Destruction Records</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[720px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>Record #</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Method</TableHead>
+                    <TableHead>Witness</TableHead>
+                    <TableHead className="text-right">Units</TableHead>
+                    <TableHead className="text-right">Value (KES)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingDisposals ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading records...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : disposals.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        No stock written off yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    disposals.map((disposal) => {
+                      const items = disposal.stock_disposal_items ?? [];
+                      const units = items.reduce((sum, item) => sum + item.quantity, 0);
+                      const value = items.reduce((sum, item) => sum + item.quantity * Number(item.unit_cost), 0);
+
+                      return (
+                        <TableRow key={disposal.id}>
+                          <TableCell className="font-medium">
+                            <Link to={`/disposals/${disposal.id}/print`} className="text-primary hover:underline">
+                              {disposal.disposal_number}
+                            </Link>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span>{new Date(disposal.disposal_date).toLocaleDateString()}</span>
+                              <span className="text-xs text-muted-foreground">{disposal.disposer?.full_name}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            {DISPOSAL_METHODS[disposal.disposal_method as DisposalMethod] ?? disposal.disposal_method}
+                          </TableCell>
+                          <TableCell>{disposal.witness_name}</TableCell>
+                          <TableCell className="text-right">{units}</TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <WriteOffDialog
+        open={writeOffOpen}
+        onOpenChange={setWriteOffOpen}
+        batches={selectedBatches}
+        onWrittenOff={(disposalId) => {
+          setSelectedIds([]);
+          navigate(`/disposals/${disposalId}/print`);
+        }}
+      />
+    </DashboardLayout>
+  );
+};
+
+interface WriteOffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  batches: ExpiryBatch[];
+  onWrittenOff: (disposalId: string) => void;
+}
+
+const WriteOffDialog = ({ open, onOpenChange, batches, onWrittenOff }: WriteOffDialogProps) => {
+  const queryClient = useQueryClient();
+
+  const form = useForm<WriteOffFormValues>({
+    resolver: zodResolver(writeOffFormSchema),
+    defaultValues: { disposalMethod: "", witnessName: "", witnessDesignation: "", notes: "" },
+  });
+
+  useEffect(() => {
+    if (open) form.reset({ disposalMethod: "", witnessName: "", witnessDesignation: "", notes: "" });
+  }, [open, form]);
+
+  const units = batches.reduce((sum, batch) => sum + batch.quantity, 0);
+
+  const writeOffMutation = useMutation({
+    mutationFn: async (values: WriteOffFormValues) => {
+      const { data, error } = await supabase.rpc("write_off_batches", {
+        p_batch_ids: batches.map((batch) => batch.id),
+        p_disposal_method: values.disposalMethod,
+        p_witness_name: values.witnessName.trim(),
+        p_witness_designation: values.witnessDesignation?.trim() || null,
+        p_notes: values.notes?.trim() || null,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (disposalId) => {
+      toast.success("Stock written off");
+      queryClient.invalidateQueries({ queryKey: ["expired-stock"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+      onOpenChange(false);
+      if (disposalId) onWrittenOff(disposalId);
+    },
+    onError: (error) => {
+      console.error("Failed to write off stock", error);
+      toast.error(error instanceof Error ? error.message : "Failed to write off stock");
+    },
+  });
+
+  const onSubmit = (values: WriteOffFormValues) => {
+    writeOffMutation.mutate(values);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-semibold text-white">Write off stock</DialogTitle>
+          <DialogDescription className="text-white/60">
+            {batches.length} batch{batches.length === 1 ? "" : "es"} ({units} units) will be removed from stock and
+            recorded on a destruction record.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+            <FormField
+              control={form.control}
+              name="disposalMethod"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Disposal method</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select method" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(DISPOSAL_METHODS) as DisposalMethod[]).map((method) => (
+                        <SelectItem key={method} value={method}>
+                          {DISPOSAL_METHODS[method]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-5 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="witnessName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Witness name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Full name" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="witnessDesignation"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Witness designation</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Pharmaceutical technologist" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
+                  <FormControl>
+                    <Input placeholder="Optional details, e.g. disposal contractor" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                Cancel
+              </Button>
+              <Button
+                type="submit"
+                disabled={writeOffMutation.isPending || batches.length === 0}
+                className="rounded-full bg-destructive/80 text-white hover:bg-destructive"
+              >
+                {writeOffMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Writing off
+                  </>
+                ) : (
+                  "Write off"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExpiredStock;
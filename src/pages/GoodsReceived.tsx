@@ -0,0 +1,831 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useSearchParams } from "react-router-dom";
+import { useFieldArray, useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import BarcodeScanDialog from "@/components/BarcodeScanDialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { Camera, History, Loader2, PackageCheck, Plus, ScanBarcode, Trash2 } from "lucide-react";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { Gs1Scan, parseGs1, sameGtin } from "@/lib/gs1";
+
+type OpenOrder = Tables<"purchase_orders"> & {
+  suppliers?: { name: string } | null;
+  purchase_order_items: (Tables<"purchase_order_items"> & { medicines?: { name: string } | null })[];
+};
+
+type GrnSummary = Tables<"goods_received_notes"> & {
+  suppliers?: { name: string } | null;
+  purchase_orders?: { po_number: string } | null;
+  receiver?: { full_name: string } | null;
+  goods_received_items: Pick<
+    Tables<"goods_received_items">,
+    "quantity_expected" | "quantity_delivered" | "quantity_damaged" | "unit_cost"
+  >[];
+};
+
+type SupplierRecord = Tables<"suppliers">;
+type MedicineOption = Pick<Tables<"medicines">, "id" | "name" | "unit_price" | "barcode">;
+
+const AD_HOC = "adhoc";
+
+const receiptLineSchema = z
+  .object({
+    purchaseOrderItemId: z.string().optional(),
+    medicineId: z.string().min(1, "Select a medicine"),
+    medicineName: z.string().optional(),
+    expected: z.number().nullable().optional(),
+    batchNumber: z.string().trim().min(1, "Batch number required"),
+    expiryDate: z.string().min(1, "Expiry required"),
+    manufactureDate: z.string().optional().or(z.literal("")),
+    delivered: z.coerce.number().int().min(0, "Cannot be negative"),
+    damaged: z.coerce.number().int().min(0, "Cannot be negative"),
+    unitCost: z.coerce.number().min(0, "Cannot be negative"),
+  })
+  .refine((line) => line.damaged <= line.delivered, {
+    message: "More damaged than delivered",
+    path: ["damaged"],
+  });
+
+const receiptFormSchema = z
+  .object({
+    purchaseOrderId: z.string(),
+    supplierId: z.string().min(1, "Select a supplier"),
+    deliveryNoteNumber: z.string().optional().or(z.literal("")),
+    notes: z.string().optional().or(z.literal("")),
+    lines: z.array(receiptLineSchema).min(1, "Add at least one line"),
+  })
+  .refine((values) => values.lines.some((line) => line.delivered > 0), {
+    message: "Nothing has been delivered",
+    path: ["lines"],
+  });
+
+type ReceiptFormValues = z.infer<typeof receiptFormSchema>;
+type ReceiptLine = ReceiptFormValues["lines"][number];
+
+const blankLine = (): ReceiptLine => ({
+  medicineId: "",
+  batchNumber: "",
+  expiryDate: "",
+  manufactureDate: "",
+  delivered: 0,
+  damaged: 0,
+  unitCost: 0,
+  expected: null,
+});
+
+const emptyReceipt: ReceiptFormValues = {
+  purchaseOrderId: AD_HOC,
+  supplierId: "",
+  deliveryNoteNumber: "",
+  notes: "",
+  lines: [blankLine()],
+};
+
+const fetchOpenOrders = async (): Promise<OpenOrder[]> => {
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .select("*, suppliers ( name ), purchase_order_items ( *, medicines ( name ) )")
+    .in("status", ["sent", "partially_received"])
+    .order("created_at");
+
+  if (error) throw error;
+  return (data as OpenOrder[]) ?? [];
+};
+
+const fetchReceipts = async (): Promise<GrnSummary[]> => {
+  const { data, error } = await supabase
+    .from("goods_received_notes")
+    .select(
+      `*, suppliers ( name ), purchase_orders ( po_number ), receiver:profiles!goods_received_notes_received_by_fkey ( full_name ),
+      goods_received_items ( quantity_expected, quantity_delivered, quantity_damaged, unit_cost )`,
+    )
+    .order("created_at", { ascending: false })
+    .limit(25);
+
+  if (error) throw error;
+  return (data as GrnSummary[]) ?? [];
+};
+
+const fetchSuppliers = async (): Promise<SupplierRecord[]> => {
+  const { data, error } = await supabase.from("suppliers").select("*").order("name");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchMedicineOptions = async (): Promise<MedicineOption[]> => {
+  const { data, error } = await supabase.from("medicines").select("id, name, unit_price, barcode").order("name");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+// Short or over against what was outstanding on the order line
+const deliveryVariance = (line: Pick<ReceiptLine, "expected" | "delivered">) =>
+  line.expected === null || line.expected === undefined ? null : (Number(line.delivered) || 0) - line.expected;
+
+const GoodsReceived = () => {
+  const queryClient = useQueryClient();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const form = useForm<ReceiptFormValues>({
+    resolver: zodResolver(receiptFormSchema),
+    defaultValues: emptyReceipt,
+  });
+
+  const { fields, append, remove, replace } = useFieldArray({ control: form.control, name: "lines" });
+  const [cameraOpen, setCameraOpen] = useState(false);
+
+  const {
+    data: openOrders = [],
+    isError: ordersError,
+    error: ordersErrorDetails,
+  } = useQuery({ queryKey: ["purchase-orders", "open"], queryFn: fetchOpenOrders });
+
+  const { data: receipts = [], isLoading: loadingReceipts } = useQuery({
+    queryKey: ["goods-received"],
+    queryFn: fetchReceipts,
+  });
+
+  const { data: suppliers = [] } = useQuery({ queryKey: ["suppliers", "list"], queryFn: fetchSuppliers });
+
+  const { data: medicines = [] } = useQuery({
+    queryKey: ["purchase-orders", "medicines"],
+    queryFn: fetchMedicineOptions,
+  });
+
+  const purchaseOrderId = form.watch("purchaseOrderId");
+  const lines = form.watch("lines");
+  const againstOrder = purchaseOrderId !== AD_HOC;
+
+  const totals = useMemo(
+    () =>
+      lines.reduce<{ accepted: number; damaged: number; value: number }>(
+        (sum, line) => {
+          const accepted = (Number(line.delivered) || 0) - (Number(line.damaged) || 0);
+          return {
+            accepted: sum.accepted + Math.max(accepted, 0),
+            damaged: sum.damaged + (Number(line.damaged) || 0),
+            value: sum.value + Math.max(accepted, 0) * (Number(line.unitCost) || 0),
+          };
+        },
+        { accepted: 0, damaged: 0, value: 0 },
+      ),
+    [lines],
+  );
+
+  const handleOrderChange = useCallback(
+    (value: string) => {
+      form.setValue("purchaseOrderId", value);
+
+      if (value === AD_HOC) {
+        form.setValue("supplierId", "");
+        replace([blankLine()]);
+        return;
+      }
+
+      const order = openOrders.find((option) => option.id === value);
+      if (!order) return;
+
+      form.setValue("supplierId", order.supplier_id, { shouldValidate: true });
+      replace(
+        order.purchase_order_items
+          .filter((item) => item.quantity_received < item.quantity_ordered)
+          .map((item) => {
+            const outstanding = item.quantity_ordered - item.quantity_received;
+            return {
+              ...blankLine(),
+              purchaseOrderItemId: item.id,
+              medicineId: item.medicine_id,
+              medicineName: item.medicines?.name,
+              expected: outstanding,
+              delivered: outstanding,
+              unitCost: Number(item.unit_cost),
+            };
+          }),
+      );
+    },
+    [form, openOrders, replace],
+  );
+
+  // "Receive delivery" on the purchase order list links here with ?po=<id>
+  const requestedOrderId = searchParams.get("po");
+
+  useEffect(() => {
+    if (!requestedOrderId || !openOrders.some((order) => order.id === requestedOrderId)) return;
+    handleOrderChange(requestedOrderId);
+    setSearchParams({}, { replace: true });
+  }, [requestedOrderId, openOrders, handleOrderChange, setSearchParams]);
+
+  const handleMedicineChange = (index: number, medicineId: string) => {
+    form.setValue(`lines.${index}.medicineId`, medicineId, { shouldValidate: true });
+    const medicine = medicines.find((option) => option.id === medicineId);
+    if (medicine) {
+      form.setValue(`lines.${index}.unitCost`, Number(medicine.unit_price));
+    }
+  };
+
+  const fillFromScan = (index: number, scan: Gs1Scan) => {
+    if (scan.batch) form.setValue(`lines.${index}.batchNumber`, scan.batch, { shouldValidate: true });
+    if (scan.expiryDate) form.setValue(`lines.${index}.expiryDate`, scan.expiryDate, { shouldValidate: true });
+    if (scan.manufactureDate) form.setValue(`lines.${index}.manufactureDate`, scan.manufactureDate);
+  };
+
+  // Scanning a pack's GS1 DataMatrix fills in the batch and dates on the line
+  // for that medicine. A plain retail barcode only identifies the medicine.
+  const handleScan = (code: string) => {
+    const scan = parseGs1(code);
+    if (!scan.gtin) {
+      toast.error(`"${code.trim()}" isn't a product barcode`);
+      return;
+    }
+
+    const medicine = medicines.find((option) => option.barcode && sameGtin(option.barcode, scan.gtin));
+    if (!medicine) {
+      toast.error(`No medicine has the barcode ${scan.gtin}. Add it to the medicine in Inventory first.`);
+      return;
+    }
+
+    const current = form.getValues("lines");
+    const lineFor = (predicate: (line: ReceiptLine) => boolean) => current.findIndex(predicate);
+
+    if (scan.batch && lineFor((line) => line.medicineId === medicine.id && line.batchNumber.trim() === scan.batch) !== -1) {
+      toast.info(`Batch ${scan.batch} of ${medicine.name} is already on this delivery`);
+      return;
+    }
+
+    const awaitingBatch = lineFor((line) => line.medicineId === medicine.id && !line.batchNumber.trim());
+    if (awaitingBatch !== -1) {
+      if (scan.batch) {
+        fillFromScan(awaitingBatch, scan);
+      } else {
+        toast.info(`${medicine.name} is on line ${awaitingBatch + 1}. Scan the 2D code to capture batch and expiry.`);
+      }
+      return;
+    }
+
+    const blank = lineFor((line) => !line.purchaseOrderItemId && !line.medicineId);
+    if (blank !== -1) {
+      handleMedicineChange(blank, medicine.id);
+      fillFromScan(blank, scan);
+      return;
+    }
+
+    // A second batch of a medicine already on the delivery gets its own line
+    const existing = current.find((line) => line.medicineId === medicine.id);
+    append({
+      ...blankLine(),
+      purchaseOrderItemId: existing?.purchaseOrderItemId,
+      medicineId: medicine.id,
+      medicineName: medicine.name,
+      unitCost: existing ? Number(existing.unitCost) : Number(medicine.unit_price),
+      batchNumber: scan.batch ?? "",
+      expiryDate: scan.expiryDate ?? "",
+      manufactureDate: scan.manufactureDate ?? "",
+    });
+
+    if (existing) {
+      toast.info(`Another batch of ${medicine.name} added. Split the delivered quantity between its lines.`);
+    } else if (againstOrder) {
+      toast.warning(`${medicine.name} isn't on this order; added as an unordered item`);
+    }
+  };
+
+  useBarcodeScanner(handleScan);
+
+  const receiveMutation = useMutation({
+    mutationFn: async (values: ReceiptFormValues) => {
+      const { error } = await supabase.rpc("post_goods_received", {
+        p_supplier_id: values.supplierId,
+        p_purchase_order_id: values.purchaseOrderId === AD_HOC ? null : values.purchaseOrderId,
+        p_delivery_note_number: values.deliveryNoteNumber?.trim() || null,
+        p_notes: values.notes?.trim() || null,
+        p_items: values.lines
+          .filter((line) => line.delivered > 0)
+          .map((line) => ({
+            purchase_order_item_id: line.purchaseOrderItemId ?? null,
+            medicine_id: line.medicineId,
+            batch_number: line.batchNumber.trim(),
+            expiry_date: line.expiryDate,
+            manufacture_date: line.manufactureDate || null,
+            quantity_delivered: line.delivered,
+            quantity_damaged: line.damaged,
+            unit_cost: line.unitCost,
+          })),
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Delivery received into stock");
+      form.reset(emptyReceipt);
+      queryClient.invalidateQueries({ queryKey: ["goods-received"] });
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
+      queryClient.invalidateQueries({ queryKey: ["stock-movements"] });
+    },
+    onError: (error) => {
+      console.error("Failed to receive delivery", error);
+      toast.error(error instanceof Error ? error.message : "Failed to receive delivery");
+    },
+  });
+
+  const onSubmit = (values: ReceiptFormValues) => {
+    receiveMutation.mutate(values);
+  };
+
+  const getOrdersErrorMessage = (error: unknown) => {
+    if (!error) return "We couldn't load open purchase orders.";
+    const message = (error as Error).message ?? "";
+    if (message.toLowerCase().includes("schema cache")) {
+      return "Supabase is missing the purchasing tables. Apply the latest migrations and redeploy.";
+    }
+    return message;
+  };
+
+  const ordersErrorMessage = ordersError ? getOrdersErrorMessage(ordersErrorDetails) : null;
+  const linesError = form.formState.errors.lines?.root?.message ?? form.formState.errors.lines?.message;
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Procurement</span>
+          <h1 className="text-4xl font-semibold leading-tight text-white">Goods Received</h1>
+          <p className="max-w-2xl text-muted-foreground">
+            Check deliveries in against purchase orders, capture batch details and post accepted stock straight to the
+            ledger.
+          </p>
+        </div>
+
+        {ordersErrorMessage && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Purchase orders unavailable</AlertTitle>
+            <AlertDescription>{ordersErrorMessage}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <PackageCheck className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">New GRN</span>
+                <span className="text-lg font-semibold">Receive Delivery</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <div className="grid gap-5 md:grid-cols-3">
+                  <FormField
+                    control={form.control}
+                    name="purchaseOrderId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Purchase order</FormLabel>
+                        <Select value={field.value} onValueChange={handleOrderChange}>
+                          <FormControl>
+                            <SelectTrigger className="glass-panel border-primary/10">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={AD_HOC}>No order (ad hoc delivery)</SelectItem>
+                            {openOrders.map((order) => (
+                              <SelectItem key={order.id} value={order.id}>
+                                {order.po_number} — {order.suppliers?.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="supplierId"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Supplier</FormLabel>
+                        <Select value={field.value} onValueChange={field.onChange} disabled={againstOrder}>
+                          <FormControl>
+                            <SelectTrigger className="glass-panel border-primary/10">
+                              <SelectValue placeholder="Select supplier" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {suppliers.map((supplier) => (
+                              <SelectItem key={supplier.id} value={supplier.id}>
+                                {supplier.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="deliveryNoteNumber"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Delivery note / invoice #</FormLabel>
+                        <FormControl>
+                          <Input placeholder="Supplier reference" className="glass-panel border-primary/10" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+
+                <div className="flex flex-col gap-3 rounded-2xl border border-primary/10 bg-primary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
+                  <p className="flex items-center gap-2 text-sm text-white/70">
+                    <ScanBarcode className="h-4 w-4 text-primary" />
+                    Scan the 2D code on each pack to fill in its batch, expiry and manufacture date.
+                  </p>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setCameraOpen(true)}
+                    className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                  >
+                    <Camera className="mr-1 h-4 w-4" /> Scan with camera
+                  </Button>
+                </div>
+
+                <div className="glass-panel overflow-x-auto border border-primary/10">
+                  <Table className="min-w-[1100px]">
+                    <TableHeader>
+                      <TableRow className="bg-primary/5">
+                        <TableHead className="w-[220px]">Medicine</TableHead>
+                        <TableHead>Batch</TableHead>
+                        <TableHead>Expiry</TableHead>
+                        <TableHead>Manufactured</TableHead>
+                        <TableHead className="w-[90px] text-right">Expected</TableHead>
+                        <TableHead className="w-[100px]">Delivered</TableHead>
+                        <TableHead className="w-[100px]">Damaged</TableHead>
+                        <TableHead className="w-[120px]">Landed cost</TableHead>
+                        <TableHead className="w-[40px]" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {fields.map((line, index) => {
+                        const variance = deliveryVariance(lines[index] ?? line);
+
+                        return (
+                          <TableRow key={line.id} className="align-top">
+                            <TableCell>
+                              {line.purchaseOrderItemId ? (
+                                <span className="font-medium">{line.medicineName}</span>
+                              ) : (
+                                <FormField
+                                  control={form.control}
+                                  name={`lines.${index}.medicineId`}
+                                  render={({ field }) => (
+                                    <FormItem>
+                                      <Select value={field.value} onValueChange={(value) => handleMedicineChange(index, value)}>
+                                        <FormControl>
+                                          <SelectTrigger>
+                                            <SelectValue placeholder="Select medicine" />
+                                          </SelectTrigger>
+                                        </FormControl>
+                                        <SelectContent>
+                                          {medicines.map((medicine) => (
+                                            <SelectItem key={medicine.id} value={medicine.id}>
+                                              {medicine.name}
+                                            </SelectItem>
+                                          ))}
+                                        </SelectContent>
+                                      </Select>
+                                      <FormMessage />
+                                    </FormItem>
+                                  )}
+                                />
+                              )}
+                            </TableCell>
+                            <TableCell>
+                              <FormField
+                                control={form.control}
+                                name={`lines.${index}.batchNumber`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormControl>
+                                      <Input placeholder="Batch #" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <FormField
+                                control={form.control}
+                                name={`lines.${index}.expiryDate`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormControl>
+                                      <Input type="date" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <FormField
+                                control={form.control}
+                                name={`lines.${index}.manufactureDate`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormControl>
+                                      <Input type="date" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </TableCell>
+                            <TableCell className="text-right">
+                              <div className="flex flex-col items-end gap-1 pt-2">
+                                <span>{line.expected ?? "—"}</span>
+                                {variance !== null && variance !== 0 && (
+                                  <Badge
+                                    variant="outline"
+                                    className={variance < 0 ? "border-warning/60 text-warning" : "border-primary/50 text-primary"}
+                                  >
+                                    {variance < 0 ? `Short ${Math.abs(variance)}` : `Over ${variance}`}
+                                  </Badge>
+                                )}
+                              </div>
+                            </TableCell>
+                            <TableCell>
+                              <FormField
+                                control={form.control}
+                                name={`lines.${index}.delivered`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormControl>
+                                      <Input type="number" min={0} {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <FormField
+                                control={form.control}
+                                name={`lines.${index}.damaged`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormControl>
+                                      <Input type="number" min={0} {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <FormField
+                                control={form.control}
+                                name={`lines.${index}.unitCost`}
+                                render={({ field }) => (
+                                  <FormItem>
+                                    <FormControl>
+                                      <Input type="number" min={0} step="0.01" {...field} />
+                                    </FormControl>
+                                    <FormMessage />
+                                  </FormItem>
+                                )}
+                              />
+                            </TableCell>
+                            <TableCell>
+                              <Button
+                                type="button"
+                                variant="ghost"
+                                size="icon"
+                                disabled={fields.length === 1}
+                                onClick={() => remove(index)}
+                                className="text-destructive/80 hover:text-destructive"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </div>
+
+                <div className="flex flex-wrap items-center justify-between gap-3">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => append(blankLine())}
+                    className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                  >
+                    <Plus className="mr-1 h-4 w-4" /> Add {againstOrder ? "unordered item" : "line"}
+                  </Button>
+                  {linesError && <p className="text-sm text-destructive">{linesError}</p>}
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="notes"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Notes</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Condition of delivery, missing paperwork..." className="glass-panel border-primary/10" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <div className="flex flex-col gap-3 rounded-2xl border border-primary/10 bg-primary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
+                  <p className="text-sm text-white/70">
+                    <span className="text-lg font-semibold text-white">{totals.accepted}</span> units into stock
+                    {totals.damaged > 0 && <span className="text-warning"> • {totals.damaged} damaged</span>} • KES{" "}
+                    {totals.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                  </p>
+                  <Button type="submit" disabled={receiveMutation.isPending} className="frosted-button">
+                    {receiveMutation.isPending ? (
+                      <>
+                        <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Posting
+                      </>
+                    ) : (
+                      "Post goods received"
+                    )}
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <History className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">History</span>
+                <span className="text-lg font-semibold">Recent Deliveries</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[860px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>GRN #</TableHead>
+                    <TableHead>Received</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>PO #</TableHead>
+                    <TableHead className="text-right">Accepted</TableHead>
+                    <TableHead>Exceptions</TableHead>
+                    <TableHead className="text-right">Value (KES)</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingReceipts ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading deliveries...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : receipts.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                        No deliveries received yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    receipts.map((receipt) => {
+                      const items = receipt.goods_received_items ?? [];
+                      const summary = items.reduce(
+                        (sum, item) => {
+                          const accepted = item.quantity_delivered - item.quantity_damaged;
+                          const variance =
+                            item.quantity_expected === null ? 0 : item.quantity_delivered - item.quantity_expected;
+                          return {
+                            accepted: sum.accepted + accepted,
+                            damaged: sum.damaged + item.quantity_damaged,
+                            short: sum.short + (variance < 0 ? -variance : 0),
+                            over: sum.over + (variance > 0 ? variance : 0),
+                            value: sum.value + accepted * Number(item.unit_cost),
+                          };
+                        },
+                        { accepted: 0, damaged: 0, short: 0, over: 0, value: 0 },
+                      );
+
+                      return (
+                        <TableRow key={receipt.id}>
+                          <TableCell className="font-medium">{receipt.grn_number}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span>{new Date(receipt.received_date).toLocaleDateString()}</span>
+                              <span className="text-xs text-muted-foreground">{receipt.receiver?.full_name}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span>{receipt.suppliers?.name}</span>
+                              {receipt.delivery_note_number && (
+                                <span className="text-xs text-muted-foreground">Ref {receipt.delivery_note_number}</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>{receipt.purchase_orders?.po_number ?? "Ad hoc"}</TableCell>
+                          <TableCell className="text-right">{summary.accepted}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-wrap gap-1">
+                              {summary.short > 0 && (
+                                <Badge variant="outline" className="border-warning/60 text-warning">
+                                  Short {summary.short}
+                                </Badge>
+                              )}
+                              {summary.over > 0 && (
+                                <Badge variant="outline" className="border-primary/50 text-primary">
+                                  Over {summary.over}
+                                </Badge>
+                              )}
+                              {summary.damaged > 0 && (
+                                <Badge variant="outline" className="border-destructive/60 text-destructive">
+                                  Damaged {summary.damaged}
+                                </Badge>
+                              )}
+                              {summary.short + summary.over + summary.damaged === 0 && (
+                                <span className="text-xs text-muted-foreground">None</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {summary.value.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <BarcodeScanDialog
+        open={cameraOpen}
+        onOpenChange={setCameraOpen}
+        onScan={handleScan}
+        description="Hold the 2D code on the pack steady in front of the camera."
+      />
+    </DashboardLayout>
+  );
+};
+
+export default GoodsReceived;
@@ -38,21 +38,67 @@ import {
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { AuditHistory } from "@/components/AuditHistory";
+import BarcodeScanDialog from "@/components/BarcodeScanDialog";
 import { toast } from "sonner";
-import { AlertTriangle, Edit2, Loader2, MoreHorizontal, Package, Plus, Search, Trash2 } from "lucide-react";
+import {
+  AlertTriangle,
+  Camera,
+  Check,
+  ClipboardCheck,
+  Edit2,
+  History,
+  Layers,
+  Loader2,
+  MoreHorizontal,
+  Package,
+  Plus,
+  Search,
+  SlidersHorizontal,
+  Trash2,
+  X,
+} from "lucide-react";
 import { Tables } from "@/integrations/supabase/types";
+import {
+  ADJUSTMENT_REASONS,
+  AdjustmentReason,
+  BATCH_STATUS_LABELS,
+  isExpired,
+  isExpiringSoon,
+  sortBatchesByExpiry,
+} from "@/lib/stock";
+import { MANAGER_ROLES, hasRole } from "@/lib/roles";
+import { useActingUser } from "@/hooks/use-till";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { isValidGtin, parseGs1, sameGtin } from "@/lib/gs1";
 
 type MedicineRecord = Tables<"medicines"> & {
   medicine_categories?: Pick<Tables<"medicine_categories">, "id" | "name"> | null;
   suppliers?: Pick<Tables<"suppliers">, "id" | "name"> | null;
+  medicine_batches?: BatchRecord[];
 };
 
+type BatchRecord = Tables<"medicine_batches">;
 type CategoryRecord = Tables<"medicine_categories">;
 type SupplierRecord = Tables<"suppliers">;
+type SettingsRecord = Tables<"pharmacy_settings">;
+
+type PendingAdjustment = Tables<"stock_adjustments"> & {
+  medicines?: { name: string } | null;
+  medicine_batches?: { batch_number: string } | null;
+  requester?: { full_name: string } | null;
+};
 
 const medicineFormSchema = z.object({
   name: z.string().min(2, "Name is required"),
   genericName: z.string().optional().or(z.literal("")),
+  barcode: z
+    .string()
+    .trim()
+    .refine((value) => !value || isValidGtin(value), "Enter the 8, 12, 13 or 14 digit barcode on the pack")
+    .optional()
+    .or(z.literal("")),
   categoryId: z.string().optional().or(z.literal("")),
   newCategoryName: z.string().optional().or(z.literal("")),
   supplierId: z.string().optional().or(z.literal("")),
@@ -68,16 +114,59 @@ const medicineFormSchema = z.object({
 
 type MedicineFormValues = z.infer<typeof medicineFormSchema>;
 
+const batchFormSchema = z.object({
+  batchNumber: z.string().min(1, "Batch number required"),
+  expiryDate: z.string().min(1, "Expiry date is required"),
+  manufactureDate: z.string().optional().or(z.literal("")),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1"),
+  unitCost: z.coerce.number().min(0, "Unit cost must be positive"),
+});
+
+type BatchFormValues = z.infer<typeof batchFormSchema>;
+
+const adjustmentFormSchema = z.object({
+  batchId: z.string().min(1, "Select a batch"),
+  direction: z.enum(["remove", "add"]),
+  quantity: z.coerce.number().int().min(1, "Quantity must be at least 1"),
+  reasonCode: z.string().min(1, "Select a reason"),
+  notes: z.string().optional().or(z.literal("")),
+});
+
+type AdjustmentFormValues = z.infer<typeof adjustmentFormSchema>;
+
+const stockedBatchCount = (medicine: MedicineRecord) =>
+  (medicine.medicine_batches ?? []).filter((batch) => batch.quantity > 0).length;
+
 const fetchMedicines = async (): Promise<MedicineRecord[]> => {
   const { data, error } = await supabase
     .from("medicines")
-    .select("*, medicine_categories ( id, name ), suppliers ( id, name )")
+    .select("*, medicine_categories ( id, name ), suppliers ( id, name ), medicine_batches ( * )")
     .order("name");
 
   if (error) throw error;
   return (data as MedicineRecord[]) ?? [];
 };
 
+const fetchSettings = async (): Promise<SettingsRecord | null> => {
+  const { data, error } = await supabase.from("pharmacy_settings").select("*").maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const fetchPendingAdjustments = async (): Promise<PendingAdjustment[]> => {
+  const { data, error } = await supabase
+    .from("stock_adjustments")
+    .select(
+      "*, medicines ( name ), medicine_batches ( batch_number ), requester:profiles!stock_adjustments_requested_by_fkey ( full_name )",
+    )
+    .eq("status", "pending")
+    .order("created_at");
+
+  if (error) throw error;
+  return (data as PendingAdjustment[]) ?? [];
+};
+
 const fetchCategories = async (): Promise<CategoryRecord[]> => {
   const { data, error } = await supabase
     .from("medicine_categories")
@@ -116,6 +205,7 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
     defaultValues: {
       name: "",
       genericName: "",
+      barcode: "",
       categoryId: "",
       newCategoryName: "",
       supplierId: "",
@@ -135,6 +225,7 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
       form.reset({
         name: initialData.name,
         genericName: initialData.generic_name ?? "",
+        barcode: initialData.barcode ?? "",
         categoryId: initialData.category_id ?? "",
         newCategoryName: "",
         supplierId: initialData.supplier_id ?? "",
@@ -151,6 +242,7 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
       form.reset({
         name: "",
         genericName: "",
+        barcode: "",
         categoryId: "",
         newCategoryName: "",
         supplierId: "",
@@ -186,39 +278,40 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
       const payload = {
         name: values.name.trim(),
         generic_name: values.genericName?.trim() || null,
+        barcode: values.barcode?.trim() || null,
         category_id: categoryId,
         supplier_id: values.supplierId || null,
-        batch_number: values.batchNumber.trim(),
         unit_price: values.unitPrice,
         selling_price: values.sellingPrice,
-        quantity: values.quantity,
         reorder_level: values.reorderLevel,
-        expiry_date: values.expiryDate,
-        manufacture_date: values.manufactureDate?.trim() || null,
         requires_prescription: values.requiresPrescription,
       } satisfies Partial<Tables<"medicines">>;
 
+      // Batch details and quantities are maintained per batch once the medicine exists
       if (initialData) {
         const { error } = await supabase.from("medicines").update(payload).eq("id", initialData.id);
         if (error) throw error;
         return initialData.id;
       }
 
-      const { data, error } = await supabase
-        .from("medicines")
-        .insert({
-          ...payload,
-        })
-        .select("id")
-        .single();
+      // The medicine and its opening batch are created together or not at all
+      const { data, error } = await supabase.rpc("create_medicine", {
+        p_medicine: payload,
+        p_batch_number: values.batchNumber.trim(),
+        p_expiry_date: values.expiryDate,
+        p_manufacture_date: values.manufactureDate?.trim() || null,
+        p_quantity: values.quantity,
+        p_unit_cost: values.unitPrice,
+      });
 
       if (error) throw error;
-      return data?.id;
+      return data;
     },
     onSuccess: () => {
       toast.success(initialData ? "Medicine updated" : "Medicine added");
       queryClient.invalidateQueries({ queryKey: ["inventory", "medicines"] });
       queryClient.invalidateQueries({ queryKey: ["sales", "medicines"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
       onCompleted();
     },
     onError: (error) => {
@@ -231,6 +324,20 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
     upsertMutation.mutate(values);
   };
 
+  // A GS1 DataMatrix scanned into the barcode field carries more than the
+  // GTIN; keep the GTIN and, for a new medicine, use the rest for its first batch
+  const applyScannedBarcode = (value: string) => {
+    const scan = parseGs1(value);
+    if (!scan.gtin || scan.gtin === value.trim()) return;
+
+    form.setValue("barcode", scan.gtin, { shouldValidate: true });
+    if (initialData) return;
+
+    if (scan.batch) form.setValue("batchNumber", scan.batch, { shouldValidate: true });
+    if (scan.expiryDate) form.setValue("expiryDate", scan.expiryDate, { shouldValidate: true });
+    if (scan.manufactureDate) form.setValue("manufactureDate", scan.manufactureDate);
+  };
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-3xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
@@ -272,6 +379,32 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
                   </FormItem>
                 )}
               />
+              <FormField
+                control={form.control}
+                name="barcode"
+                render={({ field }) => (
+                  <FormItem className="md:col-span-2">
+                    <FormLabel>Barcode (GTIN)</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="Scan the pack or type the digits under the barcode"
+                        {...field}
+                        onKeyDown={(event) => {
+                          // Scanners finish with Enter, which would otherwise submit the form
+                          if (event.key !== "Enter") return;
+                          event.preventDefault();
+                          applyScannedBarcode(event.currentTarget.value);
+                        }}
+                        onBlur={(event) => {
+                          applyScannedBarcode(event.target.value);
+                          field.onBlur();
+                        }}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
               <FormField
                 control={form.control}
                 name="categoryId"
@@ -343,19 +476,21 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
                   </FormItem>
                 )}
               />
-              <FormField
-                control={form.control}
-                name="batchNumber"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Batch number</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Batch reference" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
+              {!initialData && (
+                <FormField
+                  control={form.control}
+                  name="batchNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Batch number</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Batch reference" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
             </div>
 
             <div className="grid gap-5 md:grid-cols-3">
@@ -390,9 +525,9 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
                 name="quantity"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Opening quantity</FormLabel>
+                    <FormLabel>{initialData ? "Quantity on hand" : "Opening quantity"}</FormLabel>
                     <FormControl>
-                      <Input type="number" {...field} />
+                      <Input type="number" readOnly={Boolean(initialData)} disabled={Boolean(initialData)} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
@@ -411,48 +546,545 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
                   </FormItem>
                 )}
               />
+              {!initialData && (
+                <>
+                  <FormField
+                    control={form.control}
+                    name="expiryDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Expiry date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="manufactureDate"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Manufacture date</FormLabel>
+                        <FormControl>
+                          <Input type="date" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </>
+              )}
+            </div>
+
+            {initialData && (
+              <p className="rounded-xl border border-white/10 bg-white/5 p-4 text-xs text-white/60">
+                Batch numbers, expiry dates and quantities are managed per batch. Use "View batches" to receive new stock
+                and "Adjust stock" to correct quantities.
+              </p>
+            )}
+
+            <FormField
+              control={form.control}
+              name="requiresPrescription"
+              render={({ field }) => (
+                <FormItem className="flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <div>
+                    <FormLabel>Requires prescription</FormLabel>
+                    <p className="text-xs text-white/60">
+                      Enable this to flag medicines that demand a valid prescription before dispensing.
+                    </p>
+                  </div>
+                </FormItem>
+              )}
+            />
+
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => onOpenChange(false)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" disabled={upsertMutation.isPending} className="bg-primary text-primary-foreground">
+                {upsertMutation.isPending ? (
+                  <span className="flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" /> Saving
+                  </span>
+                ) : initialData ? (
+                  "Update medicine"
+                ) : (
+                  "Create medicine"
+                )}
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface MedicineBatchesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  medicine: MedicineRecord | null;
+  canReceive: boolean;
+  showHistory: boolean;
+  tab: MedicineDialogTab;
+  onTabChange: (tab: MedicineDialogTab) => void;
+}
+
+type MedicineDialogTab = "batches" | "history";
+
+const MedicineBatchesDialog = ({
+  open,
+  onOpenChange,
+  medicine,
+  canReceive,
+  showHistory,
+  tab,
+  onTabChange,
+}: MedicineBatchesDialogProps) => {
+  const queryClient = useQueryClient();
+
+  const form = useForm<BatchFormValues>({
+    resolver: zodResolver(batchFormSchema),
+    defaultValues: {
+      batchNumber: "",
+      expiryDate: "",
+      manufactureDate: "",
+      quantity: 1,
+      unitCost: 0,
+    },
+  });
+
+  const medicineId = medicine?.id;
+  const defaultUnitCost = medicine ? Number(medicine.unit_price) : 0;
+
+  useEffect(() => {
+    form.reset({
+      batchNumber: "",
+      expiryDate: "",
+      manufactureDate: "",
+      quantity: 1,
+      unitCost: defaultUnitCost,
+    });
+  }, [medicineId, defaultUnitCost, form, open]);
+
+  const batches = useMemo(() => sortBatchesByExpiry(medicine?.medicine_batches ?? []), [medicine]);
+
+  const receiveMutation = useMutation({
+    mutationFn: async (values: BatchFormValues) => {
+      if (!medicine) throw new Error("Select a medicine first");
+
+      const { error } = await supabase.rpc("receive_medicine_batch", {
+        p_medicine_id: medicine.id,
+        p_batch_number: values.batchNumber.trim(),
+        p_expiry_date: values.expiryDate,
+        p_manufacture_date: values.manufactureDate?.trim() || null,
+        p_quantity: values.quantity,
+        p_unit_cost: values.unitCost,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Batch received");
+      form.reset({
+        batchNumber: "",
+        expiryDate: "",
+        manufactureDate: "",
+        quantity: 1,
+        unitCost: defaultUnitCost,
+      });
+      queryClient.invalidateQueries({ queryKey: ["inventory", "medicines"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
+    },
+    onError: (error) => {
+      console.error("Failed to receive batch", error);
+      toast.error(error instanceof Error ? error.message : "Failed to receive batch");
+    },
+  });
+
+  const onSubmit = (values: BatchFormValues) => {
+    receiveMutation.mutate(values);
+  };
+
+  // Scanning the pack's DataMatrix into the batch field fills the batch and dates from it
+  const applyScannedBatch = (value: string) => {
+    const scan = parseGs1(value);
+    if (!scan.gtin || !scan.batch) return;
+
+    if (medicine?.barcode && !sameGtin(medicine.barcode, scan.gtin)) {
+      toast.error(`That pack is not ${medicine.name}`);
+      form.setValue("batchNumber", "");
+      return;
+    }
+
+    form.setValue("batchNumber", scan.batch, { shouldValidate: true });
+    if (scan.expiryDate) form.setValue("expiryDate", scan.expiryDate, { shouldValidate: true });
+    if (scan.manufactureDate) form.setValue("manufactureDate", scan.manufactureDate);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-semibold text-white">{medicine?.name} batches</DialogTitle>
+          <DialogDescription className="text-white/60">
+            Checkout draws from the earliest-expiring batch that has not expired. Receive new deliveries as separate batches.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Tabs value={showHistory ? tab : "batches"} onValueChange={(value) => onTabChange(value as MedicineDialogTab)}>
+          {showHistory && (
+            <TabsList className="bg-white/10">
+              <TabsTrigger value="batches">Batches</TabsTrigger>
+              <TabsTrigger value="history">History</TabsTrigger>
+            </TabsList>
+          )}
+
+          <TabsContent value="batches" className="space-y-4">
+            <div className="overflow-x-auto rounded-2xl border border-white/10">
+              <Table className="min-w-[640px]">
+                <TableHeader className="bg-white/5">
+                  <TableRow className="border-white/10">
+                    <TableHead className="text-white/70">Batch</TableHead>
+                    <TableHead className="text-white/70">Expiry</TableHead>
+                    <TableHead className="text-white/70">Manufactured</TableHead>
+                    <TableHead className="text-right text-white/70">Quantity</TableHead>
+                    <TableHead className="text-right text-white/70">Unit cost (KES)</TableHead>
+                    <TableHead className="text-white/70">Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {batches.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-8 text-center text-white/60">
+                        No batches received yet.
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    batches.map((batch) => (
+                      <TableRow key={batch.id} className="border-white/5">
+                        <TableCell className="font-mono text-sm text-white/80">{batch.batch_number}</TableCell>
+                        <TableCell className="text-white/70">{new Date(batch.expiry_date).toLocaleDateString()}</TableCell>
+                        <TableCell className="text-white/70">
+                          {batch.manufacture_date ? new Date(batch.manufacture_date).toLocaleDateString() : "—"}
+                        </TableCell>
+                        <TableCell className="text-right font-semibold text-white">{batch.quantity}</TableCell>
+                        <TableCell className="text-right text-white/80">{Number(batch.unit_cost).toLocaleString()}</TableCell>
+                        <TableCell>
+                          {batch.status !== "available" ? (
+                            <Badge variant="outline" className="rounded-full border-warning/60 px-3 py-1 text-xs text-warning">
+                              {BATCH_STATUS_LABELS[batch.status] ?? batch.status}
+                            </Badge>
+                          ) : batch.quantity === 0 ? (
+                            <Badge variant="secondary" className="rounded-full px-3 py-1 text-xs">
+                              Depleted
+                            </Badge>
+                          ) : isExpired(batch.expiry_date) ? (
+                            <Badge variant="destructive" className="rounded-full px-3 py-1 text-xs">
+                              Expired
+                            </Badge>
+                          ) : (
+                            isExpiringSoon(batch.expiry_date) && (
+                              <Badge variant="outline" className="flex w-fit items-center gap-1 rounded-full border-warning/60 px-3 py-1 text-xs text-warning">
+                                <AlertTriangle className="h-3 w-3" /> Soon
+                              </Badge>
+                            )
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+
+            {canReceive && (
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 rounded-2xl border border-white/10 bg-white/5 p-4">
+                  <p className="text-xs uppercase tracking-[0.3em] text-white/50">Receive batch</p>
+                  <div className="grid gap-4 md:grid-cols-5">
+                    <FormField
+                      control={form.control}
+                      name="batchNumber"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Batch number</FormLabel>
+                          <FormControl>
+                            <Input
+                              placeholder="Batch or scan pack"
+                              {...field}
+                              onKeyDown={(event) => {
+                                if (event.key !== "Enter") return;
+                                event.preventDefault();
+                                applyScannedBatch(event.currentTarget.value);
+                              }}
+                              onBlur={(event) => {
+                                applyScannedBatch(event.target.value);
+                                field.onBlur();
+                              }}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="expiryDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Expiry date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="manufactureDate"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Manufacture date</FormLabel>
+                          <FormControl>
+                            <Input type="date" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="quantity"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Quantity</FormLabel>
+                          <FormControl>
+                            <Input type="number" min={1} {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="unitCost"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Unit cost (KES)</FormLabel>
+                          <FormControl>
+                            <Input type="number" step="0.01" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <Button type="submit" disabled={receiveMutation.isPending || !medicine} className="bg-primary text-primary-foreground">
+                      {receiveMutation.isPending ? (
+                        <span className="flex items-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" /> Saving
+                        </span>
+                      ) : (
+                        "Receive batch"
+                      )}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )}
+          </TabsContent>
+
+          {showHistory && medicine && (
+            <TabsContent value="history">
+              <AuditHistory tableName="medicines" recordId={medicine.id} />
+            </TabsContent>
+          )}
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface StockAdjustmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  medicine: MedicineRecord | null;
+  approvalThreshold: number;
+}
+
+const StockAdjustmentDialog = ({ open, onOpenChange, medicine, approvalThreshold }: StockAdjustmentDialogProps) => {
+  const queryClient = useQueryClient();
+
+  const form = useForm<AdjustmentFormValues>({
+    resolver: zodResolver(adjustmentFormSchema),
+    defaultValues: {
+      batchId: "",
+      direction: "remove",
+      quantity: 1,
+      reasonCode: "",
+      notes: "",
+    },
+  });
+
+  const batches = useMemo(() => sortBatchesByExpiry(medicine?.medicine_batches ?? []), [medicine]);
+  const medicineId = medicine?.id;
+
+  useEffect(() => {
+    form.reset({ batchId: "", direction: "remove", quantity: 1, reasonCode: "", notes: "" });
+  }, [medicineId, form, open]);
+
+  const adjustMutation = useMutation({
+    mutationFn: async (values: AdjustmentFormValues) => {
+      const { data, error } = await supabase.rpc("request_stock_adjustment", {
+        p_batch_id: values.batchId,
+        p_quantity_change: values.direction === "remove" ? -values.quantity : values.quantity,
+        p_reason_code: values.reasonCode,
+        p_notes: values.notes?.trim() || null,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (status) => {
+      if (status === "pending") {
+        toast.info("Adjustment submitted for pharmacist approval");
+      } else {
+        toast.success("Stock adjusted");
+      }
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error("Failed to adjust stock", error);
+      toast.error(error instanceof Error ? error.message : "Failed to adjust stock");
+    },
+  });
+
+  const onSubmit = (values: AdjustmentFormValues) => {
+    adjustMutation.mutate(values);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-semibold text-white">Adjust stock</DialogTitle>
+          <DialogDescription className="text-white/60">
+            {medicine?.name}: adjustments above {approvalThreshold} units need pharmacist or admin approval before stock changes.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+            <FormField
+              control={form.control}
+              name="batchId"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Batch</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select batch" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {batches.map((batch) => (
+                        <SelectItem key={batch.id} value={batch.id}>
+                          {batch.batch_number} • {batch.quantity} units • exp {new Date(batch.expiry_date).toLocaleDateString()}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <div className="grid gap-5 md:grid-cols-2">
               <FormField
                 control={form.control}
-                name="expiryDate"
+                name="direction"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Expiry date</FormLabel>
-                    <FormControl>
-                      <Input type="date" {...field} />
-                    </FormControl>
+                    <FormLabel>Direction</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="remove">Remove stock</SelectItem>
+                        <SelectItem value="add">Add stock</SelectItem>
+                      </SelectContent>
+                    </Select>
                     <FormMessage />
                   </FormItem>
                 )}
               />
               <FormField
                 control={form.control}
-                name="manufactureDate"
+                name="quantity"
                 render={({ field }) => (
                   <FormItem>
-                    <FormLabel>Manufacture date</FormLabel>
+                    <FormLabel>Quantity</FormLabel>
                     <FormControl>
-                      <Input type="date" {...field} />
+                      <Input type="number" min={1} {...field} />
                     </FormControl>
                     <FormMessage />
                   </FormItem>
                 )}
               />
             </div>
-
             <FormField
               control={form.control}
-              name="requiresPrescription"
+              name="reasonCode"
               render={({ field }) => (
-                <FormItem className="flex items-center gap-3 rounded-xl border border-white/10 bg-white/5 p-4">
+                <FormItem>
+                  <FormLabel>Reason</FormLabel>
+                  <Select value={field.value} onValueChange={field.onChange}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select reason" />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {(Object.keys(ADJUSTMENT_REASONS) as AdjustmentReason[]).map((reason) => (
+                        <SelectItem key={reason} value={reason}>
+                          {ADJUSTMENT_REASONS[reason]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes</FormLabel>
                   <FormControl>
-                    <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                    <Input placeholder="Optional details" {...field} />
                   </FormControl>
-                  <div>
-                    <FormLabel>Requires prescription</FormLabel>
-                    <p className="text-xs text-white/60">
-                      Enable this to flag medicines that demand a valid prescription before dispensing.
-                    </p>
-                  </div>
+                  <FormMessage />
                 </FormItem>
               )}
             />
@@ -466,15 +1098,13 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
               >
                 Cancel
               </Button>
-              <Button type="submit" disabled={upsertMutation.isPending} className="bg-primary text-primary-foreground">
-                {upsertMutation.isPending ? (
+              <Button type="submit" disabled={adjustMutation.isPending} className="bg-primary text-primary-foreground">
+                {adjustMutation.isPending ? (
                   <span className="flex items-center gap-2">
                     <Loader2 className="h-4 w-4 animate-spin" /> Saving
                   </span>
-                ) : initialData ? (
-                  "Update medicine"
                 ) : (
-                  "Create medicine"
+                  "Record adjustment"
                 )}
               </Button>
             </div>
@@ -487,11 +1117,19 @@ const MedicineFormDialog = ({ open, onOpenChange, initialData, categories, suppl
 
 const Inventory = () => {
   const [searchTerm, setSearchTerm] = useState("");
+  const [cameraOpen, setCameraOpen] = useState(false);
   const [dialogOpen, setDialogOpen] = useState(false);
   const [editingMedicine, setEditingMedicine] = useState<MedicineRecord | null>(null);
   const [deleteTarget, setDeleteTarget] = useState<MedicineRecord | null>(null);
+  const [batchesMedicineId, setBatchesMedicineId] = useState<string | null>(null);
+  const [batchesTab, setBatchesTab] = useState<MedicineDialogTab>("batches");
+  const [adjustingMedicineId, setAdjustingMedicineId] = useState<string | null>(null);
+  const [thresholdDraft, setThresholdDraft] = useState<string | null>(null);
 
   const queryClient = useQueryClient();
+  const actingUser = useActingUser();
+  const canManage = hasRole(actingUser, MANAGER_ROLES);
+  const isAdmin = hasRole(actingUser, ["admin"]);
 
   const {
     data: medicines = [],
@@ -500,6 +1138,13 @@ const Inventory = () => {
     error: medicinesErrorDetails,
   } = useQuery({ queryKey: ["inventory", "medicines"], queryFn: fetchMedicines });
 
+  const { data: settings } = useQuery({ queryKey: ["settings"], queryFn: fetchSettings });
+
+  const { data: pendingAdjustments = [] } = useQuery({
+    queryKey: ["inventory", "adjustments", "pending"],
+    queryFn: fetchPendingAdjustments,
+  });
+
   const { data: categories = [], isLoading: loadingCategories } = useQuery({
     queryKey: ["inventory", "categories"],
     queryFn: fetchCategories,
@@ -526,28 +1171,78 @@ const Inventory = () => {
     },
   });
 
+  const reviewMutation = useMutation({
+    mutationFn: async ({ id, approve }: { id: string; approve: boolean }) => {
+      const { data, error } = await supabase.rpc("review_stock_adjustment", {
+        p_adjustment_id: id,
+        p_approve: approve,
+      });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (status) => {
+      toast.success(status === "approved" ? "Adjustment approved" : "Adjustment rejected");
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
+    },
+    onError: (error) => {
+      console.error("Failed to review adjustment", error);
+      toast.error(error instanceof Error ? error.message : "Failed to review adjustment");
+    },
+  });
+
+  const thresholdMutation = useMutation({
+    mutationFn: async (threshold: number) => {
+      const { error } = await supabase
+        .from("pharmacy_settings")
+        .update({ adjustment_approval_threshold: threshold })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Approval threshold updated");
+      setThresholdDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["settings"] });
+    },
+    onError: (error) => {
+      console.error("Failed to update threshold", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update threshold");
+    },
+  });
+
+  const approvalThreshold = settings?.adjustment_approval_threshold ?? 0;
+
   const filteredMedicines = useMemo(() => {
     if (!searchTerm) return medicines;
+    const scannedGtin = parseGs1(searchTerm).gtin;
     return medicines.filter((medicine) => {
       const target = searchTerm.toLowerCase();
       return (
+        (scannedGtin && medicine.barcode && sameGtin(medicine.barcode, scannedGtin)) ||
+        (medicine.barcode ?? "").includes(target) ||
         medicine.name.toLowerCase().includes(target) ||
         (medicine.generic_name ?? "").toLowerCase().includes(target) ||
         medicine.batch_number.toLowerCase().includes(target) ||
+        (medicine.medicine_batches ?? []).some((batch) => batch.batch_number.toLowerCase().includes(target)) ||
         (medicine.medicine_categories?.name ?? "").toLowerCase().includes(target)
       );
     });
   }, [medicines, searchTerm]);
 
-  const isExpiringSoon = (expiryDate: string) => {
-    const today = new Date();
-    const expiry = new Date(expiryDate);
-    const ninetyDaysFromNow = new Date();
-    ninetyDaysFromNow.setDate(today.getDate() + 90);
-    return expiry <= ninetyDaysFromNow && expiry >= today;
-  };
+  // A pack scanned anywhere on the page looks the medicine up
+  const handleScan = (code: string) => setSearchTerm(parseGs1(code).gtin ?? code.trim());
 
-  const isExpired = (expiryDate: string) => new Date(expiryDate) < new Date();
+  useBarcodeScanner(handleScan);
+
+  const batchesMedicine = useMemo(
+    () => medicines.find((medicine) => medicine.id === batchesMedicineId) ?? null,
+    [medicines, batchesMedicineId],
+  );
+
+  const adjustingMedicine = useMemo(
+    () => medicines.find((medicine) => medicine.id === adjustingMedicineId) ?? null,
+    [medicines, adjustingMedicineId],
+  );
 
   const getInventoryErrorMessage = (error: unknown) => {
     if (!error) {
@@ -573,28 +1268,40 @@ const Inventory = () => {
               Maintain precise records of every medicine batch, monitor expiries, and enforce prescription protocols in real time.
             </p>
           </div>
-          <Button
-            onClick={() => {
-              setEditingMedicine(null);
-              setDialogOpen(true);
-            }}
-            className="flex items-center gap-2 rounded-full bg-accent px-6 py-5 text-accent-foreground shadow-[0_25px_55px_-25px_rgba(168,85,247,0.7)] transition hover:-translate-y-1"
-          >
-            <Plus className="h-5 w-5" />
-            Register medicine
-          </Button>
+          {canManage && (
+            <Button
+              onClick={() => {
+                setEditingMedicine(null);
+                setDialogOpen(true);
+              }}
+              className="flex items-center gap-2 rounded-full bg-accent px-6 py-5 text-accent-foreground shadow-[0_25px_55px_-25px_rgba(168,85,247,0.7)] transition hover:-translate-y-1"
+            >
+              <Plus className="h-5 w-5" />
+              Register medicine
+            </Button>
+          )}
         </div>
 
         <div className="glass-panel flex flex-col gap-6 border border-white/10 p-6">
           <div className="grid gap-4 md:grid-cols-[minmax(0,1fr)_auto] md:items-center">
-            <div className="relative w-full">
-              <Search className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-white/40" />
-              <Input
-                placeholder="Search by name, batch, category..."
-                value={searchTerm}
-                onChange={(event) => setSearchTerm(event.target.value)}
-                className="h-14 rounded-2xl border-white/10 bg-white/10 pl-12 text-base text-white placeholder:text-white/40"
-              />
+            <div className="flex w-full gap-3">
+              <div className="relative flex-1">
+                <Search className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-white/40" />
+                <Input
+                  placeholder="Search by name, batch, category or barcode..."
+                  value={searchTerm}
+                  onChange={(event) => setSearchTerm(event.target.value)}
+                  className="h-14 rounded-2xl border-white/10 bg-white/10 pl-12 text-base text-white placeholder:text-white/40"
+                />
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => setCameraOpen(true)}
+                className="h-14 rounded-2xl border-white/10 bg-white/10 px-5 text-white hover:bg-white/20"
+                title="Scan with camera"
+              >
+                <Camera className="h-5 w-5" />
+              </Button>
             </div>
             <div className="flex flex-wrap items-center gap-4 text-xs text-white/50 md:justify-end">
               <div className="flex items-center gap-2">
@@ -664,12 +1371,20 @@ const Inventory = () => {
                             {medicine.generic_name}
                           </span>
                         )}
+                        {medicine.barcode && (
+                          <span className="block font-mono text-xs font-normal text-white/40">{medicine.barcode}</span>
+                        )}
                       </TableCell>
                       <TableCell className="text-white/70">
                         {medicine.medicine_categories?.name ?? "—"}
                       </TableCell>
                       <TableCell className="font-mono text-sm text-white/70">
                         {medicine.batch_number}
+                        {stockedBatchCount(medicine) > 1 && (
+                          <span className="block font-sans text-xs text-white/50">
+                            +{stockedBatchCount(medicine) - 1} more
+                          </span>
+                        )}
                       </TableCell>
                       <TableCell className="text-right text-white">
                         <span
@@ -720,21 +1435,51 @@ const Inventory = () => {
                             </Button>
                           </DropdownMenuTrigger>
                           <DropdownMenuContent align="end" className="w-44 border-white/10 bg-background/95 text-white">
+                            {canManage && (
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  setEditingMedicine(medicine);
+                                  setDialogOpen(true);
+                                }}
+                                className="gap-2 text-white/80 focus:bg-white/10"
+                              >
+                                <Edit2 className="h-4 w-4" /> Edit details
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem
                               onClick={() => {
-                                setEditingMedicine(medicine);
-                                setDialogOpen(true);
+                                setBatchesTab("batches");
+                                setBatchesMedicineId(medicine.id);
                               }}
                               className="gap-2 text-white/80 focus:bg-white/10"
                             >
-                              <Edit2 className="h-4 w-4" /> Edit details
+                              <Layers className="h-4 w-4" /> View batches
                             </DropdownMenuItem>
+                            {canManage && (
+                              <DropdownMenuItem
+                                onClick={() => {
+                                  setBatchesTab("history");
+                                  setBatchesMedicineId(medicine.id);
+                                }}
+                                className="gap-2 text-white/80 focus:bg-white/10"
+                              >
+                                <History className="h-4 w-4" /> History
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem
-                              onClick={() => setDeleteTarget(medicine)}
-                              className="gap-2 text-destructive focus:bg-destructive/10"
+                              onClick={() => setAdjustingMedicineId(medicine.id)}
+                              className="gap-2 text-white/80 focus:bg-white/10"
                             >
-                              <Trash2 className="h-4 w-4" /> Remove
+                              <SlidersHorizontal className="h-4 w-4" /> Adjust stock
                             </DropdownMenuItem>
+                            {isAdmin && (
+                              <DropdownMenuItem
+                                onClick={() => setDeleteTarget(medicine)}
+                                className="gap-2 text-destructive focus:bg-destructive/10"
+                              >
+                                <Trash2 className="h-4 w-4" /> Remove
+                              </DropdownMenuItem>
+                            )}
                           </DropdownMenuContent>
                         </DropdownMenu>
                       </TableCell>
@@ -745,6 +1490,112 @@ const Inventory = () => {
             </Table>
           </div>
         </div>
+        <div className="glass-panel flex flex-col gap-4 border border-white/10 p-6">
+          <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-3">
+              <ClipboardCheck className="h-5 w-5 text-white/60" />
+              <div>
+                <p className="text-xs uppercase tracking-[0.3em] text-white/50">Stock adjustments</p>
+                <p className="text-lg font-semibold text-white">Awaiting approval</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3 text-sm text-white/70">
+              <span>Approval above</span>
+              <Input
+                type="number"
+                min={0}
+                value={thresholdDraft ?? String(approvalThreshold)}
+                onChange={(event) => setThresholdDraft(event.target.value)}
+                disabled={!isAdmin}
+                className="h-9 w-24 border-white/10 bg-white/10 text-white"
+              />
+              <span>units</span>
+              {thresholdDraft !== null && (
+                <Button
+                  size="sm"
+                  disabled={thresholdMutation.isPending}
+                  onClick={() => thresholdMutation.mutate(Math.max(0, Math.floor(Number(thresholdDraft) || 0)))}
+                  className="bg-primary text-primary-foreground"
+                >
+                  Save
+                </Button>
+              )}
+            </div>
+          </div>
+
+          <div className="overflow-x-auto rounded-2xl border border-white/10">
+            <Table className="min-w-[760px]">
+              <TableHeader className="bg-white/5">
+                <TableRow className="border-white/10">
+                  <TableHead className="text-white/70">Requested</TableHead>
+                  <TableHead className="text-white/70">Medicine</TableHead>
+                  <TableHead className="text-white/70">Batch</TableHead>
+                  <TableHead className="text-right text-white/70">Change</TableHead>
+                  <TableHead className="text-white/70">Reason</TableHead>
+                  <TableHead className="text-white/70">Requested by</TableHead>
+                  <TableHead className="text-right text-white/70">Review</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {pendingAdjustments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={7} className="py-8 text-center text-white/60">
+                      No adjustments waiting for approval.
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  pendingAdjustments.map((adjustment) => (
+                    <TableRow key={adjustment.id} className="border-white/5">
+                      <TableCell className="text-white/70">
+                        {adjustment.created_at ? new Date(adjustment.created_at).toLocaleString() : ""}
+                      </TableCell>
+                      <TableCell className="font-semibold text-white">{adjustment.medicines?.name ?? "—"}</TableCell>
+                      <TableCell className="font-mono text-sm text-white/70">
+                        {adjustment.medicine_batches?.batch_number ?? "—"}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-semibold ${adjustment.quantity_change < 0 ? "text-destructive" : "text-success"}`}
+                      >
+                        {adjustment.quantity_change > 0 ? `+${adjustment.quantity_change}` : adjustment.quantity_change}
+                      </TableCell>
+                      <TableCell className="text-white/70">
+                        {ADJUSTMENT_REASONS[adjustment.reason_code as AdjustmentReason] ?? adjustment.reason_code}
+                        {adjustment.notes && <span className="block text-xs text-white/50">{adjustment.notes}</span>}
+                      </TableCell>
+                      <TableCell className="text-white/70">{adjustment.requester?.full_name ?? "—"}</TableCell>
+                      <TableCell className="text-right">
+                        {canManage ? (
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              disabled={reviewMutation.isPending}
+                              onClick={() => reviewMutation.mutate({ id: adjustment.id, approve: true })}
+                              className="rounded-full text-success hover:bg-success/10"
+                            >
+                              <Check className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              disabled={reviewMutation.isPending}
+                              onClick={() => reviewMutation.mutate({ id: adjustment.id, approve: false })}
+                              className="rounded-full text-destructive hover:bg-destructive/10"
+                            >
+                              <X className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        ) : (
+                          <span className="text-xs text-white/50">Awaiting pharmacist</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </div>
       </div>
 
       <MedicineFormDialog
@@ -760,6 +1611,25 @@ const Inventory = () => {
         }}
       />
 
+      <MedicineBatchesDialog
+        open={Boolean(batchesMedicine)}
+        onOpenChange={(open) => !open && setBatchesMedicineId(null)}
+        medicine={batchesMedicine}
+        canReceive={canManage}
+        showHistory={canManage}
+        tab={batchesTab}
+        onTabChange={setBatchesTab}
+      />
+
+      <StockAdjustmentDialog
+        open={Boolean(adjustingMedicine)}
+        onOpenChange={(open) => !open && setAdjustingMedicineId(null)}
+        medicine={adjustingMedicine}
+        approvalThreshold={approvalThreshold}
+      />
+
+      <BarcodeScanDialog open={cameraOpen} onOpenChange={setCameraOpen} onScan={handleScan} />
+
       <AlertDialog open={Boolean(deleteTarget)} onOpenChange={(open) => !open && setDeleteTarget(null)}>
         <AlertDialogContent className="border border-white/10 bg-background/95 text-white">
           <AlertDialogHeader>
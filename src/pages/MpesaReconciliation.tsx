@@ -0,0 +1,676 @@
+import { useEffect, useRef, useState } from "react";
+import { Link } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { ParsedStatement, parseMpesaStatement } from "@/lib/mpesa-statement";
+import { toast } from "sonner";
+import { FileUp, Link2, Loader2, RefreshCw, Smartphone, Undo2 } from "lucide-react";
+
+const TRANSACTION_STATUSES = ["unmatched", "matched", "ignored"] as const;
+
+type TransactionStatus = (typeof TRANSACTION_STATUSES)[number];
+
+const STATUS_LABELS: Record<TransactionStatus, string> = {
+  unmatched: "Unmatched",
+  matched: "Matched",
+  ignored: "Set aside",
+};
+
+const MATCH_METHOD_LABELS: Record<string, string> = {
+  reference: "by code",
+  auto: "automatically",
+  manual: "by hand",
+};
+
+type MpesaTransaction = Tables<"mpesa_transactions"> & {
+  matcher?: { full_name: string } | null;
+  sale_payments?: {
+    id: string;
+    amount: number;
+    sales: { sale_number: string; customer_name: string | null; created_at: string } | null;
+  } | null;
+};
+
+type CandidatePayment = {
+  id: string;
+  amount: number;
+  reference: string | null;
+  mpesa_transactions: { id: string } | null;
+  sales: {
+    sale_number: string;
+    customer_name: string | null;
+    customer_phone: string | null;
+    created_at: string;
+  };
+};
+
+type ImportResult = {
+  imported: number;
+  skipped: number;
+  matched: number;
+};
+
+// How far either side of the payment the link dialog looks for sales
+const CANDIDATE_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const fetchTransactions = async (status: TransactionStatus): Promise<MpesaTransaction[]> => {
+  const { data, error } = await supabase
+    .from("mpesa_transactions")
+    .select(
+      `*, matcher:profiles!mpesa_transactions_matched_by_fkey ( full_name ),
+      sale_payments ( id, amount, sales ( sale_number, customer_name, created_at ) )`,
+    )
+    .eq("status", status)
+    .order("transaction_time", { ascending: false })
+    .limit(200);
+
+  if (error) throw error;
+  return (data as MpesaTransaction[]) ?? [];
+};
+
+const fetchUnmatchedCount = async () => {
+  const { count, error } = await supabase
+    .from("mpesa_transactions")
+    .select("id", { count: "exact", head: true })
+    .eq("status", "unmatched");
+
+  if (error) throw error;
+  return count ?? 0;
+};
+
+// M-Pesa tenders for the same amount rung up around the time of the payment
+// that nothing else has claimed, nearest first.
+const fetchCandidates = async (transaction: MpesaTransaction): Promise<CandidatePayment[]> => {
+  const paidAt = new Date(transaction.transaction_time).getTime();
+
+  const { data, error } = await supabase
+    .from("sale_payments")
+    .select(
+      `id, amount, reference, mpesa_transactions ( id ),
+      sales!inner ( sale_number, customer_name, customer_phone, created_at )`,
+    )
+    .eq("method", "mpesa")
+    .eq("amount", transaction.amount)
+    .eq("sales.status", "completed")
+    .gte("sales.created_at", new Date(paidAt - CANDIDATE_WINDOW_MS).toISOString())
+    .lte("sales.created_at", new Date(paidAt + CANDIDATE_WINDOW_MS).toISOString())
+    .limit(100);
+
+  if (error) throw error;
+
+  return ((data as CandidatePayment[]) ?? [])
+    .filter(
+      (payment) =>
+        !payment.mpesa_transactions &&
+        (!payment.reference || payment.reference.toUpperCase() === transaction.transaction_id),
+    )
+    .sort(
+      (a, b) =>
+        Math.abs(new Date(a.sales.created_at).getTime() - paidAt) -
+        Math.abs(new Date(b.sales.created_at).getTime() - paidAt),
+    );
+};
+
+// Cashiers often record an M-Pesa tender without its code when the customer
+// paid to the till number themselves. The statement (or Safaricom's C2B
+// callback) is the record of what actually arrived; matching ties each
+// payment back to the sale it settled and fills in the missing code.
+const MpesaReconciliation = () => {
+  const queryClient = useQueryClient();
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [status, setStatus] = useState<TransactionStatus>("unmatched");
+  const [statement, setStatement] = useState<{ fileName: string; parsed: ParsedStatement } | null>(null);
+  const [linking, setLinking] = useState<MpesaTransaction | null>(null);
+  const [ignoring, setIgnoring] = useState<MpesaTransaction | null>(null);
+
+  const {
+    data: transactions = [],
+    isLoading,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: ["mpesa-transactions", status],
+    queryFn: () => fetchTransactions(status),
+  });
+
+  const { data: unmatchedCount = 0 } = useQuery({
+    queryKey: ["mpesa-transactions", "unmatched-count"],
+    queryFn: fetchUnmatchedCount,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["mpesa-transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["sales"] });
+  };
+
+  const importMutation = useMutation({
+    mutationFn: async (parsed: ParsedStatement) => {
+      const { data, error } = await supabase.rpc("import_mpesa_transactions", {
+        transactions: parsed.transactions.map((transaction) => ({
+          transaction_id: transaction.transactionId,
+          transaction_time: transaction.transactionTime,
+          amount: transaction.amount,
+          phone: transaction.phone,
+          payer_name: transaction.payerName,
+          bill_ref_number: transaction.billRefNumber,
+          details: transaction.details,
+        })),
+      });
+
+      if (error) throw error;
+      return data as ImportResult;
+    },
+    onSuccess: (result) => {
+      toast.success(
+        `Imported ${result.imported} payment${result.imported === 1 ? "" : "s"}, ${result.matched} matched` +
+          (result.skipped ? `; ${result.skipped} already on file` : ""),
+      );
+      setStatement(null);
+      invalidate();
+    },
+    onError: (error) => {
+      console.error("Failed to import M-Pesa statement", error);
+      toast.error(error instanceof Error ? error.message : "Failed to import M-Pesa statement");
+    },
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("match_mpesa_transactions");
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (matched) => {
+      toast.success(matched ? `Matched ${matched} payment${matched === 1 ? "" : "s"}` : "No new matches found");
+      invalidate();
+    },
+    onError: (error) => {
+      console.error("Failed to match M-Pesa payments", error);
+      toast.error(error instanceof Error ? error.message : "Failed to match M-Pesa payments");
+    },
+  });
+
+  const unmatchMutation = useMutation({
+    mutationFn: async (transaction: MpesaTransaction) => {
+      const { error } = await supabase.rpc("unmatch_mpesa_transaction", { p_transaction_id: transaction.id });
+      if (error) throw error;
+    },
+    onSuccess: (_, transaction) => {
+      toast.success(`${transaction.transaction_id} is back in the unmatched queue`);
+      invalidate();
+    },
+    onError: (error) => {
+      console.error("Failed to unmatch M-Pesa payment", error);
+      toast.error(error instanceof Error ? error.message : "Failed to unmatch M-Pesa payment");
+    },
+  });
+
+  const handleFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    try {
+      const parsed = parseMpesaStatement(await file.text());
+      if (!parsed.transactions.length) {
+        toast.error("The statement has no payments in to import");
+        return;
+      }
+      setStatement({ fileName: file.name, parsed });
+    } catch (parseError) {
+      toast.error(parseError instanceof Error ? parseError.message : "We couldn't read that statement");
+    }
+  };
+
+  const statementTotal = statement?.parsed.transactions.reduce((sum, transaction) => sum + transaction.amount, 0) ?? 0;
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Point of Sale</span>
+          <h1 className="text-4xl font-semibold leading-tight text-white">M-Pesa Reconciliation</h1>
+          <p className="max-w-2xl text-muted-foreground">
+            Import the till's M-Pesa statement to tie every payment to the sale it paid for. Payments that can't be
+            matched automatically wait here to be linked by hand.
+          </p>
+        </div>
+
+        {isError && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Reconciliation unavailable</AlertTitle>
+            <AlertDescription>{(error as Error)?.message ?? "We couldn't load M-Pesa transactions."}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex flex-wrap items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <FileUp className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Statement</span>
+                <span className="text-lg font-semibold">Import payments</span>
+              </div>
+              <div className="ml-auto flex gap-3">
+                <Button
+                  variant="outline"
+                  onClick={() => matchMutation.mutate()}
+                  disabled={matchMutation.isPending}
+                  className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                >
+                  {matchMutation.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <RefreshCw className="mr-2 h-4 w-4" />
+                  )}
+                  Match again
+                </Button>
+                <Button onClick={() => fileInput.current?.click()} className="frosted-button">
+                  <FileUp className="mr-2 h-4 w-4" /> Choose CSV
+                </Button>
+                <input ref={fileInput} type="file" accept=".csv,text/csv" onChange={handleFile} className="hidden" />
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {statement ? (
+              <div className="flex flex-wrap items-center justify-between gap-4 rounded-2xl border border-primary/10 p-4">
+                <div className="space-y-1 text-sm">
+                  <p className="font-medium text-white">{statement.fileName}</p>
+                  <p className="text-white/60">
+                    {statement.parsed.transactions.length} payments in, KES {formatKes(statementTotal)}
+                    {statement.parsed.skipped > 0 && ` · ${statement.parsed.skipped} other entries left out`}
+                  </p>
+                  {statement.parsed.invalidLines.length > 0 && (
+                    <p className="text-warning">
+                      Couldn't read line{statement.parsed.invalidLines.length === 1 ? "" : "s"}{" "}
+                      {statement.parsed.invalidLines.join(", ")}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-3">
+                  <Button
+                    variant="outline"
+                    onClick={() => setStatement(null)}
+                    className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    onClick={() => importMutation.mutate(statement.parsed)}
+                    disabled={importMutation.isPending}
+                    className="frosted-button"
+                  >
+                    {importMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Import and match
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Export the statement as CSV from the M-Pesa org portal. Importing the same statement twice is safe;
+                payments already on file are skipped. Payments received through the C2B callback appear here without
+                an import.
+              </p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex flex-wrap items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <Smartphone className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Transactions</span>
+                <span className="text-lg font-semibold">
+                  {unmatchedCount > 0 ? `${unmatchedCount} waiting to be matched` : "All payments matched"}
+                </span>
+              </div>
+              <ToggleGroup
+                type="single"
+                value={status}
+                onValueChange={(next) => next && setStatus(next as TransactionStatus)}
+                className="ml-auto rounded-lg border border-white/20 p-0.5"
+              >
+                {TRANSACTION_STATUSES.map((option) => (
+                  <ToggleGroupItem key={option} value={option} className="h-8 px-3 text-white/70 data-[state=on]:text-white">
+                    {STATUS_LABELS[option]}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[900px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>M-Pesa code</TableHead>
+                    <TableHead>Paid</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead className="text-right">Amount (KES)</TableHead>
+                    <TableHead>{status === "ignored" ? "Reason" : "Sale"}</TableHead>
+                    <TableHead className="w-[200px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading transactions...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : transactions.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        No {STATUS_LABELS[status].toLowerCase()} transactions
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    transactions.map((transaction) => (
+                      <TableRow key={transaction.id}>
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span className="font-mono text-sm">{transaction.transaction_id}</span>
+                            <span className="text-xs text-muted-foreground">
+                              {transaction.source === "c2b" ? "C2B callback" : "Statement"}
+                            </span>
+                          </div>
+                        </TableCell>
+                        <TableCell>{new Date(transaction.transaction_time).toLocaleString()}</TableCell>
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span>{transaction.payer_name ?? "—"}</span>
+                            {transaction.phone && (
+                              <span className="font-mono text-xs text-muted-foreground">{transaction.phone}</span>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatKes(Number(transaction.amount))}</TableCell>
+                        <TableCell>
+                          {transaction.status === "matched" && transaction.sale_payments?.sales ? (
+                            <div className="flex flex-col">
+                              <Link
+                                to={`/sales/${transaction.sale_payments.sales.sale_number}/receipt`}
+                                className="font-mono text-sm text-primary hover:underline"
+                              >
+                                {transaction.sale_payments.sales.sale_number}
+                              </Link>
+                              <span className="text-xs text-muted-foreground">
+                                Matched {MATCH_METHOD_LABELS[transaction.match_method] ?? ""}
+                                {transaction.matcher?.full_name && ` by ${transaction.matcher.full_name}`}
+                              </span>
+                            </div>
+                          ) : transaction.status === "ignored" ? (
+                            <div className="flex flex-col">
+                              <span>{transaction.notes}</span>
+                              {transaction.matcher?.full_name && (
+                                <span className="text-xs text-muted-foreground">by {transaction.matcher.full_name}</span>
+                              )}
+                            </div>
+                          ) : (
+                            <Badge variant="secondary" className="bg-warning/20 text-warning">
+                              Unmatched
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {transaction.status === "unmatched" ? (
+                            <div className="flex justify-end gap-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setLinking(transaction)}
+                                className="text-primary hover:text-primary"
+                              >
+                                <Link2 className="mr-1 h-4 w-4" /> Link
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => setIgnoring(transaction)}
+                                className="text-white/70 hover:text-white"
+                              >
+                                Set aside
+                              </Button>
+                            </div>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => unmatchMutation.mutate(transaction)}
+                              disabled={unmatchMutation.isPending}
+                              className="text-white/70 hover:text-white"
+                            >
+                              <Undo2 className="mr-1 h-4 w-4" /> Unmatch
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <LinkTransactionDialog transaction={linking} onOpenChange={(open) => !open && setLinking(null)} />
+      <IgnoreTransactionDialog transaction={ignoring} onOpenChange={(open) => !open && setIgnoring(null)} />
+    </DashboardLayout>
+  );
+};
+
+interface TransactionDialogProps {
+  transaction: MpesaTransaction | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const LinkTransactionDialog = ({ transaction, onOpenChange }: TransactionDialogProps) => {
+  const queryClient = useQueryClient();
+  const open = Boolean(transaction);
+
+  const { data: candidates = [], isLoading } = useQuery({
+    queryKey: ["mpesa-transactions", transaction?.id, "candidates"],
+    queryFn: () => fetchCandidates(transaction),
+    enabled: open,
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: async (payment: CandidatePayment) => {
+      const { error } = await supabase.rpc("link_mpesa_transaction", {
+        p_transaction_id: transaction.id,
+        p_sale_payment_id: payment.id,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, payment) => {
+      toast.success(`${transaction.transaction_id} linked to sale ${payment.sales.sale_number}`);
+      onOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ["mpesa-transactions"] });
+      queryClient.invalidateQueries({ queryKey: ["sales"] });
+    },
+    onError: (error) => {
+      console.error("Failed to link M-Pesa payment", error);
+      toast.error(error instanceof Error ? error.message : "Failed to link M-Pesa payment");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle>Link {transaction?.transaction_id}</DialogTitle>
+          <DialogDescription>
+            M-Pesa payments of KES {formatKes(Number(transaction?.amount ?? 0))} taken within a day of{" "}
+            {transaction ? new Date(transaction.transaction_time).toLocaleString() : ""} that aren't matched yet,
+            nearest first.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto rounded-2xl border border-white/10">
+          <Table>
+            <TableHeader className="bg-white/5">
+              <TableRow className="border-white/10">
+                <TableHead className="text-white/70">Sale</TableHead>
+                <TableHead className="text-white/70">Time</TableHead>
+                <TableHead className="text-white/70">Customer</TableHead>
+                <TableHead className="w-[100px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="py-6 text-center text-muted-foreground">
+                    <div className="flex items-center justify-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Looking for sales...
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : candidates.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={4} className="py-6 text-center text-muted-foreground">
+                    No unmatched M-Pesa payments for this amount
+                  </TableCell>
+                </TableRow>
+              ) : (
+                candidates.map((payment) => (
+                  <TableRow key={payment.id} className="border-white/5">
+                    <TableCell className="font-mono text-sm text-white/80">{payment.sales.sale_number}</TableCell>
+                    <TableCell className="text-white/80">{new Date(payment.sales.created_at).toLocaleString()}</TableCell>
+                    <TableCell className="text-white/80">
+                      <div className="flex flex-col">
+                        <span>{payment.sales.customer_name ?? "Walk-in"}</span>
+                        {payment.sales.customer_phone && (
+                          <span className="text-xs text-muted-foreground">{payment.sales.customer_phone}</span>
+                        )}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        onClick={() => linkMutation.mutate(payment)}
+                        disabled={linkMutation.isPending}
+                        className="frosted-button"
+                      >
+                        Link
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+const IgnoreTransactionDialog = ({ transaction, onOpenChange }: TransactionDialogProps) => {
+  const queryClient = useQueryClient();
+  const [reason, setReason] = useState("");
+  const open = Boolean(transaction);
+
+  useEffect(() => {
+    if (open) setReason("");
+  }, [open]);
+
+  const ignoreMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("ignore_mpesa_transaction", {
+        p_transaction_id: transaction.id,
+        p_reason: reason.trim(),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(`${transaction.transaction_id} set aside`);
+      onOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ["mpesa-transactions"] });
+    },
+    onError: (error) => {
+      console.error("Failed to set M-Pesa payment aside", error);
+      toast.error(error instanceof Error ? error.message : "Failed to set M-Pesa payment aside");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle>Set aside {transaction?.transaction_id}</DialogTitle>
+          <DialogDescription>
+            For money that didn't pay for a sale, such as a customer settling an account or a supplier refund.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label htmlFor="ignoreReason">Reason</Label>
+          <Textarea
+            id="ignoreReason"
+            placeholder="What the payment was for"
+            value={reason}
+            onChange={(event) => setReason(event.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="border-white/20 bg-transparent text-white hover:bg-white/10"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => ignoreMutation.mutate()}
+            disabled={reason.trim().length < 5 || ignoreMutation.isPending}
+            className="frosted-button"
+          >
+            {ignoreMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Set aside
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MpesaReconciliation;
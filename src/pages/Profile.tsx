@@ -0,0 +1,345 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Label } from "@/components/ui/label";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { supabase } from "@/integrations/supabase/client";
+import { useCurrentProfile } from "@/hooks/use-current-profile";
+import { ROLE_LABELS } from "@/lib/roles";
+import { TILL_PIN_PATTERN } from "@/lib/till";
+import { toast } from "sonner";
+import { Grid3x3, KeyRound, Loader2, UserRound } from "lucide-react";
+
+const PIN_LENGTH = 6;
+
+const profileFormSchema = z.object({
+  fullName: z.string().trim().min(1, "Full name is required"),
+  phone: z.string().trim().optional().or(z.literal("")),
+});
+
+type ProfileFormValues = z.infer<typeof profileFormSchema>;
+
+const passwordFormSchema = z
+  .object({
+    password: z.string().min(6, "Use at least 6 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((values) => values.password === values.confirmPassword, {
+    path: ["confirmPassword"],
+    message: "Passwords don't match",
+  });
+
+type PasswordFormValues = z.infer<typeof passwordFormSchema>;
+
+const fetchHasPin = async () => {
+  const { data, error } = await supabase.rpc("has_till_pin");
+
+  if (error) throw error;
+  return Boolean(data);
+};
+
+const PinInput = ({ id, value, onChange }: { id: string; value: string; onChange: (value: string) => void }) => (
+  <InputOTP
+    id={id}
+    maxLength={PIN_LENGTH}
+    value={value}
+    onChange={(next) => onChange(next.replace(/\D/g, ""))}
+    inputMode="numeric"
+  >
+    <InputOTPGroup>
+      {Array.from({ length: PIN_LENGTH }, (_, index) => (
+        <InputOTPSlot key={index} index={index} />
+      ))}
+    </InputOTPGroup>
+  </InputOTP>
+);
+
+const Profile = () => {
+  const queryClient = useQueryClient();
+  const { data: profile, isLoading } = useCurrentProfile();
+
+  const profileForm = useForm<ProfileFormValues>({
+    resolver: zodResolver(profileFormSchema),
+    defaultValues: { fullName: "", phone: "" },
+  });
+
+  const [pin, setPin] = useState("");
+  const [confirmPin, setConfirmPin] = useState("");
+  const { data: hasPin } = useQuery({ queryKey: ["profile", "pin"], queryFn: fetchHasPin });
+
+  const passwordForm = useForm<PasswordFormValues>({
+    resolver: zodResolver(passwordFormSchema),
+    defaultValues: { password: "", confirmPassword: "" },
+  });
+
+  useEffect(() => {
+    if (profile) {
+      profileForm.reset({ fullName: profile.full_name, phone: profile.phone ?? "" });
+    }
+  }, [profile, profileForm]);
+
+  const profileMutation = useMutation({
+    mutationFn: async (values: ProfileFormValues) => {
+      const { error } = await supabase
+        .from("profiles")
+        .update({ full_name: values.fullName, phone: values.phone || null })
+        .eq("id", profile.id);
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Profile updated");
+      queryClient.invalidateQueries({ queryKey: ["profile"] });
+      queryClient.invalidateQueries({ queryKey: ["staff"] });
+    },
+    onError: (error) => {
+      console.error("Failed to update profile", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update profile");
+    },
+  });
+
+  const passwordMutation = useMutation({
+    mutationFn: async (values: PasswordFormValues) => {
+      const { error } = await supabase.auth.updateUser({ password: values.password });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Password changed");
+      passwordForm.reset();
+    },
+    onError: (error) => {
+      console.error("Failed to change password", error);
+      toast.error(error instanceof Error ? error.message : "Failed to change password");
+    },
+  });
+
+  const pinMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const { error } = await supabase.rpc("set_my_pin", { p_pin: value });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(hasPin ? "Till PIN changed" : "Till PIN set");
+      setPin("");
+      setConfirmPin("");
+      queryClient.invalidateQueries({ queryKey: ["profile", "pin"] });
+    },
+    onError: (error) => {
+      console.error("Failed to set till PIN", error);
+      toast.error(error instanceof Error ? error.message : "Failed to set till PIN");
+    },
+  });
+
+  const handlePinSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (!TILL_PIN_PATTERN.test(pin)) {
+      toast.error("The PIN must be 4 to 6 digits");
+      return;
+    }
+
+    if (pin !== confirmPin) {
+      toast.error("PINs don't match");
+      return;
+    }
+
+    pinMutation.mutate(pin);
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-3xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Account</span>
+          <h1 className="text-4xl font-semibold leading-tight text-white">My profile</h1>
+          <p className="max-w-2xl text-muted-foreground">
+            Keep your name and phone number up to date; they appear on sales, stock movements and purchase orders.
+          </p>
+        </div>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <UserRound className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Details</span>
+                <span className="text-lg font-semibold">{profile?.email ?? "Your account"}</span>
+              </div>
+              {profile && (
+                <Badge variant="secondary" className="ml-auto bg-primary/20 uppercase tracking-wide text-primary">
+                  {ROLE_LABELS[profile.role]}
+                </Badge>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {isLoading || !profile ? (
+              <div className="flex items-center justify-center gap-2 py-6 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading profile...
+              </div>
+            ) : (
+              <Form {...profileForm}>
+                <form
+                  onSubmit={profileForm.handleSubmit((values) => profileMutation.mutate(values))}
+                  className="space-y-4"
+                >
+                  <div className="grid gap-4 sm:grid-cols-2">
+                    <FormField
+                      control={profileForm.control}
+                      name="fullName"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Full name</FormLabel>
+                          <FormControl>
+                            <Input {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={profileForm.control}
+                      name="phone"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Phone</FormLabel>
+                          <FormControl>
+                            <Input type="tel" placeholder="07XX XXX XXX" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                  <div className="flex justify-end">
+                    <Button
+                      type="submit"
+                      className="bg-primary text-primary-foreground"
+                      disabled={profileMutation.isPending || !profileForm.formState.isDirty}
+                    >
+                      {profileMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Save changes
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <KeyRound className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Security</span>
+                <span className="text-lg font-semibold">Change password</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <Form {...passwordForm}>
+              <form
+                onSubmit={passwordForm.handleSubmit((values) => passwordMutation.mutate(values))}
+                className="space-y-4"
+              >
+                <div className="grid gap-4 sm:grid-cols-2">
+                  <FormField
+                    control={passwordForm.control}
+                    name="password"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>New password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={passwordForm.control}
+                    name="confirmPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Confirm password</FormLabel>
+                        <FormControl>
+                          <Input type="password" autoComplete="new-password" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <div className="flex justify-end">
+                  <Button type="submit" className="bg-primary text-primary-foreground" disabled={passwordMutation.isPending}>
+                    {passwordMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Change password
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <Grid3x3 className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Shared tills</span>
+                <span className="text-lg font-semibold">Till PIN</span>
+              </div>
+              <Badge
+                variant="secondary"
+                className={`ml-auto uppercase tracking-wide ${hasPin ? "bg-success/20 text-success" : "bg-white/10 text-white/60"}`}
+              >
+                {hasPin ? "Set" : "Not set"}
+              </Badge>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handlePinSubmit} className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Use a 4 to 6 digit PIN to unlock a shared counter till. Sales you make there are recorded against you.
+              </p>
+              <div className="grid gap-4 sm:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="pin">{hasPin ? "New PIN" : "PIN"}</Label>
+                  <PinInput id="pin" value={pin} onChange={setPin} />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="confirmPin">Confirm PIN</Label>
+                  <PinInput id="confirmPin" value={confirmPin} onChange={setConfirmPin} />
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" className="bg-primary text-primary-foreground" disabled={pinMutation.isPending}>
+                  {pinMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {hasPin ? "Change PIN" : "Set PIN"}
+                </Button>
+              </div>
+            </form>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Profile;
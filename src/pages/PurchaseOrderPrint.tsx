@@ -0,0 +1,139 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import PrintLayout from "@/components/PrintLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { PURCHASE_ORDER_STATUS_LABELS, PurchaseOrderStatus, purchaseOrderTotal } from "@/lib/purchasing";
+
+type PurchaseOrderDetail = Tables<"purchase_orders"> & {
+  suppliers?: Tables<"suppliers"> | null;
+  creator?: { full_name: string } | null;
+  purchase_order_items: (Tables<"purchase_order_items"> & {
+    medicines?: { name: string; generic_name: string | null } | null;
+  })[];
+};
+
+const fetchPurchaseOrder = async (id: string): Promise<PurchaseOrderDetail> => {
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .select(
+      `*, suppliers ( * ), creator:profiles!purchase_orders_created_by_fkey ( full_name ),
+      purchase_order_items ( *, medicines ( name, generic_name ) )`,
+    )
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return data as PurchaseOrderDetail;
+};
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const PurchaseOrderPrint = () => {
+  const { id = "" } = useParams();
+
+  const { data: order, isLoading, isError, error } = useQuery({
+    queryKey: ["purchase-orders", id],
+    queryFn: () => fetchPurchaseOrder(id),
+    enabled: Boolean(id),
+  });
+
+  const items = [...(order?.purchase_order_items ?? [])].sort((a, b) =>
+    (a.medicines?.name ?? "").localeCompare(b.medicines?.name ?? ""),
+  );
+  const supplier = order?.suppliers;
+
+  return (
+    <PrintLayout
+      title="Purchase Order"
+      documentNumber={order?.po_number}
+      loading={isLoading}
+      error={isError ? ((error as Error)?.message ?? "We couldn't load this purchase order.") : null}
+    >
+      {order && (
+        <div className="space-y-8 text-sm">
+          <div className="grid grid-cols-2 gap-8">
+            <div>
+              <p className="text-xs uppercase tracking-wide text-slate-500">Supplier</p>
+              <p className="text-base font-semibold">{supplier?.name}</p>
+              {supplier?.contact_person && <p>Attn: {supplier.contact_person}</p>}
+              {supplier?.address && <p className="whitespace-pre-line">{supplier.address}</p>}
+              {supplier?.phone && <p>{supplier.phone}</p>}
+              {supplier?.email && <p>{supplier.email}</p>}
+            </div>
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 self-start">
+              <dt className="text-slate-500">Order date</dt>
+              <dd className="text-right font-medium">{new Date(order.order_date).toLocaleDateString()}</dd>
+              <dt className="text-slate-500">Expected</dt>
+              <dd className="text-right font-medium">
+                {order.expected_date ? new Date(order.expected_date).toLocaleDateString() : "—"}
+              </dd>
+              <dt className="text-slate-500">Status</dt>
+              <dd className="text-right font-medium">
+                {PURCHASE_ORDER_STATUS_LABELS[order.status as PurchaseOrderStatus] ?? order.status}
+              </dd>
+              <dt className="text-slate-500">Raised by</dt>
+              <dd className="text-right font-medium">{order.creator?.full_name ?? "—"}</dd>
+            </dl>
+          </div>
+
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b-2 border-slate-800 text-left text-xs uppercase tracking-wide">
+                <th className="py-2 pr-2">#</th>
+                <th className="py-2 pr-2">Item</th>
+                <th className="py-2 pr-2 text-right">Quantity</th>
+                <th className="py-2 pr-2 text-right">Unit cost</th>
+                <th className="py-2 text-right">Amount (KES)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {items.map((item, index) => (
+                <tr key={item.id} className="border-b border-slate-200">
+                  <td className="py-2 pr-2">{index + 1}</td>
+                  <td className="py-2 pr-2">
+                    {item.medicines?.name}
+                    {item.medicines?.generic_name && (
+                      <span className="block text-xs text-slate-500">{item.medicines.generic_name}</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2 text-right">{item.quantity_ordered}</td>
+                  <td className="py-2 pr-2 text-right">{formatKes(Number(item.unit_cost))}</td>
+                  <td className="py-2 text-right">{formatKes(item.quantity_ordered * Number(item.unit_cost))}</td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="text-base font-semibold">
+                <td colSpan={4} className="py-3 pr-2 text-right">
+                  Total
+                </td>
+                <td className="py-3 text-right">{formatKes(purchaseOrderTotal(items))}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {order.notes && (
+            <div>
+              <p className="text-xs uppercase tracking-wide text-slate-500">Notes</p>
+              <p className="whitespace-pre-line">{order.notes}</p>
+            </div>
+          )}
+
+          <p className="text-slate-600">
+            Please quote {order.po_number} on your delivery note and invoice. Deliveries must include batch numbers and
+            expiry dates for every item.
+          </p>
+
+          <div className="w-64 space-y-6 pt-8">
+            <div className="border-b border-slate-400 pb-8" />
+            <p className="text-xs uppercase tracking-wide text-slate-500">Authorised signature</p>
+          </div>
+        </div>
+      )}
+    </PrintLayout>
+  );
+};
+
+export default PurchaseOrderPrint;
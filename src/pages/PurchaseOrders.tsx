@@ -0,0 +1,587 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useFieldArray, useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import {
+  PURCHASE_ORDER_STATUSES,
+  PURCHASE_ORDER_STATUS_CLASSES,
+  PURCHASE_ORDER_STATUS_LABELS,
+  PurchaseOrderStatus,
+  purchaseOrderTotal,
+} from "@/lib/purchasing";
+import { toast } from "sonner";
+import { ClipboardList, Edit2, Loader2, MoreHorizontal, PackageCheck, Plus, Printer, Send, Trash2, X } from "lucide-react";
+
+type PurchaseOrderRecord = Tables<"purchase_orders"> & {
+  suppliers?: { name: string } | null;
+  purchase_order_items: Tables<"purchase_order_items">[];
+};
+
+type SupplierRecord = Tables<"suppliers">;
+type MedicineOption = Pick<Tables<"medicines">, "id" | "name" | "unit_price">;
+
+const ALL_STATUSES = "all";
+
+const purchaseOrderFormSchema = z.object({
+  supplierId: z.string().min(1, "Select a supplier"),
+  expectedDate: z.string().optional().or(z.literal("")),
+  notes: z.string().optional().or(z.literal("")),
+  items: z
+    .array(
+      z.object({
+        medicineId: z.string().min(1, "Select a medicine"),
+        quantity: z.coerce.number().int().min(1, "At least 1"),
+        unitCost: z.coerce.number().min(0, "Cannot be negative"),
+      }),
+    )
+    .min(1, "Add at least one medicine"),
+});
+
+type PurchaseOrderFormValues = z.infer<typeof purchaseOrderFormSchema>;
+
+const emptyLine = { medicineId: "", quantity: 1, unitCost: 0 };
+
+const fetchPurchaseOrders = async (): Promise<PurchaseOrderRecord[]> => {
+  const { data, error } = await supabase
+    .from("purchase_orders")
+    .select("*, suppliers ( name ), purchase_order_items ( * )")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as PurchaseOrderRecord[]) ?? [];
+};
+
+const fetchSuppliers = async (): Promise<SupplierRecord[]> => {
+  const { data, error } = await supabase.from("suppliers").select("*").order("name");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchMedicineOptions = async (): Promise<MedicineOption[]> => {
+  const { data, error } = await supabase.from("medicines").select("id, name, unit_price").order("name");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const PurchaseOrders = () => {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<string>(ALL_STATUSES);
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrderRecord | null>(null);
+
+  const {
+    data: orders = [],
+    isLoading,
+    isError,
+    error: ordersError,
+  } = useQuery({ queryKey: ["purchase-orders"], queryFn: fetchPurchaseOrders });
+
+  const { data: suppliers = [] } = useQuery({ queryKey: ["suppliers", "list"], queryFn: fetchSuppliers });
+
+  const { data: medicines = [] } = useQuery({
+    queryKey: ["purchase-orders", "medicines"],
+    queryFn: fetchMedicineOptions,
+  });
+
+  const filteredOrders = useMemo(
+    () => (statusFilter === ALL_STATUSES ? orders : orders.filter((order) => order.status === statusFilter)),
+    [orders, statusFilter],
+  );
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ orderId, status }: { orderId: string; status: "sent" | "cancelled" }) => {
+      const { error } = await supabase.rpc("set_purchase_order_status", {
+        p_purchase_order_id: orderId,
+        p_status: status,
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: (_data, { status }) => {
+      toast.success(status === "sent" ? "Purchase order marked as sent" : "Purchase order cancelled");
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+    },
+    onError: (error) => {
+      console.error("Failed to update purchase order", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update purchase order");
+    },
+  });
+
+  const openEditor = (order: PurchaseOrderRecord | null) => {
+    setEditingOrder(order);
+    setEditorOpen(true);
+  };
+
+  const getOrdersErrorMessage = (error: unknown) => {
+    if (!error) return "We couldn't load purchase orders.";
+    const message = (error as Error).message ?? "";
+    if (message.toLowerCase().includes("schema cache")) {
+      return "Supabase is missing the purchase order tables. Apply the latest migrations and redeploy.";
+    }
+    return message;
+  };
+
+  const ordersErrorMessage = isError ? getOrdersErrorMessage(ordersError) : null;
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+          <div className="space-y-2">
+            <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Procurement</span>
+            <h1 className="text-4xl font-semibold leading-tight text-white">Purchase Orders</h1>
+            <p className="max-w-2xl text-muted-foreground">
+              Draft orders for your suppliers, send them as PDFs and track what has been received.
+            </p>
+          </div>
+          <Button onClick={() => openEditor(null)} className="frosted-button">
+            <Plus className="mr-2 h-4 w-4" /> New purchase order
+          </Button>
+        </div>
+
+        {ordersErrorMessage && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Purchase orders unavailable</AlertTitle>
+            <AlertDescription>{ordersErrorMessage}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-4 md:flex md:flex-row md:items-center md:justify-between md:space-y-0">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <ClipboardList className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Orders</span>
+                <span className="text-lg font-semibold">Supplier Orders</span>
+              </div>
+            </CardTitle>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="glass-panel w-[220px] border-primary/10">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_STATUSES}>All statuses</SelectItem>
+                {PURCHASE_ORDER_STATUSES.map((status) => (
+                  <SelectItem key={status} value={status}>
+                    {PURCHASE_ORDER_STATUS_LABELS[status]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </CardHeader>
+          <CardContent>
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[820px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>PO #</TableHead>
+                    <TableHead>Supplier</TableHead>
+                    <TableHead>Ordered</TableHead>
+                    <TableHead>Expected</TableHead>
+                    <TableHead className="text-right">Lines</TableHead>
+                    <TableHead className="text-right">Total (KES)</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading purchase orders...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : filteredOrders.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="py-6 text-center text-muted-foreground">
+                        No purchase orders found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredOrders.map((order) => {
+                      const status = order.status as PurchaseOrderStatus;
+
+                      return (
+                        <TableRow key={order.id}>
+                          <TableCell className="font-medium">{order.po_number}</TableCell>
+                          <TableCell>{order.suppliers?.name ?? "—"}</TableCell>
+                          <TableCell>{new Date(order.order_date).toLocaleDateString()}</TableCell>
+                          <TableCell>
+                            {order.expected_date ? new Date(order.expected_date).toLocaleDateString() : "—"}
+                          </TableCell>
+                          <TableCell className="text-right">{order.purchase_order_items?.length ?? 0}</TableCell>
+                          <TableCell className="text-right font-semibold">
+                            {purchaseOrderTotal(order.purchase_order_items ?? []).toLocaleString(undefined, {
+                              maximumFractionDigits: 2,
+                            })}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className={`uppercase tracking-wide ${PURCHASE_ORDER_STATUS_CLASSES[status] ?? ""}`}>
+                              {PURCHASE_ORDER_STATUS_LABELS[status] ?? order.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="text-white/70 hover:bg-white/10 hover:text-white">
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem asChild>
+                                  <Link to={`/purchase-orders/${order.id}/print`}>
+                                    <Printer className="mr-2 h-4 w-4" /> Print / PDF
+                                  </Link>
+                                </DropdownMenuItem>
+                                {status === "draft" && (
+                                  <>
+                                    <DropdownMenuItem onClick={() => openEditor(order)}>
+                                      <Edit2 className="mr-2 h-4 w-4" /> Edit
+                                    </DropdownMenuItem>
+                                    <DropdownMenuItem
+                                      onClick={() => statusMutation.mutate({ orderId: order.id, status: "sent" })}
+                                    >
+                                      <Send className="mr-2 h-4 w-4" /> Mark as sent
+                                    </DropdownMenuItem>
+                                  </>
+                                )}
+                                {(status === "sent" || status === "partially_received") && (
+                                  <DropdownMenuItem asChild>
+                                    <Link to={`/goods-received?po=${order.id}`}>
+                                      <PackageCheck className="mr-2 h-4 w-4" /> Receive delivery
+                                    </Link>
+                                  </DropdownMenuItem>
+                                )}
+                                {(status === "draft" || status === "sent") && (
+                                  <DropdownMenuItem
+                                    onClick={() => statusMutation.mutate({ orderId: order.id, status: "cancelled" })}
+                                    className="text-destructive focus:text-destructive"
+                                  >
+                                    <X className="mr-2 h-4 w-4" /> Cancel order
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <PurchaseOrderDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        order={editingOrder}
+        suppliers={suppliers}
+        medicines={medicines}
+      />
+    </DashboardLayout>
+  );
+};
+
+interface PurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  order: PurchaseOrderRecord | null;
+  suppliers: SupplierRecord[];
+  medicines: MedicineOption[];
+}
+
+const PurchaseOrderDialog = ({ open, onOpenChange, order, suppliers, medicines }: PurchaseOrderDialogProps) => {
+  const queryClient = useQueryClient();
+
+  const form = useForm<PurchaseOrderFormValues>({
+    resolver: zodResolver(purchaseOrderFormSchema),
+    defaultValues: { supplierId: "", expectedDate: "", notes: "", items: [emptyLine] },
+  });
+
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "items" });
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(
+      order
+        ? {
+            supplierId: order.supplier_id,
+            expectedDate: order.expected_date ?? "",
+            notes: order.notes ?? "",
+            items: order.purchase_order_items.map((item) => ({
+              medicineId: item.medicine_id,
+              quantity: item.quantity_ordered,
+              unitCost: Number(item.unit_cost),
+            })),
+          }
+        : { supplierId: "", expectedDate: "", notes: "", items: [emptyLine] },
+    );
+  }, [open, order, form]);
+
+  const items = form.watch("items");
+  const total = items.reduce((sum, item) => sum + (Number(item.quantity) || 0) * (Number(item.unitCost) || 0), 0);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: PurchaseOrderFormValues) => {
+      const { error } = await supabase.rpc("save_purchase_order", {
+        p_purchase_order_id: order?.id ?? null,
+        p_supplier_id: values.supplierId,
+        p_expected_date: values.expectedDate || null,
+        p_notes: values.notes?.trim() || null,
+        p_items: values.items.map((item) => ({
+          medicine_id: item.medicineId,
+          quantity: item.quantity,
+          unit_cost: item.unitCost,
+        })),
+      });
+
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(order ? "Purchase order updated" : "Purchase order drafted");
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      console.error("Failed to save purchase order", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save purchase order");
+    },
+  });
+
+  const handleMedicineChange = (index: number, medicineId: string) => {
+    form.setValue(`items.${index}.medicineId`, medicineId, { shouldValidate: true });
+    const medicine = medicines.find((option) => option.id === medicineId);
+    if (medicine && !Number(form.getValues(`items.${index}.unitCost`))) {
+      form.setValue(`items.${index}.unitCost`, Number(medicine.unit_price));
+    }
+  };
+
+  const onSubmit = (values: PurchaseOrderFormValues) => {
+    saveMutation.mutate(values);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] max-w-3xl overflow-y-auto border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="text-2xl font-semibold text-white">
+            {order ? `Edit ${order.po_number}` : "New purchase order"}
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            Drafts can be edited until they are marked as sent to the supplier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-5">
+            <div className="grid gap-5 md:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="supplierId"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Supplier</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue placeholder="Select supplier" />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {suppliers.map((supplier) => (
+                          <SelectItem key={supplier.id} value={supplier.id}>
+                            {supplier.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="expectedDate"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Expected delivery</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <span className="text-sm font-medium text-white/80">Items</span>
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  onClick={() => append(emptyLine)}
+                  className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                >
+                  <Plus className="mr-1 h-4 w-4" /> Add line
+                </Button>
+              </div>
+              {fields.map((line, index) => (
+                <div key={line.id} className="grid items-start gap-3 md:grid-cols-[1fr,110px,140px,40px]">
+                  <FormField
+                    control={form.control}
+                    name={`items.${index}.medicineId`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <Select value={field.value} onValueChange={(value) => handleMedicineChange(index, value)}>
+                          <FormControl>
+                            <SelectTrigger>
+                              <SelectValue placeholder="Select medicine" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {medicines.map((medicine) => (
+                              <SelectItem key={medicine.id} value={medicine.id}>
+                                {medicine.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`items.${index}.quantity`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="number" min={1} placeholder="Qty" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name={`items.${index}.unitCost`}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormControl>
+                          <Input type="number" min={0} step="0.01" placeholder="Unit cost" {...field} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="icon"
+                    disabled={fields.length === 1}
+                    onClick={() => remove(index)}
+                    className="text-destructive/80 hover:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+
+            <FormField
+              control={form.control}
+              name="notes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notes to supplier</FormLabel>
+                  <FormControl>
+                    <Textarea rows={3} placeholder="Delivery instructions, payment terms..." {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <div className="flex flex-col gap-3 rounded-2xl border border-primary/10 bg-primary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
+              <p className="text-lg font-semibold text-white">
+                Order total:{" "}
+                <span className="text-primary">
+                  KES {total.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                </span>
+              </p>
+              <div className="flex justify-end gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => onOpenChange(false)}
+                  className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveMutation.isPending} className="frosted-button">
+                  {saveMutation.isPending ? (
+                    <>
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving
+                    </>
+                  ) : (
+                    "Save draft"
+                  )}
+                </Button>
+              </div>
+            </div>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PurchaseOrders;
@@ -0,0 +1,527 @@
+import { useMemo, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { sellableQuantity } from "@/lib/stock";
+import {
+  DEFAULT_REORDER_PARAMETERS,
+  REORDER_WINDOWS,
+  ReorderParameters,
+  ReorderSuggestion,
+  suggestReorder,
+} from "@/lib/reorder";
+import { toast } from "sonner";
+import { ClipboardPen, Loader2, Save, TrendingDown, Truck } from "lucide-react";
+
+type MedicineRecord = Pick<Tables<"medicines">, "id" | "name" | "reorder_level" | "supplier_id" | "unit_price"> & {
+  suppliers?: { name: string } | null;
+  medicine_batches?: Pick<Tables<"medicine_batches">, "quantity" | "expiry_date" | "status">[];
+};
+
+type OpenOrderLine = Pick<Tables<"purchase_order_items">, "medicine_id" | "quantity_ordered" | "quantity_received">;
+
+type SettingsRecord = Tables<"pharmacy_settings">;
+
+interface PlannerRow {
+  medicine: MedicineRecord;
+  stock: number;
+  onOrder: number;
+  unitsSold: number;
+  suggestion: ReorderSuggestion;
+}
+
+interface SupplierGroup {
+  supplierId: string | null;
+  supplierName: string;
+  rows: PlannerRow[];
+}
+
+interface LineOverride {
+  selected?: boolean;
+  quantity?: number;
+}
+
+const fetchMedicines = async (): Promise<MedicineRecord[]> => {
+  const { data, error } = await supabase
+    .from("medicines")
+    .select("id, name, reorder_level, supplier_id, unit_price, suppliers ( name ), medicine_batches ( quantity, expiry_date, status )")
+    .order("name");
+
+  if (error) throw error;
+  return (data as MedicineRecord[]) ?? [];
+};
+
+// Outstanding quantities on orders that have not been fully received, drafts included
+// so converting the same suggestions twice does not double up.
+const fetchOpenOrderLines = async (): Promise<OpenOrderLine[]> => {
+  const { data, error } = await supabase
+    .from("purchase_order_items")
+    .select("medicine_id, quantity_ordered, quantity_received, purchase_orders!inner ( status )")
+    .in("purchase_orders.status", ["draft", "sent", "partially_received"]);
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchSalesVelocity = async (windowDays: number) => {
+  const { data, error } = await supabase.rpc("get_sales_velocity", { p_window_days: windowDays });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchSettings = async (): Promise<SettingsRecord | null> => {
+  const { data, error } = await supabase.from("pharmacy_settings").select("*").maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const formatCover = (days: number | null) => {
+  if (days === null) return "No sales";
+  if (days >= 365) return "1 yr+";
+  return `${Math.floor(days)} d`;
+};
+
+const ReorderPlanner = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [parametersDraft, setParametersDraft] = useState<ReorderParameters | null>(null);
+  const [dueOnly, setDueOnly] = useState(true);
+  const [overrides, setOverrides] = useState<Record<string, LineOverride>>({});
+
+  const { data: settings } = useQuery({ queryKey: ["settings"], queryFn: fetchSettings });
+
+  const parameters = useMemo<ReorderParameters>(
+    () =>
+      parametersDraft ?? {
+        windowDays: settings?.reorder_window_days ?? DEFAULT_REORDER_PARAMETERS.windowDays,
+        leadTimeDays: settings?.reorder_lead_time_days ?? DEFAULT_REORDER_PARAMETERS.leadTimeDays,
+        coverDays: settings?.reorder_cover_days ?? DEFAULT_REORDER_PARAMETERS.coverDays,
+      },
+    [parametersDraft, settings],
+  );
+
+  const {
+    data: medicines = [],
+    isLoading: loadingMedicines,
+    isError,
+    error: medicinesError,
+  } = useQuery({ queryKey: ["inventory", "reorder"], queryFn: fetchMedicines });
+
+  const { data: openOrderLines = [] } = useQuery({
+    queryKey: ["purchase-orders", "open-lines"],
+    queryFn: fetchOpenOrderLines,
+  });
+
+  const {
+    data: velocity = [],
+    isLoading: loadingVelocity,
+    isError: velocityIsError,
+    error: velocityError,
+  } = useQuery({
+    queryKey: ["sales", "velocity", parameters.windowDays],
+    queryFn: () => fetchSalesVelocity(parameters.windowDays),
+  });
+
+  const rows = useMemo<PlannerRow[]>(() => {
+    const sold = new Map(velocity.map((entry) => [entry.medicine_id, Number(entry.units_sold)]));
+    const onOrder = new Map<string, number>();
+    openOrderLines.forEach((line) => {
+      const outstanding = Math.max(line.quantity_ordered - line.quantity_received, 0);
+      onOrder.set(line.medicine_id, (onOrder.get(line.medicine_id) ?? 0) + outstanding);
+    });
+
+    return medicines.map((medicine) => {
+      const stock = sellableQuantity(medicine.medicine_batches ?? []);
+      const unitsSold = sold.get(medicine.id) ?? 0;
+      const ordered = onOrder.get(medicine.id) ?? 0;
+
+      return {
+        medicine,
+        stock,
+        onOrder: ordered,
+        unitsSold,
+        suggestion: suggestReorder(
+          { stock, onOrder: ordered, reorderLevel: medicine.reorder_level, unitsSold },
+          parameters,
+        ),
+      };
+    });
+  }, [medicines, openOrderLines, velocity, parameters]);
+
+  const groups = useMemo<SupplierGroup[]>(() => {
+    const bySupplier = new Map<string, SupplierGroup>();
+    rows
+      .filter((row) => (dueOnly ? row.suggestion.due : row.suggestion.suggestedQuantity > 0))
+      .forEach((row) => {
+        const key = row.medicine.supplier_id ?? "none";
+        const group = bySupplier.get(key) ?? {
+          supplierId: row.medicine.supplier_id,
+          supplierName: row.medicine.suppliers?.name ?? "No supplier assigned",
+          rows: [],
+        };
+        group.rows.push(row);
+        bySupplier.set(key, group);
+      });
+
+    // Medicines without a supplier can't be ordered, so they go last
+    return [...bySupplier.values()].sort((a, b) => {
+      if (!a.supplierId) return 1;
+      if (!b.supplierId) return -1;
+      return a.supplierName.localeCompare(b.supplierName);
+    });
+  }, [rows, dueOnly]);
+
+  const isSelected = (row: PlannerRow) =>
+    Boolean(row.medicine.supplier_id) && (overrides[row.medicine.id]?.selected ?? row.suggestion.due);
+
+  const quantityFor = (row: PlannerRow) => overrides[row.medicine.id]?.quantity ?? row.suggestion.suggestedQuantity;
+
+  const updateOverride = (medicineId: string, change: LineOverride) =>
+    setOverrides((current) => ({ ...current, [medicineId]: { ...current[medicineId], ...change } }));
+
+  const selectedGroups = groups
+    .filter((group) => group.supplierId)
+    .map((group) => ({
+      ...group,
+      rows: group.rows.filter((row) => isSelected(row) && quantityFor(row) > 0),
+    }))
+    .filter((group) => group.rows.length > 0);
+
+  const updateParameter = (key: keyof ReorderParameters, value: number) => {
+    setParametersDraft({ ...parameters, [key]: value });
+  };
+
+  const settingsMutation = useMutation({
+    mutationFn: async (values: ReorderParameters) => {
+      const { error } = await supabase
+        .from("pharmacy_settings")
+        .update({
+          reorder_window_days: values.windowDays,
+          reorder_lead_time_days: values.leadTimeDays,
+          reorder_cover_days: values.coverDays,
+        })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Reorder defaults saved");
+      setParametersDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["settings"] });
+    },
+    onError: (error) => {
+      console.error("Failed to save reorder defaults", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save reorder defaults");
+    },
+  });
+
+  const draftMutation = useMutation({
+    mutationFn: async (orders: SupplierGroup[]) => {
+      // Saved together so a failure part-way doesn't leave some suppliers'
+      // drafts behind to be raised again on retry
+      const { data, error } = await supabase.rpc("save_purchase_orders", {
+        p_orders: orders.map((order) => ({
+          supplier_id: order.supplierId,
+          notes: `Raised from reorder suggestions (${parameters.windowDays}-day sales)`,
+          items: order.rows.map((row) => ({
+            medicine_id: row.medicine.id,
+            quantity: quantityFor(row),
+            unit_cost: Number(row.medicine.unit_price),
+          })),
+        })),
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count) => {
+      toast.success(count === 1 ? "Draft purchase order created" : `${count} draft purchase orders created`);
+      setOverrides({});
+      queryClient.invalidateQueries({ queryKey: ["purchase-orders"] });
+      navigate("/purchase-orders");
+    },
+    onError: (error) => {
+      console.error("Failed to create draft purchase orders", error);
+      toast.error(error instanceof Error ? error.message : "Failed to create draft purchase orders");
+    },
+  });
+
+  const getErrorMessage = (error: unknown) => {
+    if (!error) return "We couldn't load the reorder planner.";
+    const message = (error as Error).message ?? "";
+    if (message.toLowerCase().includes("schema cache")) {
+      return "Supabase is missing the reorder planning functions. Apply the latest migrations and redeploy.";
+    }
+    return message;
+  };
+
+  const errorMessage = isError
+    ? getErrorMessage(medicinesError)
+    : velocityIsError
+      ? getErrorMessage(velocityError)
+      : null;
+
+  const loading = loadingMedicines || loadingVelocity;
+  const dueCount = rows.filter((row) => row.suggestion.due).length;
+  const selectedLineCount = selectedGroups.reduce((sum, group) => sum + group.rows.length, 0);
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+          <div className="space-y-2">
+            <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Procurement</span>
+            <h1 className="text-4xl font-semibold leading-tight text-white">Reorder Planner</h1>
+            <p className="max-w-2xl text-muted-foreground">
+              Suggested order quantities from recent sales, stock on hand and open orders, grouped by supplier.
+            </p>
+          </div>
+          <Button
+            onClick={() => draftMutation.mutate(selectedGroups)}
+            disabled={selectedGroups.length === 0 || draftMutation.isPending}
+            className="frosted-button"
+          >
+            {draftMutation.isPending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ClipboardPen className="mr-2 h-4 w-4" />
+            )}
+            Create {selectedGroups.length || ""} draft order{selectedGroups.length === 1 ? "" : "s"}
+          </Button>
+        </div>
+
+        {errorMessage && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Reorder planner unavailable</AlertTitle>
+            <AlertDescription>{errorMessage}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <TrendingDown className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Planning</span>
+                <span className="text-lg font-semibold">Demand &amp; Cover</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-5 lg:flex-row lg:items-end lg:justify-between">
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label>Sales window</Label>
+                <Select
+                  value={String(parameters.windowDays)}
+                  onValueChange={(value) => updateParameter("windowDays", Number(value))}
+                >
+                  <SelectTrigger className="glass-panel w-[180px] border-primary/10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {[...new Set([...REORDER_WINDOWS, parameters.windowDays])]
+                      .sort((a, b) => a - b)
+                      .map((days) => (
+                        <SelectItem key={days} value={String(days)}>
+                          Last {days} days
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="lead-time">Supplier lead time (days)</Label>
+                <Input
+                  id="lead-time"
+                  type="number"
+                  min={0}
+                  value={parameters.leadTimeDays}
+                  onChange={(event) => updateParameter("leadTimeDays", Math.max(Number(event.target.value) || 0, 0))}
+                  className="glass-panel w-[180px] border-primary/10"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="cover-days">Target cover (days)</Label>
+                <Input
+                  id="cover-days"
+                  type="number"
+                  min={1}
+                  value={parameters.coverDays}
+                  onChange={(event) => updateParameter("coverDays", Math.max(Number(event.target.value) || 1, 1))}
+                  className="glass-panel w-[180px] border-primary/10"
+                />
+              </div>
+            </div>
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center">
+              <label className="flex items-center gap-2 text-sm text-white/80">
+                <Checkbox checked={dueOnly} onCheckedChange={(checked) => setDueOnly(checked === true)} />
+                Only items due for reorder ({dueCount})
+              </label>
+              <Button
+                variant="outline"
+                disabled={!parametersDraft || settingsMutation.isPending}
+                onClick={() => settingsMutation.mutate(parameters)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                <Save className="mr-2 h-4 w-4" /> Save as defaults
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-10 text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Working out suggestions...
+          </div>
+        ) : groups.length === 0 ? (
+          <Card className="glass-panel border-primary/30">
+            <CardContent className="py-10 text-center text-muted-foreground">
+              {dueOnly ? "Nothing is due for reorder" : "No reorder suggestions for the current settings"}
+            </CardContent>
+          </Card>
+        ) : (
+          groups.map((group) => {
+            const selectedRows = group.rows.filter((row) => isSelected(row) && quantityFor(row) > 0);
+            const orderValue = selectedRows.reduce(
+              (sum, row) => sum + quantityFor(row) * Number(row.medicine.unit_price),
+              0,
+            );
+
+            return (
+              <Card key={group.supplierId ?? "none"} className="glass-panel border-primary/30">
+                <CardHeader className="space-y-4 md:flex md:flex-row md:items-center md:justify-between md:space-y-0">
+                  <CardTitle className="flex items-center gap-3 text-white">
+                    <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                      <Truck className="h-5 w-5" />
+                    </span>
+                    <div>
+                      <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Supplier</span>
+                      <span className="text-lg font-semibold">{group.supplierName}</span>
+                    </div>
+                  </CardTitle>
+                  {group.supplierId ? (
+                    <p className="text-sm text-white/70">
+                      {selectedRows.length} of {group.rows.length} lines • KES{" "}
+                      {orderValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                    </p>
+                  ) : (
+                    <p className="text-sm text-warning">Assign a supplier in Inventory to order these</p>
+                  )}
+                </CardHeader>
+                <CardContent>
+                  <div className="glass-panel overflow-x-auto border border-primary/10">
+                    <Table className="min-w-[900px]">
+                      <TableHeader>
+                        <TableRow className="bg-primary/5">
+                          <TableHead className="w-[40px]" />
+                          <TableHead>Medicine</TableHead>
+                          <TableHead className="text-right">In stock</TableHead>
+                          <TableHead className="text-right">On order</TableHead>
+                          <TableHead className="text-right">Sold / day</TableHead>
+                          <TableHead className="text-right">Cover</TableHead>
+                          <TableHead className="text-right">Reorder at</TableHead>
+                          <TableHead className="text-right">Target</TableHead>
+                          <TableHead className="w-[120px]">Order qty</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {group.rows.map((row) => {
+                          const { suggestion } = row;
+                          const short =
+                            suggestion.daysOfCover !== null && suggestion.daysOfCover < parameters.leadTimeDays;
+
+                          return (
+                            <TableRow key={row.medicine.id}>
+                              <TableCell>
+                                <Checkbox
+                                  checked={isSelected(row)}
+                                  disabled={!group.supplierId}
+                                  onCheckedChange={(checked) =>
+                                    updateOverride(row.medicine.id, { selected: checked === true })
+                                  }
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <div className="flex items-center gap-2">
+                                  <span className="font-medium">{row.medicine.name}</span>
+                                  {suggestion.due && (
+                                    <Badge variant="outline" className="border-warning/60 text-warning">
+                                      Due
+                                    </Badge>
+                                  )}
+                                </div>
+                              </TableCell>
+                              <TableCell className="text-right">{row.stock}</TableCell>
+                              <TableCell className="text-right">{row.onOrder || "—"}</TableCell>
+                              <TableCell className="text-right">{suggestion.dailyDemand.toFixed(1)}</TableCell>
+                              <TableCell className={`text-right ${short ? "font-semibold text-destructive" : ""}`}>
+                                {formatCover(suggestion.daysOfCover)}
+                              </TableCell>
+                              <TableCell className="text-right">{suggestion.reorderPoint}</TableCell>
+                              <TableCell className="text-right">{suggestion.targetStock}</TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  min={0}
+                                  value={quantityFor(row)}
+                                  disabled={!group.supplierId}
+                                  onChange={(event) =>
+                                    updateOverride(row.medicine.id, {
+                                      quantity: Math.max(Math.floor(Number(event.target.value) || 0), 0),
+                                    })
+                                  }
+                                />
+                              </TableCell>
+                            </TableRow>
+                          );
+                        })}
+                      </TableBody>
+                    </Table>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })
+        )}
+
+        {selectedLineCount > 0 && (
+          <p className="text-sm text-muted-foreground">
+            {selectedLineCount} line{selectedLineCount === 1 ? "" : "s"} selected across {selectedGroups.length}{" "}
+            supplier{selectedGroups.length === 1 ? "" : "s"}. Drafts can be reviewed and edited on the Purchase Orders
+            page before they are sent.
+          </p>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default ReorderPlanner;
@@ -0,0 +1,318 @@
+import { Fragment } from "react";
+import { useNavigate, useParams, useSearchParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import PrintLayout from "@/components/PrintLayout";
+import { Button } from "@/components/ui/button";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { usePharmacySettings } from "@/hooks/use-pharmacy-settings";
+import { paymentMethodLabel, tenderChange } from "@/lib/payments";
+import {
+  RECEIPT_CHAR_WIDTH_MM,
+  RECEIPT_COLUMNS,
+  RECEIPT_WIDTHS,
+  Receipt,
+  ReceiptFormat,
+  ReceiptWidth,
+  escPosReceipt,
+  isReceiptWidth,
+  receiptLines,
+  receiptPharmacy,
+} from "@/lib/receipt";
+import { ArrowLeft, Download, Loader2, Printer } from "lucide-react";
+
+type SaleDetail = Tables<"sales"> & {
+  server?: { full_name: string } | null;
+  prescriptions?: { prescription_number: string } | null;
+  sale_items: (Tables<"sale_items"> & { medicines?: { name: string } | null })[];
+  sale_payments: Tables<"sale_payments">[];
+};
+
+const fetchSale = async (saleNumber: string): Promise<SaleDetail> => {
+  const { data, error } = await supabase
+    .from("sales")
+    .select(
+      `*, server:profiles!sales_served_by_fkey ( full_name ), prescriptions ( prescription_number ),
+      sale_items ( *, medicines ( name ) ), sale_payments ( * )`,
+    )
+    .eq("sale_number", saleNumber)
+    .single();
+
+  if (error) throw error;
+  return data as SaleDetail;
+};
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const FORMAT_LABELS: Record<ReceiptFormat, string> = {
+  a4: "A4",
+  "58": "58mm",
+  "80": "80mm",
+};
+
+const ReceiptFormatToggle = ({ value, onChange }: { value: ReceiptFormat; onChange: (format: ReceiptFormat) => void }) => (
+  <ToggleGroup
+    type="single"
+    value={value}
+    onValueChange={(next) => next && onChange(next as ReceiptFormat)}
+    className="rounded-lg border border-white/20 p-0.5"
+  >
+    {(["a4", ...RECEIPT_WIDTHS.map(String)] as ReceiptFormat[]).map((format) => (
+      <ToggleGroupItem key={format} value={format} className="h-8 px-3 text-white/70 data-[state=on]:text-white">
+        {FORMAT_LABELS[format]}
+      </ToggleGroupItem>
+    ))}
+  </ToggleGroup>
+);
+
+// Receipts print on the counter's thermal roll by default; A4 is for
+// customers who need a copy for insurance or reimbursement. Opening the
+// page with ?reprint=1 marks the copy as a reprint.
+const SaleReceipt = () => {
+  const navigate = useNavigate();
+  const { saleNumber = "" } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: settings, isLoading: loadingSettings } = usePharmacySettings();
+
+  const {
+    data: sale,
+    isLoading: loadingSale,
+    isError,
+    error,
+  } = useQuery({
+    queryKey: ["sales", saleNumber],
+    queryFn: () => fetchSale(saleNumber),
+    enabled: Boolean(saleNumber),
+  });
+
+  const requestedFormat = searchParams.get("format");
+  const format: ReceiptFormat =
+    requestedFormat === "a4" || isReceiptWidth(requestedFormat)
+      ? (requestedFormat as ReceiptFormat)
+      : (String(settings?.receipt_width ?? 80) as ReceiptFormat);
+
+  const setFormat = (next: ReceiptFormat) =>
+    setSearchParams(
+      (params) => {
+        params.set("format", next);
+        return params;
+      },
+      { replace: true },
+    );
+
+  const receipt: Receipt | null = sale
+    ? {
+        pharmacy: receiptPharmacy(settings),
+        saleNumber: sale.sale_number,
+        createdAt: sale.created_at ?? new Date().toISOString(),
+        servedBy: sale.server?.full_name ?? null,
+        customerName: sale.customer_name,
+        prescriptionNumber: sale.prescriptions?.prescription_number ?? null,
+        payments: sale.sale_payments.map((payment) => ({
+          method: payment.method,
+          amount: Number(payment.amount),
+          tendered: payment.tendered === null ? null : Number(payment.tendered),
+          reference: payment.reference,
+        })),
+        items: sale.sale_items.map((item) => ({
+          name: item.medicines?.name ?? "Item",
+          quantity: item.quantity,
+          unitPrice: Number(item.original_price),
+          discount: Number(item.discount_amount),
+          total: Number(item.total_price),
+        })),
+        subtotal: Number(sale.subtotal),
+        discount: Number(sale.discount_amount),
+        total: Number(sale.total_amount),
+        reprint: searchParams.get("reprint") === "1",
+        voided: sale.status === "voided",
+      }
+    : null;
+
+  const loading = loadingSale || loadingSettings;
+  const errorMessage = isError ? ((error as Error)?.message ?? "We couldn't load this sale.") : null;
+
+  if (format === "a4") {
+    return (
+      <PrintLayout
+        title={receipt?.voided ? "Receipt (Voided)" : receipt?.reprint ? "Receipt (Reprint)" : "Receipt"}
+        documentNumber={sale?.sale_number}
+        loading={loading}
+        error={errorMessage}
+        actions={<ReceiptFormatToggle value={format} onChange={setFormat} />}
+      >
+        {receipt && (
+          <div className="space-y-8 text-sm">
+            <dl className="grid grid-cols-2 gap-x-4 gap-y-2 sm:w-2/3">
+              <dt className="text-slate-500">Date</dt>
+              <dd className="text-right font-medium">{new Date(receipt.createdAt).toLocaleString()}</dd>
+              <dt className="text-slate-500">Customer</dt>
+              <dd className="text-right font-medium">{receipt.customerName ?? "Walk-in"}</dd>
+              {sale.customer_phone && (
+                <>
+                  <dt className="text-slate-500">Phone</dt>
+                  <dd className="text-right font-medium">{sale.customer_phone}</dd>
+                </>
+              )}
+              <dt className="text-slate-500">Prescription</dt>
+              <dd className="text-right font-medium">{receipt.prescriptionNumber ?? "—"}</dd>
+              <dt className="text-slate-500">Served by</dt>
+              <dd className="text-right font-medium">{receipt.servedBy ?? "—"}</dd>
+              {receipt.payments.map((payment, index) => (
+                <Fragment key={index}>
+                  <dt className="text-slate-500">Paid by {paymentMethodLabel(payment.method)}</dt>
+                  <dd className="text-right font-medium">
+                    {formatKes(payment.tendered ?? payment.amount)}
+                    {payment.reference && <span className="block text-xs text-slate-500">{payment.reference}</span>}
+                  </dd>
+                </Fragment>
+              ))}
+              {tenderChange(receipt.payments) > 0 && (
+                <>
+                  <dt className="text-slate-500">Change</dt>
+                  <dd className="text-right font-medium">{formatKes(tenderChange(receipt.payments))}</dd>
+                </>
+              )}
+            </dl>
+
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b-2 border-slate-800 text-left text-xs uppercase tracking-wide">
+                  <th className="py-2 pr-2">#</th>
+                  <th className="py-2 pr-2">Item</th>
+                  <th className="py-2 pr-2 text-right">Quantity</th>
+                  <th className="py-2 pr-2 text-right">Unit price</th>
+                  <th className="py-2 pr-2 text-right">Discount</th>
+                  <th className="py-2 text-right">Amount (KES)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {receipt.items.map((item, index) => (
+                  <tr key={index} className="border-b border-slate-200">
+                    <td className="py-2 pr-2">{index + 1}</td>
+                    <td className="py-2 pr-2">{item.name}</td>
+                    <td className="py-2 pr-2 text-right">{item.quantity}</td>
+                    <td className="py-2 pr-2 text-right">{formatKes(item.unitPrice)}</td>
+                    <td className="py-2 pr-2 text-right">{item.discount > 0 ? formatKes(item.discount) : "—"}</td>
+                    <td className="py-2 text-right">{formatKes(item.total)}</td>
+                  </tr>
+                ))}
+              </tbody>
+              <tfoot>
+                {receipt.discount > 0 && (
+                  <>
+                    <tr>
+                      <td colSpan={5} className="pt-3 pr-2 text-right text-slate-500">
+                        Subtotal
+                      </td>
+                      <td className="pt-3 text-right">{formatKes(receipt.subtotal)}</td>
+                    </tr>
+                    <tr>
+                      <td colSpan={5} className="pr-2 text-right text-slate-500">
+                        Discount
+                      </td>
+                      <td className="text-right">−{formatKes(receipt.discount)}</td>
+                    </tr>
+                  </>
+                )}
+                <tr className="text-base font-semibold">
+                  <td colSpan={5} className="py-3 pr-2 text-right">
+                    Total
+                  </td>
+                  <td className="py-3 text-right">{formatKes(receipt.total)}</td>
+                </tr>
+              </tfoot>
+            </table>
+
+            {receipt.pharmacy.footer && <p className="whitespace-pre-line text-slate-600">{receipt.pharmacy.footer}</p>}
+          </div>
+        )}
+      </PrintLayout>
+    );
+  }
+
+  return (
+    <ThermalReceipt
+      receipt={receipt}
+      width={Number(format) as ReceiptWidth}
+      loading={loading}
+      error={errorMessage}
+      onBack={() => navigate(-1)}
+      formatToggle={<ReceiptFormatToggle value={format} onChange={setFormat} />}
+    />
+  );
+};
+
+interface ThermalReceiptProps {
+  receipt: Receipt | null;
+  width: ReceiptWidth;
+  loading: boolean;
+  error: string | null;
+  onBack: () => void;
+  formatToggle: React.ReactNode;
+}
+
+// Sized in millimetres so a browser print to the roll printer matches the
+// printer's own column count; the ESC/POS download is for printers driven
+// directly (e.g. a raw print queue on the till).
+const ThermalReceipt = ({ receipt, width, loading, error, onBack, formatToggle }: ThermalReceiptProps) => {
+  const printableWidth = RECEIPT_COLUMNS[width] * RECEIPT_CHAR_WIDTH_MM;
+
+  const handleDownload = () => {
+    const url = URL.createObjectURL(new Blob([escPosReceipt(receipt, width)], { type: "application/octet-stream" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${receipt.saleNumber}-${width}mm.bin`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen px-4 py-8 print:p-0">
+      <style>{`@media print { @page { size: ${width}mm auto; margin: 0; } }`}</style>
+      <div className="mx-auto mb-6 flex max-w-[210mm] flex-wrap items-center justify-between gap-3 print:hidden">
+        <Button variant="ghost" onClick={onBack} className="text-white/70 hover:bg-white/10 hover:text-white">
+          <ArrowLeft className="mr-2 h-4 w-4" /> Back
+        </Button>
+        <div className="flex items-center gap-3">
+          {formatToggle}
+          <Button
+            variant="outline"
+            onClick={handleDownload}
+            disabled={!receipt}
+            className="border-white/20 bg-transparent text-white hover:bg-white/10"
+          >
+            <Download className="mr-2 h-4 w-4" /> ESC/POS
+          </Button>
+          <Button onClick={() => window.print()} disabled={loading || Boolean(error)} className="frosted-button">
+            <Printer className="mr-2 h-4 w-4" /> Print
+          </Button>
+        </div>
+      </div>
+
+      <div
+        className="mx-auto bg-white text-black shadow-2xl print:shadow-none"
+        style={{ width: `${width}mm`, padding: `4mm ${(width - printableWidth) / 2}mm` }}
+      >
+        {loading ? (
+          <div className="flex items-center justify-center gap-2 py-12 text-slate-500">
+            <Loader2 className="h-5 w-5 animate-spin" />
+          </div>
+        ) : error ? (
+          <p className="py-12 text-center text-sm text-red-600">{error}</p>
+        ) : (
+          receipt && (
+            // Monospace glyphs are about 0.6em wide
+            <pre className="whitespace-pre font-mono leading-snug" style={{ fontSize: `${RECEIPT_CHAR_WIDTH_MM / 0.6}mm` }}>
+              {receiptLines(receipt, width).join("\n")}
+            </pre>
+          )
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SaleReceipt;
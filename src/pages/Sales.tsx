@@ -1,14 +1,28 @@
-import { useMemo, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import DashboardLayout from "@/components/DashboardLayout";
+import ReturnSaleDialog from "@/components/ReturnSaleDialog";
+import VoidSaleDialog, { VoidableSale } from "@/components/VoidSaleDialog";
+import DiscountDialog from "@/components/DiscountDialog";
+import TenderPanel from "@/components/TenderPanel";
+import ParkedBasketsDialog from "@/components/ParkedBasketsDialog";
+import BarcodeScanDialog from "@/components/BarcodeScanDialog";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Table,
   TableBody,
@@ -34,13 +48,51 @@ import {
 } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Loader2, ReceiptText, ShoppingCart, Trash2 } from "lucide-react";
+import {
+  BadgePercent,
+  Ban,
+  Camera,
+  Loader2,
+  PauseCircle,
+  Printer,
+  ReceiptText,
+  ScanBarcode,
+  ShieldCheck,
+  ShoppingCart,
+  Trash2,
+  Undo2,
+  X,
+} from "lucide-react";
+import { expiredQuantity, sellableQuantity } from "@/lib/stock";
+import { withSupervisorSession } from "@/lib/supervisor";
+import { useActingUser, useTill } from "@/hooks/use-till";
+import { useOpenShift } from "@/hooks/use-cash-shift";
+import { usePharmacySettings } from "@/hooks/use-pharmacy-settings";
+import { useParkedBaskets } from "@/hooks/use-parked-baskets";
+import { useBarcodeScanner } from "@/hooks/use-barcode-scanner";
+import { MANAGER_ROLES, hasRole } from "@/lib/roles";
+import { Tender, paymentMethodLabel, tenderedTotal } from "@/lib/payments";
+import {
+  BASKET_DISCOUNT_TYPES,
+  BasketDiscountType,
+  Discount,
+  LINE_DISCOUNT_TYPES,
+  basketTotals,
+  effectiveDiscountPercents,
+  lineDiscountAmount,
+  maxDiscountPercent,
+} from "@/lib/discounts";
+import { ParkedBasket, ParkedDetails, ParkedItem } from "@/lib/parked-baskets";
+import { parseGs1, sameGtin } from "@/lib/gs1";
 
 type MedicineOption = {
   id: string;
   name: string;
+  barcode: string | null;
   selling_price: number;
+  requires_prescription: boolean | null;
   quantity: number;
+  expired_quantity: number;
 };
 
 type PrescriptionOption = {
@@ -49,20 +101,35 @@ type PrescriptionOption = {
   patient_name: string;
 };
 
+type PrescriptionOverride = {
+  id: string;
+  reason: string;
+};
+
 type SaleItemInput = {
   medicineId: string;
   name: string;
   quantity: number;
   unitPrice: number;
+  requiresPrescription: boolean;
+  override?: PrescriptionOverride;
+  discount?: Discount;
+};
+
+type PendingOverride = {
+  medicine: MedicineOption;
+  quantity: number;
 };
 
 type SaleHistoryEntry = {
   id: string;
   sale_number: string | null;
   total_amount: number;
-  payment_method: string;
   customer_name: string | null;
   created_at: string | null;
+  status: string;
+  shift_id: string | null;
+  void_reason: string | null;
   sale_items: {
     id: string;
     quantity: number;
@@ -71,6 +138,15 @@ type SaleHistoryEntry = {
       name: string;
     } | null;
   }[];
+  sale_returns: {
+    id: string;
+    return_number: string;
+  }[];
+  sale_payments: {
+    id: string;
+    method: string;
+    amount: number;
+  }[];
 };
 
 const saleFormSchema = z.object({
@@ -80,22 +156,28 @@ const saleFormSchema = z.object({
     .regex(/^\+?[0-9\s-]*$/, "Invalid phone number")
     .optional()
     .or(z.literal("")),
-  paymentMethod: z.enum(["cash", "mpesa", "card", "insurance"]),
   prescriptionId: z.string().optional().or(z.literal("")),
 });
 
 type SaleFormValues = z.infer<typeof saleFormSchema>;
 
+// quantity is what checkout can sell: stock in batches that are neither expired nor quarantined
 const fetchMedicines = async (): Promise<MedicineOption[]> => {
   const { data, error } = await supabase
     .from("medicines")
-    .select("id, name, selling_price, quantity")
+    .select("id, name, barcode, selling_price, requires_prescription, medicine_batches ( quantity, expiry_date, status )")
     .order("name");
 
   if (error) throw error;
-  return data || [];
+  return (data || []).map(({ medicine_batches, ...medicine }) => ({
+    ...medicine,
+    quantity: sellableQuantity(medicine_batches ?? []),
+    expired_quantity: expiredQuantity(medicine_batches ?? []),
+  }));
 };
 
+const NO_PRESCRIPTION = "none";
+
 const fetchPrescriptions = async (): Promise<PrescriptionOption[]> => {
   const { data, error } = await supabase
     .from("prescriptions")
@@ -111,8 +193,9 @@ const fetchSalesHistory = async (): Promise<SaleHistoryEntry[]> => {
   const { data, error } = await supabase
     .from("sales")
     .select(
-      `id, sale_number, total_amount, payment_method, customer_name, created_at,
-      sale_items ( id, quantity, total_price, medicines ( name ) )`
+      `id, sale_number, total_amount, customer_name, created_at, status, shift_id, void_reason,
+      sale_items ( id, quantity, total_price, medicines ( name ) ), sale_returns ( id, return_number ),
+      sale_payments ( id, method, amount )`
     )
     .order("created_at", { ascending: false })
     .limit(10);
@@ -122,15 +205,21 @@ const fetchSalesHistory = async (): Promise<SaleHistoryEntry[]> => {
   return (data as SaleHistoryEntry[]) || [];
 };
 
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
 const Sales = () => {
   const queryClient = useQueryClient();
+  const { session: tillSession } = useTill();
+  const actingUser = useActingUser();
+  const { data: openShift, isLoading: loadingShift } = useOpenShift();
+  const { data: settings } = usePharmacySettings();
 
   const form = useForm<SaleFormValues>({
     resolver: zodResolver(saleFormSchema),
     defaultValues: {
       customerName: "",
       customerPhone: "",
-      paymentMethod: "cash",
       prescriptionId: "",
     },
   });
@@ -138,6 +227,24 @@ const Sales = () => {
   const [saleItems, setSaleItems] = useState<SaleItemInput[]>([]);
   const [selectedMedicineId, setSelectedMedicineId] = useState("");
   const [itemQuantity, setItemQuantity] = useState(1);
+  const [pendingOverride, setPendingOverride] = useState<PendingOverride | null>(null);
+  const [lastSaleNumber, setLastSaleNumber] = useState<string | null>(null);
+  const [returnSaleId, setReturnSaleId] = useState<string | null>(null);
+  const [voidingSale, setVoidingSale] = useState<VoidableSale | null>(null);
+  const [discountingItemId, setDiscountingItemId] = useState<string | null>(null);
+  const [basketDiscountOpen, setBasketDiscountOpen] = useState(false);
+  const [basketDiscount, setBasketDiscount] = useState<Discount<BasketDiscountType> | null>(null);
+  const [discountReason, setDiscountReason] = useState("");
+  const [tenders, setTenders] = useState<Tender[]>([]);
+  // The label suggested when parking; null while the park dialog is closed
+  const [parkLabel, setParkLabel] = useState<string | null>(null);
+  const [parkedOpen, setParkedOpen] = useState(false);
+  // The parked basket being served, if it was picked up from the parked list
+  const [recalledBasketId, setRecalledBasketId] = useState<string | null>(null);
+  const [scanCode, setScanCode] = useState("");
+  const [cameraOpen, setCameraOpen] = useState(false);
+
+  const prescriptionId = form.watch("prescriptionId");
 
   const {
     data: medicines = [],
@@ -163,15 +270,17 @@ const Sales = () => {
     error: salesErrorDetails,
   } = useQuery({ queryKey: ["sales"], queryFn: fetchSalesHistory });
 
+  const { data: parkedBaskets = [] } = useParkedBaskets();
+  const waitingBaskets = parkedBaskets.filter((basket) => !basket.claimed_at);
+
   const selectedMedicine = useMemo(
     () => medicines.find((medicine) => medicine.id === selectedMedicineId) || null,
     [medicines, selectedMedicineId],
   );
 
-  const totalAmount = useMemo(
-    () => saleItems.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0),
-    [saleItems],
-  );
+  const totals = useMemo(() => basketTotals(saleItems, basketDiscount), [saleItems, basketDiscount]);
+  const hasDiscount = totals.lineDiscounts + totals.basketDiscount > 0;
+  const discountingItem = saleItems.find((item) => item.medicineId === discountingItemId) ?? null;
 
   const formatDataError = (error: unknown, fallback: string) => {
     if (!error) return fallback;
@@ -188,36 +297,21 @@ const Sales = () => {
     salesError ? formatDataError(salesErrorDetails, "Sales history failed to load.") : null,
   ].filter(Boolean) as string[];
 
-  const handleAddItem = () => {
-    if (!selectedMedicine) {
-      toast.error("Select a medicine to add");
-      return;
-    }
-
-    if (itemQuantity <= 0) {
-      toast.error("Quantity must be at least 1");
-      return;
-    }
-
-    if (itemQuantity > selectedMedicine.quantity) {
-      toast.error("Quantity exceeds available stock");
-      return;
-    }
-
+  const addToBasket = (medicine: MedicineOption, quantity: number, override?: PrescriptionOverride) => {
     setSaleItems((prev) => {
-      const existing = prev.find((item) => item.medicineId === selectedMedicine.id);
+      const existing = prev.find((item) => item.medicineId === medicine.id);
 
       if (existing) {
-        const newQuantity = existing.quantity + itemQuantity;
+        const newQuantity = existing.quantity + quantity;
 
-        if (newQuantity > selectedMedicine.quantity) {
+        if (newQuantity > medicine.quantity) {
           toast.error("Total quantity exceeds available stock");
           return prev;
         }
 
         return prev.map((item) =>
-          item.medicineId === selectedMedicine.id
-            ? { ...item, quantity: newQuantity }
+          item.medicineId === medicine.id
+            ? { ...item, quantity: newQuantity, override: override ?? item.override }
             : item,
         );
       }
@@ -225,10 +319,12 @@ const Sales = () => {
       return [
         ...prev,
         {
-          medicineId: selectedMedicine.id,
-          name: selectedMedicine.name,
-          quantity: itemQuantity,
-          unitPrice: selectedMedicine.selling_price,
+          medicineId: medicine.id,
+          name: medicine.name,
+          quantity,
+          unitPrice: medicine.selling_price,
+          requiresPrescription: Boolean(medicine.requires_prescription),
+          override,
         },
       ];
     });
@@ -237,78 +333,256 @@ const Sales = () => {
     setItemQuantity(1);
   };
 
+  const addMedicine = (medicine: MedicineOption, quantity: number) => {
+    if (quantity <= 0) {
+      toast.error("Quantity must be at least 1");
+      return;
+    }
+
+    if (medicine.quantity === 0 && medicine.expired_quantity > 0) {
+      toast.error(`${medicine.name} has expired and cannot be sold`);
+      return;
+    }
+
+    if (quantity > medicine.quantity) {
+      toast.error(
+        medicine.expired_quantity > 0
+          ? `Only ${medicine.quantity} in date; expired stock cannot be sold`
+          : "Quantity exceeds available stock",
+      );
+      return;
+    }
+
+    const hasOverride = saleItems.some((item) => item.medicineId === medicine.id && item.override);
+    if (medicine.requires_prescription && !prescriptionId && !hasOverride) {
+      setPendingOverride({ medicine, quantity });
+      return;
+    }
+
+    addToBasket(medicine, quantity);
+  };
+
+  const handleAddItem = () => {
+    if (!selectedMedicine) {
+      toast.error("Select a medicine to add");
+      return;
+    }
+
+    addMedicine(selectedMedicine, itemQuantity);
+  };
+
+  // Each scan adds one pack; scan again for another
+  const handleScan = (code: string) => {
+    const { gtin } = parseGs1(code);
+    if (!gtin) {
+      toast.error(`"${code.trim()}" isn't a product barcode`);
+      return;
+    }
+
+    const medicine = medicines.find((option) => option.barcode && sameGtin(option.barcode, gtin));
+    if (!medicine) {
+      toast.error(`No medicine has the barcode ${gtin}`);
+      return;
+    }
+
+    addMedicine(medicine, 1);
+  };
+
+  useBarcodeScanner(handleScan, !loadingMedicines);
+
   const handleRemoveItem = (medicineId: string) => {
     setSaleItems((prev) => prev.filter((item) => item.medicineId !== medicineId));
   };
 
-  const saleMutation = useMutation({
-    mutationFn: async ({ formValues, items }: { formValues: SaleFormValues; items: SaleItemInput[] }) => {
-      if (!items.length) {
-        throw new Error("Add at least one medicine to the sale");
-      }
-
-      const { data: userData, error: userError } = await supabase.auth.getUser();
-      if (userError) throw userError;
+  const handleLineDiscount = (medicineId: string, discount: Discount | null) => {
+    setSaleItems((prev) =>
+      prev.map((item) => (item.medicineId === medicineId ? { ...item, discount: discount ?? undefined } : item)),
+    );
+  };
 
-      const total = items.reduce((sum, item) => sum + item.quantity * item.unitPrice, 0);
+  const clearBasket = () => {
+    form.reset({
+      customerName: "",
+      customerPhone: "",
+      prescriptionId: "",
+    });
+    setSaleItems([]);
+    setBasketDiscount(null);
+    setDiscountReason("");
+    setTenders([]);
+    setRecalledBasketId(null);
+  };
 
-      const { data: sale, error: saleError } = await supabase
-        .from("sales")
-        .insert({
-          customer_name: formValues.customerName?.trim() || null,
-          customer_phone: formValues.customerPhone?.trim() || null,
-          payment_method: formValues.paymentMethod,
-          prescription_id: formValues.prescriptionId ? formValues.prescriptionId : null,
-          total_amount: total,
-          served_by: userData?.user?.id ?? null,
-        })
-        .select("id")
-        .single();
-
-      if (saleError) throw saleError;
-
-      const saleItemsPayload = items.map((item) => ({
-        sale_id: sale.id,
+  const parkMutation = useMutation({
+    mutationFn: async (label: string) => {
+      const values = form.getValues();
+      const items: ParkedItem[] = saleItems.map((item) => ({
         medicine_id: item.medicineId,
+        name: item.name,
         quantity: item.quantity,
         unit_price: item.unitPrice,
-        total_price: item.quantity * item.unitPrice,
+        requires_prescription: item.requiresPrescription,
+        override_id: item.override?.id ?? null,
+        override_reason: item.override?.reason ?? null,
+        discount_type: item.discount?.type ?? null,
+        discount_value: item.discount?.value ?? null,
       }));
+      const details: ParkedDetails = {
+        customer_name: values.customerName?.trim() || null,
+        customer_phone: values.customerPhone?.trim() || null,
+        prescription_id: values.prescriptionId || null,
+        discount_type: basketDiscount?.type ?? null,
+        discount_value: basketDiscount?.value ?? null,
+        discount_reason: discountReason.trim() || null,
+      };
 
-      const { error: saleItemsError } = await supabase.from("sale_items").insert(saleItemsPayload);
-      if (saleItemsError) throw saleItemsError;
+      const { error } = await supabase.rpc("park_basket", {
+        p_label: label,
+        p_items: items,
+        p_details: details,
+        p_total: totals.total,
+        p_till_session_id: tillSession?.id ?? null,
+        p_replaces: recalledBasketId,
+      });
 
-      for (const item of items) {
-        const { data: medicineRecord, error: fetchError } = await supabase
-          .from("medicines")
-          .select("quantity")
-          .eq("id", item.medicineId)
-          .single();
+      if (error) throw error;
+    },
+    onSuccess: (_, label) => {
+      toast.success(`Parked "${label}"`);
+      setParkLabel(null);
+      clearBasket();
+      setLastSaleNumber(null);
+      queryClient.invalidateQueries({ queryKey: ["parked-baskets"] });
+    },
+    onError: (error) => {
+      console.error("Failed to park basket", error);
+      toast.error(error instanceof Error ? error.message : "Failed to park basket");
+    },
+  });
 
-        if (fetchError) throw fetchError;
+  const handlePark = () => {
+    if (saleItems.length === 0) {
+      toast.error("Add at least one medicine before parking the basket");
+      return;
+    }
 
-        const nextQuantity = Math.max(0, (medicineRecord?.quantity ?? 0) - item.quantity);
-        const { error: updateError } = await supabase
-          .from("medicines")
-          .update({ quantity: nextQuantity })
-          .eq("id", item.medicineId);
+    // Money taken belongs to a sale; parking would leave it unaccounted for
+    if (tenders.length > 0) {
+      toast.error("Remove the payments taken before parking the basket");
+      return;
+    }
 
-        if (updateError) throw updateError;
+    setParkLabel(form.getValues("customerName")?.trim() || `Basket ${waitingBaskets.length + 1}`);
+  };
+
+  // Lines are priced from the catalogue as it is now, not as it was parked
+  const handleRecall = (basket: ParkedBasket) => {
+    const recalled: SaleItemInput[] = [];
+    const missing: string[] = [];
+    const short: string[] = [];
+
+    basket.items.forEach((item) => {
+      const medicine = medicines.find((option) => option.id === item.medicine_id);
+      if (!medicine) {
+        missing.push(item.name);
+        return;
       }
 
-      return sale.id;
-    },
-    onSuccess: () => {
-      toast.success("Sale recorded successfully");
-      form.reset({
-        customerName: "",
-        customerPhone: "",
-        paymentMethod: "cash",
-        prescriptionId: "",
+      if (item.quantity > medicine.quantity) short.push(medicine.name);
+
+      recalled.push({
+        medicineId: medicine.id,
+        name: medicine.name,
+        quantity: item.quantity,
+        unitPrice: medicine.selling_price,
+        requiresPrescription: Boolean(medicine.requires_prescription),
+        override: item.override_id ? { id: item.override_id, reason: item.override_reason ?? "" } : undefined,
+        discount:
+          item.discount_type && item.discount_value !== null
+            ? { type: item.discount_type, value: Number(item.discount_value) }
+            : undefined,
+      });
+    });
+
+    const { details } = basket;
+    form.reset({
+      customerName: details.customer_name ?? "",
+      customerPhone: details.customer_phone ?? "",
+      prescriptionId: details.prescription_id ?? "",
+    });
+    setSaleItems(recalled);
+    setBasketDiscount(
+      details.discount_type && details.discount_value != null
+        ? { type: details.discount_type, value: Number(details.discount_value) }
+        : null,
+    );
+    setDiscountReason(details.discount_reason ?? "");
+    setTenders([]);
+    setLastSaleNumber(null);
+    setRecalledBasketId(basket.id);
+
+    toast.success(`Picked up "${basket.label}"`);
+    if (missing.length) {
+      toast.error(`No longer in the catalogue and left out: ${missing.join(", ")}`);
+    }
+    if (short.length) {
+      toast.warning(`Not enough stock now for ${short.join(", ")}. Adjust the quantity before completing the sale.`);
+    }
+  };
+
+  const saleMutation = useMutation({
+    mutationFn: async ({
+      formValues,
+      items,
+      payments,
+    }: {
+      formValues: SaleFormValues;
+      items: SaleItemInput[];
+      payments: Tender[];
+    }) => {
+      if (!items.length) {
+        throw new Error("Add at least one medicine to the sale");
+      }
+
+      const { data: saleNumber, error } = await supabase.rpc("record_sale", {
+        items: items.map((item) => ({
+          medicine_id: item.medicineId,
+          quantity: item.quantity,
+          override_id: item.override?.id ?? null,
+          discount_type: item.discount?.type ?? null,
+          discount_value: item.discount?.value ?? null,
+        })),
+        payment: {
+          tenders: payments.map((tender) => ({
+            method: tender.method,
+            amount: tender.amount,
+            tendered: tender.tendered,
+            reference: tender.reference,
+            mpesa_payment_id: tender.mpesaPaymentId ?? null,
+          })),
+          discount_type: basketDiscount?.type ?? null,
+          discount_value: basketDiscount?.value ?? null,
+          discount_reason: discountReason.trim() || null,
+          customer_name: formValues.customerName?.trim() || null,
+          customer_phone: formValues.customerPhone?.trim() || null,
+          prescription_id: formValues.prescriptionId || null,
+          till_session_id: tillSession?.id ?? null,
+          parked_basket_id: recalledBasketId,
+        },
       });
-      setSaleItems([]);
+
+      if (error) throw error;
+      return saleNumber;
+    },
+    onSuccess: (saleNumber) => {
+      toast.success(saleNumber ? `Sale ${saleNumber} recorded` : "Sale recorded successfully");
+      clearBasket();
+      setLastSaleNumber(saleNumber ?? null);
       queryClient.invalidateQueries({ queryKey: ["medicines"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory", "medicines"] });
       queryClient.invalidateQueries({ queryKey: ["sales"] });
+      queryClient.invalidateQueries({ queryKey: ["cash-shifts"] });
+      queryClient.invalidateQueries({ queryKey: ["parked-baskets"] });
     },
     onError: (error) => {
       console.error("Failed to record sale", error);
@@ -322,7 +596,43 @@ const Sales = () => {
       return;
     }
 
-    saleMutation.mutate({ formValues: values, items: saleItems });
+    const unauthorised = saleItems.find((item) => item.requiresPrescription && !item.override);
+    if (unauthorised && !values.prescriptionId) {
+      toast.error(`${unauthorised.name} requires a prescription. Link one or remove the item.`);
+      return;
+    }
+
+    if (hasDiscount) {
+      if (totals.total < 0) {
+        toast.error("The basket discount is more than the sale total");
+        return;
+      }
+
+      if (discountReason.trim().length < 5) {
+        toast.error("Give a reason for the discount");
+        return;
+      }
+
+      const limit = maxDiscountPercent(actingUser?.role, settings);
+      const percents = effectiveDiscountPercents(saleItems, basketDiscount);
+      const overLimit = saleItems.find((_, index) => percents[index] > limit + 0.005);
+      if (overLimit) {
+        toast.error(`The discount on ${overLimit.name} is more than your limit of ${limit}%`);
+        return;
+      }
+    }
+
+    const outstanding = Math.round((totals.total - tenderedTotal(tenders)) * 100) / 100;
+    if (outstanding !== 0) {
+      toast.error(
+        outstanding > 0
+          ? `KES ${formatKes(outstanding)} is still to be paid`
+          : `Payments are KES ${formatKes(-outstanding)} more than the total. Remove one and try again.`,
+      );
+      return;
+    }
+
+    saleMutation.mutate({ formValues: values, items: saleItems, payments: tenders });
   };
 
   return (
@@ -351,6 +661,42 @@ const Sales = () => {
           </div>
         )}
 
+        {!loadingShift && !openShift && (
+          <Alert className="border-warning/40 bg-warning/10">
+            <AlertTitle>No cash shift open</AlertTitle>
+            <AlertDescription>
+              Sales can't be recorded until the drawer is opened with a float.{" "}
+              <Link to="/shifts" className="font-medium text-primary hover:underline">
+                Open a shift
+              </Link>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {lastSaleNumber && (
+          <div className="flex flex-col gap-3 rounded-2xl border border-success/30 bg-success/10 p-4 sm:flex-row sm:items-center sm:justify-between">
+            <p className="font-medium text-white">
+              Sale <span className="font-mono">{lastSaleNumber}</span> recorded. Print the customer's receipt.
+            </p>
+            <div className="flex items-center gap-2">
+              <Button asChild className="frosted-button">
+                <Link to={`/sales/${lastSaleNumber}/receipt`}>
+                  <Printer className="mr-2 h-4 w-4" /> Print receipt
+                </Link>
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => setLastSaleNumber(null)}
+                className="text-white/70 hover:bg-white/10 hover:text-white"
+                aria-label="Dismiss"
+              >
+                <X className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+
         <div className="grid gap-6 lg:grid-cols-[1.6fr,1fr] fade-grid">
           <Card className="glass-panel border-primary/30">
             <CardHeader className="space-y-1">
@@ -362,6 +708,19 @@ const Sales = () => {
                   <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Create New Sale</span>
                   <span className="text-lg font-semibold">Dispensing Workflow</span>
                 </div>
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setParkedOpen(true)}
+                  className="ml-auto border-white/20 bg-transparent text-white hover:bg-white/10"
+                >
+                  <PauseCircle className="mr-2 h-4 w-4" /> Parked
+                  {waitingBaskets.length > 0 && (
+                    <Badge variant="secondary" className="ml-2 bg-primary/20 text-primary">
+                      {waitingBaskets.length}
+                    </Badge>
+                  )}
+                </Button>
               </CardTitle>
             </CardHeader>
             <CardContent>
@@ -394,38 +753,15 @@ const Sales = () => {
                         </FormItem>
                       )}
                     />
-                    <FormField
-                      control={form.control}
-                      name="paymentMethod"
-                      render={({ field }) => (
-                        <FormItem className="md:col-span-6">
-                          <FormLabel>Payment Method</FormLabel>
-                          <Select onValueChange={field.onChange} value={field.value}>
-                            <FormControl>
-                              <SelectTrigger className="glass-panel border-primary/10">
-                                <SelectValue placeholder="Select payment method" />
-                              </SelectTrigger>
-                            </FormControl>
-                            <SelectContent>
-                              <SelectItem value="cash">Cash</SelectItem>
-                              <SelectItem value="mpesa">M-Pesa</SelectItem>
-                              <SelectItem value="card">Card</SelectItem>
-                              <SelectItem value="insurance">Insurance</SelectItem>
-                            </SelectContent>
-                          </Select>
-                          <FormMessage />
-                        </FormItem>
-                      )}
-                    />
                     <FormField
                       control={form.control}
                       name="prescriptionId"
                       render={({ field }) => (
-                        <FormItem className="md:col-span-6">
+                        <FormItem className="md:col-span-12">
                           <FormLabel>Prescription</FormLabel>
                           <Select
-                            onValueChange={field.onChange}
-                            value={field.value ?? ""}
+                            onValueChange={(value) => field.onChange(value === NO_PRESCRIPTION ? "" : value)}
+                            value={field.value || NO_PRESCRIPTION}
                             disabled={loadingPrescriptions}
                           >
                             <FormControl>
@@ -434,7 +770,7 @@ const Sales = () => {
                               </SelectTrigger>
                             </FormControl>
                             <SelectContent>
-                              <SelectItem value="">No prescription</SelectItem>
+                              <SelectItem value={NO_PRESCRIPTION}>No prescription</SelectItem>
                               {prescriptions.map((prescription) => (
                                 <SelectItem key={prescription.id} value={prescription.id}>
                                   {prescription.prescription_number} — {prescription.patient_name}
@@ -449,6 +785,35 @@ const Sales = () => {
                   </div>
 
                   <div className="space-y-4">
+                    <div className="flex gap-2">
+                      <div className="relative flex-1">
+                        <ScanBarcode className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+                        <Input
+                          value={scanCode}
+                          onChange={(event) => setScanCode(event.target.value)}
+                          onKeyDown={(event) => {
+                            if (event.key !== "Enter") return;
+                            event.preventDefault();
+                            if (scanCode.trim()) handleScan(scanCode);
+                            setScanCode("");
+                          }}
+                          placeholder="Scan or type a barcode and press Enter"
+                          disabled={loadingMedicines}
+                          className="glass-panel border-primary/10 pl-9"
+                        />
+                      </div>
+                      <Button
+                        type="button"
+                        variant="outline"
+                        onClick={() => setCameraOpen(true)}
+                        disabled={loadingMedicines}
+                        className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                        title="Scan with camera"
+                      >
+                        <Camera className="h-4 w-4" />
+                      </Button>
+                    </div>
+
                     <div className="grid gap-4 md:grid-cols-12">
                       <div className="space-y-2 md:col-span-6">
                         <label className="text-sm font-medium text-white/80">Medicine</label>
@@ -464,6 +829,7 @@ const Sales = () => {
                             {medicines.map((medicine) => (
                               <SelectItem key={medicine.id} value={medicine.id}>
                                 {medicine.name} • {medicine.quantity} in stock
+                                {medicine.requires_prescription ? " • Rx" : ""}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -500,6 +866,10 @@ const Sales = () => {
                     {selectedMedicine && (
                       <p className="text-sm text-muted-foreground">
                         Selling price: KES {selectedMedicine.selling_price.toLocaleString()} • Available: {selectedMedicine.quantity}
+                        {selectedMedicine.expired_quantity > 0 && (
+                          <span className="text-destructive"> • {selectedMedicine.expired_quantity} expired</span>
+                        )}
+                        {selectedMedicine.requires_prescription && " • Prescription only"}
                       </p>
                     )}
 
@@ -510,57 +880,141 @@ const Sales = () => {
                             <TableHead>Medicine</TableHead>
                             <TableHead className="text-right">Quantity</TableHead>
                             <TableHead className="text-right">Unit Price</TableHead>
+                            <TableHead className="text-right">Discount</TableHead>
                             <TableHead className="text-right">Total</TableHead>
-                            <TableHead className="w-[80px]" />
+                            <TableHead className="w-[100px]" />
                           </TableRow>
                         </TableHeader>
                         <TableBody>
                           {saleItems.length === 0 ? (
                             <TableRow>
-                              <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                              <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
                                 No items added yet
                               </TableCell>
                             </TableRow>
                           ) : (
-                            saleItems.map((item) => (
-                              <TableRow key={item.medicineId}>
-                                <TableCell className="font-medium">{item.name}</TableCell>
-                                <TableCell className="text-right">{item.quantity}</TableCell>
-                                <TableCell className="text-right">KES {item.unitPrice.toLocaleString()}</TableCell>
-                                <TableCell className="text-right font-semibold">
-                                  KES {(item.quantity * item.unitPrice).toLocaleString()}
-                                </TableCell>
-                                <TableCell className="text-right">
-                                  <Button
-                                    type="button"
-                                    variant="ghost"
-                                    size="icon"
-                                    onClick={() => handleRemoveItem(item.medicineId)}
-                                    className="text-destructive/80 hover:text-destructive"
-                                  >
-                                    <Trash2 className="h-4 w-4" />
-                                  </Button>
-                                </TableCell>
-                              </TableRow>
-                            ))
+                            saleItems.map((item) => {
+                              const discount = lineDiscountAmount(item);
+
+                              return (
+                                <TableRow key={item.medicineId}>
+                                  <TableCell className="font-medium">
+                                    <div className="flex flex-wrap items-center gap-2">
+                                      {item.name}
+                                      {item.requiresPrescription && (
+                                        <Badge
+                                          variant="outline"
+                                          title={item.override?.reason}
+                                          className={item.override ? "border-warning/60 text-warning" : "border-primary/40 text-primary"}
+                                        >
+                                          {item.override ? "Rx override" : "Rx"}
+                                        </Badge>
+                                      )}
+                                    </div>
+                                  </TableCell>
+                                  <TableCell className="text-right">{item.quantity}</TableCell>
+                                  <TableCell className="text-right">KES {item.unitPrice.toLocaleString()}</TableCell>
+                                  <TableCell className="text-right text-warning">
+                                    {discount > 0 ? `−${formatKes(discount)}` : "—"}
+                                  </TableCell>
+                                  <TableCell className="text-right font-semibold">
+                                    KES {(item.quantity * item.unitPrice - discount).toLocaleString()}
+                                  </TableCell>
+                                  <TableCell className="whitespace-nowrap text-right">
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() => setDiscountingItemId(item.medicineId)}
+                                      className="text-white/70 hover:bg-white/10 hover:text-white"
+                                      title="Discount or override price"
+                                    >
+                                      <BadgePercent className="h-4 w-4" />
+                                    </Button>
+                                    <Button
+                                      type="button"
+                                      variant="ghost"
+                                      size="icon"
+                                      onClick={() => handleRemoveItem(item.medicineId)}
+                                      className="text-destructive/80 hover:text-destructive"
+                                    >
+                                      <Trash2 className="h-4 w-4" />
+                                    </Button>
+                                  </TableCell>
+                                </TableRow>
+                              );
+                            })
                           )}
                         </TableBody>
                       </Table>
                     </div>
 
+                    {hasDiscount && (
+                      <div className="space-y-2">
+                        <label className="text-sm font-medium text-white/80">Discount reason</label>
+                        <Input
+                          placeholder="e.g. Loyal customer, price matched with neighbouring pharmacy"
+                          value={discountReason}
+                          onChange={(event) => setDiscountReason(event.target.value)}
+                          className="glass-panel border-primary/10"
+                        />
+                      </div>
+                    )}
+
+                    <TenderPanel
+                      total={totals.total}
+                      tenders={tenders}
+                      onChange={setTenders}
+                      customerPhone={form.watch("customerPhone")}
+                    />
+
                     <div className="flex flex-col gap-3 rounded-2xl border border-primary/10 bg-primary/5 p-4 sm:flex-row sm:items-center sm:justify-between">
-                      <p className="text-lg font-semibold">
-                        Total Due: <span className="text-primary">KES {totalAmount.toLocaleString()}</span>
-                      </p>
-                      <Button type="submit" disabled={saleMutation.isPending} className="frosted-button">
-                        {saleMutation.isPending ? (
-                          <>
-                            <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving
-                          </>
-                        ) : (
-                          "Complete Sale"
+                      <div className="space-y-1">
+                        {hasDiscount && (
+                          <p className="text-sm text-muted-foreground">
+                            Subtotal KES {formatKes(totals.subtotal)}
+                            {totals.lineDiscounts > 0 && ` • Item discounts −${formatKes(totals.lineDiscounts)}`}
+                            {totals.basketDiscount > 0 && ` • Basket discount −${formatKes(totals.basketDiscount)}`}
+                          </p>
                         )}
-                      </Button>
+                        <p className="text-lg font-semibold">
+                          Total Due: <span className="text-primary">KES {totals.total.toLocaleString()}</span>
+                        </p>
+                        <Button
+                          type="button"
+                          variant="link"
+                          onClick={() => setBasketDiscountOpen(true)}
+                          disabled={saleItems.length === 0}
+                          className="h-auto p-0 text-primary"
+                        >
+                          <BadgePercent className="mr-1 h-4 w-4" />
+                          {basketDiscount ? "Change basket discount" : "Discount basket"}
+                        </Button>
+                      </div>
+                      <div className="flex gap-3">
+                        <Button
+                          type="button"
+                          variant="outline"
+                          onClick={handlePark}
+                          disabled={saleItems.length === 0 || parkMutation.isPending}
+                          className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                        >
+                          <PauseCircle className="mr-2 h-4 w-4" /> Park
+                        </Button>
+                        <Button
+                          type="submit"
+                          disabled={saleMutation.isPending || loadingShift || !openShift}
+                          className="frosted-button"
+                        >
+                          {saleMutation.isPending ? (
+                            <>
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Saving
+                            </>
+                          ) : (
+                            "Complete Sale"
+                          )}
+                        </Button>
+                      </div>
                     </div>
                   </div>
                 </form>
@@ -590,12 +1044,13 @@ const Sales = () => {
                       <TableHead className="text-right">Total (KES)</TableHead>
                       <TableHead>Payment</TableHead>
                       <TableHead>Date</TableHead>
+                      <TableHead className="w-[100px]" />
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {loadingSalesHistory ? (
                       <TableRow>
-                        <TableCell colSpan={5} className="py-6 text-center text-muted-foreground">
+                        <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
                           <div className="flex items-center justify-center gap-2">
                             <Loader2 className="h-4 w-4 animate-spin" />
                             Loading sales...
@@ -604,7 +1059,7 @@ const Sales = () => {
                       </TableRow>
                     ) : salesHistory.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
+                        <TableCell colSpan={6} className="text-center py-6 text-muted-foreground">
                           No sales recorded yet
                         </TableCell>
                       </TableRow>
@@ -613,18 +1068,44 @@ const Sales = () => {
                         const itemsSummary = sale.sale_items
                           ?.map((item) => `${item.medicines?.name ?? "Item"} ×${item.quantity}`)
                           .join(" • ");
+                        const voided = sale.status === "voided";
+                        // Voids are for mistakes caught on the same shift; anything later is a return
+                        const canVoid =
+                          !voided && Boolean(openShift) && sale.shift_id === openShift.id && sale.sale_returns.length === 0;
 
                         return (
-                          <TableRow key={sale.id}>
-                            <TableCell className="font-medium">{sale.sale_number ?? "Pending"}</TableCell>
+                          <TableRow key={sale.id} className={voided ? "opacity-60" : undefined}>
+                            <TableCell className="font-medium">
+                              {sale.sale_number ?? "Pending"}
+                              {voided && (
+                                <Badge
+                                  variant="secondary"
+                                  className="ml-2 bg-destructive/20 uppercase tracking-wide text-destructive"
+                                  title={sale.void_reason ?? undefined}
+                                >
+                                  Voided
+                                </Badge>
+                              )}
+                            </TableCell>
                             <TableCell>{sale.customer_name ?? "Walk-in"}</TableCell>
                             <TableCell className="text-right font-semibold">
-                              {Number(sale.total_amount).toLocaleString()}
+                              <span className={voided ? "line-through" : undefined}>
+                                {Number(sale.total_amount).toLocaleString()}
+                              </span>
                             </TableCell>
                             <TableCell>
-                              <Badge variant="secondary" className="bg-primary/20 text-primary uppercase tracking-wide">
-                                {sale.payment_method}
-                              </Badge>
+                              <div className="flex flex-wrap gap-1">
+                                {sale.sale_payments?.map((payment) => (
+                                  <Badge
+                                    key={payment.id}
+                                    variant="secondary"
+                                    className="bg-primary/20 text-primary uppercase tracking-wide"
+                                    title={`KES ${Number(payment.amount).toLocaleString()}`}
+                                  >
+                                    {paymentMethodLabel(payment.method)}
+                                  </Badge>
+                                ))}
+                              </div>
                             </TableCell>
                             <TableCell>
                               <div className="flex flex-col">
@@ -632,8 +1113,54 @@ const Sales = () => {
                                 {itemsSummary && (
                                   <span className="text-xs text-muted-foreground mt-1">{itemsSummary}</span>
                                 )}
+                                {sale.sale_returns?.map((saleReturn) => (
+                                  <Link
+                                    key={saleReturn.id}
+                                    to={`/returns/${saleReturn.id}/credit-note`}
+                                    className="mt-1 text-xs text-warning hover:underline"
+                                  >
+                                    Returned on {saleReturn.return_number}
+                                  </Link>
+                                ))}
                               </div>
                             </TableCell>
+                            <TableCell className="whitespace-nowrap text-right">
+                              {canVoid && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setVoidingSale(sale)}
+                                  className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+                                  title="Void sale"
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {!voided && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={() => setReturnSaleId(sale.id)}
+                                  className="text-white/70 hover:bg-white/10 hover:text-white"
+                                  title="Return items"
+                                >
+                                  <Undo2 className="h-4 w-4" />
+                                </Button>
+                              )}
+                              {sale.sale_number && (
+                                <Button
+                                  asChild
+                                  variant="ghost"
+                                  size="icon"
+                                  className="text-primary hover:text-primary"
+                                  title="Reprint receipt"
+                                >
+                                  <Link to={`/sales/${sale.sale_number}/receipt?reprint=1`}>
+                                    <Printer className="h-4 w-4" />
+                                  </Link>
+                                </Button>
+                              )}
+                            </TableCell>
                           </TableRow>
                         );
                       })
@@ -645,8 +1172,263 @@ const Sales = () => {
           </Card>
         </div>
       </div>
+
+      <ReturnSaleDialog saleId={returnSaleId} onOpenChange={(open) => !open && setReturnSaleId(null)} />
+
+      <VoidSaleDialog sale={voidingSale} onOpenChange={(open) => !open && setVoidingSale(null)} />
+
+      <DiscountDialog
+        open={Boolean(discountingItem)}
+        onOpenChange={(open) => !open && setDiscountingItemId(null)}
+        title={`Discount ${discountingItem?.name ?? ""}`}
+        description={`Selling price KES ${formatKes(discountingItem?.unitPrice ?? 0)} × ${discountingItem?.quantity ?? 0}. Take a percentage or amount off, or set the unit price charged.`}
+        types={LINE_DISCOUNT_TYPES}
+        discount={discountingItem?.discount}
+        amount={(discountingItem?.quantity ?? 0) * (discountingItem?.unitPrice ?? 0)}
+        quantity={discountingItem?.quantity}
+        onApply={(discount) => discountingItem && handleLineDiscount(discountingItem.medicineId, discount)}
+      />
+
+      <DiscountDialog
+        open={basketDiscountOpen}
+        onOpenChange={setBasketDiscountOpen}
+        title="Discount basket"
+        description="Taken off the whole sale after any item discounts and shared across the items in proportion to their price."
+        types={BASKET_DISCOUNT_TYPES}
+        discount={basketDiscount}
+        amount={totals.subtotal - totals.lineDiscounts}
+        onApply={setBasketDiscount}
+      />
+
+      <ParkBasketDialog
+        open={parkLabel !== null}
+        onOpenChange={(open) => !open && setParkLabel(null)}
+        defaultLabel={parkLabel ?? ""}
+        saving={parkMutation.isPending}
+        onPark={(label) => parkMutation.mutate(label)}
+      />
+
+      <BarcodeScanDialog open={cameraOpen} onOpenChange={setCameraOpen} onScan={handleScan} />
+
+      <ParkedBasketsDialog
+        open={parkedOpen}
+        onOpenChange={setParkedOpen}
+        canRecall={saleItems.length === 0}
+        onRecall={handleRecall}
+      />
+
+      <PrescriptionOverrideDialog
+        pending={pendingOverride}
+        onOpenChange={(open) => !open && setPendingOverride(null)}
+        onApproved={(override) => {
+          if (pendingOverride) addToBasket(pendingOverride.medicine, pendingOverride.quantity, override);
+          setPendingOverride(null);
+        }}
+      />
     </DashboardLayout>
   );
 };
 
+interface ParkBasketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  defaultLabel: string;
+  saving: boolean;
+  onPark: (label: string) => void;
+}
+
+const ParkBasketDialog = ({ open, onOpenChange, defaultLabel, saving, onPark }: ParkBasketDialogProps) => {
+  const [label, setLabel] = useState("");
+
+  useEffect(() => {
+    if (open) setLabel(defaultLabel);
+  }, [open, defaultLabel]);
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!label.trim()) {
+      toast.error("Give the basket a label so it can be found again");
+      return;
+    }
+    onPark(label.trim());
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl font-semibold text-white">
+            <PauseCircle className="h-6 w-6 text-primary" /> Park basket
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            Put the basket aside and serve the next customer. It can be picked up from any till.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-white/80">Label</label>
+            <Input
+              placeholder="e.g. Lady in the red coat"
+              value={label}
+              onChange={(event) => setLabel(event.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-white/20 bg-transparent text-white hover:bg-white/10"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving} className="frosted-button">
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Park basket
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+interface PrescriptionOverrideDialogProps {
+  pending: PendingOverride | null;
+  onOpenChange: (open: boolean) => void;
+  onApproved: (override: PrescriptionOverride) => void;
+}
+
+// Pharmacists and admins approve themselves, whether signed in or at a till
+// they unlocked; anyone else needs a pharmacist to sign the override with
+// their credentials at this till.
+const PrescriptionOverrideDialog = ({ pending, onOpenChange, onApproved }: PrescriptionOverrideDialogProps) => {
+  const actingUser = useActingUser();
+  const [reason, setReason] = useState("");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+
+  const canApproveSelf = hasRole(actingUser, MANAGER_ROLES);
+  const open = Boolean(pending);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setEmail("");
+      setPassword("");
+    }
+  }, [open]);
+
+  const overrideMutation = useMutation({
+    mutationFn: async () => {
+      const args = {
+        p_medicine_id: pending.medicine.id,
+        p_reason: reason.trim(),
+        p_requested_by: actingUser?.id ?? null,
+      };
+
+      const grant = async (client: typeof supabase) => {
+        const { data, error } = await client.rpc("grant_prescription_override", args);
+        if (error) throw error;
+        return data;
+      };
+
+      const overrideId = canApproveSelf ? await grant(supabase) : await withSupervisorSession(email, password, grant);
+      return { id: overrideId, reason: args.p_reason };
+    },
+    onSuccess: (override) => {
+      toast.success("Prescription override recorded");
+      onApproved(override);
+    },
+    onError: (error) => {
+      console.error("Failed to record prescription override", error);
+      toast.error(error instanceof Error ? error.message : "Failed to record prescription override");
+    },
+  });
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+
+    if (reason.trim().length < 5) {
+      toast.error("Give a reason for the override");
+      return;
+    }
+
+    if (!canApproveSelf && (!email.trim() || !password)) {
+      toast.error("A pharmacist must sign in to approve");
+      return;
+    }
+
+    overrideMutation.mutate();
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-2xl font-semibold text-white">
+            <ShieldCheck className="h-6 w-6 text-warning" /> Prescription required
+          </DialogTitle>
+          <DialogDescription className="text-white/60">
+            {pending?.medicine.name} is prescription-only. Link a prescription to the sale, or record a pharmacist
+            override with the reason it is being dispensed without one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-5">
+          <div className="space-y-2">
+            <label className="text-sm font-medium text-white/80">Reason</label>
+            <Input
+              placeholder="e.g. Repeat of chronic medication, prescription seen"
+              value={reason}
+              onChange={(event) => setReason(event.target.value)}
+            />
+          </div>
+
+          {!canApproveSelf && (
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Pharmacist email</label>
+                <Input type="email" autoComplete="off" value={email} onChange={(event) => setEmail(event.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Password</label>
+                <Input
+                  type="password"
+                  autoComplete="off"
+                  value={password}
+                  onChange={(event) => setPassword(event.target.value)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => onOpenChange(false)}
+              className="border-white/20 bg-transparent text-white hover:bg-white/10"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={overrideMutation.isPending} className="frosted-button">
+              {overrideMutation.isPending ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Approving
+                </>
+              ) : (
+                "Approve override"
+              )}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
 export default Sales;
@@ -0,0 +1,186 @@
+import { useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import PrintLayout from "@/components/PrintLayout";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { CashShift } from "@/hooks/use-cash-shift";
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from "@/lib/payments";
+
+type ShiftDetail = CashShift & {
+  closer?: { full_name: string } | null;
+  tills?: { name: string } | null;
+  cash_shift_totals: Tables<"cash_shift_totals">[];
+};
+
+type ReportLine = {
+  paymentMethod: string;
+  saleCount: number;
+  expected: number;
+  counted: number | null;
+};
+
+const fetchShift = async (id: string): Promise<ShiftDetail> => {
+  const { data, error } = await supabase
+    .from("cash_shifts")
+    .select(
+      `*, opener:profiles!cash_shifts_opened_by_fkey ( full_name ),
+      closer:profiles!cash_shifts_closed_by_fkey ( full_name ), tills ( name ), cash_shift_totals ( * )`,
+    )
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return data as ShiftDetail;
+};
+
+const fetchExpected = async (id: string) => {
+  const { data, error } = await supabase.rpc("cash_shift_expected", { p_shift_id: id });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+// An open shift prints as an X report (a mid-shift read); once closed the
+// counted figures are frozen and it becomes the Z report.
+const ShiftReport = () => {
+  const { id = "" } = useParams();
+
+  const {
+    data: shift,
+    isLoading: loadingShift,
+    isError: shiftIsError,
+    error: shiftError,
+  } = useQuery({
+    queryKey: ["cash-shifts", id],
+    queryFn: () => fetchShift(id),
+    enabled: Boolean(id),
+  });
+
+  const {
+    data: expected = [],
+    isLoading: loadingExpected,
+    isError: expectedIsError,
+    error: expectedError,
+  } = useQuery({
+    queryKey: ["cash-shifts", id, "expected"],
+    queryFn: () => fetchExpected(id),
+    enabled: Boolean(id),
+  });
+
+  const closed = Boolean(shift?.closed_at);
+
+  const lines: ReportLine[] = expected.map((row) => {
+    const total = shift?.cash_shift_totals.find((entry) => entry.payment_method === row.payment_method);
+    return {
+      paymentMethod: row.payment_method,
+      saleCount: Number(row.sale_count),
+      expected: total ? Number(total.expected_amount) : Number(row.expected_amount),
+      counted: total ? Number(total.counted_amount) : null,
+    };
+  });
+
+  const totalExpected = lines.reduce((sum, line) => sum + line.expected, 0);
+  const totalCounted = lines.reduce((sum, line) => sum + (line.counted ?? 0), 0);
+  const saleCount = lines.reduce((sum, line) => sum + line.saleCount, 0);
+
+  const error = shiftIsError ? shiftError : expectedIsError ? expectedError : null;
+
+  return (
+    <PrintLayout
+      title={closed ? "Z Report" : "X Report"}
+      documentNumber={shift?.shift_number}
+      loading={loadingShift || loadingExpected}
+      error={error ? ((error as Error)?.message ?? "We couldn't load this shift.") : null}
+    >
+      {shift && (
+        <div className="space-y-8 text-sm">
+          <dl className="grid grid-cols-4 gap-x-4 gap-y-2">
+            <dt className="text-slate-500">Till</dt>
+            <dd className="font-medium">{shift.tills?.name ?? "Personal drawer"}</dd>
+            <dt className="text-slate-500">Sales</dt>
+            <dd className="font-medium">{saleCount}</dd>
+            <dt className="text-slate-500">Opened</dt>
+            <dd className="font-medium">{new Date(shift.opened_at).toLocaleString()}</dd>
+            <dt className="text-slate-500">Opened by</dt>
+            <dd className="font-medium">{shift.opener?.full_name ?? "—"}</dd>
+            <dt className="text-slate-500">Closed</dt>
+            <dd className="font-medium">{shift.closed_at ? new Date(shift.closed_at).toLocaleString() : "Still open"}</dd>
+            <dt className="text-slate-500">Closed by</dt>
+            <dd className="font-medium">{shift.closer?.full_name ?? "—"}</dd>
+            <dt className="text-slate-500">Opening float</dt>
+            <dd className="font-medium">KES {formatKes(Number(shift.opening_float))}</dd>
+          </dl>
+
+          <table className="w-full border-collapse">
+            <thead>
+              <tr className="border-b-2 border-slate-800 text-left text-xs uppercase tracking-wide">
+                <th className="py-2 pr-2">Payment method</th>
+                <th className="py-2 pr-2 text-right">Sales</th>
+                <th className="py-2 pr-2 text-right">Expected</th>
+                <th className="py-2 pr-2 text-right">Counted</th>
+                <th className="py-2 text-right">Over / short</th>
+              </tr>
+            </thead>
+            <tbody>
+              {lines.map((line) => (
+                <tr key={line.paymentMethod} className="border-b border-slate-200">
+                  <td className="py-2 pr-2">
+                    {PAYMENT_METHOD_LABELS[line.paymentMethod as PaymentMethod] ?? line.paymentMethod}
+                    {line.paymentMethod === "cash" && (
+                      <span className="block text-xs text-slate-500">Includes the opening float</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-2 text-right">{line.saleCount}</td>
+                  <td className="py-2 pr-2 text-right">{formatKes(line.expected)}</td>
+                  <td className="py-2 pr-2 text-right">{line.counted === null ? "—" : formatKes(line.counted)}</td>
+                  <td className="py-2 text-right">
+                    {line.counted === null ? "—" : formatKes(line.counted - line.expected)}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr className="text-base font-semibold">
+                <td colSpan={2} className="py-3 pr-2 text-right">
+                  Total
+                </td>
+                <td className="py-3 pr-2 text-right">{formatKes(totalExpected)}</td>
+                <td className="py-3 pr-2 text-right">{closed ? formatKes(totalCounted) : "—"}</td>
+                <td className="py-3 text-right">{closed ? formatKes(totalCounted - totalExpected) : "—"}</td>
+              </tr>
+            </tfoot>
+          </table>
+
+          {shift.notes && (
+            <div>
+              <p className="text-xs uppercase tracking-wide text-slate-500">Notes</p>
+              <p className="whitespace-pre-line">{shift.notes}</p>
+            </div>
+          )}
+
+          {!closed && (
+            <p className="text-slate-600">
+              This shift is still open. Figures are a snapshot taken when the report was printed.
+            </p>
+          )}
+
+          <div className="flex gap-16">
+            <div className="w-64 space-y-6 pt-8">
+              <div className="border-b border-slate-400 pb-8" />
+              <p className="text-xs uppercase tracking-wide text-slate-500">Cashier</p>
+            </div>
+            <div className="w-64 space-y-6 pt-8">
+              <div className="border-b border-slate-400 pb-8" />
+              <p className="text-xs uppercase tracking-wide text-slate-500">Supervisor</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </PrintLayout>
+  );
+};
+
+export default ShiftReport;
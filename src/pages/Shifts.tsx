@@ -0,0 +1,534 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { CashShift, useOpenShift } from "@/hooks/use-cash-shift";
+import { useTill } from "@/hooks/use-till";
+import { PAYMENT_METHOD_LABELS, PaymentMethod } from "@/lib/payments";
+import { toast } from "sonner";
+import { Loader2, LockKeyhole, Printer, Wallet } from "lucide-react";
+
+type ShiftHistoryEntry = CashShift & {
+  closer?: { full_name: string } | null;
+  tills?: { name: string } | null;
+  cash_shift_totals: Tables<"cash_shift_totals">[];
+};
+
+type ExpectedTotal = {
+  payment_method: string;
+  sale_count: number;
+  expected_amount: number;
+};
+
+const formatKes = (value: number) =>
+  value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const methodLabel = (method: string) => PAYMENT_METHOD_LABELS[method as PaymentMethod] ?? method;
+
+const fetchExpected = async (shiftId: string): Promise<ExpectedTotal[]> => {
+  const { data, error } = await supabase.rpc("cash_shift_expected", { p_shift_id: shiftId });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchShiftHistory = async (): Promise<ShiftHistoryEntry[]> => {
+  const { data, error } = await supabase
+    .from("cash_shifts")
+    .select(
+      `*, opener:profiles!cash_shifts_opened_by_fkey ( full_name ),
+      closer:profiles!cash_shifts_closed_by_fkey ( full_name ), tills ( name ), cash_shift_totals ( * )`,
+    )
+    .order("opened_at", { ascending: false })
+    .limit(50);
+
+  if (error) throw error;
+  return (data as ShiftHistoryEntry[]) ?? [];
+};
+
+const shiftVariance = (totals: Tables<"cash_shift_totals">[]) =>
+  totals.reduce((sum, total) => sum + Number(total.counted_amount) - Number(total.expected_amount), 0);
+
+const VarianceBadge = ({ value }: { value: number }) => {
+  const rounded = Math.round(value * 100) / 100;
+
+  if (rounded === 0) {
+    return (
+      <Badge variant="secondary" className="bg-success/20 text-success">
+        Balanced
+      </Badge>
+    );
+  }
+
+  return (
+    <Badge variant="secondary" className={rounded > 0 ? "bg-warning/20 text-warning" : "bg-destructive/20 text-destructive"}>
+      {rounded > 0 ? "Over" : "Short"} {formatKes(Math.abs(rounded))}
+    </Badge>
+  );
+};
+
+const Shifts = () => {
+  const queryClient = useQueryClient();
+  const { session: tillSession } = useTill();
+  const [openingFloat, setOpeningFloat] = useState("0");
+  const [closeOpen, setCloseOpen] = useState(false);
+
+  const { data: openShift, isLoading: loadingShift, isError: shiftIsError, error: shiftError } = useOpenShift();
+
+  const { data: expected = [], isLoading: loadingExpected } = useQuery({
+    queryKey: ["cash-shifts", openShift?.id, "expected"],
+    queryFn: () => fetchExpected(openShift.id),
+    enabled: Boolean(openShift),
+  });
+
+  const { data: history = [], isLoading: loadingHistory } = useQuery({
+    queryKey: ["cash-shifts", "history"],
+    queryFn: fetchShiftHistory,
+  });
+
+  const openMutation = useMutation({
+    mutationFn: async (float: number) => {
+      const { error } = await supabase.rpc("open_cash_shift", {
+        p_opening_float: float,
+        p_till_session_id: tillSession?.id ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Shift opened");
+      setOpeningFloat("0");
+      queryClient.invalidateQueries({ queryKey: ["cash-shifts"] });
+    },
+    onError: (error) => {
+      console.error("Failed to open shift", error);
+      toast.error(error instanceof Error ? error.message : "Failed to open shift");
+    },
+  });
+
+  const handleOpen = (event: React.FormEvent) => {
+    event.preventDefault();
+    const float = Number(openingFloat);
+    if (!Number.isFinite(float) || float < 0) {
+      toast.error("Enter the cash in the drawer as the opening float");
+      return;
+    }
+    openMutation.mutate(float);
+  };
+
+  const expectedTotal = expected.reduce((sum, row) => sum + Number(row.expected_amount), 0);
+  const saleCount = expected.reduce((sum, row) => sum + Number(row.sale_count), 0);
+
+  const getShiftErrorMessage = (error: unknown) => {
+    if (!error) return "We couldn't load the current shift.";
+    const message = (error as Error).message ?? "";
+    if (message.toLowerCase().includes("schema cache")) {
+      return "Supabase is missing the cash shift tables. Apply the latest migrations and redeploy.";
+    }
+    return message;
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Point of Sale</span>
+          <h1 className="text-4xl font-semibold leading-tight text-white">Cash Shifts</h1>
+          <p className="max-w-2xl text-muted-foreground">
+            Open the drawer with a float before selling, then count it at the end of the shift and print the Z report.
+          </p>
+        </div>
+
+        {shiftIsError && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Shifts unavailable</AlertTitle>
+            <AlertDescription>{getShiftErrorMessage(shiftError)}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex flex-wrap items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <Wallet className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Drawer</span>
+                <span className="text-lg font-semibold">
+                  {openShift ? `Shift ${openShift.shift_number}` : "No shift open"}
+                </span>
+              </div>
+              {openShift && (
+                <div className="ml-auto flex gap-3">
+                  <Button
+                    asChild
+                    variant="outline"
+                    className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                  >
+                    <Link to={`/shifts/${openShift.id}/report`}>
+                      <Printer className="mr-2 h-4 w-4" /> X report
+                    </Link>
+                  </Button>
+                  <Button onClick={() => setCloseOpen(true)} className="frosted-button">
+                    <LockKeyhole className="mr-2 h-4 w-4" /> Close shift
+                  </Button>
+                </div>
+              )}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {loadingShift ? (
+              <div className="flex items-center justify-center gap-2 py-6 text-muted-foreground">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                Loading shift...
+              </div>
+            ) : openShift ? (
+              <div className="space-y-6">
+                <div className="grid gap-4 text-sm sm:grid-cols-4">
+                  <div>
+                    <p className="text-white/50">Opened by</p>
+                    <p className="font-medium text-white">{openShift.opener?.full_name ?? "—"}</p>
+                  </div>
+                  <div>
+                    <p className="text-white/50">Opened</p>
+                    <p className="font-medium text-white">{new Date(openShift.opened_at).toLocaleString()}</p>
+                  </div>
+                  <div>
+                    <p className="text-white/50">Opening float</p>
+                    <p className="font-medium text-white">KES {formatKes(Number(openShift.opening_float))}</p>
+                  </div>
+                  <div>
+                    <p className="text-white/50">Sales</p>
+                    <p className="font-medium text-white">{saleCount}</p>
+                  </div>
+                </div>
+
+                <div className="glass-panel overflow-x-auto border border-primary/10">
+                  <Table>
+                    <TableHeader>
+                      <TableRow className="bg-primary/5">
+                        <TableHead>Payment method</TableHead>
+                        <TableHead className="text-right">Sales</TableHead>
+                        <TableHead className="text-right">Expected (KES)</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {loadingExpected ? (
+                        <TableRow>
+                          <TableCell colSpan={3} className="py-6 text-center text-muted-foreground">
+                            <div className="flex items-center justify-center gap-2">
+                              <Loader2 className="h-4 w-4 animate-spin" />
+                              Loading totals...
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      ) : (
+                        expected.map((row) => (
+                          <TableRow key={row.payment_method}>
+                            <TableCell>
+                              {methodLabel(row.payment_method)}
+                              {row.payment_method === "cash" && (
+                                <span className="ml-2 text-xs text-muted-foreground">incl. float</span>
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">{row.sale_count}</TableCell>
+                            <TableCell className="text-right">{formatKes(Number(row.expected_amount))}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-sm text-white/70">
+                  <span className="text-xs text-muted-foreground">Expected amounts are sales less refunds paid out.</span>
+                  <span>
+                    Expected in total: <span className="font-semibold text-white">KES {formatKes(expectedTotal)}</span>
+                  </span>
+                </div>
+              </div>
+            ) : (
+              <form onSubmit={handleOpen} className="flex flex-wrap items-end gap-3">
+                <div className="space-y-2">
+                  <Label htmlFor="openingFloat">Opening float (KES)</Label>
+                  <Input
+                    id="openingFloat"
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={openingFloat}
+                    onChange={(event) => setOpeningFloat(event.target.value)}
+                    className="w-48"
+                  />
+                </div>
+                <Button type="submit" className="frosted-button" disabled={openMutation.isPending}>
+                  {openMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Open shift
+                </Button>
+                <p className="w-full text-sm text-muted-foreground">
+                  Sales can't be recorded until a shift is open. Count the cash in the drawer and enter it as the float.
+                </p>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <Printer className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">History</span>
+                <span className="text-lg font-semibold">Recent Shifts</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[860px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>Shift</TableHead>
+                    <TableHead>Opened by</TableHead>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead className="text-right">Float (KES)</TableHead>
+                    <TableHead>Over / short</TableHead>
+                    <TableHead className="w-[120px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingHistory ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading shifts...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : history.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                        No shifts yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    history.map((shift) => (
+                      <TableRow key={shift.id}>
+                        <TableCell>
+                          <div className="flex flex-col">
+                            <span className="font-mono text-sm">{shift.shift_number}</span>
+                            {shift.tills?.name && <span className="text-xs text-muted-foreground">{shift.tills.name}</span>}
+                          </div>
+                        </TableCell>
+                        <TableCell>{shift.opener?.full_name ?? "—"}</TableCell>
+                        <TableCell>{new Date(shift.opened_at).toLocaleString()}</TableCell>
+                        <TableCell>
+                          {shift.closed_at ? (
+                            <div className="flex flex-col">
+                              <span>{new Date(shift.closed_at).toLocaleString()}</span>
+                              {shift.closer?.full_name && (
+                                <span className="text-xs text-muted-foreground">by {shift.closer.full_name}</span>
+                              )}
+                            </div>
+                          ) : (
+                            <Badge variant="secondary" className="bg-primary/20 text-primary">
+                              Open
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatKes(Number(shift.opening_float))}</TableCell>
+                        <TableCell>
+                          {shift.closed_at ? <VarianceBadge value={shiftVariance(shift.cash_shift_totals)} /> : "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button asChild variant="ghost" size="sm" className="text-primary hover:text-primary">
+                            <Link to={`/shifts/${shift.id}/report`}>{shift.closed_at ? "Z report" : "X report"}</Link>
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {openShift && (
+        <CloseShiftDialog open={closeOpen} onOpenChange={setCloseOpen} shift={openShift} expected={expected} />
+      )}
+    </DashboardLayout>
+  );
+};
+
+interface CloseShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  shift: CashShift;
+  expected: ExpectedTotal[];
+}
+
+// Counts are entered blind against the expected figures so the over/short
+// for each method is visible before the shift is closed.
+const CloseShiftDialog = ({ open, onOpenChange, shift, expected }: CloseShiftDialogProps) => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const { session: tillSession } = useTill();
+  const [counts, setCounts] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState("");
+
+  useEffect(() => {
+    if (open) {
+      setCounts({});
+      setNotes("");
+    }
+  }, [open]);
+
+  const rows = useMemo(
+    () =>
+      expected.map((row) => {
+        const counted = Number(counts[row.payment_method] || 0);
+        return { ...row, counted, variance: counted - Number(row.expected_amount) };
+      }),
+    [expected, counts],
+  );
+
+  const totalVariance = rows.reduce((sum, row) => sum + row.variance, 0);
+
+  const closeMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("close_cash_shift", {
+        p_shift_id: shift.id,
+        p_counts: rows.map((row) => ({ payment_method: row.payment_method, counted_amount: row.counted })),
+        p_notes: notes.trim() || null,
+        p_till_session_id: tillSession?.id ?? null,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(`Shift ${shift.shift_number} closed`);
+      onOpenChange(false);
+      queryClient.invalidateQueries({ queryKey: ["cash-shifts"] });
+      navigate(`/shifts/${shift.id}/report`);
+    },
+    onError: (error) => {
+      console.error("Failed to close shift", error);
+      toast.error(error instanceof Error ? error.message : "Failed to close shift");
+    },
+  });
+
+  const invalidCount = rows.some((row) => !Number.isFinite(row.counted) || row.counted < 0);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle>Close shift {shift.shift_number}</DialogTitle>
+          <DialogDescription>
+            Count the drawer and enter what is actually there for each payment method. Cash should include the opening
+            float.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto rounded-2xl border border-white/10">
+          <Table>
+            <TableHeader className="bg-white/5">
+              <TableRow className="border-white/10">
+                <TableHead className="text-white/70">Method</TableHead>
+                <TableHead className="text-right text-white/70">Expected</TableHead>
+                <TableHead className="text-white/70">Counted</TableHead>
+                <TableHead className="text-white/70">Over / short</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.payment_method} className="border-white/5">
+                  <TableCell className="text-white/80">{methodLabel(row.payment_method)}</TableCell>
+                  <TableCell className="text-right text-white/80">{formatKes(Number(row.expected_amount))}</TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      min={0}
+                      step="0.01"
+                      value={counts[row.payment_method] ?? ""}
+                      placeholder="0.00"
+                      onChange={(event) =>
+                        setCounts((prev) => ({ ...prev, [row.payment_method]: event.target.value }))
+                      }
+                      className="h-9 w-32"
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <VarianceBadge value={row.variance} />
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </div>
+
+        <div className="flex items-center justify-between text-sm text-white/70">
+          <span>Overall</span>
+          <VarianceBadge value={totalVariance} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="shiftNotes">Notes</Label>
+          <Textarea
+            id="shiftNotes"
+            placeholder="Explain any difference, e.g. float top-up or a refund paid from the drawer"
+            value={notes}
+            onChange={(event) => setNotes(event.target.value)}
+          />
+        </div>
+
+        <div className="flex justify-end gap-3">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="border-white/20 bg-transparent text-white hover:bg-white/10"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={() => closeMutation.mutate()}
+            disabled={invalidCount || closeMutation.isPending}
+            className="bg-primary text-primary-foreground"
+          >
+            {closeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Close shift
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default Shifts;
@@ -0,0 +1,1312 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Tables } from "@/integrations/supabase/types";
+import { useActingUser, useTill } from "@/hooks/use-till";
+import { DEFAULT_TILL_AUTO_LOCK_MINUTES } from "@/lib/till";
+import { ROLE_LABELS, USER_ROLES, UserRole } from "@/lib/roles";
+import { RECEIPT_WIDTHS } from "@/lib/receipt";
+import { toast } from "sonner";
+import {
+  BadgePercent,
+  Copy,
+  KeyRound,
+  Loader2,
+  Mail,
+  MailPlus,
+  Monitor,
+  MoreHorizontal,
+  Store,
+  UserCheck,
+  UserPlus,
+  UserX,
+  Users,
+  X,
+} from "lucide-react";
+
+const pharmacyDetailsSchema = z.object({
+  pharmacyName: z.string().trim().min(1, "Pharmacy name is required"),
+  pharmacyAddress: z.string().trim().optional().or(z.literal("")),
+  pharmacyPhone: z.string().trim().optional().or(z.literal("")),
+  kraPin: z
+    .string()
+    .trim()
+    .regex(/^([AP]\d{9}[A-Z])?$/i, "A KRA PIN looks like P051234567X")
+    .optional()
+    .or(z.literal("")),
+  ppbLicenceNumber: z.string().trim().optional().or(z.literal("")),
+  receiptFooter: z.string().trim().optional().or(z.literal("")),
+  receiptWidth: z.enum(["58", "80"]),
+});
+
+type PharmacyDetailsValues = z.infer<typeof pharmacyDetailsSchema>;
+
+const discountPercent = z.coerce.number().min(0, "Cannot be negative").max(100, "Cannot be more than 100%");
+
+const discountLimitsSchema = z.object({
+  cashierMaxPercent: discountPercent,
+  pharmacistMaxPercent: discountPercent,
+});
+
+type DiscountLimitsValues = z.infer<typeof discountLimitsSchema>;
+
+type StaffMember = Database["public"]["Functions"]["list_staff"]["Returns"][number];
+
+type InvitationRecord = Tables<"staff_invitations"> & {
+  inviter?: { full_name: string } | null;
+};
+
+type InvitationStatus = "pending" | "accepted" | "expired" | "revoked";
+
+const INVITATION_STATUS_CLASSES: Record<InvitationStatus, string> = {
+  pending: "bg-primary/20 text-primary",
+  accepted: "bg-success/20 text-success",
+  expired: "bg-white/10 text-white/60",
+  revoked: "bg-destructive/20 text-destructive",
+};
+
+const inviteFormSchema = z.object({
+  email: z.string().trim().email("Enter a valid email address"),
+  fullName: z.string().optional().or(z.literal("")),
+  role: z.enum(["admin", "pharmacist", "cashier"]),
+});
+
+type InviteFormValues = z.infer<typeof inviteFormSchema>;
+
+const fetchStaff = async (): Promise<StaffMember[]> => {
+  const { data, error } = await supabase.rpc("list_staff");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchTills = async (): Promise<Tables<"tills">[]> => {
+  const { data, error } = await supabase
+    .from("tills")
+    .select("*")
+    .is("retired_at", null)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchSettings = async (): Promise<Tables<"pharmacy_settings"> | null> => {
+  const { data, error } = await supabase.from("pharmacy_settings").select("*").maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+const fetchInvitations = async (): Promise<InvitationRecord[]> => {
+  const { data, error } = await supabase
+    .from("staff_invitations")
+    .select("*, inviter:profiles!staff_invitations_invited_by_fkey ( full_name )")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as InvitationRecord[]) ?? [];
+};
+
+const invitationStatus = (invitation: InvitationRecord): InvitationStatus => {
+  if (invitation.accepted_at) return "accepted";
+  if (invitation.revoked_at) return "revoked";
+  if (new Date(invitation.expires_at) <= new Date()) return "expired";
+  return "pending";
+};
+
+const invitationLink = (token: string) => `${window.location.origin}/auth?invite=${token}`;
+
+const invitationMailto = (email: string, role: UserRole, token: string) => {
+  const subject = "Your Pawa Pharmacy staff account";
+  const body = `You've been invited to join Pawa Pharmacy as ${ROLE_LABELS[role]}.\n\nCreate your account here:\n${invitationLink(token)}\n\nThe link expires in 7 days.`;
+  return `mailto:${email}?subject=${encodeURIComponent(subject)}&body=${encodeURIComponent(body)}`;
+};
+
+const copyInvitationLink = async (token: string) => {
+  try {
+    await navigator.clipboard.writeText(invitationLink(token));
+    toast.success("Invitation link copied");
+  } catch (error) {
+    console.error("Failed to copy invitation link", error);
+    toast.error("Couldn't copy the link. Copy it from the invitation instead.");
+  }
+};
+
+const Staff = () => {
+  const queryClient = useQueryClient();
+  const [inviteOpen, setInviteOpen] = useState(false);
+  const [deactivateTarget, setDeactivateTarget] = useState<StaffMember | null>(null);
+  const actingUser = useActingUser();
+
+  const {
+    data: staff = [],
+    isLoading: loadingStaff,
+    isError: staffIsError,
+    error: staffError,
+  } = useQuery({ queryKey: ["staff", "members"], queryFn: fetchStaff });
+
+  const {
+    data: invitations = [],
+    isLoading,
+    isError,
+    error: invitationsError,
+  } = useQuery({ queryKey: ["staff", "invitations"], queryFn: fetchInvitations });
+
+  const roleMutation = useMutation({
+    mutationFn: async ({ profileId, role }: { profileId: string; role: UserRole }) => {
+      const { error } = await supabase.rpc("set_staff_role", { p_profile_id: profileId, p_role: role });
+      if (error) throw error;
+    },
+    onSuccess: (_data, { role }) => {
+      toast.success(`Role changed to ${ROLE_LABELS[role]}`);
+      queryClient.invalidateQueries({ queryKey: ["staff"] });
+    },
+    onError: (error) => {
+      console.error("Failed to change role", error);
+      toast.error(error instanceof Error ? error.message : "Failed to change role");
+    },
+  });
+
+  const accessMutation = useMutation({
+    mutationFn: async ({ profileId, active }: { profileId: string; active: boolean }) => {
+      const { error } = await supabase.rpc("set_staff_active", { p_profile_id: profileId, p_active: active });
+      if (error) throw error;
+    },
+    onSuccess: (_data, { active }) => {
+      toast.success(active ? "Account reactivated" : "Account deactivated");
+      setDeactivateTarget(null);
+      queryClient.invalidateQueries({ queryKey: ["staff"] });
+    },
+    onError: (error) => {
+      console.error("Failed to change account access", error);
+      toast.error(error instanceof Error ? error.message : "Failed to change account access");
+    },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (email: string) => {
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: `${window.location.origin}/reset-password`,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_data, email) => {
+      toast.success(`Password reset email sent to ${email}`);
+    },
+    onError: (error) => {
+      console.error("Failed to send password reset", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send password reset");
+    },
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (invitationId: string) => {
+      const { error } = await supabase.rpc("revoke_staff_invitation", { p_invitation_id: invitationId });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Invitation revoked");
+      queryClient.invalidateQueries({ queryKey: ["staff", "invitations"] });
+    },
+    onError: (error) => {
+      console.error("Failed to revoke invitation", error);
+      toast.error(error instanceof Error ? error.message : "Failed to revoke invitation");
+    },
+  });
+
+  const getInvitationsErrorMessage = (error: unknown) => {
+    if (!error) return "We couldn't load staff.";
+    const message = (error as Error).message ?? "";
+    if (message.toLowerCase().includes("schema cache")) {
+      return "Supabase is missing the staff management tables. Apply the latest migrations and redeploy.";
+    }
+    return message;
+  };
+
+  const invitationsErrorMessage = staffIsError
+    ? getInvitationsErrorMessage(staffError)
+    : isError
+      ? getInvitationsErrorMessage(invitationsError)
+      : null;
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+          <div className="space-y-2">
+            <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Team</span>
+            <h1 className="text-4xl font-semibold leading-tight text-white">Staff</h1>
+            <p className="max-w-2xl text-muted-foreground">
+              Manage who can sign in and what they can do. New accounts only get the role you choose when inviting them;
+              open signups start as cashiers.
+            </p>
+          </div>
+          <Button onClick={() => setInviteOpen(true)} className="frosted-button">
+            <UserPlus className="mr-2 h-4 w-4" /> Invite staff
+          </Button>
+        </div>
+
+        {invitationsErrorMessage && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Staff unavailable</AlertTitle>
+            <AlertDescription>{invitationsErrorMessage}</AlertDescription>
+          </Alert>
+        )}
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <Users className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">People</span>
+                <span className="text-lg font-semibold">Team</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[860px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>Name</TableHead>
+                    <TableHead>Phone</TableHead>
+                    <TableHead className="w-[180px]">Role</TableHead>
+                    <TableHead>Last sign-in</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingStaff ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading staff...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : staff.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        No staff accounts yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    staff.map((member) => {
+                      const isSelf = member.id === actingUser?.id;
+
+                      return (
+                        <TableRow key={member.id} className={member.is_active ? "" : "opacity-60"}>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="font-medium">
+                                {member.full_name}
+                                {isSelf && <span className="ml-2 text-xs text-muted-foreground">(you)</span>}
+                              </span>
+                              <span className="text-xs text-muted-foreground">{member.email}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>{member.phone ?? "—"}</TableCell>
+                          <TableCell>
+                            <Select
+                              value={member.role}
+                              disabled={isSelf || !member.is_active || roleMutation.isPending}
+                              onValueChange={(role) =>
+                                roleMutation.mutate({ profileId: member.id, role: role as UserRole })
+                              }
+                            >
+                              <SelectTrigger className="h-9">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {USER_ROLES.map((role) => (
+                                  <SelectItem key={role} value={role}>
+                                    {ROLE_LABELS[role]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </TableCell>
+                          <TableCell>
+                            {member.last_sign_in_at ? new Date(member.last_sign_in_at).toLocaleString() : "Never"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant="secondary"
+                              className={`uppercase tracking-wide ${
+                                member.is_active ? "bg-success/20 text-success" : "bg-destructive/20 text-destructive"
+                              }`}
+                            >
+                              {member.is_active ? "Active" : "Deactivated"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <DropdownMenu>
+                              <DropdownMenuTrigger asChild>
+                                <Button variant="ghost" size="icon" className="text-white/70 hover:bg-white/10 hover:text-white">
+                                  <MoreHorizontal className="h-4 w-4" />
+                                </Button>
+                              </DropdownMenuTrigger>
+                              <DropdownMenuContent align="end">
+                                <DropdownMenuItem
+                                  disabled={!member.is_active || resetMutation.isPending}
+                                  onClick={() => resetMutation.mutate(member.email)}
+                                >
+                                  <KeyRound className="mr-2 h-4 w-4" /> Send password reset
+                                </DropdownMenuItem>
+                                {member.is_active ? (
+                                  <DropdownMenuItem
+                                    disabled={isSelf}
+                                    onClick={() => setDeactivateTarget(member)}
+                                    className="text-destructive focus:text-destructive"
+                                  >
+                                    <UserX className="mr-2 h-4 w-4" /> Deactivate
+                                  </DropdownMenuItem>
+                                ) : (
+                                  <DropdownMenuItem
+                                    onClick={() => accessMutation.mutate({ profileId: member.id, active: true })}
+                                  >
+                                    <UserCheck className="mr-2 h-4 w-4" /> Reactivate
+                                  </DropdownMenuItem>
+                                )}
+                              </DropdownMenuContent>
+                            </DropdownMenu>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <MailPlus className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Access</span>
+                <span className="text-lg font-semibold">Invitations</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[760px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>Email</TableHead>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Invited</TableHead>
+                    <TableHead>Expires</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[60px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {isLoading ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading invitations...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : invitations.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                        No invitations sent yet
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    invitations.map((invitation) => {
+                      const status = invitationStatus(invitation);
+
+                      return (
+                        <TableRow key={invitation.id}>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span className="font-medium">{invitation.email}</span>
+                              {invitation.full_name && (
+                                <span className="text-xs text-muted-foreground">{invitation.full_name}</span>
+                              )}
+                            </div>
+                          </TableCell>
+                          <TableCell>{ROLE_LABELS[invitation.role]}</TableCell>
+                          <TableCell>
+                            <div className="flex flex-col">
+                              <span>{invitation.created_at ? new Date(invitation.created_at).toLocaleDateString() : "—"}</span>
+                              <span className="text-xs text-muted-foreground">{invitation.inviter?.full_name}</span>
+                            </div>
+                          </TableCell>
+                          <TableCell>{new Date(invitation.expires_at).toLocaleDateString()}</TableCell>
+                          <TableCell>
+                            <Badge variant="secondary" className={`uppercase tracking-wide ${INVITATION_STATUS_CLASSES[status]}`}>
+                              {status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {status === "pending" && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <Button variant="ghost" size="icon" className="text-white/70 hover:bg-white/10 hover:text-white">
+                                    <MoreHorizontal className="h-4 w-4" />
+                                  </Button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="end">
+                                  <DropdownMenuItem onClick={() => copyInvitationLink(invitation.token)}>
+                                    <Copy className="mr-2 h-4 w-4" /> Copy link
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem asChild>
+                                    <a href={invitationMailto(invitation.email, invitation.role, invitation.token)}>
+                                      <Mail className="mr-2 h-4 w-4" /> Email again
+                                    </a>
+                                  </DropdownMenuItem>
+                                  <DropdownMenuItem
+                                    onClick={() => revokeMutation.mutate(invitation.id)}
+                                    className="text-destructive focus:text-destructive"
+                                  >
+                                    <X className="mr-2 h-4 w-4" /> Revoke
+                                  </DropdownMenuItem>
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <TillsCard />
+
+        <PharmacyDetailsCard />
+
+        <DiscountLimitsCard />
+      </div>
+
+      <InviteStaffDialog open={inviteOpen} onOpenChange={setInviteOpen} />
+
+      <AlertDialog open={Boolean(deactivateTarget)} onOpenChange={(open) => !open && setDeactivateTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Deactivate {deactivateTarget?.full_name}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              They will be signed out and can no longer sign in or make sales. Their sales and stock history stay as
+              they are, and you can reactivate the account later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep active</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() =>
+                deactivateTarget && accessMutation.mutate({ profileId: deactivateTarget.id, active: false })
+              }
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Deactivate
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+};
+
+interface InviteStaffDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const InviteStaffDialog = ({ open, onOpenChange }: InviteStaffDialogProps) => {
+  const queryClient = useQueryClient();
+  const [issued, setIssued] = useState<{ email: string; role: UserRole; token: string } | null>(null);
+
+  const form = useForm<InviteFormValues>({
+    resolver: zodResolver(inviteFormSchema),
+    defaultValues: { email: "", fullName: "", role: "cashier" },
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (values: InviteFormValues) => {
+      const { data, error } = await supabase.rpc("invite_staff", {
+        p_email: values.email,
+        p_role: values.role,
+        p_full_name: values.fullName?.trim() || null,
+      });
+      if (error) throw error;
+      return { email: values.email.trim().toLowerCase(), role: values.role, token: data };
+    },
+    onSuccess: (invitation) => {
+      toast.success("Invitation created");
+      setIssued(invitation);
+      queryClient.invalidateQueries({ queryKey: ["staff", "invitations"] });
+    },
+    onError: (error) => {
+      console.error("Failed to invite staff", error);
+      toast.error(error instanceof Error ? error.message : "Failed to invite staff");
+    },
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      form.reset({ email: "", fullName: "", role: "cashier" });
+      setIssued(null);
+    }
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+        <DialogHeader>
+          <DialogTitle>Invite staff</DialogTitle>
+          <DialogDescription>
+            The role is stored with the invitation and applied when they sign up through the link. Links expire after 7
+            days.
+          </DialogDescription>
+        </DialogHeader>
+
+        {issued ? (
+          <div className="space-y-4">
+            <p className="text-sm text-white/80">
+              Send this link to <span className="font-semibold">{issued.email}</span>. It signs them up as{" "}
+              {ROLE_LABELS[issued.role]}.
+            </p>
+            <Input readOnly value={invitationLink(issued.token)} onFocus={(event) => event.target.select()} />
+            <div className="flex flex-wrap justify-end gap-3">
+              <Button
+                variant="outline"
+                onClick={() => copyInvitationLink(issued.token)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                <Copy className="mr-2 h-4 w-4" /> Copy link
+              </Button>
+              <Button asChild className="bg-primary text-primary-foreground">
+                <a href={invitationMailto(issued.email, issued.role, issued.token)}>
+                  <Mail className="mr-2 h-4 w-4" /> Send email
+                </a>
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((values) => inviteMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="email"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Email</FormLabel>
+                    <FormControl>
+                      <Input type="email" placeholder="staff@example.com" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <div className="grid gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="fullName"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Full name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="role"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Role</FormLabel>
+                      <Select value={field.value} onValueChange={field.onChange}>
+                        <FormControl>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {USER_ROLES.map((role) => (
+                            <SelectItem key={role} value={role}>
+                              {ROLE_LABELS[role]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+              <div className="flex justify-end gap-3">
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => handleOpenChange(false)}
+                  className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                >
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={inviteMutation.isPending} className="bg-primary text-primary-foreground">
+                  {inviteMutation.isPending ? (
+                    <span className="flex items-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" /> Inviting
+                    </span>
+                  ) : (
+                    "Create invitation"
+                  )}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+// Shared counter terminals. Registering signs this browser out of the admin's
+// account and into the till's own cashier account, locked until a member of
+// staff unlocks it with their PIN.
+const TillsCard = () => {
+  const queryClient = useQueryClient();
+  const { till: thisTill, registerDevice, forgetDevice } = useTill();
+  const [registerOpen, setRegisterOpen] = useState(false);
+  const [tillName, setTillName] = useState("");
+  const [tillEmail, setTillEmail] = useState("");
+  const [tillPassword, setTillPassword] = useState("");
+  const [autoLockDraft, setAutoLockDraft] = useState<string | null>(null);
+
+  const { data: tills = [], isLoading } = useQuery({ queryKey: ["tills"], queryFn: fetchTills });
+  const { data: settings } = useQuery({ queryKey: ["settings"], queryFn: fetchSettings });
+
+  const autoLockMinutes = autoLockDraft ?? String(settings?.till_auto_lock_minutes ?? DEFAULT_TILL_AUTO_LOCK_MINUTES);
+
+  // This browser is signed in as the till account, which nobody works as, so
+  // it is signed out along with the registration
+  const leaveTill = async () => {
+    await forgetDevice();
+    await supabase.auth.signOut();
+  };
+
+  const registerMutation = useMutation({
+    mutationFn: async ({ name, email, password }: { name: string; email: string; password: string }) => {
+      const { data, error } = await supabase.rpc("register_till", { p_name: name, p_account_email: email });
+      if (error) throw error;
+
+      // The till is retired again if its account can't take over this browser,
+      // so it isn't left registered with no terminal
+      const { error: signInError } = await supabase.auth.signInWithPassword({ email: email.trim(), password });
+      if (signInError) {
+        await supabase.rpc("retire_till", { p_till_id: data });
+        throw new Error("The till account couldn't sign in. Check its password and try again.");
+      }
+
+      return { id: data, name: name.trim() };
+    },
+    onSuccess: (registered) => {
+      toast.success(`${registered.name} registered. Staff unlock it with their PIN.`);
+      setRegisterOpen(false);
+      setTillName("");
+      setTillEmail("");
+      setTillPassword("");
+      queryClient.invalidateQueries({ queryKey: ["tills"] });
+      registerDevice(registered);
+    },
+    onError: (error) => {
+      console.error("Failed to register till", error);
+      toast.error(error instanceof Error ? error.message : "Failed to register till");
+    },
+  });
+
+  const retireMutation = useMutation({
+    mutationFn: async (tillId: string) => {
+      const { error } = await supabase.rpc("retire_till", { p_till_id: tillId });
+      if (error) throw error;
+    },
+    onSuccess: (_data, tillId) => {
+      toast.success("Till retired");
+      queryClient.invalidateQueries({ queryKey: ["tills"] });
+      if (thisTill?.id === tillId) leaveTill();
+    },
+    onError: (error) => {
+      console.error("Failed to retire till", error);
+      toast.error(error instanceof Error ? error.message : "Failed to retire till");
+    },
+  });
+
+  const autoLockMutation = useMutation({
+    mutationFn: async (minutes: number) => {
+      const { error } = await supabase
+        .from("pharmacy_settings")
+        .update({ till_auto_lock_minutes: minutes })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Auto-lock updated");
+      setAutoLockDraft(null);
+      queryClient.invalidateQueries({ queryKey: ["settings"] });
+    },
+    onError: (error) => {
+      console.error("Failed to update auto-lock", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update auto-lock");
+    },
+  });
+
+  const handleAutoLockSave = () => {
+    const minutes = Number(autoLockMinutes);
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > 120) {
+      toast.error("Auto-lock must be between 1 and 120 minutes");
+      return;
+    }
+    autoLockMutation.mutate(minutes);
+  };
+
+  return (
+    <Card className="glass-panel border-primary/30">
+      <CardHeader className="space-y-1">
+        <CardTitle className="flex flex-wrap items-center gap-3 text-white">
+          <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+            <Monitor className="h-5 w-5" />
+          </span>
+          <div>
+            <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Shared counters</span>
+            <span className="text-lg font-semibold">Tills</span>
+          </div>
+          <div className="ml-auto">
+            {thisTill ? (
+              <Button
+                variant="outline"
+                onClick={() => leaveTill()}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                Stop using this device as a till
+              </Button>
+            ) : (
+              <Button onClick={() => setRegisterOpen(true)} className="frosted-button">
+                <Monitor className="mr-2 h-4 w-4" /> Use this device as a till
+              </Button>
+            )}
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="space-y-2">
+            <Label htmlFor="autoLock">Lock after inactivity (minutes)</Label>
+            <Input
+              id="autoLock"
+              type="number"
+              min={1}
+              max={120}
+              value={autoLockMinutes}
+              onChange={(event) => setAutoLockDraft(event.target.value)}
+              className="w-40"
+            />
+          </div>
+          <Button
+            variant="outline"
+            onClick={handleAutoLockSave}
+            disabled={autoLockDraft === null || autoLockMutation.isPending}
+            className="border-white/20 bg-transparent text-white hover:bg-white/10"
+          >
+            Save
+          </Button>
+        </div>
+
+        <div className="glass-panel overflow-x-auto border border-primary/10">
+          <Table>
+            <TableHeader>
+              <TableRow className="bg-primary/5">
+                <TableHead>Till</TableHead>
+                <TableHead>Registered</TableHead>
+                <TableHead className="w-[120px]" />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {isLoading ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="py-6 text-center text-muted-foreground">
+                    <div className="flex items-center justify-center gap-2">
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                      Loading tills...
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ) : tills.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={3} className="py-6 text-center text-muted-foreground">
+                    No tills registered. Open this page on the counter terminal to set one up.
+                  </TableCell>
+                </TableRow>
+              ) : (
+                tills.map((till) => (
+                  <TableRow key={till.id}>
+                    <TableCell className="font-medium">
+                      {till.name}
+                      {thisTill?.id === till.id && (
+                        <Badge variant="secondary" className="ml-2 bg-primary/20 text-primary">
+                          This device
+                        </Badge>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(till.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => retireMutation.mutate(till.id)}
+                        disabled={retireMutation.isPending}
+                        className="text-destructive hover:bg-destructive/10 hover:text-destructive"
+                      >
+                        Retire
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      </CardContent>
+
+      <Dialog open={registerOpen} onOpenChange={setRegisterOpen}>
+        <DialogContent className="max-w-xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+          <DialogHeader>
+            <DialogTitle>Use this device as a till</DialogTitle>
+            <DialogDescription>
+              Invite a cashier account for the till first and set its password. This browser signs out of your account,
+              signs in as the till and locks straight away. Staff unlock it with the PIN they set in My profile, and
+              everything they do is recorded against them.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              registerMutation.mutate({ name: tillName, email: tillEmail, password: tillPassword });
+            }}
+            className="space-y-4"
+          >
+            <div className="space-y-2">
+              <Label htmlFor="tillName">Till name</Label>
+              <Input
+                id="tillName"
+                placeholder="Front counter"
+                value={tillName}
+                onChange={(event) => setTillName(event.target.value)}
+                required
+              />
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="tillEmail">Till account email</Label>
+                <Input
+                  id="tillEmail"
+                  type="email"
+                  placeholder="till@example.com"
+                  value={tillEmail}
+                  onChange={(event) => setTillEmail(event.target.value)}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tillPassword">Till account password</Label>
+                <Input
+                  id="tillPassword"
+                  type="password"
+                  autoComplete="off"
+                  value={tillPassword}
+                  onChange={(event) => setTillPassword(event.target.value)}
+                  required
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-3">
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setRegisterOpen(false)}
+                className="border-white/20 bg-transparent text-white hover:bg-white/10"
+              >
+                Cancel
+              </Button>
+              <Button type="submit" className="bg-primary text-primary-foreground" disabled={registerMutation.isPending}>
+                {registerMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Register till
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+// Printed at the top of receipts and on the letterhead of every printed
+// document.
+const PharmacyDetailsCard = () => {
+  const queryClient = useQueryClient();
+  const { data: settings } = useQuery({ queryKey: ["settings"], queryFn: fetchSettings });
+
+  const form = useForm<PharmacyDetailsValues>({
+    resolver: zodResolver(pharmacyDetailsSchema),
+    defaultValues: {
+      pharmacyName: "",
+      pharmacyAddress: "",
+      pharmacyPhone: "",
+      kraPin: "",
+      ppbLicenceNumber: "",
+      receiptFooter: "",
+      receiptWidth: "80",
+    },
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset({
+        pharmacyName: settings.pharmacy_name,
+        pharmacyAddress: settings.pharmacy_address ?? "",
+        pharmacyPhone: settings.pharmacy_phone ?? "",
+        kraPin: settings.kra_pin ?? "",
+        ppbLicenceNumber: settings.ppb_licence_number ?? "",
+        receiptFooter: settings.receipt_footer ?? "",
+        receiptWidth: String(settings.receipt_width) as PharmacyDetailsValues["receiptWidth"],
+      });
+    }
+  }, [settings, form]);
+
+  const detailsMutation = useMutation({
+    mutationFn: async (values: PharmacyDetailsValues) => {
+      const { error } = await supabase
+        .from("pharmacy_settings")
+        .update({
+          pharmacy_name: values.pharmacyName,
+          pharmacy_address: values.pharmacyAddress || null,
+          pharmacy_phone: values.pharmacyPhone || null,
+          kra_pin: values.kraPin?.toUpperCase() || null,
+          ppb_licence_number: values.ppbLicenceNumber || null,
+          receipt_footer: values.receiptFooter || null,
+          receipt_width: Number(values.receiptWidth),
+        })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Pharmacy details updated");
+      queryClient.invalidateQueries({ queryKey: ["settings"] });
+    },
+    onError: (error) => {
+      console.error("Failed to update pharmacy details", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update pharmacy details");
+    },
+  });
+
+  return (
+    <Card className="glass-panel border-primary/30">
+      <CardHeader className="space-y-1">
+        <CardTitle className="flex items-center gap-3 text-white">
+          <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+            <Store className="h-5 w-5" />
+          </span>
+          <div>
+            <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Receipts</span>
+            <span className="text-lg font-semibold">Pharmacy details</span>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => detailsMutation.mutate(values))} className="space-y-4">
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="pharmacyName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Pharmacy name</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pharmacyPhone"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Phone</FormLabel>
+                    <FormControl>
+                      <Input type="tel" placeholder="07XX XXX XXX" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pharmacyAddress"
+                render={({ field }) => (
+                  <FormItem className="sm:col-span-2">
+                    <FormLabel>Address</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} placeholder="Street, building and town" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="kraPin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>KRA PIN</FormLabel>
+                    <FormControl>
+                      <Input className="uppercase" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="ppbLicenceNumber"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>PPB licence number</FormLabel>
+                    <FormControl>
+                      <Input {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="receiptFooter"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Receipt footer</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="receiptWidth"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Receipt printer paper</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {RECEIPT_WIDTHS.map((width) => (
+                          <SelectItem key={width} value={String(width)}>
+                            {width}mm roll
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                className="bg-primary text-primary-foreground"
+                disabled={detailsMutation.isPending || !form.formState.isDirty}
+              >
+                {detailsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save details
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+// Admins can discount without limit; the other roles are capped per line,
+// counting the line's share of any basket discount.
+const DiscountLimitsCard = () => {
+  const queryClient = useQueryClient();
+  const { data: settings } = useQuery({ queryKey: ["settings"], queryFn: fetchSettings });
+
+  const form = useForm<DiscountLimitsValues>({
+    resolver: zodResolver(discountLimitsSchema),
+    defaultValues: { cashierMaxPercent: 0, pharmacistMaxPercent: 0 },
+  });
+
+  useEffect(() => {
+    if (settings) {
+      form.reset({
+        cashierMaxPercent: Number(settings.cashier_max_discount_percent),
+        pharmacistMaxPercent: Number(settings.pharmacist_max_discount_percent),
+      });
+    }
+  }, [settings, form]);
+
+  const limitsMutation = useMutation({
+    mutationFn: async (values: DiscountLimitsValues) => {
+      const { error } = await supabase
+        .from("pharmacy_settings")
+        .update({
+          cashier_max_discount_percent: values.cashierMaxPercent,
+          pharmacist_max_discount_percent: values.pharmacistMaxPercent,
+        })
+        .eq("id", true);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Discount limits updated");
+      queryClient.invalidateQueries({ queryKey: ["settings"] });
+    },
+    onError: (error) => {
+      console.error("Failed to update discount limits", error);
+      toast.error(error instanceof Error ? error.message : "Failed to update discount limits");
+    },
+  });
+
+  return (
+    <Card className="glass-panel border-primary/30">
+      <CardHeader className="space-y-1">
+        <CardTitle className="flex items-center gap-3 text-white">
+          <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+            <BadgePercent className="h-5 w-5" />
+          </span>
+          <div>
+            <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Pricing</span>
+            <span className="text-lg font-semibold">Discount limits</span>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit((values) => limitsMutation.mutate(values))} className="space-y-4">
+            <p className="text-sm text-muted-foreground">
+              The deepest discount each role can give on an item at the till, including price overrides. Admins
+              are not limited.
+            </p>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <FormField
+                control={form.control}
+                name="cashierMaxPercent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{ROLE_LABELS.cashier} limit (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={100} step="0.5" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="pharmacistMaxPercent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{ROLE_LABELS.pharmacist} limit (%)</FormLabel>
+                    <FormControl>
+                      <Input type="number" min={0} max={100} step="0.5" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+            <div className="flex justify-end">
+              <Button
+                type="submit"
+                className="bg-primary text-primary-foreground"
+                disabled={limitsMutation.isPending || !form.formState.isDirty}
+              >
+                {limitsMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save limits
+              </Button>
+            </div>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default Staff;
@@ -0,0 +1,485 @@
+import { useMemo, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { MOVEMENT_TYPES, MOVEMENT_TYPE_LABELS, MovementType, signedMovementQuantity } from "@/lib/stock";
+import { ArrowLeftRight, Loader2, Scale } from "lucide-react";
+
+type MovementRecord = Pick<
+  Tables<"stock_movements">,
+  "id" | "medicine_id" | "movement_type" | "quantity" | "reason" | "reference_id" | "created_by" | "created_at"
+> & {
+  medicines?: { name: string } | null;
+  medicine_batches?: { batch_number: string } | null;
+  profiles?: { full_name: string } | null;
+  running_balance?: number;
+};
+
+type LedgerBalance = Tables<"stock_ledger_balances">;
+
+type MovementFilters = {
+  medicineId: string;
+  movementType: string;
+  userId: string;
+  dateFrom: string;
+  dateTo: string;
+};
+
+const ALL = "all";
+
+const MOVEMENT_SELECT = `id, medicine_id, movement_type, quantity, reason, reference_id, created_by, created_at,
+  medicines ( name ), medicine_batches ( batch_number ), profiles ( full_name )`;
+
+// Date inputs are local calendar days; these bound them in local time
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`);
+
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999`);
+
+const matchesFilters = (movement: MovementRecord, filters: MovementFilters) => {
+  const createdAt = new Date(movement.created_at ?? 0);
+  if (filters.movementType !== ALL && movement.movement_type !== filters.movementType) return false;
+  if (filters.userId !== ALL && movement.created_by !== filters.userId) return false;
+  if (filters.dateFrom && createdAt < startOfDay(filters.dateFrom)) return false;
+  if (filters.dateTo && createdAt > endOfDay(filters.dateTo)) return false;
+  return true;
+};
+
+// With a medicine selected the full history is loaded so the running balance
+// starts from the first movement; other filters are then applied locally.
+const fetchMovements = async (filters: MovementFilters): Promise<MovementRecord[]> => {
+  if (filters.medicineId !== ALL) {
+    const { data, error } = await supabase
+      .from("stock_movements")
+      .select(MOVEMENT_SELECT)
+      .eq("medicine_id", filters.medicineId)
+      .order("created_at", { ascending: true });
+
+    if (error) throw error;
+
+    let balance = 0;
+    const withBalance = ((data as MovementRecord[]) ?? []).map((movement) => {
+      balance += signedMovementQuantity(movement.movement_type, movement.quantity);
+      return { ...movement, running_balance: balance };
+    });
+
+    return withBalance.filter((movement) => matchesFilters(movement, filters)).reverse();
+  }
+
+  let query = supabase
+    .from("stock_movements")
+    .select(MOVEMENT_SELECT)
+    .order("created_at", { ascending: false })
+    .limit(500);
+
+  if (filters.movementType !== ALL) query = query.eq("movement_type", filters.movementType);
+  if (filters.userId !== ALL) query = query.eq("created_by", filters.userId);
+  if (filters.dateFrom) query = query.gte("created_at", startOfDay(filters.dateFrom).toISOString());
+  if (filters.dateTo) query = query.lte("created_at", endOfDay(filters.dateTo).toISOString());
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return (data as MovementRecord[]) ?? [];
+};
+
+const fetchBalances = async (): Promise<LedgerBalance[]> => {
+  const { data, error } = await supabase
+    .from("stock_ledger_balances")
+    .select("*")
+    .order("medicine_name");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchMedicineOptions = async () => {
+  const { data, error } = await supabase.from("medicines").select("id, name").order("name");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const fetchStaff = async () => {
+  const { data, error } = await supabase.from("profiles").select("id, full_name").order("full_name");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const movementBadgeClass: Record<MovementType, string> = {
+  in: "bg-success/20 text-success",
+  out: "bg-primary/20 text-primary",
+  adjustment: "bg-warning/20 text-warning",
+  expired: "bg-destructive/20 text-destructive",
+};
+
+const StockMovements = () => {
+  const [filters, setFilters] = useState<MovementFilters>({
+    medicineId: ALL,
+    movementType: ALL,
+    userId: ALL,
+    dateFrom: "",
+    dateTo: "",
+  });
+  const [discrepanciesOnly, setDiscrepanciesOnly] = useState(false);
+
+  const updateFilter = (key: keyof MovementFilters, value: string) =>
+    setFilters((prev) => ({ ...prev, [key]: value }));
+
+  const {
+    data: movements = [],
+    isLoading: loadingMovements,
+    isError: movementsError,
+    error: movementsErrorDetails,
+  } = useQuery({ queryKey: ["stock-movements", filters], queryFn: () => fetchMovements(filters) });
+
+  const {
+    data: balances = [],
+    isLoading: loadingBalances,
+    isError: balancesError,
+    error: balancesErrorDetails,
+  } = useQuery({ queryKey: ["stock-movements", "balances"], queryFn: fetchBalances });
+
+  const { data: medicineOptions = [] } = useQuery({
+    queryKey: ["stock-movements", "medicines"],
+    queryFn: fetchMedicineOptions,
+  });
+
+  const { data: staff = [] } = useQuery({ queryKey: ["staff", "options"], queryFn: fetchStaff });
+
+  const visibleBalances = useMemo(
+    () =>
+      discrepanciesOnly
+        ? balances.filter((balance) => balance.ledger_quantity !== balance.on_hand_quantity)
+        : balances,
+    [balances, discrepanciesOnly],
+  );
+
+  const discrepancyCount = useMemo(
+    () => balances.filter((balance) => balance.ledger_quantity !== balance.on_hand_quantity).length,
+    [balances],
+  );
+
+  const showRunningBalance = filters.medicineId !== ALL;
+
+  const formatDataError = (error: unknown, fallback: string) => {
+    if (!error) return fallback;
+    const message = (error as Error).message ?? fallback;
+    if (message.toLowerCase().includes("schema cache")) {
+      return `${fallback} Apply the latest migrations in supabase/migrations and redeploy.`;
+    }
+    return message;
+  };
+
+  const dataErrors = [
+    movementsError ? formatDataError(movementsErrorDetails, "Stock movements could not be loaded.") : null,
+    balancesError ? formatDataError(balancesErrorDetails, "Ledger balances could not be loaded.") : null,
+  ].filter(Boolean) as string[];
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Stock Control</span>
+          <h1 className="text-4xl font-semibold leading-tight text-white">Stock Movement Ledger</h1>
+          <p className="max-w-2xl text-muted-foreground">
+            Trace every unit received, sold, adjusted or written off, and reconcile the ledger against on-hand stock.
+          </p>
+        </div>
+
+        {dataErrors.length > 0 && (
+          <div className="space-y-3">
+            {dataErrors.map((message, index) => (
+              <Alert
+                key={index}
+                variant="destructive"
+                className="border-destructive/40 bg-destructive/10 text-destructive-foreground"
+              >
+                <AlertTitle>Data source issue</AlertTitle>
+                <AlertDescription>{message}</AlertDescription>
+              </Alert>
+            ))}
+          </div>
+        )}
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex flex-col gap-4 text-white md:flex-row md:items-center md:justify-between">
+              <div className="flex items-center gap-3">
+                <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                  <Scale className="h-5 w-5" />
+                </span>
+                <div>
+                  <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Reconciliation</span>
+                  <span className="text-lg font-semibold">Ledger vs On Hand</span>
+                </div>
+              </div>
+              <div className="flex items-center gap-4 text-sm font-normal text-white/70">
+                {discrepancyCount > 0 && (
+                  <Badge variant="destructive" className="rounded-full px-3 py-1 text-xs">
+                    {discrepancyCount} discrepanc{discrepancyCount === 1 ? "y" : "ies"}
+                  </Badge>
+                )}
+                <label className="flex items-center gap-2">
+                  <Checkbox
+                    checked={discrepanciesOnly}
+                    onCheckedChange={(checked) => setDiscrepanciesOnly(Boolean(checked))}
+                  />
+                  Discrepancies only
+                </label>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="glass-panel max-h-[420px] overflow-auto border border-primary/10">
+              <Table className="min-w-[760px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>Medicine</TableHead>
+                    <TableHead className="text-right">On hand</TableHead>
+                    <TableHead className="text-right">Ledger</TableHead>
+                    <TableHead className="text-right">Difference</TableHead>
+                    <TableHead className="text-right">Movements</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="w-[120px]" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingBalances ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading balances...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : visibleBalances.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={7} className="py-6 text-center text-muted-foreground">
+                        {discrepanciesOnly ? "Ledger and on-hand stock agree for every medicine" : "No medicines found"}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    visibleBalances.map((balance) => {
+                      const difference = (balance.ledger_quantity ?? 0) - (balance.on_hand_quantity ?? 0);
+
+                      return (
+                        <TableRow key={balance.medicine_id}>
+                          <TableCell className="font-medium">{balance.medicine_name}</TableCell>
+                          <TableCell className="text-right">{balance.on_hand_quantity}</TableCell>
+                          <TableCell className="text-right">{balance.ledger_quantity}</TableCell>
+                          <TableCell className={`text-right font-semibold ${difference !== 0 ? "text-destructive" : ""}`}>
+                            {difference > 0 ? `+${difference}` : difference}
+                          </TableCell>
+                          <TableCell className="text-right">{balance.movement_count}</TableCell>
+                          <TableCell>
+                            {difference === 0 ? (
+                              <Badge variant="secondary" className="bg-success/20 text-success">
+                                Balanced
+                              </Badge>
+                            ) : (
+                              <Badge variant="destructive">Discrepancy</Badge>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => balance.medicine_id && updateFilter("medicineId", balance.medicine_id)}
+                              className="text-primary hover:text-primary"
+                            >
+                              View ledger
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-panel border-primary/30">
+          <CardHeader className="space-y-1">
+            <CardTitle className="flex items-center gap-3 text-white">
+              <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                <ArrowLeftRight className="h-5 w-5" />
+              </span>
+              <div>
+                <span className="block text-sm uppercase tracking-[0.2em] text-white/60">Ledger</span>
+                <span className="text-lg font-semibold">Stock Movements</span>
+              </div>
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-6">
+              <div className="space-y-2 lg:col-span-2">
+                <label className="text-sm font-medium text-white/80">Medicine</label>
+                <Select value={filters.medicineId} onValueChange={(value) => updateFilter("medicineId", value)}>
+                  <SelectTrigger className="glass-panel border-primary/10">
+                    <SelectValue placeholder="All medicines" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All medicines</SelectItem>
+                    {medicineOptions.map((medicine) => (
+                      <SelectItem key={medicine.id} value={medicine.id}>
+                        {medicine.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Type</label>
+                <Select value={filters.movementType} onValueChange={(value) => updateFilter("movementType", value)}>
+                  <SelectTrigger className="glass-panel border-primary/10">
+                    <SelectValue placeholder="All types" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All types</SelectItem>
+                    {MOVEMENT_TYPES.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {MOVEMENT_TYPE_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">User</label>
+                <Select value={filters.userId} onValueChange={(value) => updateFilter("userId", value)}>
+                  <SelectTrigger className="glass-panel border-primary/10">
+                    <SelectValue placeholder="All staff" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL}>All staff</SelectItem>
+                    {staff.map((member) => (
+                      <SelectItem key={member.id} value={member.id}>
+                        {member.full_name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">From</label>
+                <Input
+                  type="date"
+                  value={filters.dateFrom}
+                  onChange={(event) => updateFilter("dateFrom", event.target.value)}
+                  className="glass-panel border-primary/10"
+                />
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">To</label>
+                <Input
+                  type="date"
+                  value={filters.dateTo}
+                  onChange={(event) => updateFilter("dateTo", event.target.value)}
+                  className="glass-panel border-primary/10"
+                />
+              </div>
+            </div>
+
+            <div className="glass-panel overflow-x-auto border border-primary/10">
+              <Table className="min-w-[880px]">
+                <TableHeader>
+                  <TableRow className="bg-primary/5">
+                    <TableHead>Date</TableHead>
+                    <TableHead>Medicine</TableHead>
+                    <TableHead>Batch</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead className="text-right">Quantity</TableHead>
+                    {showRunningBalance && <TableHead className="text-right">Balance</TableHead>}
+                    <TableHead>Reason</TableHead>
+                    <TableHead>User</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {loadingMovements ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="py-6 text-center text-muted-foreground">
+                        <div className="flex items-center justify-center gap-2">
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                          Loading movements...
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ) : movements.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={8} className="py-6 text-center text-muted-foreground">
+                        No movements match these filters
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    movements.map((movement) => {
+                      const signed = signedMovementQuantity(movement.movement_type, movement.quantity);
+
+                      return (
+                        <TableRow key={movement.id}>
+                          <TableCell className="whitespace-nowrap">
+                            {movement.created_at ? new Date(movement.created_at).toLocaleString() : ""}
+                          </TableCell>
+                          <TableCell className="font-medium">{movement.medicines?.name ?? "—"}</TableCell>
+                          <TableCell className="font-mono text-sm">
+                            {movement.medicine_batches?.batch_number ?? "—"}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant="secondary"
+                              className={`uppercase tracking-wide ${
+                                movementBadgeClass[movement.movement_type as MovementType] ?? ""
+                              }`}
+                            >
+                              {MOVEMENT_TYPE_LABELS[movement.movement_type as MovementType] ?? movement.movement_type}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className={`text-right font-semibold ${signed < 0 ? "text-destructive" : "text-success"}`}>
+                            {signed > 0 ? `+${signed}` : signed}
+                          </TableCell>
+                          {showRunningBalance && (
+                            <TableCell className="text-right">{movement.running_balance}</TableCell>
+                          )}
+                          <TableCell className="text-muted-foreground">{movement.reason ?? "—"}</TableCell>
+                          <TableCell>{movement.profiles?.full_name ?? "System"}</TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default StockMovements;
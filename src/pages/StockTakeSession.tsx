@@ -0,0 +1,389 @@
+import { useMemo, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useActingUser } from "@/hooks/use-till";
+import { MANAGER_ROLES, hasRole } from "@/lib/roles";
+import { toast } from "sonner";
+import { ArrowLeft, CheckCircle2, Loader2, Search } from "lucide-react";
+
+type StockTakeRecord = Tables<"stock_takes"> & {
+  medicine_categories?: { name: string } | null;
+};
+
+type StockTakeLine = Tables<"stock_take_lines"> & {
+  medicines?: { name: string; generic_name: string | null } | null;
+  medicine_batches?: { batch_number: string; expiry_date: string } | null;
+};
+
+const fetchStockTake = async (id: string): Promise<StockTakeRecord> => {
+  const { data, error } = await supabase
+    .from("stock_takes")
+    .select("*, medicine_categories ( name )")
+    .eq("id", id)
+    .single();
+
+  if (error) throw error;
+  return data as StockTakeRecord;
+};
+
+const fetchLines = async (id: string): Promise<StockTakeLine[]> => {
+  const { data, error } = await supabase
+    .from("stock_take_lines")
+    .select("*, medicines ( name, generic_name ), medicine_batches ( batch_number, expiry_date )")
+    .eq("stock_take_id", id);
+
+  if (error) throw error;
+  return ((data as StockTakeLine[]) ?? []).sort((a, b) =>
+    (a.medicines?.name ?? "").localeCompare(b.medicines?.name ?? ""),
+  );
+};
+
+const formatKes = (value: number) =>
+  `KES ${value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const StockTakeSession = () => {
+  const { id = "" } = useParams();
+  const queryClient = useQueryClient();
+  const actingUser = useActingUser();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [uncountedOnly, setUncountedOnly] = useState(false);
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [confirmPost, setConfirmPost] = useState(false);
+
+  const {
+    data: stockTake,
+    isLoading: loadingStockTake,
+    isError: stockTakeError,
+    error: stockTakeErrorDetails,
+  } = useQuery({ queryKey: ["stock-takes", id], queryFn: () => fetchStockTake(id), enabled: Boolean(id) });
+
+  const { data: lines = [], isLoading: loadingLines } = useQuery({
+    queryKey: ["stock-takes", id, "lines"],
+    queryFn: () => fetchLines(id),
+    enabled: Boolean(id),
+  });
+
+  const isOpen = stockTake?.status === "open";
+  // Posting writes variances to the ledger; anyone can count
+  const canPost = hasRole(actingUser, MANAGER_ROLES);
+
+  const countMutation = useMutation({
+    mutationFn: async ({ lineId, counted }: { lineId: string; counted: number | null }) => {
+      const { error } = await supabase.rpc("record_stock_count", {
+        p_line_id: lineId,
+        p_counted_quantity: counted,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_data, { lineId }) => {
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[lineId];
+        return next;
+      });
+      queryClient.invalidateQueries({ queryKey: ["stock-takes", id, "lines"] });
+    },
+    onError: (error) => {
+      console.error("Failed to save count", error);
+      toast.error(error instanceof Error ? error.message : "Failed to save count");
+    },
+  });
+
+  const postMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("post_stock_take", { p_stock_take_id: id });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (adjustments) => {
+      toast.success(`Stock take posted with ${adjustments ?? 0} adjustment${adjustments === 1 ? "" : "s"}`);
+      setConfirmPost(false);
+      queryClient.invalidateQueries({ queryKey: ["stock-takes"] });
+      queryClient.invalidateQueries({ queryKey: ["inventory"] });
+      queryClient.invalidateQueries({ queryKey: ["medicines"] });
+    },
+    onError: (error) => {
+      console.error("Failed to post stock take", error);
+      toast.error(error instanceof Error ? error.message : "Failed to post stock take");
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase.rpc("cancel_stock_take", { p_stock_take_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Stock take cancelled");
+      queryClient.invalidateQueries({ queryKey: ["stock-takes"] });
+    },
+    onError: (error) => {
+      console.error("Failed to cancel stock take", error);
+      toast.error(error instanceof Error ? error.message : "Failed to cancel stock take");
+    },
+  });
+
+  const saveDraft = (line: StockTakeLine) => {
+    const draft = drafts[line.id];
+    if (draft === undefined) return;
+
+    const counted = draft.trim() === "" ? null : Number(draft);
+    if (counted !== null && (!Number.isInteger(counted) || counted < 0)) {
+      toast.error("Counted quantity must be a whole number");
+      return;
+    }
+    if (counted === line.counted_quantity) {
+      setDrafts((prev) => {
+        const next = { ...prev };
+        delete next[line.id];
+        return next;
+      });
+      return;
+    }
+
+    countMutation.mutate({ lineId: line.id, counted });
+  };
+
+  const visibleLines = useMemo(() => {
+    const target = searchTerm.toLowerCase();
+    return lines.filter((line) => {
+      if (uncountedOnly && line.counted_quantity !== null) return false;
+      if (!target) return true;
+      return (
+        (line.medicines?.name ?? "").toLowerCase().includes(target) ||
+        (line.medicines?.generic_name ?? "").toLowerCase().includes(target) ||
+        (line.medicine_batches?.batch_number ?? "").toLowerCase().includes(target)
+      );
+    });
+  }, [lines, searchTerm, uncountedOnly]);
+
+  const totals = useMemo(
+    () =>
+      lines.reduce(
+        (sum, line) => {
+          if (line.counted_quantity === null) return sum;
+          const variance = line.counted_quantity - line.system_quantity;
+          return {
+            counted: sum.counted + 1,
+            varianceUnits: sum.varianceUnits + variance,
+            varianceValue: sum.varianceValue + variance * Number(line.unit_cost),
+          };
+        },
+        { counted: 0, varianceUnits: 0, varianceValue: 0 },
+      ),
+    [lines],
+  );
+
+  const stockTakeErrorMessage = stockTakeError
+    ? ((stockTakeErrorDetails as Error)?.message ?? "We couldn't load this stock take.")
+    : null;
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="flex flex-col gap-6 lg:flex-row lg:items-end lg:justify-between">
+          <div className="space-y-2">
+            <Link to="/stock-takes" className="inline-flex items-center gap-2 text-sm text-white/60 hover:text-white">
+              <ArrowLeft className="h-4 w-4" /> All stock takes
+            </Link>
+            <h1 className="text-4xl font-semibold leading-tight text-white">
+              {stockTake?.take_number ?? "Stock take"}
+            </h1>
+            <p className="text-muted-foreground">
+              {stockTake?.medicine_categories?.name ?? "Whole store"}
+              {stockTake?.notes ? ` • ${stockTake.notes}` : ""}
+            </p>
+          </div>
+          {stockTake && (
+            <div className="flex flex-wrap items-center gap-3">
+              <Badge variant="secondary" className="px-3 py-1 uppercase tracking-wide">
+                {stockTake.status}
+              </Badge>
+              {isOpen && (
+                <>
+                  <Button
+                    variant="outline"
+                    disabled={cancelMutation.isPending}
+                    onClick={() => cancelMutation.mutate()}
+                    className="border-white/20 bg-transparent text-white hover:bg-white/10"
+                  >
+                    Cancel count
+                  </Button>
+                  {canPost && (
+                    <Button
+                      disabled={totals.counted === 0 || postMutation.isPending}
+                      onClick={() => setConfirmPost(true)}
+                      className="frosted-button"
+                    >
+                      <CheckCircle2 className="mr-2 h-4 w-4" /> Post count
+                    </Button>
+                  )}
+                </>
+              )}
+            </div>
+          )}
+        </div>
+
+        {stockTakeErrorMessage && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Stock take unavailable</AlertTitle>
+            <AlertDescription>{stockTakeErrorMessage}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-4 sm:grid-cols-3">
+          <div className="glass-panel border border-white/10 p-5">
+            <p className="text-xs uppercase tracking-[0.3em] text-white/50">Counted</p>
+            <p className="text-3xl font-black text-white">
+              {totals.counted}/{lines.length}
+            </p>
+          </div>
+          <div className="glass-panel border border-white/10 p-5">
+            <p className="text-xs uppercase tracking-[0.3em] text-white/50">Variance units</p>
+            <p className={`text-3xl font-black ${totals.varianceUnits < 0 ? "text-destructive" : "text-white"}`}>
+              {totals.varianceUnits > 0 ? `+${totals.varianceUnits}` : totals.varianceUnits}
+            </p>
+          </div>
+          <div className="glass-panel border border-white/10 p-5">
+            <p className="text-xs uppercase tracking-[0.3em] text-white/50">Variance value</p>
+            <p className={`text-3xl font-black ${totals.varianceValue < 0 ? "text-destructive" : "text-white"}`}>
+              {formatKes(totals.varianceValue)}
+            </p>
+          </div>
+        </div>
+
+        <div className="glass-panel flex flex-col gap-6 border border-white/10 p-6">
+          <div className="flex flex-col gap-4 md:flex-row md:items-center">
+            <div className="relative flex-1">
+              <Search className="pointer-events-none absolute left-4 top-1/2 h-5 w-5 -translate-y-1/2 text-white/40" />
+              <Input
+                placeholder="Search medicine or batch..."
+                value={searchTerm}
+                onChange={(event) => setSearchTerm(event.target.value)}
+                className="h-14 rounded-2xl border-white/10 bg-white/10 pl-12 text-base text-white placeholder:text-white/40"
+              />
+            </div>
+            <label className="flex items-center gap-3 text-sm text-white/70">
+              <Checkbox checked={uncountedOnly} onCheckedChange={(checked) => setUncountedOnly(Boolean(checked))} />
+              Uncounted only
+            </label>
+          </div>
+
+          {loadingStockTake || loadingLines ? (
+            <div className="flex items-center justify-center gap-3 py-12 text-white/60">
+              <Loader2 className="h-5 w-5 animate-spin" /> Loading count sheet...
+            </div>
+          ) : visibleLines.length === 0 ? (
+            <p className="py-12 text-center text-white/60">No lines match your filters.</p>
+          ) : (
+            <div className="grid gap-4 md:grid-cols-2">
+              {visibleLines.map((line) => {
+                const draft = drafts[line.id];
+                const value = draft ?? (line.counted_quantity === null ? "" : String(line.counted_quantity));
+                const variance = line.counted_quantity === null ? null : line.counted_quantity - line.system_quantity;
+
+                return (
+                  <div
+                    key={line.id}
+                    className={`rounded-2xl border p-5 transition ${
+                      variance === null
+                        ? "border-white/10 bg-white/5"
+                        : variance === 0
+                          ? "border-success/40 bg-success/5"
+                          : "border-warning/50 bg-warning/5"
+                    }`}
+                  >
+                    <div className="flex items-start justify-between gap-4">
+                      <div>
+                        <p className="text-lg font-semibold text-white">{line.medicines?.name}</p>
+                        <p className="font-mono text-sm text-white/60">
+                          {line.medicine_batches?.batch_number}
+                          {line.medicine_batches?.expiry_date &&
+                            ` • exp ${new Date(line.medicine_batches.expiry_date).toLocaleDateString()}`}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p className="text-xs uppercase tracking-widest text-white/50">System</p>
+                        <p className="text-2xl font-bold text-white">{line.system_quantity}</p>
+                      </div>
+                    </div>
+                    <div className="mt-4 flex items-end gap-4">
+                      <div className="flex-1 space-y-1">
+                        <label className="text-xs uppercase tracking-widest text-white/50">Counted</label>
+                        <Input
+                          type="number"
+                          inputMode="numeric"
+                          min={0}
+                          value={value}
+                          disabled={!isOpen}
+                          onChange={(event) => setDrafts((prev) => ({ ...prev, [line.id]: event.target.value }))}
+                          onBlur={() => saveDraft(line)}
+                          onKeyDown={(event) => event.key === "Enter" && event.currentTarget.blur()}
+                          className="h-14 rounded-xl border-white/10 bg-white/10 text-2xl font-semibold text-white"
+                        />
+                      </div>
+                      <div className="min-w-[120px] text-right">
+                        <p className="text-xs uppercase tracking-widest text-white/50">Variance</p>
+                        {variance === null ? (
+                          <p className="text-lg text-white/40">—</p>
+                        ) : (
+                          <>
+                            <p className={`text-lg font-semibold ${variance < 0 ? "text-destructive" : "text-white"}`}>
+                              {variance > 0 ? `+${variance}` : variance}
+                            </p>
+                            <p className="text-xs text-white/60">{formatKes(variance * Number(line.unit_cost))}</p>
+                          </>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AlertDialog open={confirmPost} onOpenChange={setConfirmPost}>
+        <AlertDialogContent className="border border-white/10 bg-background/95 text-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Post stock take</AlertDialogTitle>
+            <AlertDialogDescription className="text-white/60">
+              {totals.counted} of {lines.length} lines counted. Variances of {totals.varianceUnits} units (
+              {formatKes(totals.varianceValue)}) will be written to the stock ledger as adjustments. Uncounted lines are
+              left unchanged. This closes the count.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="border-white/20 bg-transparent text-white hover:bg-white/10">
+              Keep counting
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={() => postMutation.mutate()} className="bg-primary text-primary-foreground">
+              {postMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : "Post"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </DashboardLayout>
+  );
+};
+
+export default StockTakeSession;
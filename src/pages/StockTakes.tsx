@@ -0,0 +1,281 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+import { ClipboardList, History, Loader2 } from "lucide-react";
+
+type StockTakeSummary = Tables<"stock_takes"> & {
+  medicine_categories?: { name: string } | null;
+  opener?: { full_name: string } | null;
+  stock_take_lines: Pick<Tables<"stock_take_lines">, "system_quantity" | "counted_quantity" | "unit_cost">[];
+};
+
+const WHOLE_STORE = "all";
+
+const statusBadgeClass: Record<string, string> = {
+  open: "bg-primary/20 text-primary",
+  posted: "bg-success/20 text-success",
+  cancelled: "bg-white/10 text-white/60",
+};
+
+const fetchStockTakes = async (): Promise<StockTakeSummary[]> => {
+  const { data, error } = await supabase
+    .from("stock_takes")
+    .select(
+      `*, medicine_categories ( name ), opener:profiles!stock_takes_opened_by_fkey ( full_name ),
+      stock_take_lines ( system_quantity, counted_quantity, unit_cost )`,
+    )
+    .order("opened_at", { ascending: false });
+
+  if (error) throw error;
+  return (data as StockTakeSummary[]) ?? [];
+};
+
+const fetchCategories = async () => {
+  const { data, error } = await supabase.from("medicine_categories").select("id, name").order("name");
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+const summariseLines = (lines: StockTakeSummary["stock_take_lines"]) =>
+  lines.reduce(
+    (summary, line) => {
+      if (line.counted_quantity === null) return summary;
+      const variance = line.counted_quantity - line.system_quantity;
+      return {
+        counted: summary.counted + 1,
+        varianceValue: summary.varianceValue + variance * Number(line.unit_cost),
+      };
+    },
+    { counted: 0, varianceValue: 0 },
+  );
+
+const StockTakes = () => {
+  const navigate = useNavigate();
+  const queryClient = useQueryClient();
+  const [scope, setScope] = useState(WHOLE_STORE);
+  const [notes, setNotes] = useState("");
+
+  const {
+    data: stockTakes = [],
+    isLoading,
+    isError,
+    error: stockTakesError,
+  } = useQuery({ queryKey: ["stock-takes"], queryFn: fetchStockTakes });
+
+  const { data: categories = [] } = useQuery({ queryKey: ["inventory", "categories"], queryFn: fetchCategories });
+
+  const openMutation = useMutation({
+    mutationFn: async () => {
+      const { data, error } = await supabase.rpc("open_stock_take", {
+        p_category_id: scope === WHOLE_STORE ? null : scope,
+        p_notes: notes.trim() || null,
+      });
+
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (stockTakeId) => {
+      toast.success("Stock take opened");
+      setNotes("");
+      queryClient.invalidateQueries({ queryKey: ["stock-takes"] });
+      if (stockTakeId) navigate(`/stock-takes/${stockTakeId}`);
+    },
+    onError: (error) => {
+      console.error("Failed to open stock take", error);
+      toast.error(error instanceof Error ? error.message : "Failed to open stock take");
+    },
+  });
+
+  const getStockTakesErrorMessage = (error: unknown) => {
+    if (!error) return "We couldn't load stock takes.";
+    const message = (error as Error).message ?? "";
+    if (message.toLowerCase().includes("schema cache")) {
+      return "Supabase is missing the stock take tables. Apply the latest migrations and redeploy.";
+    }
+    return message;
+  };
+
+  const stockTakesErrorMessage = isError ? getStockTakesErrorMessage(stockTakesError) : null;
+
+  return (
+    <DashboardLayout>
+      <div className="relative mx-auto flex w-full max-w-7xl flex-col gap-8 px-4 pb-16 pt-10 lg:px-12">
+        <div className="space-y-2">
+          <span className="text-xs uppercase tracking-[0.3em] text-primary/70">Stock Control</span>
+          <h1 className="text-4xl font-semibold leading-tight text-white">Stock Takes</h1>
+          <p className="max-w-2xl text-muted-foreground">
+            Run physical counts for the whole store or a single category, review variances and post them to the ledger.
+          </p>
+        </div>
+
+        {stockTakesErrorMessage && (
+          <Alert variant="destructive" className="border-destructive/40 bg-destructive/10 text-destructive-foreground">
+            <AlertTitle>Stock takes unavailable</AlertTitle>
+            <AlertDescription>{stockTakesErrorMessage}</AlertDescription>
+          </Alert>
+        )}
+
+        <div className="grid gap-6 lg:grid-cols-[1fr,1.8fr] fade-grid">
+          <Card className="glass-panel border-primary/30">
+            <CardHeader className="space-y-1">
+              <CardTitle className="flex items-center gap-3 text-white">
+                <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                  <ClipboardList className="h-5 w-5" />
+                </span>
+                <div>
+                  <span className="block text-sm uppercase tracking-[0.2em] text-white/60">New Count</span>
+                  <span className="text-lg font-semibold">Open Session</span>
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-5">
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Scope</label>
+                <Select value={scope} onValueChange={setScope}>
+                  <SelectTrigger className="glass-panel border-primary/10">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={WHOLE_STORE}>Whole store</SelectItem>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-white/80">Notes</label>
+                <Input
+                  placeholder="e.g. October month-end count"
+                  value={notes}
+                  onChange={(event) => setNotes(event.target.value)}
+                  className="glass-panel border-primary/10"
+                />
+              </div>
+              <Button onClick={() => openMutation.mutate()} disabled={openMutation.isPending} className="w-full frosted-button">
+                {openMutation.isPending ? (
+                  <>
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Opening
+                  </>
+                ) : (
+                  "Start count"
+                )}
+              </Button>
+            </CardContent>
+          </Card>
+
+          <Card className="glass-panel border-primary/30">
+            <CardHeader className="space-y-1">
+              <CardTitle className="flex items-center gap-3 text-white">
+                <span className="inline-flex h-10 w-10 items-center justify-center rounded-xl bg-primary/20 text-primary">
+                  <History className="h-5 w-5" />
+                </span>
+                <div>
+                  <span className="block text-sm uppercase tracking-[0.2em] text-white/60">History</span>
+                  <span className="text-lg font-semibold">Count Sessions</span>
+                </div>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="glass-panel overflow-x-auto border border-primary/10">
+                <Table className="min-w-[720px]">
+                  <TableHeader>
+                    <TableRow className="bg-primary/5">
+                      <TableHead>Count #</TableHead>
+                      <TableHead>Scope</TableHead>
+                      <TableHead>Opened</TableHead>
+                      <TableHead className="text-right">Counted</TableHead>
+                      <TableHead className="text-right">Variance (KES)</TableHead>
+                      <TableHead>Status</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {isLoading ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                          <div className="flex items-center justify-center gap-2">
+                            <Loader2 className="h-4 w-4 animate-spin" />
+                            Loading stock takes...
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ) : stockTakes.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="py-6 text-center text-muted-foreground">
+                          No stock takes recorded yet
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      stockTakes.map((stockTake) => {
+                        const summary = summariseLines(stockTake.stock_take_lines ?? []);
+
+                        return (
+                          <TableRow key={stockTake.id}>
+                            <TableCell className="font-medium">
+                              <Link to={`/stock-takes/${stockTake.id}`} className="text-primary hover:underline">
+                                {stockTake.take_number}
+                              </Link>
+                            </TableCell>
+                            <TableCell>{stockTake.medicine_categories?.name ?? "Whole store"}</TableCell>
+                            <TableCell>
+                              <div className="flex flex-col">
+                                <span>{stockTake.opened_at ? new Date(stockTake.opened_at).toLocaleString() : ""}</span>
+                                <span className="text-xs text-muted-foreground">{stockTake.opener?.full_name}</span>
+                              </div>
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {summary.counted}/{stockTake.stock_take_lines?.length ?? 0}
+                            </TableCell>
+                            <TableCell
+                              className={`text-right font-semibold ${summary.varianceValue < 0 ? "text-destructive" : ""}`}
+                            >
+                              {summary.varianceValue.toLocaleString(undefined, { maximumFractionDigits: 2 })}
+                            </TableCell>
+                            <TableCell>
+                              <Badge variant="secondary" className={`uppercase tracking-wide ${statusBadgeClass[stockTake.status] ?? ""}`}>
+                                {stockTake.status}
+                              </Badge>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default StockTakes;
@@ -1,14 +1,23 @@
+import { useState } from "react";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import DashboardLayout from "@/components/DashboardLayout";
+import { AuditHistory } from "@/components/AuditHistory";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
 import {
   Form,
   FormControl,
@@ -27,7 +36,7 @@ import {
 } from "@/components/ui/table";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { Loader2, Truck } from "lucide-react";
+import { History, Loader2, Truck } from "lucide-react";
 
 const supplierFormSchema = z.object({
   name: z.string().min(2, "Supplier name is required"),
@@ -65,6 +74,7 @@ const fetchSuppliers = async (): Promise<SupplierRecord[]> => {
 
 const Suppliers = () => {
   const queryClient = useQueryClient();
+  const [historySupplier, setHistorySupplier] = useState<SupplierRecord | null>(null);
 
   const {
     data: suppliers = [],
@@ -258,19 +268,20 @@ const Suppliers = () => {
             </CardHeader>
             <CardContent>
               <div className="glass-panel overflow-x-auto border border-primary/10">
-                <Table className="min-w-[680px]">
+                <Table className="min-w-[780px]">
                   <TableHeader>
                     <TableRow className="bg-primary/5">
                       <TableHead>Name</TableHead>
                       <TableHead>Contact</TableHead>
                       <TableHead>Phone</TableHead>
                       <TableHead>Email</TableHead>
+                      <TableHead className="w-[110px]" />
                     </TableRow>
                   </TableHeader>
                   <TableBody>
                     {isLoading ? (
                       <TableRow>
-                        <TableCell colSpan={4} className="py-6 text-center text-muted-foreground">
+                        <TableCell colSpan={5} className="py-6 text-center text-muted-foreground">
                           <div className="flex items-center justify-center gap-2">
                             <Loader2 className="h-4 w-4 animate-spin" />
                             Loading suppliers...
@@ -279,13 +290,13 @@ const Suppliers = () => {
                       </TableRow>
                     ) : isError ? (
                       <TableRow>
-                        <TableCell colSpan={4} className="py-6 text-center text-destructive">
+                        <TableCell colSpan={5} className="py-6 text-center text-destructive">
                           {suppliersErrorMessage ?? "Unable to load suppliers"}
                         </TableCell>
                       </TableRow>
                     ) : suppliers.length === 0 ? (
                       <TableRow>
-                        <TableCell colSpan={4} className="text-center py-6 text-muted-foreground">
+                        <TableCell colSpan={5} className="text-center py-6 text-muted-foreground">
                           No suppliers added yet
                         </TableCell>
                       </TableRow>
@@ -325,6 +336,17 @@ const Suppliers = () => {
                               "-"
                             )}
                           </TableCell>
+                          <TableCell className="text-right">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setHistorySupplier(supplier)}
+                              className="text-primary hover:text-primary"
+                            >
+                              <History className="mr-2 h-4 w-4" /> History
+                            </Button>
+                          </TableCell>
                         </TableRow>
                       ))
                     )}
@@ -335,6 +357,16 @@ const Suppliers = () => {
           </Card>
         </div>
       </div>
+
+      <Dialog open={Boolean(historySupplier)} onOpenChange={(open) => !open && setHistorySupplier(null)}>
+        <DialogContent className="max-w-2xl border border-white/20 bg-gradient-to-br from-sidebar-background/90 via-background/90 to-background/80">
+          <DialogHeader>
+            <DialogTitle>{historySupplier?.name} history</DialogTitle>
+            <DialogDescription>Every change to this supplier's details, newest first.</DialogDescription>
+          </DialogHeader>
+          {historySupplier && <AuditHistory tableName="suppliers" recordId={historySupplier.id} />}
+        </DialogContent>
+      </Dialog>
     </DashboardLayout>
   );
 };
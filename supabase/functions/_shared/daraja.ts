@@ -0,0 +1,146 @@
+// Safaricom Daraja (M-Pesa API) helpers shared by the STK Push functions.
+// MPESA_BASE_URL is Safaricom's sandbox or production host, or the
+// mpesa-mock function when developing without the real API.
+
+export type DarajaConfig = {
+  baseUrl: string;
+  consumerKey: string;
+  consumerSecret: string;
+  shortcode: string;
+  passkey: string;
+  // CustomerPayBillOnline for a paybill, CustomerBuyGoodsOnline for a till
+  transactionType: string;
+  // The paybill or till number the customer pays; differs from the
+  // shortcode for till numbers under a store number
+  partyB: string;
+  callbackUrl: string;
+  callbackToken: string;
+};
+
+const requireEnv = (name: string) => {
+  const value = Deno.env.get(name);
+  if (!value) throw new Error(`${name} is not configured`);
+  return value;
+};
+
+export const darajaConfig = (): DarajaConfig => {
+  const shortcode = requireEnv("MPESA_SHORTCODE");
+
+  return {
+    baseUrl: (Deno.env.get("MPESA_BASE_URL") ?? "https://sandbox.safaricom.co.ke").replace(/\/$/, ""),
+    consumerKey: requireEnv("MPESA_CONSUMER_KEY"),
+    consumerSecret: requireEnv("MPESA_CONSUMER_SECRET"),
+    shortcode,
+    passkey: requireEnv("MPESA_PASSKEY"),
+    transactionType: Deno.env.get("MPESA_TRANSACTION_TYPE") ?? "CustomerPayBillOnline",
+    partyB: Deno.env.get("MPESA_PARTY_B") ?? shortcode,
+    callbackUrl: Deno.env.get("MPESA_CALLBACK_URL") ?? `${requireEnv("SUPABASE_URL")}/functions/v1/mpesa-callback`,
+    callbackToken: requireEnv("MPESA_CALLBACK_TOKEN"),
+  };
+};
+
+// Daraja wants 2547XXXXXXXX or 2541XXXXXXXX; staff type numbers however the
+// customer reads them out.
+export const normalisePhone = (phone: string): string | null => {
+  const digits = phone.replace(/[\s-]/g, "").replace(/^\+/, "");
+  if (/^254[17]\d{8}$/.test(digits)) return digits;
+  if (/^0[17]\d{8}$/.test(digits)) return `254${digits.slice(1)}`;
+  if (/^[17]\d{8}$/.test(digits)) return `254${digits}`;
+  return null;
+};
+
+// Daraja timestamps are YYYYMMDDHHmmss in East Africa Time (UTC+3)
+const EAT_OFFSET_MS = 3 * 60 * 60 * 1000;
+
+export const darajaTimestamp = (date = new Date()) =>
+  new Date(date.getTime() + EAT_OFFSET_MS).toISOString().replace(/[-:T]/g, "").slice(0, 14);
+
+export const parseDarajaTimestamp = (value: unknown): string | null => {
+  const match = /^(\d{4})(\d{2})(\d{2})(\d{2})(\d{2})(\d{2})$/.exec(String(value ?? ""));
+  if (!match) return null;
+  const [, year, month, day, hour, minute, second] = match;
+  return new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}+03:00`).toISOString();
+};
+
+const fetchAccessToken = async (config: DarajaConfig) => {
+  const response = await fetch(`${config.baseUrl}/oauth/v1/generate?grant_type=client_credentials`, {
+    headers: { Authorization: `Basic ${btoa(`${config.consumerKey}:${config.consumerSecret}`)}` },
+  });
+
+  if (!response.ok) {
+    throw new Error(`M-Pesa authentication failed (${response.status})`);
+  }
+
+  const { access_token } = await response.json();
+  return access_token as string;
+};
+
+export type StkPushRequest = {
+  phone: string;
+  amount: number;
+  accountReference: string;
+  description: string;
+  // Our mpesa_payments id, passed back to us on the callback URL
+  paymentId: string;
+};
+
+export type StkPushResponse = {
+  merchantRequestId: string;
+  checkoutRequestId: string;
+  customerMessage: string;
+};
+
+export async function stkPush(config: DarajaConfig, request: StkPushRequest): Promise<StkPushResponse> {
+  const token = await fetchAccessToken(config);
+  const timestamp = darajaTimestamp();
+  const callbackUrl = new URL(config.callbackUrl);
+  callbackUrl.searchParams.set("token", config.callbackToken);
+  callbackUrl.searchParams.set("payment", request.paymentId);
+
+  const response = await fetch(`${config.baseUrl}/mpesa/stkpush/v1/processrequest`, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+    body: JSON.stringify({
+      BusinessShortCode: config.shortcode,
+      Password: btoa(`${config.shortcode}${config.passkey}${timestamp}`),
+      Timestamp: timestamp,
+      TransactionType: config.transactionType,
+      Amount: request.amount,
+      PartyA: request.phone,
+      PartyB: config.partyB,
+      PhoneNumber: request.phone,
+      CallBackURL: callbackUrl.toString(),
+      // Daraja truncates these; keep them within its limits
+      AccountReference: request.accountReference.slice(0, 12),
+      TransactionDesc: request.description.slice(0, 13),
+    }),
+  });
+
+  const body = await response.json().catch(() => ({}));
+
+  if (!response.ok || body.ResponseCode !== "0") {
+    throw new Error(body.errorMessage ?? body.ResponseDescription ?? `M-Pesa rejected the request (${response.status})`);
+  }
+
+  return {
+    merchantRequestId: body.MerchantRequestID,
+    checkoutRequestId: body.CheckoutRequestID,
+    customerMessage: body.CustomerMessage,
+  };
+}
+
+export type StkCallback = {
+  MerchantRequestID: string;
+  CheckoutRequestID: string;
+  ResultCode: number;
+  ResultDesc: string;
+  CallbackMetadata?: {
+    Item: { Name: string; Value?: string | number }[];
+  };
+};
+
+export const callbackValue = (callback: StkCallback, name: string) =>
+  callback.CallbackMetadata?.Item.find((item) => item.Name === name)?.Value;
+
+// The customer dismissed the prompt on their phone
+export const RESULT_CANCELLED_BY_USER = 1032;
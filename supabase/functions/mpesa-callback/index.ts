@@ -0,0 +1,67 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { jsonResponse } from "../_shared/cors.ts";
+import {
+  RESULT_CANCELLED_BY_USER,
+  StkCallback,
+  callbackValue,
+  parseDarajaTimestamp,
+} from "../_shared/daraja.ts";
+
+// Safaricom calls this once the customer has answered (or ignored) the STK
+// prompt. It can't send a JWT, so the callback URL carries a shared token
+// instead and the function is deployed with verify_jwt off. Safaricom retries
+// callbacks that aren't acknowledged, so anything we can't use is still
+// acknowledged and logged.
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const url = new URL(req.url);
+  const expectedToken = Deno.env.get("MPESA_CALLBACK_TOKEN");
+
+  if (!expectedToken || url.searchParams.get("token") !== expectedToken) {
+    return jsonResponse({ error: "Forbidden" }, 403);
+  }
+
+  const paymentId = url.searchParams.get("payment");
+  const payload = await req.json().catch(() => null);
+  const callback: StkCallback | undefined = payload?.Body?.stkCallback;
+
+  if (!paymentId || !callback || !/^[\w-]+$/.test(String(callback.CheckoutRequestID))) {
+    console.error("Unusable M-Pesa callback", url.search, payload);
+    return jsonResponse({ ResultCode: 0, ResultDesc: "Accepted" });
+  }
+
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const paid = callback.ResultCode === 0;
+
+  const { data, error } = await admin
+    .from("mpesa_payments")
+    .update({
+      merchant_request_id: callback.MerchantRequestID,
+      checkout_request_id: callback.CheckoutRequestID,
+      status: paid ? "paid" : callback.ResultCode === RESULT_CANCELLED_BY_USER ? "cancelled" : "failed",
+      result_code: callback.ResultCode,
+      result_description: callback.ResultDesc,
+      mpesa_receipt_number: paid ? String(callbackValue(callback, "MpesaReceiptNumber") ?? "") || null : null,
+      transaction_date: parseDarajaTimestamp(callbackValue(callback, "TransactionDate")),
+      callback_payload: payload,
+      completed_at: new Date().toISOString(),
+    })
+    .eq("id", paymentId)
+    .eq("status", "pending")
+    .or(`checkout_request_id.is.null,checkout_request_id.eq.${callback.CheckoutRequestID}`)
+    .select("id");
+
+  if (error) {
+    console.error("Failed to record M-Pesa callback", error);
+    return jsonResponse({ ResultCode: 1, ResultDesc: "Could not record the result" }, 500);
+  }
+
+  if (!data?.length) {
+    console.warn("M-Pesa callback matched no pending payment", paymentId, callback.CheckoutRequestID);
+  }
+
+  return jsonResponse({ ResultCode: 0, ResultDesc: "Accepted" });
+});
@@ -0,0 +1,121 @@
+import { jsonResponse } from "../_shared/cors.ts";
+import { darajaTimestamp } from "../_shared/daraja.ts";
+
+// A stand-in for Safaricom's Daraja API so STK Push can be exercised in
+// development and tests. Set MPESA_BASE_URL to this function's URL (e.g.
+// http://localhost:54321/functions/v1/mpesa-mock) and any consumer key,
+// secret, shortcode and passkey. Each STK Push is accepted and, after
+// MPESA_MOCK_DELAY_MS (3 seconds by default), answered on its callback URL
+// with an outcome chosen by the last digits of the phone number:
+//
+//   ...0000  the customer cancels the prompt (1032)
+//   ...1111  insufficient M-Pesa balance (1)
+//   ...2222  no callback at all, as when the phone is off
+//   anything else  paid
+//
+// The mock only runs when MPESA_MOCK_ENABLED is "true", so a deployed copy
+// can't be used to fake payments.
+
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
+
+const ACCESS_TOKEN = "mock-access-token";
+
+type Outcome = { resultCode: number; resultDesc: string } | null;
+
+const outcomeFor = (phone: string): Outcome => {
+  if (phone.endsWith("0000")) return { resultCode: 1032, resultDesc: "Request cancelled by user" };
+  if (phone.endsWith("1111")) {
+    return { resultCode: 1, resultDesc: "The balance is insufficient for the transaction" };
+  }
+  if (phone.endsWith("2222")) return null;
+  return { resultCode: 0, resultDesc: "The service request is processed successfully." };
+};
+
+const RECEIPT_ALPHABET = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
+
+// Receipt numbers look like real ones: ten characters, starting with a letter
+const mockReceiptNumber = () =>
+  "T" + Array.from(crypto.getRandomValues(new Uint8Array(9)), (byte) => RECEIPT_ALPHABET[byte % 36]).join("");
+
+const sendCallback = async (callbackUrl: string, body: unknown, delayMs: number) => {
+  await new Promise((resolve) => setTimeout(resolve, delayMs));
+
+  const response = await fetch(callbackUrl, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    console.error("Mock M-Pesa callback was rejected", response.status, await response.text());
+  }
+};
+
+Deno.serve(async (req) => {
+  if (Deno.env.get("MPESA_MOCK_ENABLED") !== "true") {
+    return jsonResponse({ errorMessage: "The M-Pesa mock is disabled" }, 404);
+  }
+
+  const { pathname } = new URL(req.url);
+
+  if (pathname.endsWith("/oauth/v1/generate")) {
+    if (!req.headers.get("Authorization")?.startsWith("Basic ")) {
+      return jsonResponse({ errorMessage: "Invalid credentials" }, 400);
+    }
+    return jsonResponse({ access_token: ACCESS_TOKEN, expires_in: "3599" });
+  }
+
+  if (pathname.endsWith("/mpesa/stkpush/v1/processrequest") && req.method === "POST") {
+    if (req.headers.get("Authorization") !== `Bearer ${ACCESS_TOKEN}`) {
+      return jsonResponse({ errorCode: "404.001.03", errorMessage: "Invalid Access Token" }, 401);
+    }
+
+    const request = await req.json().catch(() => null);
+
+    if (!request?.CallBackURL || !request?.PhoneNumber || !(Number(request.Amount) >= 1)) {
+      return jsonResponse({ errorCode: "400.002.02", errorMessage: "Bad Request - Invalid request" }, 400);
+    }
+
+    const merchantRequestId = `mock-${crypto.randomUUID()}`;
+    const checkoutRequestId = `ws_CO_${darajaTimestamp()}${Math.floor(Math.random() * 1e6)}`;
+    const outcome = outcomeFor(String(request.PhoneNumber));
+
+    if (outcome) {
+      const stkCallback = {
+        MerchantRequestID: merchantRequestId,
+        CheckoutRequestID: checkoutRequestId,
+        ResultCode: outcome.resultCode,
+        ResultDesc: outcome.resultDesc,
+        ...(outcome.resultCode === 0 && {
+          CallbackMetadata: {
+            Item: [
+              { Name: "Amount", Value: Number(request.Amount) },
+              { Name: "MpesaReceiptNumber", Value: mockReceiptNumber() },
+              { Name: "Balance" },
+              { Name: "TransactionDate", Value: Number(darajaTimestamp()) },
+              { Name: "PhoneNumber", Value: Number(request.PhoneNumber) },
+            ],
+          },
+        }),
+      };
+
+      EdgeRuntime.waitUntil(
+        sendCallback(
+          request.CallBackURL,
+          { Body: { stkCallback } },
+          Number(Deno.env.get("MPESA_MOCK_DELAY_MS") ?? 3000),
+        ),
+      );
+    }
+
+    return jsonResponse({
+      MerchantRequestID: merchantRequestId,
+      CheckoutRequestID: checkoutRequestId,
+      ResponseCode: "0",
+      ResponseDescription: "Success. Request accepted for processing",
+      CustomerMessage: "Success. Request accepted for processing",
+    });
+  }
+
+  return jsonResponse({ errorMessage: "Not found" }, 404);
+});
@@ -0,0 +1,101 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { corsHeaders, jsonResponse } from "../_shared/cors.ts";
+import { darajaConfig, normalisePhone, stkPush } from "../_shared/daraja.ts";
+
+// Prompts the customer's phone for their M-Pesa PIN. The payment is recorded
+// as pending before Safaricom is asked so the callback always has a row to
+// complete; the till then polls mpesa_payments until the callback lands.
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+  const jwt = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  const {
+    data: { user },
+  } = await admin.auth.getUser(jwt);
+
+  if (!user) {
+    return jsonResponse({ error: "Not authenticated" }, 401);
+  }
+
+  const { phone, amount, account_reference, till_session_id } = await req.json().catch(() => ({}));
+
+  // Asked as the signed-in user so a shared till records whoever unlocked it
+  const asCaller = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!, {
+    global: { headers: { Authorization: `Bearer ${jwt}` } },
+  });
+  const { data: requestedBy, error: requesterError } = await asCaller.rpc("mpesa_requester", {
+    p_till_session_id: till_session_id ?? null,
+  });
+
+  if (requesterError) {
+    return jsonResponse({ error: requesterError.message }, 403);
+  }
+
+  const msisdn = normalisePhone(String(phone ?? ""));
+
+  if (!msisdn) {
+    return jsonResponse({ error: "Enter a Safaricom number such as 0712 345 678" }, 400);
+  }
+
+  if (!Number.isInteger(amount) || amount < 1) {
+    return jsonResponse({ error: "M-Pesa payments must be whole shillings of at least KES 1" }, 400);
+  }
+
+  let config;
+  try {
+    config = darajaConfig();
+  } catch (error) {
+    console.error("M-Pesa is not configured", error);
+    return jsonResponse({ error: "M-Pesa is not set up for this pharmacy" }, 500);
+  }
+
+  const accountReference = String(account_reference ?? "").trim() || "Pharmacy";
+
+  const { data: payment, error: insertError } = await admin
+    .from("mpesa_payments")
+    .insert({ phone: msisdn, amount, account_reference: accountReference, requested_by: requestedBy })
+    .select("id")
+    .single();
+
+  if (insertError) {
+    console.error("Failed to record M-Pesa request", insertError);
+    return jsonResponse({ error: "Failed to record the M-Pesa request" }, 500);
+  }
+
+  try {
+    const request = await stkPush(config, {
+      phone: msisdn,
+      amount,
+      accountReference,
+      description: "Payment",
+      paymentId: payment.id,
+    });
+
+    // The callback may already have filled these in
+    await admin
+      .from("mpesa_payments")
+      .update({ merchant_request_id: request.merchantRequestId, checkout_request_id: request.checkoutRequestId })
+      .eq("id", payment.id)
+      .is("checkout_request_id", null);
+
+    return jsonResponse({ id: payment.id, customerMessage: request.customerMessage });
+  } catch (error) {
+    console.error("STK Push failed", error);
+    const message = error instanceof Error ? error.message : "M-Pesa request failed";
+
+    await admin
+      .from("mpesa_payments")
+      .update({ status: "failed", result_description: message, completed_at: new Date().toISOString() })
+      .eq("id", payment.id);
+
+    return jsonResponse({ error: message }, 502);
+  }
+});
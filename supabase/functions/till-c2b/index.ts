@@ -0,0 +1,86 @@
+import { createClient } from "jsr:@supabase/supabase-js@2";
+import { jsonResponse } from "../_shared/cors.ts";
+import { parseDarajaTimestamp } from "../_shared/daraja.ts";
+
+// Safaricom's C2B callbacks for money paid straight to the till or paybill.
+// Register <function url>/validation?token=... and
+// <function url>/confirmation?token=... against the shortcode with Daraja's
+// C2B Register URL API, using MPESA_CALLBACK_TOKEN as the token. Validation
+// accepts every payment; confirmation records it in mpesa_transactions and
+// runs the matcher. A payment made before its sale is rung up is claimed by
+// the sale when the cashier enters its code, so most payments are reconciled
+// before anyone looks.
+type C2bConfirmation = {
+  TransactionType?: string;
+  TransID?: string;
+  TransTime?: string;
+  TransAmount?: string;
+  BusinessShortCode?: string;
+  BillRefNumber?: string;
+  MSISDN?: string;
+  FirstName?: string;
+  MiddleName?: string;
+  LastName?: string;
+};
+
+Deno.serve(async (req) => {
+  if (req.method !== "POST") {
+    return jsonResponse({ error: "Method not allowed" }, 405);
+  }
+
+  const url = new URL(req.url);
+  const expectedToken = Deno.env.get("MPESA_CALLBACK_TOKEN");
+
+  if (!expectedToken || url.searchParams.get("token") !== expectedToken) {
+    return jsonResponse({ error: "Forbidden" }, 403);
+  }
+
+  if (url.pathname.endsWith("/validation")) {
+    return jsonResponse({ ResultCode: 0, ResultDesc: "Accepted" });
+  }
+
+  if (!url.pathname.endsWith("/confirmation")) {
+    return jsonResponse({ error: "Not found" }, 404);
+  }
+
+  const payload: C2bConfirmation | null = await req.json().catch(() => null);
+  const transactionId = String(payload?.TransID ?? "").toUpperCase();
+  const transactionTime = parseDarajaTimestamp(payload?.TransTime);
+  const amount = Number(payload?.TransAmount);
+
+  if (!/^[A-Z0-9]{10}$/.test(transactionId) || !transactionTime || !(amount > 0)) {
+    console.error("Unusable C2B confirmation", payload);
+    return jsonResponse({ ResultCode: 0, ResultDesc: "Success" });
+  }
+
+  const admin = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+  const payerName = [payload.FirstName, payload.MiddleName, payload.LastName].filter(Boolean).join(" ");
+
+  const { error } = await admin.from("mpesa_transactions").upsert(
+    {
+      transaction_id: transactionId,
+      transaction_time: transactionTime,
+      amount,
+      phone: payload.MSISDN || null,
+      payer_name: payerName || null,
+      bill_ref_number: payload.BillRefNumber || null,
+      details: payload.TransactionType || null,
+      source: "c2b",
+      payload,
+    },
+    { onConflict: "transaction_id", ignoreDuplicates: true },
+  );
+
+  if (error) {
+    console.error("Failed to record C2B confirmation", error);
+    return jsonResponse({ ResultCode: 1, ResultDesc: "Could not record the payment" }, 500);
+  }
+
+  const { error: matchError } = await admin.rpc("auto_match_mpesa_transactions");
+
+  if (matchError) {
+    console.error("Failed to match M-Pesa transactions", matchError);
+  }
+
+  return jsonResponse({ ResultCode: 0, ResultDesc: "Success" });
+});
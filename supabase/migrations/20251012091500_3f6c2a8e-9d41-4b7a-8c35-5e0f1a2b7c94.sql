@@ -0,0 +1,81 @@
+-- Sales are recorded atomically through record_sale(); the per-row trigger
+-- would deduct stock a second time, so it is replaced by the function below.
+DROP TRIGGER IF EXISTS after_sale_item_insert ON sale_items;
+DROP FUNCTION IF EXISTS update_medicine_stock();
+
+-- Record a complete sale in one transaction.
+-- items:   [{ "medicine_id": uuid, "quantity": int }, ...]
+-- payment: { "payment_method", "customer_name", "customer_phone", "prescription_id" }
+-- Returns the generated sale_number.
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_line RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    NULLIF(payment->>'prescription_id', '')::UUID,
+    0,
+    auth.uid()
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    IF v_medicine.quantity < v_line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_medicine.quantity;
+    END IF;
+
+    INSERT INTO sale_items (sale_id, medicine_id, quantity, unit_price, total_price)
+    VALUES (v_sale_id, v_medicine.id, v_line.quantity, v_medicine.selling_price, v_line.quantity * v_medicine.selling_price);
+
+    UPDATE medicines
+    SET quantity = quantity - v_line.quantity
+    WHERE id = v_medicine.id;
+
+    INSERT INTO stock_movements (medicine_id, movement_type, quantity, reason, reference_id, created_by)
+    VALUES (v_medicine.id, 'out', v_line.quantity, 'Sale', v_sale_id, auth.uid());
+
+    v_total := v_total + v_line.quantity * v_medicine.selling_price;
+  END LOOP;
+
+  UPDATE sales SET total_amount = v_total WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_sale(JSONB, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_sale(JSONB, JSONB) TO authenticated;
@@ -0,0 +1,292 @@
+-- Batches held for each medicine. medicines.quantity becomes the sum of its
+-- batches and batch_number/expiry_date mirror the next batch to be sold.
+CREATE TABLE medicine_batches (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  medicine_id UUID NOT NULL REFERENCES medicines(id) ON DELETE CASCADE,
+  batch_number TEXT NOT NULL,
+  expiry_date DATE NOT NULL,
+  manufacture_date DATE,
+  quantity INTEGER NOT NULL DEFAULT 0 CHECK (quantity >= 0),
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX medicine_batches_medicine_expiry_idx ON medicine_batches (medicine_id, expiry_date);
+
+ALTER TABLE medicine_batches ENABLE ROW LEVEL SECURITY;
+
+-- Batch quantities only change through the stock functions below
+CREATE POLICY "Allow authenticated read access" ON medicine_batches FOR SELECT TO authenticated USING (true);
+
+CREATE TRIGGER update_medicine_batches_updated_at BEFORE UPDATE ON medicine_batches
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Carry existing single-batch stock over
+INSERT INTO medicine_batches (medicine_id, batch_number, expiry_date, manufacture_date, quantity, unit_cost)
+SELECT id, batch_number, expiry_date, manufacture_date, GREATEST(quantity, 0), unit_price
+FROM medicines;
+
+-- Record which batch each sale line and stock movement touched
+ALTER TABLE sale_items ADD COLUMN batch_id UUID REFERENCES medicine_batches(id);
+ALTER TABLE stock_movements ADD COLUMN batch_id UUID REFERENCES medicine_batches(id);
+
+-- Open the ledger for each carried-over batch with the quantity that brings
+-- the medicine's existing movements up to what is on hand, so the ledger
+-- reconciles from the start. Where earlier movements already overstate the
+-- stock the difference goes in as a (signed) adjustment instead.
+INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason)
+SELECT b.medicine_id,
+       b.id,
+       CASE WHEN b.quantity >= COALESCE(l.net, 0) THEN 'in' ELSE 'adjustment' END,
+       b.quantity - COALESCE(l.net, 0),
+       'Opening balance'
+FROM medicine_batches b
+LEFT JOIN (
+  SELECT medicine_id,
+         SUM(CASE movement_type WHEN 'in' THEN quantity WHEN 'adjustment' THEN quantity ELSE -quantity END) AS net
+  FROM stock_movements
+  GROUP BY medicine_id
+) l ON l.medicine_id = b.medicine_id
+WHERE b.quantity <> COALESCE(l.net, 0);
+
+-- Keep the medicine summary in step with its batches
+CREATE OR REPLACE FUNCTION sync_medicine_stock()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_medicine_id UUID := COALESCE(NEW.medicine_id, OLD.medicine_id);
+  v_total INTEGER;
+  v_batch_number TEXT;
+  v_expiry_date DATE;
+  v_manufacture_date DATE;
+BEGIN
+  SELECT COALESCE(SUM(quantity), 0) INTO v_total
+  FROM medicine_batches
+  WHERE medicine_id = v_medicine_id;
+
+  SELECT batch_number, expiry_date, manufacture_date
+  INTO v_batch_number, v_expiry_date, v_manufacture_date
+  FROM medicine_batches
+  WHERE medicine_id = v_medicine_id AND quantity > 0
+  ORDER BY expiry_date, created_at
+  LIMIT 1;
+
+  UPDATE medicines
+  SET quantity = v_total,
+      batch_number = COALESCE(v_batch_number, batch_number),
+      expiry_date = COALESCE(v_expiry_date, expiry_date),
+      manufacture_date = COALESCE(v_manufacture_date, manufacture_date)
+  WHERE id = v_medicine_id;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER after_medicine_batch_change
+  AFTER INSERT OR UPDATE OR DELETE ON medicine_batches
+  FOR EACH ROW EXECUTE FUNCTION sync_medicine_stock();
+
+-- Receive stock into a batch, topping up an existing batch with the same
+-- number and expiry, and record the 'in' movement. Returns the batch id.
+CREATE OR REPLACE FUNCTION receive_medicine_batch(
+  p_medicine_id UUID,
+  p_batch_number TEXT,
+  p_expiry_date DATE,
+  p_quantity INTEGER,
+  p_unit_cost DECIMAL DEFAULT 0,
+  p_manufacture_date DATE DEFAULT NULL,
+  p_reason TEXT DEFAULT 'Stock received'
+)
+RETURNS UUID AS $$
+DECLARE
+  v_batch_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity received must be at least 1';
+  END IF;
+
+  IF NULLIF(TRIM(p_batch_number), '') IS NULL THEN
+    RAISE EXCEPTION 'Batch number is required';
+  END IF;
+
+  PERFORM 1 FROM medicines WHERE id = p_medicine_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Medicine % not found', p_medicine_id;
+  END IF;
+
+  SELECT id INTO v_batch_id
+  FROM medicine_batches
+  WHERE medicine_id = p_medicine_id
+    AND batch_number = TRIM(p_batch_number)
+    AND expiry_date = p_expiry_date
+  FOR UPDATE;
+
+  IF v_batch_id IS NULL THEN
+    INSERT INTO medicine_batches (medicine_id, batch_number, expiry_date, manufacture_date, quantity, unit_cost)
+    VALUES (p_medicine_id, TRIM(p_batch_number), p_expiry_date, p_manufacture_date, p_quantity, COALESCE(p_unit_cost, 0))
+    RETURNING id INTO v_batch_id;
+  ELSE
+    UPDATE medicine_batches
+    SET quantity = quantity + p_quantity,
+        unit_cost = COALESCE(p_unit_cost, unit_cost),
+        manufacture_date = COALESCE(p_manufacture_date, manufacture_date)
+    WHERE id = v_batch_id;
+  END IF;
+
+  INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, created_by)
+  VALUES (p_medicine_id, v_batch_id, 'in', p_quantity, p_reason, auth.uid());
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION receive_medicine_batch(UUID, TEXT, DATE, INTEGER, DECIMAL, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION receive_medicine_batch(UUID, TEXT, DATE, INTEGER, DECIMAL, DATE, TEXT) TO authenticated;
+
+-- Registers a medicine together with its opening stock in one transaction,
+-- so a batch that fails to post never leaves a medicine behind with nothing
+-- on hand. p_medicine carries the catalogue columns of the medicines row.
+-- Runs with the caller's rights, so the medicines policies still apply.
+CREATE OR REPLACE FUNCTION create_medicine(
+  p_medicine JSONB,
+  p_batch_number TEXT,
+  p_expiry_date DATE,
+  p_manufacture_date DATE DEFAULT NULL,
+  p_quantity INTEGER DEFAULT 0,
+  p_unit_cost DECIMAL DEFAULT 0
+)
+RETURNS UUID AS $$
+DECLARE
+  v_medicine medicines%ROWTYPE := jsonb_populate_record(NULL::medicines, p_medicine);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NULLIF(TRIM(p_batch_number), '') IS NULL THEN
+    RAISE EXCEPTION 'Batch number is required';
+  END IF;
+
+  v_medicine.id := uuid_generate_v4();
+  v_medicine.batch_number := TRIM(p_batch_number);
+  v_medicine.expiry_date := p_expiry_date;
+  v_medicine.manufacture_date := p_manufacture_date;
+  v_medicine.quantity := 0;
+  v_medicine.reorder_level := COALESCE(v_medicine.reorder_level, 10);
+  v_medicine.requires_prescription := COALESCE(v_medicine.requires_prescription, false);
+  v_medicine.created_at := NOW();
+  v_medicine.updated_at := NOW();
+
+  INSERT INTO medicines SELECT v_medicine.*;
+
+  IF COALESCE(p_quantity, 0) > 0 THEN
+    PERFORM receive_medicine_batch(
+      v_medicine.id, p_batch_number, p_expiry_date, p_quantity, p_unit_cost, p_manufacture_date, 'Opening stock'
+    );
+  END IF;
+
+  RETURN v_medicine.id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION create_medicine(JSONB, TEXT, DATE, DATE, INTEGER, DECIMAL) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION create_medicine(JSONB, TEXT, DATE, DATE, INTEGER, DECIMAL) TO authenticated;
+
+-- Checkout now draws stock first-expiry-first-out across non-expired batches,
+-- writing one sale line and movement per batch consumed.
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_line RECORD;
+  v_batch RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_available INTEGER;
+  v_remaining INTEGER;
+  v_take INTEGER;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    NULLIF(payment->>'prescription_id', '')::UUID,
+    0,
+    auth.uid()
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_available
+    FROM medicine_batches
+    WHERE medicine_id = v_medicine.id AND expiry_date > CURRENT_DATE;
+
+    IF v_available < v_line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_available;
+    END IF;
+
+    v_remaining := v_line.quantity;
+
+    FOR v_batch IN
+      SELECT id, quantity
+      FROM medicine_batches
+      WHERE medicine_id = v_medicine.id AND quantity > 0 AND expiry_date > CURRENT_DATE
+      ORDER BY expiry_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_batch.quantity);
+
+      INSERT INTO sale_items (sale_id, medicine_id, batch_id, quantity, unit_price, total_price)
+      VALUES (v_sale_id, v_medicine.id, v_batch.id, v_take, v_medicine.selling_price, v_take * v_medicine.selling_price);
+
+      UPDATE medicine_batches
+      SET quantity = quantity - v_take
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+      VALUES (v_medicine.id, v_batch.id, 'out', v_take, 'Sale', v_sale_id, auth.uid());
+
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    v_total := v_total + v_line.quantity * v_medicine.selling_price;
+  END LOOP;
+
+  UPDATE sales SET total_amount = v_total WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
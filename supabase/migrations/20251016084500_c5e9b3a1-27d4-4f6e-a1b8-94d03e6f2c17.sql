@@ -0,0 +1,28 @@
+-- Staff names are shown against ledger entries, so every signed-in user
+-- needs to be able to read the profile directory.
+CREATE POLICY "Authenticated users can view staff profiles"
+  ON profiles FOR SELECT
+  TO authenticated
+  USING (true);
+
+-- Per-medicine reconciliation of the movement ledger against on-hand stock.
+-- 'in' adds, 'out' and 'expired' remove, 'adjustment' quantities are signed.
+CREATE VIEW stock_ledger_balances WITH (security_invoker = true) AS
+SELECT
+  m.id AS medicine_id,
+  m.name AS medicine_name,
+  m.quantity AS on_hand_quantity,
+  COALESCE(SUM(
+    CASE sm.movement_type
+      WHEN 'in' THEN sm.quantity
+      WHEN 'adjustment' THEN sm.quantity
+      ELSE -sm.quantity
+    END
+  ), 0)::INTEGER AS ledger_quantity,
+  COUNT(sm.id)::INTEGER AS movement_count,
+  MAX(sm.created_at) AS last_movement_at
+FROM medicines m
+LEFT JOIN stock_movements sm ON sm.medicine_id = m.id
+GROUP BY m.id, m.name, m.quantity;
+
+CREATE INDEX stock_movements_medicine_created_idx ON stock_movements (medicine_id, created_at);
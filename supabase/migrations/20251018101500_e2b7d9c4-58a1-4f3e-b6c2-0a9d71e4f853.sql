@@ -0,0 +1,197 @@
+-- Role of the signed-in user, for use in policies and stock functions
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS user_role AS $$
+  SELECT role FROM profiles WHERE id = auth.uid();
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Store-wide settings, kept as a single row
+CREATE TABLE pharmacy_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  adjustment_approval_threshold INTEGER NOT NULL DEFAULT 10 CHECK (adjustment_approval_threshold >= 0),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+INSERT INTO pharmacy_settings DEFAULT VALUES;
+
+ALTER TABLE pharmacy_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON pharmacy_settings FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Admins can update settings" ON pharmacy_settings FOR UPDATE TO authenticated
+  USING (current_user_role() = 'admin');
+
+CREATE TRIGGER update_pharmacy_settings_updated_at BEFORE UPDATE ON pharmacy_settings
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Manual stock adjustments. Adjustments larger than the approval threshold
+-- requested by a cashier wait for a pharmacist or admin before stock changes.
+CREATE TABLE stock_adjustments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  medicine_id UUID NOT NULL REFERENCES medicines(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES medicine_batches(id) ON DELETE CASCADE,
+  quantity_change INTEGER NOT NULL CHECK (quantity_change <> 0),
+  reason_code TEXT NOT NULL CHECK (reason_code IN ('damage', 'theft', 'count_correction', 'sample', 'return_to_supplier')),
+  notes TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+  requested_by UUID REFERENCES profiles(id),
+  reviewed_by UUID REFERENCES profiles(id),
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE stock_adjustments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON stock_adjustments FOR SELECT TO authenticated USING (true);
+
+-- Apply an adjustment to its batch and write the ledger entry
+CREATE OR REPLACE FUNCTION apply_stock_adjustment(p_adjustment_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_adjustment stock_adjustments%ROWTYPE;
+  v_batch medicine_batches%ROWTYPE;
+BEGIN
+  SELECT * INTO v_adjustment FROM stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  PERFORM 1 FROM medicines WHERE id = v_adjustment.medicine_id FOR UPDATE;
+  SELECT * INTO v_batch FROM medicine_batches WHERE id = v_adjustment.batch_id FOR UPDATE;
+
+  IF v_batch.quantity + v_adjustment.quantity_change < 0 THEN
+    RAISE EXCEPTION 'Batch % only holds % units', v_batch.batch_number, v_batch.quantity;
+  END IF;
+
+  UPDATE medicine_batches
+  SET quantity = quantity + v_adjustment.quantity_change
+  WHERE id = v_batch.id;
+
+  INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+  VALUES (
+    v_adjustment.medicine_id,
+    v_batch.id,
+    'adjustment',
+    v_adjustment.quantity_change,
+    INITCAP(REPLACE(v_adjustment.reason_code, '_', ' ')) || COALESCE(': ' || v_adjustment.notes, ''),
+    v_adjustment.id,
+    v_adjustment.requested_by
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION apply_stock_adjustment(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Request an adjustment; returns 'approved' when applied straight away
+-- or 'pending' when it needs approval.
+CREATE OR REPLACE FUNCTION request_stock_adjustment(
+  p_batch_id UUID,
+  p_quantity_change INTEGER,
+  p_reason_code TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_batch medicine_batches%ROWTYPE;
+  v_threshold INTEGER;
+  v_adjustment_id UUID;
+  v_auto_approve BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity_change IS NULL OR p_quantity_change = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero';
+  END IF;
+
+  SELECT * INTO v_batch FROM medicine_batches WHERE id = p_batch_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch % not found', p_batch_id;
+  END IF;
+
+  SELECT adjustment_approval_threshold INTO v_threshold FROM pharmacy_settings;
+
+  v_auto_approve := current_user_role() IN ('admin', 'pharmacist')
+    OR ABS(p_quantity_change) <= COALESCE(v_threshold, 0);
+
+  INSERT INTO stock_adjustments (medicine_id, batch_id, quantity_change, reason_code, notes, status, requested_by, reviewed_by, reviewed_at)
+  VALUES (
+    v_batch.medicine_id,
+    v_batch.id,
+    p_quantity_change,
+    p_reason_code,
+    NULLIF(TRIM(p_notes), ''),
+    CASE WHEN v_auto_approve THEN 'approved' ELSE 'pending' END,
+    auth.uid(),
+    CASE WHEN v_auto_approve THEN auth.uid() END,
+    CASE WHEN v_auto_approve THEN NOW() END
+  )
+  RETURNING id INTO v_adjustment_id;
+
+  IF v_auto_approve THEN
+    PERFORM apply_stock_adjustment(v_adjustment_id);
+    RETURN 'approved';
+  END IF;
+
+  RETURN 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION request_stock_adjustment(UUID, INTEGER, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION request_stock_adjustment(UUID, INTEGER, TEXT, TEXT) TO authenticated;
+
+-- Approve or reject a pending adjustment (pharmacists and admins only)
+CREATE OR REPLACE FUNCTION review_stock_adjustment(p_adjustment_id UUID, p_approve BOOLEAN)
+RETURNS TEXT AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can review stock adjustments';
+  END IF;
+
+  SELECT status INTO v_status FROM stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Adjustment % not found', p_adjustment_id;
+  END IF;
+
+  IF v_status <> 'pending' THEN
+    RAISE EXCEPTION 'Adjustment has already been %', v_status;
+  END IF;
+
+  UPDATE stock_adjustments
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = auth.uid(),
+      reviewed_at = NOW()
+  WHERE id = p_adjustment_id;
+
+  IF p_approve THEN
+    PERFORM apply_stock_adjustment(p_adjustment_id);
+    RETURN 'approved';
+  END IF;
+
+  RETURN 'rejected';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION review_stock_adjustment(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION review_stock_adjustment(UUID, BOOLEAN) TO authenticated;
+
+-- Stock on hand is the sum of a medicine's batches, kept by
+-- sync_medicine_stock, so nobody may write it directly: every change goes
+-- through a batch and leaves a movement behind. The sync runs as a trigger on
+-- medicine_batches, so its update arrives one trigger deeper than a
+-- statement from the API does.
+CREATE OR REPLACE FUNCTION protect_medicine_quantity()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.quantity IS DISTINCT FROM (CASE WHEN TG_OP = 'INSERT' THEN 0 ELSE OLD.quantity END)
+     AND auth.uid() IS NOT NULL
+     AND pg_trigger_depth() < 2 THEN
+    RAISE EXCEPTION 'Stock on hand follows the medicine''s batches. Receive or adjust stock instead';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER before_medicine_quantity_change
+  BEFORE INSERT OR UPDATE OF quantity ON medicines
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_medicine_quantity();
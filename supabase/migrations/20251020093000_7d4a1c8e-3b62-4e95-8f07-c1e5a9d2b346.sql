@@ -0,0 +1,206 @@
+-- Physical stock counts. Opening a session snapshots the batches in scope;
+-- posting it writes the counted variances to the ledger as adjustments.
+CREATE SEQUENCE stock_take_number_seq;
+
+CREATE TABLE stock_takes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  take_number TEXT UNIQUE NOT NULL,
+  category_id UUID REFERENCES medicine_categories(id),
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'posted', 'cancelled')),
+  notes TEXT,
+  opened_by UUID REFERENCES profiles(id),
+  opened_at TIMESTAMPTZ DEFAULT NOW(),
+  closed_by UUID REFERENCES profiles(id),
+  closed_at TIMESTAMPTZ
+);
+
+CREATE TABLE stock_take_lines (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  stock_take_id UUID NOT NULL REFERENCES stock_takes(id) ON DELETE CASCADE,
+  medicine_id UUID NOT NULL REFERENCES medicines(id) ON DELETE CASCADE,
+  batch_id UUID NOT NULL REFERENCES medicine_batches(id) ON DELETE CASCADE,
+  system_quantity INTEGER NOT NULL,
+  counted_quantity INTEGER CHECK (counted_quantity >= 0),
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0,
+  counted_by UUID REFERENCES profiles(id),
+  counted_at TIMESTAMPTZ,
+  UNIQUE (stock_take_id, batch_id)
+);
+
+ALTER TABLE stock_takes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_take_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON stock_takes FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Allow authenticated read access" ON stock_take_lines FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION generate_stock_take_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.take_number = 'ST-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(NEXTVAL('stock_take_number_seq')::TEXT, 4, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER before_stock_take_insert
+  BEFORE INSERT ON stock_takes
+  FOR EACH ROW
+  WHEN (NEW.take_number IS NULL)
+  EXECUTE FUNCTION generate_stock_take_number();
+
+-- Open a count for the whole store, or one category when p_category_id is set
+CREATE OR REPLACE FUNCTION open_stock_take(p_category_id UUID DEFAULT NULL, p_notes TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_stock_take_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO stock_takes (category_id, notes, opened_by)
+  VALUES (p_category_id, NULLIF(TRIM(p_notes), ''), auth.uid())
+  RETURNING id INTO v_stock_take_id;
+
+  INSERT INTO stock_take_lines (stock_take_id, medicine_id, batch_id, system_quantity, unit_cost)
+  SELECT v_stock_take_id, b.medicine_id, b.id, b.quantity, b.unit_cost
+  FROM medicine_batches b
+  JOIN medicines m ON m.id = b.medicine_id
+  WHERE b.quantity > 0
+    AND (p_category_id IS NULL OR m.category_id = p_category_id);
+
+  RETURN v_stock_take_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION open_stock_take(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION open_stock_take(UUID, TEXT) TO authenticated;
+
+-- Save a counted quantity; NULL clears the count
+CREATE OR REPLACE FUNCTION record_stock_count(p_line_id UUID, p_counted_quantity INTEGER)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_counted_quantity < 0 THEN
+    RAISE EXCEPTION 'Counted quantity cannot be negative';
+  END IF;
+
+  UPDATE stock_take_lines l
+  SET counted_quantity = p_counted_quantity,
+      counted_by = CASE WHEN p_counted_quantity IS NULL THEN NULL ELSE auth.uid() END,
+      counted_at = CASE WHEN p_counted_quantity IS NULL THEN NULL ELSE NOW() END
+  FROM stock_takes t
+  WHERE l.id = p_line_id
+    AND t.id = l.stock_take_id
+    AND t.status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This count is no longer open';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_stock_count(UUID, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_stock_count(UUID, INTEGER) TO authenticated;
+
+-- Post a count. Each counted line moves its batch by (counted - system), so
+-- sales made while counting are not double-counted. Uncounted lines are skipped.
+-- Returns the number of adjustments written.
+CREATE OR REPLACE FUNCTION post_stock_take(p_stock_take_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_take stock_takes%ROWTYPE;
+  v_line RECORD;
+  v_adjustments INTEGER := 0;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can post a stock take';
+  END IF;
+
+  SELECT * INTO v_take FROM stock_takes WHERE id = p_stock_take_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take % not found', p_stock_take_id;
+  END IF;
+
+  IF v_take.status <> 'open' THEN
+    RAISE EXCEPTION 'Stock take % has already been %', v_take.take_number, v_take.status;
+  END IF;
+
+  -- Counted medicines are locked before their batches, the order a sale
+  -- takes them in, so posting during trading can't deadlock a checkout
+  PERFORM 1 FROM medicines
+  WHERE id IN (
+    SELECT medicine_id
+    FROM stock_take_lines
+    WHERE stock_take_id = p_stock_take_id
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> system_quantity
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.*, b.batch_number, b.quantity AS current_quantity
+    FROM stock_take_lines l
+    JOIN medicine_batches b ON b.id = l.batch_id
+    WHERE l.stock_take_id = p_stock_take_id
+      AND l.counted_quantity IS NOT NULL
+      AND l.counted_quantity <> l.system_quantity
+    ORDER BY l.medicine_id, l.batch_id
+    FOR UPDATE OF b
+  LOOP
+    IF v_line.current_quantity + (v_line.counted_quantity - v_line.system_quantity) < 0 THEN
+      RAISE EXCEPTION 'Batch % cannot go below zero; recount it before posting', v_line.batch_number;
+    END IF;
+
+    UPDATE medicine_batches
+    SET quantity = quantity + (v_line.counted_quantity - v_line.system_quantity)
+    WHERE id = v_line.batch_id;
+
+    INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+    VALUES (
+      v_line.medicine_id,
+      v_line.batch_id,
+      'adjustment',
+      v_line.counted_quantity - v_line.system_quantity,
+      'Stock take ' || v_take.take_number,
+      v_take.id,
+      auth.uid()
+    );
+
+    v_adjustments := v_adjustments + 1;
+  END LOOP;
+
+  UPDATE stock_takes
+  SET status = 'posted', closed_by = auth.uid(), closed_at = NOW()
+  WHERE id = p_stock_take_id;
+
+  RETURN v_adjustments;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION post_stock_take(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION post_stock_take(UUID) TO authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_stock_take(p_stock_take_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE stock_takes
+  SET status = 'cancelled', closed_by = auth.uid(), closed_at = NOW()
+  WHERE id = p_stock_take_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only open stock takes can be cancelled';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION cancel_stock_take(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION cancel_stock_take(UUID) TO authenticated;
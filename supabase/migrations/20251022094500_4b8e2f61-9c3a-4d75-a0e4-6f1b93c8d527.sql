@@ -0,0 +1,293 @@
+-- Expired and near-expiry stock can be quarantined, taking it off sale, and
+-- then written off to a witnessed destruction record.
+ALTER TABLE medicine_batches
+  ADD COLUMN status TEXT NOT NULL DEFAULT 'available' CHECK (status IN ('available', 'quarantined', 'written_off')),
+  ADD COLUMN quarantine_reason TEXT,
+  ADD COLUMN quarantined_by UUID REFERENCES profiles(id),
+  ADD COLUMN quarantined_at TIMESTAMPTZ;
+
+CREATE SEQUENCE disposal_number_seq;
+
+CREATE TABLE stock_disposals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  disposal_number TEXT UNIQUE NOT NULL,
+  disposal_method TEXT NOT NULL CHECK (disposal_method IN ('incineration', 'encapsulation', 'inertisation', 'return_to_supplier', 'other')),
+  disposal_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  witness_name TEXT NOT NULL,
+  witness_designation TEXT,
+  notes TEXT,
+  disposed_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Batch details are copied so the record still reads correctly if the
+-- medicine is later renamed or removed.
+CREATE TABLE stock_disposal_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  disposal_id UUID NOT NULL REFERENCES stock_disposals(id) ON DELETE CASCADE,
+  medicine_id UUID REFERENCES medicines(id) ON DELETE SET NULL,
+  batch_id UUID REFERENCES medicine_batches(id) ON DELETE SET NULL,
+  medicine_name TEXT NOT NULL,
+  batch_number TEXT NOT NULL,
+  expiry_date DATE NOT NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0
+);
+
+ALTER TABLE stock_disposals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE stock_disposal_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON stock_disposals FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Allow authenticated read access" ON stock_disposal_items FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION generate_disposal_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.disposal_number = 'WO-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(NEXTVAL('disposal_number_seq')::TEXT, 4, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER before_stock_disposal_insert
+  BEFORE INSERT ON stock_disposals
+  FOR EACH ROW
+  WHEN (NEW.disposal_number IS NULL)
+  EXECUTE FUNCTION generate_disposal_number();
+
+-- Take a batch off sale, or release it back when p_quarantine is false
+CREATE OR REPLACE FUNCTION set_batch_quarantine(p_batch_id UUID, p_quarantine BOOLEAN, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_batch medicine_batches%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can quarantine stock';
+  END IF;
+
+  -- Changing the status updates the medicine's stock, so lock the medicine
+  -- ahead of the batch as a sale does
+  PERFORM 1 FROM medicines
+  WHERE id = (SELECT medicine_id FROM medicine_batches WHERE id = p_batch_id)
+  FOR UPDATE;
+
+  SELECT * INTO v_batch FROM medicine_batches WHERE id = p_batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status = 'written_off' THEN
+    RAISE EXCEPTION 'Batch % has already been written off', v_batch.batch_number;
+  END IF;
+
+  IF p_quarantine THEN
+    UPDATE medicine_batches
+    SET status = 'quarantined',
+        quarantine_reason = NULLIF(TRIM(p_reason), ''),
+        quarantined_by = auth.uid(),
+        quarantined_at = NOW()
+    WHERE id = p_batch_id;
+  ELSE
+    IF v_batch.expiry_date <= CURRENT_DATE THEN
+      RAISE EXCEPTION 'Batch % has expired and cannot be released for sale', v_batch.batch_number;
+    END IF;
+
+    UPDATE medicine_batches
+    SET status = 'available',
+        quarantine_reason = NULL,
+        quarantined_by = NULL,
+        quarantined_at = NULL
+    WHERE id = p_batch_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_batch_quarantine(UUID, BOOLEAN, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_batch_quarantine(UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Write off quarantined or expired batches in one destruction record. Each
+-- batch is emptied with an 'expired' movement referencing the disposal.
+CREATE OR REPLACE FUNCTION write_off_batches(
+  p_batch_ids UUID[],
+  p_disposal_method TEXT,
+  p_witness_name TEXT,
+  p_witness_designation TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_disposal_id UUID;
+  v_disposal_number TEXT;
+  v_batch RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can write off stock';
+  END IF;
+
+  IF p_batch_ids IS NULL OR array_length(p_batch_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Select at least one batch to write off';
+  END IF;
+
+  IF NULLIF(TRIM(p_witness_name), '') IS NULL THEN
+    RAISE EXCEPTION 'A witness is required for a write-off';
+  END IF;
+
+  INSERT INTO stock_disposals (disposal_method, witness_name, witness_designation, notes, disposed_by)
+  VALUES (
+    p_disposal_method,
+    TRIM(p_witness_name),
+    NULLIF(TRIM(p_witness_designation), ''),
+    NULLIF(TRIM(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING id, disposal_number INTO v_disposal_id, v_disposal_number;
+
+  -- Lock medicines before batches, in the same order checkout does
+  PERFORM 1 FROM medicines
+  WHERE id IN (SELECT medicine_id FROM medicine_batches WHERE id = ANY (p_batch_ids))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_batch IN
+    SELECT b.*, m.name AS medicine_name
+    FROM medicine_batches b
+    JOIN medicines m ON m.id = b.medicine_id
+    WHERE b.id = ANY (p_batch_ids)
+    ORDER BY b.medicine_id, b.expiry_date
+    FOR UPDATE OF b
+  LOOP
+    IF v_batch.status <> 'quarantined' AND v_batch.expiry_date > CURRENT_DATE THEN
+      RAISE EXCEPTION 'Quarantine batch % before writing it off', v_batch.batch_number;
+    END IF;
+
+    IF v_batch.quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO stock_disposal_items (disposal_id, medicine_id, batch_id, medicine_name, batch_number, expiry_date, quantity, unit_cost)
+    VALUES (v_disposal_id, v_batch.medicine_id, v_batch.id, v_batch.medicine_name, v_batch.batch_number, v_batch.expiry_date, v_batch.quantity, v_batch.unit_cost);
+
+    UPDATE medicine_batches
+    SET quantity = 0,
+        status = 'written_off'
+    WHERE id = v_batch.id;
+
+    INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+    VALUES (v_batch.medicine_id, v_batch.id, 'expired', v_batch.quantity, 'Write-off ' || v_disposal_number, v_disposal_id, auth.uid());
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'None of the selected batches hold stock to write off';
+  END IF;
+
+  RETURN v_disposal_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION write_off_batches(UUID[], TEXT, TEXT, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION write_off_batches(UUID[], TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Checkout skips quarantined batches as well as expired ones
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_line RECORD;
+  v_batch RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_available INTEGER;
+  v_remaining INTEGER;
+  v_take INTEGER;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    NULLIF(payment->>'prescription_id', '')::UUID,
+    0,
+    auth.uid()
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_available
+    FROM medicine_batches
+    WHERE medicine_id = v_medicine.id AND status = 'available' AND expiry_date > CURRENT_DATE;
+
+    IF v_available < v_line.quantity THEN
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_available;
+    END IF;
+
+    v_remaining := v_line.quantity;
+
+    FOR v_batch IN
+      SELECT id, quantity
+      FROM medicine_batches
+      WHERE medicine_id = v_medicine.id AND quantity > 0 AND status = 'available' AND expiry_date > CURRENT_DATE
+      ORDER BY expiry_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_batch.quantity);
+
+      INSERT INTO sale_items (sale_id, medicine_id, batch_id, quantity, unit_price, total_price)
+      VALUES (v_sale_id, v_medicine.id, v_batch.id, v_take, v_medicine.selling_price, v_take * v_medicine.selling_price);
+
+      UPDATE medicine_batches
+      SET quantity = quantity - v_take
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+      VALUES (v_medicine.id, v_batch.id, 'out', v_take, 'Sale', v_sale_id, auth.uid());
+
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    v_total := v_total + v_line.quantity * v_medicine.selling_price;
+  END LOOP;
+
+  UPDATE sales SET total_amount = v_total WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,174 @@
+-- A pharmacist can authorise selling a prescription-only medicine without a
+-- linked prescription. Each override is used by at most one sale.
+CREATE TABLE prescription_overrides (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  medicine_id UUID NOT NULL REFERENCES medicines(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  approved_by UUID NOT NULL REFERENCES profiles(id),
+  requested_by UUID REFERENCES profiles(id),
+  sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  used_at TIMESTAMPTZ
+);
+
+ALTER TABLE prescription_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON prescription_overrides FOR SELECT TO authenticated USING (true);
+
+-- Called from the pharmacist's own session. p_requested_by is the cashier
+-- serving the customer when the pharmacist approves at their till.
+CREATE OR REPLACE FUNCTION grant_prescription_override(
+  p_medicine_id UUID,
+  p_reason TEXT,
+  p_requested_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_override_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can override a prescription requirement';
+  END IF;
+
+  IF LENGTH(COALESCE(TRIM(p_reason), '')) < 5 THEN
+    RAISE EXCEPTION 'Give a reason for the override';
+  END IF;
+
+  PERFORM 1 FROM medicines WHERE id = p_medicine_id AND requires_prescription;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Medicine % does not require a prescription', p_medicine_id;
+  END IF;
+
+  INSERT INTO prescription_overrides (medicine_id, reason, approved_by, requested_by)
+  VALUES (p_medicine_id, TRIM(p_reason), auth.uid(), COALESCE(p_requested_by, auth.uid()))
+  RETURNING id INTO v_override_id;
+
+  RETURN v_override_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION grant_prescription_override(UUID, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION grant_prescription_override(UUID, TEXT, UUID) TO authenticated;
+
+-- Checkout refuses expired stock with its own message and requires either a
+-- linked prescription or an unused override for prescription-only lines.
+-- Each item may carry an override_id alongside medicine_id and quantity.
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_prescription_id UUID := NULLIF(payment->>'prescription_id', '')::UUID;
+  v_line RECORD;
+  v_batch RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_available INTEGER;
+  v_expired INTEGER;
+  v_remaining INTEGER;
+  v_take INTEGER;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    v_prescription_id,
+    0,
+    auth.uid()
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity,
+           MAX(NULLIF(value->>'override_id', ''))::UUID AS override_id
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    IF v_medicine.requires_prescription AND v_prescription_id IS NULL THEN
+      UPDATE prescription_overrides
+      SET sale_id = v_sale_id,
+          used_at = NOW()
+      WHERE id = v_line.override_id
+        AND medicine_id = v_medicine.id
+        AND sale_id IS NULL
+        AND used_at IS NULL
+        AND created_at > NOW() - INTERVAL '1 hour';
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% requires a prescription or a pharmacist override', v_medicine.name;
+      END IF;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity) FILTER (WHERE expiry_date > CURRENT_DATE), 0),
+           COALESCE(SUM(quantity) FILTER (WHERE expiry_date <= CURRENT_DATE), 0)
+    INTO v_available, v_expired
+    FROM medicine_batches
+    WHERE medicine_id = v_medicine.id AND status = 'available';
+
+    IF v_available < v_line.quantity THEN
+      IF v_expired > 0 THEN
+        RAISE EXCEPTION '% has expired stock that cannot be sold (% in date)', v_medicine.name, v_available;
+      END IF;
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_available;
+    END IF;
+
+    v_remaining := v_line.quantity;
+
+    FOR v_batch IN
+      SELECT id, quantity
+      FROM medicine_batches
+      WHERE medicine_id = v_medicine.id AND quantity > 0 AND status = 'available' AND expiry_date > CURRENT_DATE
+      ORDER BY expiry_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_batch.quantity);
+
+      INSERT INTO sale_items (sale_id, medicine_id, batch_id, quantity, unit_price, total_price)
+      VALUES (v_sale_id, v_medicine.id, v_batch.id, v_take, v_medicine.selling_price, v_take * v_medicine.selling_price);
+
+      UPDATE medicine_batches
+      SET quantity = quantity - v_take
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+      VALUES (v_medicine.id, v_batch.id, 'out', v_take, 'Sale', v_sale_id, auth.uid());
+
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    v_total := v_total + v_line.quantity * v_medicine.selling_price;
+  END LOOP;
+
+  UPDATE sales SET total_amount = v_total WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,144 @@
+-- Purchase orders raised against suppliers. Drafts are edited through
+-- save_purchase_order; receiving stock against an order moves it on to
+-- partially_received and received.
+CREATE SEQUENCE purchase_order_number_seq;
+
+CREATE TABLE purchase_orders (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  po_number TEXT UNIQUE NOT NULL,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id),
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'sent', 'partially_received', 'received', 'cancelled')),
+  order_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  expected_date DATE,
+  notes TEXT,
+  created_by UUID REFERENCES profiles(id),
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE purchase_order_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  purchase_order_id UUID NOT NULL REFERENCES purchase_orders(id) ON DELETE CASCADE,
+  medicine_id UUID NOT NULL REFERENCES medicines(id),
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  UNIQUE (purchase_order_id, medicine_id)
+);
+
+CREATE INDEX purchase_orders_supplier_idx ON purchase_orders (supplier_id, created_at);
+
+ALTER TABLE purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE purchase_order_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON purchase_orders FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Allow authenticated read access" ON purchase_order_items FOR SELECT TO authenticated USING (true);
+
+CREATE TRIGGER update_purchase_orders_updated_at BEFORE UPDATE ON purchase_orders
+  FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION generate_po_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.po_number = 'PO-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(NEXTVAL('purchase_order_number_seq')::TEXT, 4, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER before_purchase_order_insert
+  BEFORE INSERT ON purchase_orders
+  FOR EACH ROW
+  WHEN (NEW.po_number IS NULL)
+  EXECUTE FUNCTION generate_po_number();
+
+-- Create a draft, or replace the header and lines of an existing draft.
+-- p_items is an array of { medicine_id, quantity, unit_cost }.
+CREATE OR REPLACE FUNCTION save_purchase_order(
+  p_supplier_id UUID,
+  p_items JSONB,
+  p_purchase_order_id UUID DEFAULT NULL,
+  p_expected_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_order_id UUID := p_purchase_order_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the order';
+  END IF;
+
+  IF v_order_id IS NULL THEN
+    INSERT INTO purchase_orders (supplier_id, expected_date, notes, created_by)
+    VALUES (p_supplier_id, p_expected_date, NULLIF(TRIM(p_notes), ''), auth.uid())
+    RETURNING id INTO v_order_id;
+  ELSE
+    SELECT * INTO v_order FROM purchase_orders WHERE id = v_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order % not found', v_order_id;
+    END IF;
+
+    IF v_order.status <> 'draft' THEN
+      RAISE EXCEPTION 'Purchase order % is % and can no longer be edited', v_order.po_number, v_order.status;
+    END IF;
+
+    UPDATE purchase_orders
+    SET supplier_id = p_supplier_id,
+        expected_date = p_expected_date,
+        notes = NULLIF(TRIM(p_notes), '')
+    WHERE id = v_order_id;
+
+    DELETE FROM purchase_order_items WHERE purchase_order_id = v_order_id;
+  END IF;
+
+  INSERT INTO purchase_order_items (purchase_order_id, medicine_id, quantity_ordered, unit_cost)
+  SELECT v_order_id,
+         (value->>'medicine_id')::UUID,
+         SUM((value->>'quantity')::INTEGER),
+         MAX(COALESCE((value->>'unit_cost')::DECIMAL, 0))
+  FROM jsonb_array_elements(p_items)
+  GROUP BY 2;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION save_purchase_order(UUID, JSONB, UUID, DATE, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_purchase_order(UUID, JSONB, UUID, DATE, TEXT) TO authenticated;
+
+-- Send a draft to the supplier or cancel an order. Receiving goods sets the
+-- received statuses, so they cannot be chosen here.
+CREATE OR REPLACE FUNCTION set_purchase_order_status(p_purchase_order_id UUID, p_status TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id;
+  END IF;
+
+  IF p_status = 'sent' AND v_order.status = 'draft' THEN
+    UPDATE purchase_orders SET status = 'sent', sent_at = NOW() WHERE id = p_purchase_order_id;
+  ELSIF p_status = 'cancelled' AND v_order.status IN ('draft', 'sent') THEN
+    UPDATE purchase_orders SET status = 'cancelled' WHERE id = p_purchase_order_id;
+  ELSE
+    RAISE EXCEPTION 'Purchase order % cannot move from % to %', v_order.po_number, v_order.status, p_status;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_purchase_order_status(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_purchase_order_status(UUID, TEXT) TO authenticated;
@@ -0,0 +1,296 @@
+-- Goods received notes. Deliveries are received against a sent purchase
+-- order or ad hoc from a supplier; accepted quantities go into batches with
+-- an 'in' movement referencing the GRN.
+CREATE SEQUENCE grn_number_seq;
+
+CREATE TABLE goods_received_notes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  grn_number TEXT UNIQUE NOT NULL,
+  supplier_id UUID NOT NULL REFERENCES suppliers(id),
+  purchase_order_id UUID REFERENCES purchase_orders(id),
+  delivery_note_number TEXT,
+  received_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  notes TEXT,
+  received_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- quantity_expected is what was outstanding on the order line, so short and
+-- over deliveries can be reported; damaged units are not put into stock.
+CREATE TABLE goods_received_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  grn_id UUID NOT NULL REFERENCES goods_received_notes(id) ON DELETE CASCADE,
+  purchase_order_item_id UUID REFERENCES purchase_order_items(id),
+  medicine_id UUID NOT NULL REFERENCES medicines(id),
+  batch_id UUID REFERENCES medicine_batches(id),
+  batch_number TEXT NOT NULL,
+  expiry_date DATE NOT NULL,
+  manufacture_date DATE,
+  quantity_expected INTEGER,
+  quantity_delivered INTEGER NOT NULL CHECK (quantity_delivered >= 0),
+  quantity_damaged INTEGER NOT NULL DEFAULT 0 CHECK (quantity_damaged >= 0),
+  unit_cost DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (unit_cost >= 0),
+  CHECK (quantity_damaged <= quantity_delivered)
+);
+
+CREATE INDEX goods_received_notes_supplier_idx ON goods_received_notes (supplier_id, created_at);
+
+ALTER TABLE goods_received_notes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE goods_received_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON goods_received_notes FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Allow authenticated read access" ON goods_received_items FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION generate_grn_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.grn_number = 'GRN-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(NEXTVAL('grn_number_seq')::TEXT, 4, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER before_goods_received_note_insert
+  BEFORE INSERT ON goods_received_notes
+  FOR EACH ROW
+  WHEN (NEW.grn_number IS NULL)
+  EXECUTE FUNCTION generate_grn_number();
+
+-- Put stock into a batch, topping up an existing batch with the same number
+-- and expiry, and write the 'in' movement. Callers check auth and lock the
+-- medicine first. A written-off batch that is received again is back in use.
+-- A quarantined batch is never topped up, as the delivery would be stuck off
+-- sale with it; the new stock gets a batch of its own. Topping up costs the
+-- batch at the average of what is on hand and what arrived.
+CREATE OR REPLACE FUNCTION stock_in_batch(
+  p_medicine_id UUID,
+  p_batch_number TEXT,
+  p_expiry_date DATE,
+  p_manufacture_date DATE,
+  p_quantity INTEGER,
+  p_unit_cost DECIMAL,
+  p_reason TEXT,
+  p_reference_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_batch_id UUID;
+BEGIN
+  SELECT id INTO v_batch_id
+  FROM medicine_batches
+  WHERE medicine_id = p_medicine_id
+    AND batch_number = TRIM(p_batch_number)
+    AND expiry_date = p_expiry_date
+    AND status <> 'quarantined'
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_batch_id IS NULL THEN
+    INSERT INTO medicine_batches (medicine_id, batch_number, expiry_date, manufacture_date, quantity, unit_cost)
+    VALUES (p_medicine_id, TRIM(p_batch_number), p_expiry_date, p_manufacture_date, p_quantity, COALESCE(p_unit_cost, 0))
+    RETURNING id INTO v_batch_id;
+  ELSE
+    UPDATE medicine_batches
+    SET quantity = quantity + p_quantity,
+        unit_cost = COALESCE(ROUND((quantity * unit_cost + p_quantity * p_unit_cost) / (quantity + p_quantity), 2), unit_cost),
+        manufacture_date = COALESCE(p_manufacture_date, manufacture_date),
+        status = CASE WHEN status = 'written_off' THEN 'available' ELSE status END
+    WHERE id = v_batch_id;
+  END IF;
+
+  INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+  VALUES (p_medicine_id, v_batch_id, 'in', p_quantity, p_reason, p_reference_id, auth.uid());
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION stock_in_batch(UUID, TEXT, DATE, DATE, INTEGER, DECIMAL, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION receive_medicine_batch(
+  p_medicine_id UUID,
+  p_batch_number TEXT,
+  p_expiry_date DATE,
+  p_quantity INTEGER,
+  p_unit_cost DECIMAL DEFAULT 0,
+  p_manufacture_date DATE DEFAULT NULL,
+  p_reason TEXT DEFAULT 'Stock received'
+)
+RETURNS UUID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity received must be at least 1';
+  END IF;
+
+  IF NULLIF(TRIM(p_batch_number), '') IS NULL THEN
+    RAISE EXCEPTION 'Batch number is required';
+  END IF;
+
+  PERFORM 1 FROM medicines WHERE id = p_medicine_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Medicine % not found', p_medicine_id;
+  END IF;
+
+  RETURN stock_in_batch(p_medicine_id, p_batch_number, p_expiry_date, p_manufacture_date, p_quantity, p_unit_cost, p_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Post a delivery. p_items is an array of { purchase_order_item_id?,
+-- medicine_id, batch_number, expiry_date, manufacture_date?,
+-- quantity_delivered, quantity_damaged?, unit_cost }. Accepted stock takes
+-- the landed unit cost, which also becomes the medicine's unit_price.
+CREATE OR REPLACE FUNCTION post_goods_received(
+  p_supplier_id UUID,
+  p_items JSONB,
+  p_purchase_order_id UUID DEFAULT NULL,
+  p_delivery_note_number TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_grn_id UUID;
+  v_grn_number TEXT;
+  v_order purchase_orders%ROWTYPE;
+  v_order_item purchase_order_items%ROWTYPE;
+  v_line RECORD;
+  v_medicine_name TEXT;
+  v_expected INTEGER;
+  v_accepted INTEGER;
+  v_batch_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one line to the delivery';
+  END IF;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id;
+    END IF;
+
+    IF v_order.status NOT IN ('sent', 'partially_received') THEN
+      RAISE EXCEPTION 'Purchase order % is % and cannot be received against', v_order.po_number, v_order.status;
+    END IF;
+
+    IF v_order.supplier_id <> p_supplier_id THEN
+      RAISE EXCEPTION 'Purchase order % is for a different supplier', v_order.po_number;
+    END IF;
+  END IF;
+
+  INSERT INTO goods_received_notes (supplier_id, purchase_order_id, delivery_note_number, notes, received_by)
+  VALUES (
+    p_supplier_id,
+    p_purchase_order_id,
+    NULLIF(TRIM(p_delivery_note_number), ''),
+    NULLIF(TRIM(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING id, grn_number INTO v_grn_id, v_grn_number;
+
+  -- Medicines are locked in a stable order, as checkout does
+  FOR v_line IN
+    SELECT NULLIF(value->>'purchase_order_item_id', '')::UUID AS purchase_order_item_id,
+           (value->>'medicine_id')::UUID AS medicine_id,
+           TRIM(value->>'batch_number') AS batch_number,
+           (value->>'expiry_date')::DATE AS expiry_date,
+           NULLIF(value->>'manufacture_date', '')::DATE AS manufacture_date,
+           COALESCE((value->>'quantity_delivered')::INTEGER, 0) AS quantity_delivered,
+           COALESCE((value->>'quantity_damaged')::INTEGER, 0) AS quantity_damaged,
+           COALESCE((value->>'unit_cost')::DECIMAL, 0) AS unit_cost
+    FROM jsonb_array_elements(p_items)
+    ORDER BY 2
+  LOOP
+    SELECT name INTO v_medicine_name FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF NULLIF(v_line.batch_number, '') IS NULL OR v_line.expiry_date IS NULL THEN
+      RAISE EXCEPTION 'Batch number and expiry date are required for %', v_medicine_name;
+    END IF;
+
+    IF v_line.expiry_date <= CURRENT_DATE THEN
+      RAISE EXCEPTION 'Batch % of % expired on %', v_line.batch_number, v_medicine_name, v_line.expiry_date;
+    END IF;
+
+    IF v_line.quantity_delivered < 0 OR v_line.quantity_damaged < 0 OR v_line.quantity_damaged > v_line.quantity_delivered THEN
+      RAISE EXCEPTION 'Check the delivered and damaged quantities for %', v_medicine_name;
+    END IF;
+
+    v_expected := NULL;
+
+    IF v_line.purchase_order_item_id IS NOT NULL THEN
+      SELECT * INTO v_order_item
+      FROM purchase_order_items
+      WHERE id = v_line.purchase_order_item_id AND purchase_order_id = p_purchase_order_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_order_item.medicine_id <> v_line.medicine_id THEN
+        RAISE EXCEPTION '% is not on purchase order %', v_medicine_name, v_order.po_number;
+      END IF;
+
+      v_expected := GREATEST(v_order_item.quantity_ordered - v_order_item.quantity_received, 0);
+    END IF;
+
+    v_accepted := v_line.quantity_delivered - v_line.quantity_damaged;
+    v_batch_id := NULL;
+
+    IF v_accepted > 0 THEN
+      v_batch_id := stock_in_batch(
+        v_line.medicine_id,
+        v_line.batch_number,
+        v_line.expiry_date,
+        v_line.manufacture_date,
+        v_accepted,
+        v_line.unit_cost,
+        'Goods received ' || v_grn_number,
+        v_grn_id
+      );
+
+      UPDATE medicines SET unit_price = v_line.unit_cost WHERE id = v_line.medicine_id;
+    END IF;
+
+    IF v_line.purchase_order_item_id IS NOT NULL THEN
+      UPDATE purchase_order_items
+      SET quantity_received = quantity_received + v_accepted
+      WHERE id = v_line.purchase_order_item_id;
+    END IF;
+
+    INSERT INTO goods_received_items (
+      grn_id, purchase_order_item_id, medicine_id, batch_id, batch_number, expiry_date, manufacture_date,
+      quantity_expected, quantity_delivered, quantity_damaged, unit_cost
+    )
+    VALUES (
+      v_grn_id, v_line.purchase_order_item_id, v_line.medicine_id, v_batch_id, v_line.batch_number, v_line.expiry_date,
+      v_line.manufacture_date, v_expected, v_line.quantity_delivered, v_line.quantity_damaged, v_line.unit_cost
+    );
+  END LOOP;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    UPDATE purchase_orders
+    SET status = CASE
+      WHEN NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE purchase_order_id = p_purchase_order_id AND quantity_received < quantity_ordered
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END
+    WHERE id = p_purchase_order_id;
+  END IF;
+
+  RETURN v_grn_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION post_goods_received(UUID, JSONB, UUID, TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION post_goods_received(UUID, JSONB, UUID, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,63 @@
+-- Reorder planning: how far back to look at sales, how long suppliers take
+-- to deliver, and how many days of stock an order should leave on the shelf.
+ALTER TABLE pharmacy_settings
+  ADD COLUMN reorder_window_days INTEGER NOT NULL DEFAULT 30 CHECK (reorder_window_days > 0),
+  ADD COLUMN reorder_lead_time_days INTEGER NOT NULL DEFAULT 7 CHECK (reorder_lead_time_days >= 0),
+  ADD COLUMN reorder_cover_days INTEGER NOT NULL DEFAULT 30 CHECK (reorder_cover_days > 0);
+
+CREATE INDEX IF NOT EXISTS sales_created_at_idx ON sales (created_at);
+
+-- Units sold per medicine over the last p_window_days
+CREATE OR REPLACE FUNCTION get_sales_velocity(p_window_days INTEGER DEFAULT 30)
+RETURNS TABLE (medicine_id UUID, units_sold BIGINT) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_window_days IS NULL OR p_window_days <= 0 THEN
+    RAISE EXCEPTION 'Sales window must be at least one day';
+  END IF;
+
+  RETURN QUERY
+  SELECT si.medicine_id, SUM(si.quantity)::BIGINT
+  FROM sale_items si
+  JOIN sales s ON s.id = si.sale_id
+  WHERE s.created_at >= NOW() - MAKE_INTERVAL(days => p_window_days)
+    AND si.medicine_id IS NOT NULL
+  GROUP BY si.medicine_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION get_sales_velocity(INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_sales_velocity(INTEGER) TO authenticated;
+
+-- orders: [{ "supplier_id", "items": [{ "medicine_id", "quantity", "unit_cost" }],
+-- "expected_date", "notes" }]. The reorder planner raises a draft for each
+-- supplier at once; if any of them can't be saved, none are.
+CREATE OR REPLACE FUNCTION save_purchase_orders(p_orders JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+  v_order JSONB;
+BEGIN
+  IF p_orders IS NULL OR jsonb_typeof(p_orders) <> 'array' OR jsonb_array_length(p_orders) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one supplier to order from';
+  END IF;
+
+  FOR v_order IN SELECT value FROM jsonb_array_elements(p_orders)
+  LOOP
+    PERFORM save_purchase_order(
+      NULLIF(v_order->>'supplier_id', '')::UUID,
+      v_order->'items',
+      NULL,
+      NULLIF(v_order->>'expected_date', '')::DATE,
+      v_order->>'notes'
+    );
+  END LOOP;
+
+  RETURN jsonb_array_length(p_orders);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION save_purchase_orders(JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION save_purchase_orders(JSONB) TO authenticated;
@@ -0,0 +1,328 @@
+-- Role-based access. Cashiers sell and record prescriptions; pricing, the
+-- medicine catalogue, suppliers and procurement belong to pharmacists and
+-- admins. Sales and ledger rows are only ever written by the stock functions.
+DROP POLICY "Allow authenticated insert access" ON medicine_categories;
+DROP POLICY "Allow authenticated update access" ON medicine_categories;
+DROP POLICY "Allow authenticated insert access" ON suppliers;
+DROP POLICY "Allow authenticated update access" ON suppliers;
+DROP POLICY "Allow authenticated insert access" ON medicines;
+DROP POLICY "Allow authenticated update access" ON medicines;
+DROP POLICY "Allow authenticated insert access" ON sales;
+DROP POLICY "Allow authenticated insert access" ON sale_items;
+DROP POLICY "Allow authenticated insert access" ON stock_movements;
+
+CREATE POLICY "Pharmacists and admins can add categories" ON medicine_categories FOR INSERT TO authenticated
+  WITH CHECK (current_user_role() IN ('admin', 'pharmacist'));
+CREATE POLICY "Pharmacists and admins can update categories" ON medicine_categories FOR UPDATE TO authenticated
+  USING (current_user_role() IN ('admin', 'pharmacist'));
+
+CREATE POLICY "Pharmacists and admins can add suppliers" ON suppliers FOR INSERT TO authenticated
+  WITH CHECK (current_user_role() IN ('admin', 'pharmacist'));
+CREATE POLICY "Pharmacists and admins can update suppliers" ON suppliers FOR UPDATE TO authenticated
+  USING (current_user_role() IN ('admin', 'pharmacist'));
+
+CREATE POLICY "Pharmacists and admins can add medicines" ON medicines FOR INSERT TO authenticated
+  WITH CHECK (current_user_role() IN ('admin', 'pharmacist'));
+CREATE POLICY "Pharmacists and admins can update medicines" ON medicines FOR UPDATE TO authenticated
+  USING (current_user_role() IN ('admin', 'pharmacist'));
+CREATE POLICY "Admins can delete medicines" ON medicines FOR DELETE TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Staff may keep their own name and phone up to date, but a role only
+-- changes at an admin's hand.
+CREATE OR REPLACE FUNCTION protect_profile_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.role IS DISTINCT FROM OLD.role
+     AND auth.uid() IS NOT NULL
+     AND current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can change staff roles';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER before_profile_role_update
+  BEFORE UPDATE OF role ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_role();
+
+-- Receiving and ordering stock sets costs, so it is limited to pharmacists
+-- and admins as well.
+CREATE OR REPLACE FUNCTION receive_medicine_batch(
+  p_medicine_id UUID,
+  p_batch_number TEXT,
+  p_expiry_date DATE,
+  p_quantity INTEGER,
+  p_unit_cost DECIMAL DEFAULT 0,
+  p_manufacture_date DATE DEFAULT NULL,
+  p_reason TEXT DEFAULT 'Stock received'
+)
+RETURNS UUID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can receive stock';
+  END IF;
+
+  IF p_quantity IS NULL OR p_quantity <= 0 THEN
+    RAISE EXCEPTION 'Quantity received must be at least 1';
+  END IF;
+
+  IF NULLIF(TRIM(p_batch_number), '') IS NULL THEN
+    RAISE EXCEPTION 'Batch number is required';
+  END IF;
+
+  PERFORM 1 FROM medicines WHERE id = p_medicine_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Medicine % not found', p_medicine_id;
+  END IF;
+
+  RETURN stock_in_batch(p_medicine_id, p_batch_number, p_expiry_date, p_manufacture_date, p_quantity, p_unit_cost, p_reason);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION save_purchase_order(
+  p_supplier_id UUID,
+  p_items JSONB,
+  p_purchase_order_id UUID DEFAULT NULL,
+  p_expected_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_order_id UUID := p_purchase_order_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can raise purchase orders';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the order';
+  END IF;
+
+  IF v_order_id IS NULL THEN
+    INSERT INTO purchase_orders (supplier_id, expected_date, notes, created_by)
+    VALUES (p_supplier_id, p_expected_date, NULLIF(TRIM(p_notes), ''), auth.uid())
+    RETURNING id INTO v_order_id;
+  ELSE
+    SELECT * INTO v_order FROM purchase_orders WHERE id = v_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order % not found', v_order_id;
+    END IF;
+
+    IF v_order.status <> 'draft' THEN
+      RAISE EXCEPTION 'Purchase order % is % and can no longer be edited', v_order.po_number, v_order.status;
+    END IF;
+
+    UPDATE purchase_orders
+    SET supplier_id = p_supplier_id,
+        expected_date = p_expected_date,
+        notes = NULLIF(TRIM(p_notes), '')
+    WHERE id = v_order_id;
+
+    DELETE FROM purchase_order_items WHERE purchase_order_id = v_order_id;
+  END IF;
+
+  INSERT INTO purchase_order_items (purchase_order_id, medicine_id, quantity_ordered, unit_cost)
+  SELECT v_order_id,
+         (value->>'medicine_id')::UUID,
+         SUM((value->>'quantity')::INTEGER),
+         MAX(COALESCE((value->>'unit_cost')::DECIMAL, 0))
+  FROM jsonb_array_elements(p_items)
+  GROUP BY 2;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_purchase_order_status(p_purchase_order_id UUID, p_status TEXT)
+RETURNS VOID AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can send or cancel purchase orders';
+  END IF;
+
+  SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id;
+  END IF;
+
+  IF p_status = 'sent' AND v_order.status = 'draft' THEN
+    UPDATE purchase_orders SET status = 'sent', sent_at = NOW() WHERE id = p_purchase_order_id;
+  ELSIF p_status = 'cancelled' AND v_order.status IN ('draft', 'sent') THEN
+    UPDATE purchase_orders SET status = 'cancelled' WHERE id = p_purchase_order_id;
+  ELSE
+    RAISE EXCEPTION 'Purchase order % cannot move from % to %', v_order.po_number, v_order.status, p_status;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION post_goods_received(
+  p_supplier_id UUID,
+  p_items JSONB,
+  p_purchase_order_id UUID DEFAULT NULL,
+  p_delivery_note_number TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_grn_id UUID;
+  v_grn_number TEXT;
+  v_order purchase_orders%ROWTYPE;
+  v_order_item purchase_order_items%ROWTYPE;
+  v_line RECORD;
+  v_medicine_name TEXT;
+  v_expected INTEGER;
+  v_accepted INTEGER;
+  v_batch_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can receive deliveries';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one line to the delivery';
+  END IF;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id;
+    END IF;
+
+    IF v_order.status NOT IN ('sent', 'partially_received') THEN
+      RAISE EXCEPTION 'Purchase order % is % and cannot be received against', v_order.po_number, v_order.status;
+    END IF;
+
+    IF v_order.supplier_id <> p_supplier_id THEN
+      RAISE EXCEPTION 'Purchase order % is for a different supplier', v_order.po_number;
+    END IF;
+  END IF;
+
+  INSERT INTO goods_received_notes (supplier_id, purchase_order_id, delivery_note_number, notes, received_by)
+  VALUES (
+    p_supplier_id,
+    p_purchase_order_id,
+    NULLIF(TRIM(p_delivery_note_number), ''),
+    NULLIF(TRIM(p_notes), ''),
+    auth.uid()
+  )
+  RETURNING id, grn_number INTO v_grn_id, v_grn_number;
+
+  -- Medicines are locked in a stable order, as checkout does
+  FOR v_line IN
+    SELECT NULLIF(value->>'purchase_order_item_id', '')::UUID AS purchase_order_item_id,
+           (value->>'medicine_id')::UUID AS medicine_id,
+           TRIM(value->>'batch_number') AS batch_number,
+           (value->>'expiry_date')::DATE AS expiry_date,
+           NULLIF(value->>'manufacture_date', '')::DATE AS manufacture_date,
+           COALESCE((value->>'quantity_delivered')::INTEGER, 0) AS quantity_delivered,
+           COALESCE((value->>'quantity_damaged')::INTEGER, 0) AS quantity_damaged,
+           COALESCE((value->>'unit_cost')::DECIMAL, 0) AS unit_cost
+    FROM jsonb_array_elements(p_items)
+    ORDER BY 2
+  LOOP
+    SELECT name INTO v_medicine_name FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF NULLIF(v_line.batch_number, '') IS NULL OR v_line.expiry_date IS NULL THEN
+      RAISE EXCEPTION 'Batch number and expiry date are required for %', v_medicine_name;
+    END IF;
+
+    IF v_line.expiry_date <= CURRENT_DATE THEN
+      RAISE EXCEPTION 'Batch % of % expired on %', v_line.batch_number, v_medicine_name, v_line.expiry_date;
+    END IF;
+
+    IF v_line.quantity_delivered < 0 OR v_line.quantity_damaged < 0 OR v_line.quantity_damaged > v_line.quantity_delivered THEN
+      RAISE EXCEPTION 'Check the delivered and damaged quantities for %', v_medicine_name;
+    END IF;
+
+    v_expected := NULL;
+
+    IF v_line.purchase_order_item_id IS NOT NULL THEN
+      SELECT * INTO v_order_item
+      FROM purchase_order_items
+      WHERE id = v_line.purchase_order_item_id AND purchase_order_id = p_purchase_order_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_order_item.medicine_id <> v_line.medicine_id THEN
+        RAISE EXCEPTION '% is not on purchase order %', v_medicine_name, v_order.po_number;
+      END IF;
+
+      v_expected := GREATEST(v_order_item.quantity_ordered - v_order_item.quantity_received, 0);
+    END IF;
+
+    v_accepted := v_line.quantity_delivered - v_line.quantity_damaged;
+    v_batch_id := NULL;
+
+    IF v_accepted > 0 THEN
+      v_batch_id := stock_in_batch(
+        v_line.medicine_id,
+        v_line.batch_number,
+        v_line.expiry_date,
+        v_line.manufacture_date,
+        v_accepted,
+        v_line.unit_cost,
+        'Goods received ' || v_grn_number,
+        v_grn_id
+      );
+
+      UPDATE medicines SET unit_price = v_line.unit_cost WHERE id = v_line.medicine_id;
+    END IF;
+
+    IF v_line.purchase_order_item_id IS NOT NULL THEN
+      UPDATE purchase_order_items
+      SET quantity_received = quantity_received + v_accepted
+      WHERE id = v_line.purchase_order_item_id;
+    END IF;
+
+    INSERT INTO goods_received_items (
+      grn_id, purchase_order_item_id, medicine_id, batch_id, batch_number, expiry_date, manufacture_date,
+      quantity_expected, quantity_delivered, quantity_damaged, unit_cost
+    )
+    VALUES (
+      v_grn_id, v_line.purchase_order_item_id, v_line.medicine_id, v_batch_id, v_line.batch_number, v_line.expiry_date,
+      v_line.manufacture_date, v_expected, v_line.quantity_delivered, v_line.quantity_damaged, v_line.unit_cost
+    );
+  END LOOP;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    UPDATE purchase_orders
+    SET status = CASE
+      WHEN NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE purchase_order_id = p_purchase_order_id AND quantity_received < quantity_ordered
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END
+    WHERE id = p_purchase_order_id;
+  END IF;
+
+  RETURN v_grn_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,137 @@
+-- Staff invitations. Signing up on its own only ever creates a cashier; an
+-- admin-issued invitation carries the role, and handle_new_user applies it
+-- when the invite token from the link is presented at signup.
+CREATE TABLE staff_invitations (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  email TEXT NOT NULL,
+  full_name TEXT,
+  role user_role NOT NULL,
+  token UUID UNIQUE NOT NULL DEFAULT uuid_generate_v4(),
+  invited_by UUID REFERENCES profiles(id),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT NOW() + INTERVAL '7 days',
+  accepted_at TIMESTAMPTZ,
+  accepted_by UUID REFERENCES profiles(id),
+  revoked_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- At most one open invitation per address
+CREATE UNIQUE INDEX staff_invitations_open_email_idx ON staff_invitations (LOWER(email))
+  WHERE accepted_at IS NULL AND revoked_at IS NULL;
+
+ALTER TABLE staff_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view invitations" ON staff_invitations FOR SELECT TO authenticated
+  USING (current_user_role() = 'admin');
+
+CREATE OR REPLACE FUNCTION handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_invitation staff_invitations%ROWTYPE;
+BEGIN
+  -- The token is compared as text so a malformed value can't fail the signup
+  IF NEW.raw_user_meta_data->>'invite_token' IS NOT NULL THEN
+    SELECT * INTO v_invitation
+    FROM staff_invitations
+    WHERE token::TEXT = NEW.raw_user_meta_data->>'invite_token'
+      AND LOWER(email) = LOWER(NEW.email)
+      AND accepted_at IS NULL
+      AND revoked_at IS NULL
+      AND expires_at > NOW()
+    FOR UPDATE;
+  END IF;
+
+  INSERT INTO public.profiles (id, full_name, role)
+  VALUES (
+    NEW.id,
+    COALESCE(NULLIF(TRIM(NEW.raw_user_meta_data->>'full_name'), ''), v_invitation.full_name, 'New User'),
+    COALESCE(v_invitation.role, 'cashier')
+  );
+
+  IF v_invitation.id IS NOT NULL THEN
+    UPDATE staff_invitations
+    SET accepted_at = NOW(), accepted_by = NEW.id
+    WHERE id = v_invitation.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Invite someone by email with the role they should get. Any earlier open
+-- invitation for the same address is revoked. Returns the invite token.
+CREATE OR REPLACE FUNCTION invite_staff(p_email TEXT, p_role user_role, p_full_name TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_email TEXT := LOWER(TRIM(p_email));
+  v_token UUID;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can invite staff';
+  END IF;
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF p_role IS NULL THEN
+    RAISE EXCEPTION 'Choose a role for the invitation';
+  END IF;
+
+  PERFORM 1 FROM auth.users WHERE LOWER(email) = v_email;
+  IF FOUND THEN
+    RAISE EXCEPTION '% already has an account', v_email;
+  END IF;
+
+  UPDATE staff_invitations
+  SET revoked_at = NOW()
+  WHERE LOWER(email) = v_email AND accepted_at IS NULL AND revoked_at IS NULL;
+
+  INSERT INTO staff_invitations (email, full_name, role, invited_by)
+  VALUES (v_email, NULLIF(TRIM(p_full_name), ''), p_role, auth.uid())
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION invite_staff(TEXT, user_role, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION invite_staff(TEXT, user_role, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION revoke_staff_invitation(p_invitation_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can revoke invitations';
+  END IF;
+
+  UPDATE staff_invitations
+  SET revoked_at = NOW()
+  WHERE id = p_invitation_id AND accepted_at IS NULL AND revoked_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only open invitations can be revoked';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION revoke_staff_invitation(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION revoke_staff_invitation(UUID) TO authenticated;
+
+-- What the signup page shows for an invite link. Only live invitations are
+-- returned, and only to someone holding the token.
+CREATE OR REPLACE FUNCTION lookup_staff_invitation(p_token UUID)
+RETURNS TABLE (email TEXT, full_name TEXT, role user_role, expires_at TIMESTAMPTZ) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT i.email, i.full_name, i.role, i.expires_at
+  FROM staff_invitations i
+  WHERE i.token = p_token
+    AND i.accepted_at IS NULL
+    AND i.revoked_at IS NULL
+    AND i.expires_at > NOW();
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION lookup_staff_invitation(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION lookup_staff_invitation(UUID) TO anon, authenticated;
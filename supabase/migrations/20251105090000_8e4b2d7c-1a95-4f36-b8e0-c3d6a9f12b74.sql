@@ -0,0 +1,240 @@
+-- Staff management. Deactivated staff keep their profile, so sales and
+-- ledger entries still show who served or moved stock, but they can no
+-- longer sign in, sell or pass any role check.
+ALTER TABLE profiles
+  ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true,
+  ADD COLUMN deactivated_at TIMESTAMPTZ;
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS user_role AS $$
+  SELECT role FROM profiles WHERE id = auth.uid() AND is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Staff edit their own name and phone; role and active status are admin-only
+DROP TRIGGER before_profile_role_update ON profiles;
+DROP FUNCTION protect_profile_role();
+
+CREATE OR REPLACE FUNCTION protect_profile_access()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (NEW.role IS DISTINCT FROM OLD.role
+      OR NEW.is_active IS DISTINCT FROM OLD.is_active
+      OR NEW.deactivated_at IS DISTINCT FROM OLD.deactivated_at)
+     AND auth.uid() IS NOT NULL
+     AND current_user_role() IS DISTINCT FROM 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can change staff roles or access';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER before_profile_access_update
+  BEFORE UPDATE OF role, is_active, deactivated_at ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION protect_profile_access();
+
+-- Everyone with an account, with the sign-in details that live in auth.users
+CREATE OR REPLACE FUNCTION list_staff()
+RETURNS TABLE (
+  id UUID,
+  full_name TEXT,
+  email TEXT,
+  phone TEXT,
+  role user_role,
+  is_active BOOLEAN,
+  last_sign_in_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ
+) AS $$
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can manage staff';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.full_name, u.email::TEXT, p.phone, p.role, p.is_active, u.last_sign_in_at, p.created_at
+  FROM profiles p
+  JOIN auth.users u ON u.id = p.id
+  ORDER BY p.is_active DESC, p.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION list_staff() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION list_staff() TO authenticated;
+
+CREATE OR REPLACE FUNCTION set_staff_role(p_profile_id UUID, p_role user_role)
+RETURNS VOID AS $$
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can change staff roles';
+  END IF;
+
+  IF p_profile_id = auth.uid() AND p_role <> 'admin' THEN
+    RAISE EXCEPTION 'You cannot remove your own admin role';
+  END IF;
+
+  UPDATE profiles SET role = p_role WHERE id = p_profile_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Staff member % not found', p_profile_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_staff_role(UUID, user_role) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_staff_role(UUID, user_role) TO authenticated;
+
+-- Deactivating bans the auth user and ends their sessions; reactivating
+-- lifts the ban.
+CREATE OR REPLACE FUNCTION set_staff_active(p_profile_id UUID, p_active BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can change staff access';
+  END IF;
+
+  IF p_profile_id = auth.uid() AND NOT p_active THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  UPDATE profiles
+  SET is_active = p_active,
+      deactivated_at = CASE WHEN p_active THEN NULL ELSE NOW() END
+  WHERE id = p_profile_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Staff member % not found', p_profile_id;
+  END IF;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_active THEN NULL ELSE 'infinity'::TIMESTAMPTZ END
+  WHERE id = p_profile_id;
+
+  IF NOT p_active THEN
+    DELETE FROM auth.sessions WHERE user_id = p_profile_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION set_staff_active(UUID, BOOLEAN) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_staff_active(UUID, BOOLEAN) TO authenticated;
+
+-- Deactivated staff cannot sell
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_prescription_id UUID := NULLIF(payment->>'prescription_id', '')::UUID;
+  v_line RECORD;
+  v_batch RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_available INTEGER;
+  v_expired INTEGER;
+  v_remaining INTEGER;
+  v_take INTEGER;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    v_prescription_id,
+    0,
+    auth.uid()
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity,
+           MAX(NULLIF(value->>'override_id', ''))::UUID AS override_id
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    IF v_medicine.requires_prescription AND v_prescription_id IS NULL THEN
+      UPDATE prescription_overrides
+      SET sale_id = v_sale_id,
+          used_at = NOW()
+      WHERE id = v_line.override_id
+        AND medicine_id = v_medicine.id
+        AND sale_id IS NULL
+        AND used_at IS NULL
+        AND created_at > NOW() - INTERVAL '1 hour';
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% requires a prescription or a pharmacist override', v_medicine.name;
+      END IF;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity) FILTER (WHERE expiry_date > CURRENT_DATE), 0),
+           COALESCE(SUM(quantity) FILTER (WHERE expiry_date <= CURRENT_DATE), 0)
+    INTO v_available, v_expired
+    FROM medicine_batches
+    WHERE medicine_id = v_medicine.id AND status = 'available';
+
+    IF v_available < v_line.quantity THEN
+      IF v_expired > 0 THEN
+        RAISE EXCEPTION '% has expired stock that cannot be sold (% in date)', v_medicine.name, v_available;
+      END IF;
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_available;
+    END IF;
+
+    v_remaining := v_line.quantity;
+
+    FOR v_batch IN
+      SELECT id, quantity
+      FROM medicine_batches
+      WHERE medicine_id = v_medicine.id AND quantity > 0 AND status = 'available' AND expiry_date > CURRENT_DATE
+      ORDER BY expiry_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_batch.quantity);
+
+      INSERT INTO sale_items (sale_id, medicine_id, batch_id, quantity, unit_price, total_price)
+      VALUES (v_sale_id, v_medicine.id, v_batch.id, v_take, v_medicine.selling_price, v_take * v_medicine.selling_price);
+
+      UPDATE medicine_batches
+      SET quantity = quantity - v_take
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+      VALUES (v_medicine.id, v_batch.id, 'out', v_take, 'Sale', v_sale_id, auth.uid());
+
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    v_total := v_total + v_line.quantity * v_medicine.selling_price;
+  END LOOP;
+
+  UPDATE sales SET total_amount = v_total WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
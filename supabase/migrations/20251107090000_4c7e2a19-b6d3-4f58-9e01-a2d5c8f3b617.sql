@@ -0,0 +1,1150 @@
+-- Shared tills. A counter terminal is signed in with a till account of its
+-- own, a cashier login nobody serves as, and each member of staff unlocks it
+-- with a personal PIN. While a till session is open, role checks and every
+-- record of who did what use whoever unlocked the till rather than the
+-- account the terminal is signed in as.
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+ALTER TABLE pharmacy_settings
+  ADD COLUMN till_auto_lock_minutes INTEGER NOT NULL DEFAULT 5
+    CHECK (till_auto_lock_minutes BETWEEN 1 AND 120);
+
+-- PIN hashes are never readable; RLS is on with no policies so the table is
+-- only reachable through the functions below.
+CREATE TABLE staff_pins (
+  profile_id UUID PRIMARY KEY REFERENCES profiles(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  failed_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_until TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+ALTER TABLE staff_pins ENABLE ROW LEVEL SECURITY;
+
+CREATE TABLE tills (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  name TEXT NOT NULL,
+  account_id UUID NOT NULL REFERENCES profiles(id),
+  retired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE till_sessions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  till_id UUID NOT NULL REFERENCES tills(id) ON DELETE CASCADE,
+  staff_id UUID NOT NULL REFERENCES profiles(id),
+  unlocked_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  locked_at TIMESTAMPTZ,
+  lock_reason TEXT CHECK (lock_reason IN ('manual', 'inactivity', 'switched', 'retired'))
+);
+
+CREATE UNIQUE INDEX till_sessions_open_idx ON till_sessions (till_id) WHERE locked_at IS NULL;
+CREATE UNIQUE INDEX tills_account_idx ON tills (account_id) WHERE retired_at IS NULL;
+
+ALTER TABLE sales ADD COLUMN till_session_id UUID REFERENCES till_sessions(id);
+
+ALTER TABLE tills ENABLE ROW LEVEL SECURITY;
+ALTER TABLE till_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Who is working: on a till account, whoever holds the till's open session;
+-- everywhere else, the signed-in user. A locked till is left with the till
+-- account itself, which is only ever a cashier.
+CREATE OR REPLACE FUNCTION acting_user_id()
+RETURNS UUID AS $$
+  SELECT COALESCE(
+    (SELECT s.staff_id
+     FROM tills t
+     JOIN till_sessions s ON s.till_id = t.id AND s.locked_at IS NULL
+     WHERE t.account_id = auth.uid() AND t.retired_at IS NULL),
+    auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION current_user_role()
+RETURNS user_role AS $$
+  SELECT role FROM profiles WHERE id = acting_user_id() AND is_active;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Authenticated users can view tills" ON tills FOR SELECT TO authenticated USING (true);
+
+CREATE POLICY "Managers can view till sessions" ON till_sessions FOR SELECT TO authenticated
+  USING (current_user_role() IN ('admin', 'pharmacist') OR staff_id = acting_user_id());
+
+CREATE OR REPLACE FUNCTION set_my_pin(p_pin TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  PERFORM 1 FROM tills WHERE account_id = auth.uid() AND retired_at IS NULL;
+  IF FOUND THEN
+    RAISE EXCEPTION 'Till accounts do not have a PIN. Set yours from your own sign-in';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,6}$' THEN
+    RAISE EXCEPTION 'The PIN must be 4 to 6 digits';
+  END IF;
+
+  INSERT INTO staff_pins (profile_id, pin_hash)
+  VALUES (auth.uid(), crypt(p_pin, gen_salt('bf')))
+  ON CONFLICT (profile_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash,
+      failed_attempts = 0,
+      locked_until = NULL,
+      updated_at = NOW();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION set_my_pin(TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION set_my_pin(TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION has_till_pin()
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (SELECT 1 FROM staff_pins WHERE profile_id = auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION has_till_pin() FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION has_till_pin() TO authenticated;
+
+-- Registers a till under its till account: an active cashier login kept for
+-- the terminal, with no PIN of its own. Only that account can list staff,
+-- unlock or lock the till, so the admin registering it never stays signed in
+-- at the counter.
+CREATE OR REPLACE FUNCTION register_till(p_name TEXT, p_account_email TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_account profiles%ROWTYPE;
+  v_till_id UUID;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can register a till';
+  END IF;
+
+  IF NULLIF(TRIM(p_name), '') IS NULL THEN
+    RAISE EXCEPTION 'Give the till a name';
+  END IF;
+
+  SELECT p.* INTO v_account
+  FROM profiles p
+  JOIN auth.users u ON u.id = p.id
+  WHERE LOWER(u.email) = LOWER(TRIM(p_account_email)) AND p.is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No active account signs in as %', TRIM(p_account_email);
+  END IF;
+
+  IF v_account.id = auth.uid() OR v_account.role <> 'cashier' THEN
+    RAISE EXCEPTION 'A till needs an account of its own with the cashier role';
+  END IF;
+
+  PERFORM 1 FROM staff_pins WHERE profile_id = v_account.id;
+  IF FOUND THEN
+    RAISE EXCEPTION '% has a till PIN, so it belongs to a member of staff. Use a separate account for the till', v_account.full_name;
+  END IF;
+
+  PERFORM 1 FROM tills WHERE account_id = v_account.id AND retired_at IS NULL;
+  IF FOUND THEN
+    RAISE EXCEPTION '% is already the account for another till', v_account.full_name;
+  END IF;
+
+  INSERT INTO tills (name, account_id)
+  VALUES (TRIM(p_name), v_account.id)
+  RETURNING id INTO v_till_id;
+
+  RETURN v_till_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION register_till(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION register_till(TEXT, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION retire_till(p_till_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can retire a till';
+  END IF;
+
+  UPDATE tills SET retired_at = NOW() WHERE id = p_till_id AND retired_at IS NULL;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Till not found or already retired';
+  END IF;
+
+  UPDATE till_sessions
+  SET locked_at = NOW(), lock_reason = 'retired'
+  WHERE till_id = p_till_id AND locked_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION retire_till(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION retire_till(UUID) TO authenticated;
+
+-- Staff who can unlock the till: active accounts that have set a PIN, other
+-- than till accounts
+CREATE OR REPLACE FUNCTION list_till_staff(p_till_id UUID)
+RETURNS TABLE (id UUID, full_name TEXT, role user_role) AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM tills t WHERE t.id = p_till_id AND t.account_id = auth.uid() AND t.retired_at IS NULL;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This device is not registered as a till';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.full_name, p.role
+  FROM profiles p
+  JOIN staff_pins sp ON sp.profile_id = p.id
+  WHERE p.is_active
+    AND NOT EXISTS (SELECT 1 FROM tills t WHERE t.account_id = p.id AND t.retired_at IS NULL)
+  ORDER BY p.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION list_till_staff(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION list_till_staff(UUID) TO authenticated;
+
+-- Checks a PIN and opens a till session for that member of staff, closing
+-- whoever was on the till before. A wrong PIN returns NULL rather than
+-- raising so the failed attempt is kept; five in a row lock the PIN for
+-- five minutes.
+CREATE OR REPLACE FUNCTION unlock_till(p_till_id UUID, p_staff_id UUID, p_pin TEXT)
+RETURNS UUID AS $$
+DECLARE
+  v_pin staff_pins%ROWTYPE;
+  v_session_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  PERFORM 1 FROM tills WHERE id = p_till_id AND account_id = auth.uid() AND retired_at IS NULL FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This device is not registered as a till';
+  END IF;
+
+  PERFORM 1 FROM profiles WHERE id = p_staff_id AND is_active;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  SELECT * INTO v_pin FROM staff_pins WHERE profile_id = p_staff_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'No PIN has been set for this account';
+  END IF;
+
+  IF v_pin.locked_until > NOW() THEN
+    RAISE EXCEPTION 'Too many wrong PINs. Try again after %', to_char(v_pin.locked_until, 'HH24:MI');
+  END IF;
+
+  IF v_pin.pin_hash <> crypt(COALESCE(p_pin, ''), v_pin.pin_hash) THEN
+    UPDATE staff_pins
+    SET failed_attempts = CASE WHEN failed_attempts + 1 >= 5 THEN 0 ELSE failed_attempts + 1 END,
+        locked_until = CASE WHEN failed_attempts + 1 >= 5 THEN NOW() + INTERVAL '5 minutes' ELSE locked_until END
+    WHERE profile_id = p_staff_id;
+    RETURN NULL;
+  END IF;
+
+  UPDATE staff_pins SET failed_attempts = 0, locked_until = NULL WHERE profile_id = p_staff_id;
+
+  UPDATE till_sessions
+  SET locked_at = NOW(), lock_reason = 'switched'
+  WHERE till_id = p_till_id AND locked_at IS NULL;
+
+  INSERT INTO till_sessions (till_id, staff_id)
+  VALUES (p_till_id, p_staff_id)
+  RETURNING id INTO v_session_id;
+
+  RETURN v_session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public, extensions;
+
+REVOKE EXECUTE ON FUNCTION unlock_till(UUID, UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION unlock_till(UUID, UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION lock_till(p_session_id UUID, p_reason TEXT DEFAULT 'manual')
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE till_sessions s
+  SET locked_at = NOW(), lock_reason = COALESCE(p_reason, 'manual')
+  FROM tills t
+  WHERE s.id = p_session_id
+    AND t.id = s.till_id
+    AND t.account_id = auth.uid()
+    AND s.locked_at IS NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION lock_till(UUID, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION lock_till(UUID, TEXT) TO authenticated;
+
+-- Sales on an unlocked till are served by whoever holds the till session
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_prescription_id UUID := NULLIF(payment->>'prescription_id', '')::UUID;
+  v_till_session_id UUID := NULLIF(payment->>'till_session_id', '')::UUID;
+  v_served_by UUID := acting_user_id();
+  v_line RECORD;
+  v_batch RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_available INTEGER;
+  v_expired INTEGER;
+  v_remaining INTEGER;
+  v_take INTEGER;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF v_till_session_id IS NOT NULL THEN
+    SELECT s.staff_id INTO v_served_by
+    FROM till_sessions s
+    JOIN tills t ON t.id = s.till_id
+    JOIN profiles p ON p.id = s.staff_id
+    WHERE s.id = v_till_session_id
+      AND s.locked_at IS NULL
+      AND t.account_id = auth.uid()
+      AND t.retired_at IS NULL
+      AND p.is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The till is locked. Unlock it with your PIN and try again';
+    END IF;
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by, till_session_id)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    v_prescription_id,
+    0,
+    v_served_by,
+    v_till_session_id
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity,
+           MAX(NULLIF(value->>'override_id', ''))::UUID AS override_id
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    IF v_medicine.requires_prescription AND v_prescription_id IS NULL THEN
+      UPDATE prescription_overrides
+      SET sale_id = v_sale_id,
+          used_at = NOW()
+      WHERE id = v_line.override_id
+        AND medicine_id = v_medicine.id
+        AND sale_id IS NULL
+        AND used_at IS NULL
+        AND created_at > NOW() - INTERVAL '1 hour';
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% requires a prescription or a pharmacist override', v_medicine.name;
+      END IF;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity) FILTER (WHERE expiry_date > CURRENT_DATE), 0),
+           COALESCE(SUM(quantity) FILTER (WHERE expiry_date <= CURRENT_DATE), 0)
+    INTO v_available, v_expired
+    FROM medicine_batches
+    WHERE medicine_id = v_medicine.id AND status = 'available';
+
+    IF v_available < v_line.quantity THEN
+      IF v_expired > 0 THEN
+        RAISE EXCEPTION '% has expired stock that cannot be sold (% in date)', v_medicine.name, v_available;
+      END IF;
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_available;
+    END IF;
+
+    v_remaining := v_line.quantity;
+
+    FOR v_batch IN
+      SELECT id, quantity
+      FROM medicine_batches
+      WHERE medicine_id = v_medicine.id AND quantity > 0 AND status = 'available' AND expiry_date > CURRENT_DATE
+      ORDER BY expiry_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_batch.quantity);
+
+      INSERT INTO sale_items (sale_id, medicine_id, batch_id, quantity, unit_price, total_price)
+      VALUES (v_sale_id, v_medicine.id, v_batch.id, v_take, v_medicine.selling_price, v_take * v_medicine.selling_price);
+
+      UPDATE medicine_batches
+      SET quantity = quantity - v_take
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+      VALUES (v_medicine.id, v_batch.id, 'out', v_take, 'Sale', v_sale_id, v_served_by);
+
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    v_total := v_total + v_line.quantity * v_medicine.selling_price;
+  END LOOP;
+
+  UPDATE sales SET total_amount = v_total WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Everything staff do at a till is recorded against whoever unlocked it,
+-- not the till account
+CREATE OR REPLACE FUNCTION request_stock_adjustment(
+  p_batch_id UUID,
+  p_quantity_change INTEGER,
+  p_reason_code TEXT,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_batch medicine_batches%ROWTYPE;
+  v_threshold INTEGER;
+  v_adjustment_id UUID;
+  v_auto_approve BOOLEAN;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF p_quantity_change IS NULL OR p_quantity_change = 0 THEN
+    RAISE EXCEPTION 'Adjustment quantity cannot be zero';
+  END IF;
+
+  SELECT * INTO v_batch FROM medicine_batches WHERE id = p_batch_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch % not found', p_batch_id;
+  END IF;
+
+  SELECT adjustment_approval_threshold INTO v_threshold FROM pharmacy_settings;
+
+  v_auto_approve := current_user_role() IN ('admin', 'pharmacist')
+    OR ABS(p_quantity_change) <= COALESCE(v_threshold, 0);
+
+  INSERT INTO stock_adjustments (medicine_id, batch_id, quantity_change, reason_code, notes, status, requested_by, reviewed_by, reviewed_at)
+  VALUES (
+    v_batch.medicine_id,
+    v_batch.id,
+    p_quantity_change,
+    p_reason_code,
+    NULLIF(TRIM(p_notes), ''),
+    CASE WHEN v_auto_approve THEN 'approved' ELSE 'pending' END,
+    acting_user_id(),
+    CASE WHEN v_auto_approve THEN acting_user_id() END,
+    CASE WHEN v_auto_approve THEN NOW() END
+  )
+  RETURNING id INTO v_adjustment_id;
+
+  IF v_auto_approve THEN
+    PERFORM apply_stock_adjustment(v_adjustment_id);
+    RETURN 'approved';
+  END IF;
+
+  RETURN 'pending';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION review_stock_adjustment(p_adjustment_id UUID, p_approve BOOLEAN)
+RETURNS TEXT AS $$
+DECLARE
+  v_status TEXT;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can review stock adjustments';
+  END IF;
+
+  SELECT status INTO v_status FROM stock_adjustments WHERE id = p_adjustment_id FOR UPDATE;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Adjustment % not found', p_adjustment_id;
+  END IF;
+
+  IF v_status <> 'pending' THEN
+    RAISE EXCEPTION 'Adjustment has already been %', v_status;
+  END IF;
+
+  UPDATE stock_adjustments
+  SET status = CASE WHEN p_approve THEN 'approved' ELSE 'rejected' END,
+      reviewed_by = acting_user_id(),
+      reviewed_at = NOW()
+  WHERE id = p_adjustment_id;
+
+  IF p_approve THEN
+    PERFORM apply_stock_adjustment(p_adjustment_id);
+    RETURN 'approved';
+  END IF;
+
+  RETURN 'rejected';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION open_stock_take(p_category_id UUID DEFAULT NULL, p_notes TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_stock_take_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO stock_takes (category_id, notes, opened_by)
+  VALUES (p_category_id, NULLIF(TRIM(p_notes), ''), acting_user_id())
+  RETURNING id INTO v_stock_take_id;
+
+  INSERT INTO stock_take_lines (stock_take_id, medicine_id, batch_id, system_quantity, unit_cost)
+  SELECT v_stock_take_id, b.medicine_id, b.id, b.quantity, b.unit_cost
+  FROM medicine_batches b
+  JOIN medicines m ON m.id = b.medicine_id
+  WHERE b.quantity > 0
+    AND (p_category_id IS NULL OR m.category_id = p_category_id);
+
+  RETURN v_stock_take_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION post_stock_take(p_stock_take_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+  v_take stock_takes%ROWTYPE;
+  v_line RECORD;
+  v_adjustments INTEGER := 0;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can post a stock take';
+  END IF;
+
+  SELECT * INTO v_take FROM stock_takes WHERE id = p_stock_take_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Stock take % not found', p_stock_take_id;
+  END IF;
+
+  IF v_take.status <> 'open' THEN
+    RAISE EXCEPTION 'Stock take % has already been %', v_take.take_number, v_take.status;
+  END IF;
+
+  -- Counted medicines are locked before their batches, the order a sale
+  -- takes them in, so posting during trading can't deadlock a checkout
+  PERFORM 1 FROM medicines
+  WHERE id IN (
+    SELECT medicine_id
+    FROM stock_take_lines
+    WHERE stock_take_id = p_stock_take_id
+      AND counted_quantity IS NOT NULL
+      AND counted_quantity <> system_quantity
+  )
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_line IN
+    SELECT l.*, b.batch_number, b.quantity AS current_quantity
+    FROM stock_take_lines l
+    JOIN medicine_batches b ON b.id = l.batch_id
+    WHERE l.stock_take_id = p_stock_take_id
+      AND l.counted_quantity IS NOT NULL
+      AND l.counted_quantity <> l.system_quantity
+    ORDER BY l.medicine_id, l.batch_id
+    FOR UPDATE OF b
+  LOOP
+    IF v_line.current_quantity + (v_line.counted_quantity - v_line.system_quantity) < 0 THEN
+      RAISE EXCEPTION 'Batch % cannot go below zero; recount it before posting', v_line.batch_number;
+    END IF;
+
+    UPDATE medicine_batches
+    SET quantity = quantity + (v_line.counted_quantity - v_line.system_quantity)
+    WHERE id = v_line.batch_id;
+
+    INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+    VALUES (
+      v_line.medicine_id,
+      v_line.batch_id,
+      'adjustment',
+      v_line.counted_quantity - v_line.system_quantity,
+      'Stock take ' || v_take.take_number,
+      v_take.id,
+      acting_user_id()
+    );
+
+    v_adjustments := v_adjustments + 1;
+  END LOOP;
+
+  UPDATE stock_takes
+  SET status = 'posted', closed_by = acting_user_id(), closed_at = NOW()
+  WHERE id = p_stock_take_id;
+
+  RETURN v_adjustments;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION cancel_stock_take(p_stock_take_id UUID)
+RETURNS VOID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  UPDATE stock_takes
+  SET status = 'cancelled', closed_by = acting_user_id(), closed_at = NOW()
+  WHERE id = p_stock_take_id AND status = 'open';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only open stock takes can be cancelled';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_batch_quarantine(p_batch_id UUID, p_quarantine BOOLEAN, p_reason TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+DECLARE
+  v_batch medicine_batches%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can quarantine stock';
+  END IF;
+
+  -- Changing the status updates the medicine's stock, so lock the medicine
+  -- ahead of the batch as a sale does
+  PERFORM 1 FROM medicines
+  WHERE id = (SELECT medicine_id FROM medicine_batches WHERE id = p_batch_id)
+  FOR UPDATE;
+
+  SELECT * INTO v_batch FROM medicine_batches WHERE id = p_batch_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Batch % not found', p_batch_id;
+  END IF;
+
+  IF v_batch.status = 'written_off' THEN
+    RAISE EXCEPTION 'Batch % has already been written off', v_batch.batch_number;
+  END IF;
+
+  IF p_quarantine THEN
+    UPDATE medicine_batches
+    SET status = 'quarantined',
+        quarantine_reason = NULLIF(TRIM(p_reason), ''),
+        quarantined_by = acting_user_id(),
+        quarantined_at = NOW()
+    WHERE id = p_batch_id;
+  ELSE
+    IF v_batch.expiry_date <= CURRENT_DATE THEN
+      RAISE EXCEPTION 'Batch % has expired and cannot be released for sale', v_batch.batch_number;
+    END IF;
+
+    UPDATE medicine_batches
+    SET status = 'available',
+        quarantine_reason = NULL,
+        quarantined_by = NULL,
+        quarantined_at = NULL
+    WHERE id = p_batch_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION write_off_batches(
+  p_batch_ids UUID[],
+  p_disposal_method TEXT,
+  p_witness_name TEXT,
+  p_witness_designation TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_disposal_id UUID;
+  v_disposal_number TEXT;
+  v_batch RECORD;
+  v_count INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can write off stock';
+  END IF;
+
+  IF p_batch_ids IS NULL OR array_length(p_batch_ids, 1) IS NULL THEN
+    RAISE EXCEPTION 'Select at least one batch to write off';
+  END IF;
+
+  IF NULLIF(TRIM(p_witness_name), '') IS NULL THEN
+    RAISE EXCEPTION 'A witness is required for a write-off';
+  END IF;
+
+  INSERT INTO stock_disposals (disposal_method, witness_name, witness_designation, notes, disposed_by)
+  VALUES (
+    p_disposal_method,
+    TRIM(p_witness_name),
+    NULLIF(TRIM(p_witness_designation), ''),
+    NULLIF(TRIM(p_notes), ''),
+    acting_user_id()
+  )
+  RETURNING id, disposal_number INTO v_disposal_id, v_disposal_number;
+
+  -- Lock medicines before batches, in the same order checkout does
+  PERFORM 1 FROM medicines
+  WHERE id IN (SELECT medicine_id FROM medicine_batches WHERE id = ANY (p_batch_ids))
+  ORDER BY id
+  FOR UPDATE;
+
+  FOR v_batch IN
+    SELECT b.*, m.name AS medicine_name
+    FROM medicine_batches b
+    JOIN medicines m ON m.id = b.medicine_id
+    WHERE b.id = ANY (p_batch_ids)
+    ORDER BY b.medicine_id, b.expiry_date
+    FOR UPDATE OF b
+  LOOP
+    IF v_batch.status <> 'quarantined' AND v_batch.expiry_date > CURRENT_DATE THEN
+      RAISE EXCEPTION 'Quarantine batch % before writing it off', v_batch.batch_number;
+    END IF;
+
+    IF v_batch.quantity <= 0 THEN
+      CONTINUE;
+    END IF;
+
+    INSERT INTO stock_disposal_items (disposal_id, medicine_id, batch_id, medicine_name, batch_number, expiry_date, quantity, unit_cost)
+    VALUES (v_disposal_id, v_batch.medicine_id, v_batch.id, v_batch.medicine_name, v_batch.batch_number, v_batch.expiry_date, v_batch.quantity, v_batch.unit_cost);
+
+    UPDATE medicine_batches
+    SET quantity = 0,
+        status = 'written_off'
+    WHERE id = v_batch.id;
+
+    INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+    VALUES (v_batch.medicine_id, v_batch.id, 'expired', v_batch.quantity, 'Write-off ' || v_disposal_number, v_disposal_id, acting_user_id());
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  IF v_count = 0 THEN
+    RAISE EXCEPTION 'None of the selected batches hold stock to write off';
+  END IF;
+
+  RETURN v_disposal_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION grant_prescription_override(
+  p_medicine_id UUID,
+  p_reason TEXT,
+  p_requested_by UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_override_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can override a prescription requirement';
+  END IF;
+
+  IF LENGTH(COALESCE(TRIM(p_reason), '')) < 5 THEN
+    RAISE EXCEPTION 'Give a reason for the override';
+  END IF;
+
+  PERFORM 1 FROM medicines WHERE id = p_medicine_id AND requires_prescription;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Medicine % does not require a prescription', p_medicine_id;
+  END IF;
+
+  INSERT INTO prescription_overrides (medicine_id, reason, approved_by, requested_by)
+  VALUES (p_medicine_id, TRIM(p_reason), acting_user_id(), COALESCE(p_requested_by, acting_user_id()))
+  RETURNING id INTO v_override_id;
+
+  RETURN v_override_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION stock_in_batch(
+  p_medicine_id UUID,
+  p_batch_number TEXT,
+  p_expiry_date DATE,
+  p_manufacture_date DATE,
+  p_quantity INTEGER,
+  p_unit_cost DECIMAL,
+  p_reason TEXT,
+  p_reference_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_batch_id UUID;
+BEGIN
+  SELECT id INTO v_batch_id
+  FROM medicine_batches
+  WHERE medicine_id = p_medicine_id
+    AND batch_number = TRIM(p_batch_number)
+    AND expiry_date = p_expiry_date
+    AND status <> 'quarantined'
+  ORDER BY created_at
+  LIMIT 1
+  FOR UPDATE;
+
+  IF v_batch_id IS NULL THEN
+    INSERT INTO medicine_batches (medicine_id, batch_number, expiry_date, manufacture_date, quantity, unit_cost)
+    VALUES (p_medicine_id, TRIM(p_batch_number), p_expiry_date, p_manufacture_date, p_quantity, COALESCE(p_unit_cost, 0))
+    RETURNING id INTO v_batch_id;
+  ELSE
+    UPDATE medicine_batches
+    SET quantity = quantity + p_quantity,
+        unit_cost = COALESCE(ROUND((quantity * unit_cost + p_quantity * p_unit_cost) / (quantity + p_quantity), 2), unit_cost),
+        manufacture_date = COALESCE(p_manufacture_date, manufacture_date),
+        status = CASE WHEN status = 'written_off' THEN 'available' ELSE status END
+    WHERE id = v_batch_id;
+  END IF;
+
+  INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+  VALUES (p_medicine_id, v_batch_id, 'in', p_quantity, p_reason, p_reference_id, acting_user_id());
+
+  RETURN v_batch_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION save_purchase_order(
+  p_supplier_id UUID,
+  p_items JSONB,
+  p_purchase_order_id UUID DEFAULT NULL,
+  p_expected_date DATE DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_order purchase_orders%ROWTYPE;
+  v_order_id UUID := p_purchase_order_id;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can raise purchase orders';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the order';
+  END IF;
+
+  IF v_order_id IS NULL THEN
+    INSERT INTO purchase_orders (supplier_id, expected_date, notes, created_by)
+    VALUES (p_supplier_id, p_expected_date, NULLIF(TRIM(p_notes), ''), acting_user_id())
+    RETURNING id INTO v_order_id;
+  ELSE
+    SELECT * INTO v_order FROM purchase_orders WHERE id = v_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order % not found', v_order_id;
+    END IF;
+
+    IF v_order.status <> 'draft' THEN
+      RAISE EXCEPTION 'Purchase order % is % and can no longer be edited', v_order.po_number, v_order.status;
+    END IF;
+
+    UPDATE purchase_orders
+    SET supplier_id = p_supplier_id,
+        expected_date = p_expected_date,
+        notes = NULLIF(TRIM(p_notes), '')
+    WHERE id = v_order_id;
+
+    DELETE FROM purchase_order_items WHERE purchase_order_id = v_order_id;
+  END IF;
+
+  INSERT INTO purchase_order_items (purchase_order_id, medicine_id, quantity_ordered, unit_cost)
+  SELECT v_order_id,
+         (value->>'medicine_id')::UUID,
+         SUM((value->>'quantity')::INTEGER),
+         MAX(COALESCE((value->>'unit_cost')::DECIMAL, 0))
+  FROM jsonb_array_elements(p_items)
+  GROUP BY 2;
+
+  RETURN v_order_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION post_goods_received(
+  p_supplier_id UUID,
+  p_items JSONB,
+  p_purchase_order_id UUID DEFAULT NULL,
+  p_delivery_note_number TEXT DEFAULT NULL,
+  p_notes TEXT DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_grn_id UUID;
+  v_grn_number TEXT;
+  v_order purchase_orders%ROWTYPE;
+  v_order_item purchase_order_items%ROWTYPE;
+  v_line RECORD;
+  v_medicine_name TEXT;
+  v_expected INTEGER;
+  v_accepted INTEGER;
+  v_batch_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can receive deliveries';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one line to the delivery';
+  END IF;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    SELECT * INTO v_order FROM purchase_orders WHERE id = p_purchase_order_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Purchase order % not found', p_purchase_order_id;
+    END IF;
+
+    IF v_order.status NOT IN ('sent', 'partially_received') THEN
+      RAISE EXCEPTION 'Purchase order % is % and cannot be received against', v_order.po_number, v_order.status;
+    END IF;
+
+    IF v_order.supplier_id <> p_supplier_id THEN
+      RAISE EXCEPTION 'Purchase order % is for a different supplier', v_order.po_number;
+    END IF;
+  END IF;
+
+  INSERT INTO goods_received_notes (supplier_id, purchase_order_id, delivery_note_number, notes, received_by)
+  VALUES (
+    p_supplier_id,
+    p_purchase_order_id,
+    NULLIF(TRIM(p_delivery_note_number), ''),
+    NULLIF(TRIM(p_notes), ''),
+    acting_user_id()
+  )
+  RETURNING id, grn_number INTO v_grn_id, v_grn_number;
+
+  -- Medicines are locked in a stable order, as checkout does
+  FOR v_line IN
+    SELECT NULLIF(value->>'purchase_order_item_id', '')::UUID AS purchase_order_item_id,
+           (value->>'medicine_id')::UUID AS medicine_id,
+           TRIM(value->>'batch_number') AS batch_number,
+           (value->>'expiry_date')::DATE AS expiry_date,
+           NULLIF(value->>'manufacture_date', '')::DATE AS manufacture_date,
+           COALESCE((value->>'quantity_delivered')::INTEGER, 0) AS quantity_delivered,
+           COALESCE((value->>'quantity_damaged')::INTEGER, 0) AS quantity_damaged,
+           COALESCE((value->>'unit_cost')::DECIMAL, 0) AS unit_cost
+    FROM jsonb_array_elements(p_items)
+    ORDER BY 2
+  LOOP
+    SELECT name INTO v_medicine_name FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF NULLIF(v_line.batch_number, '') IS NULL OR v_line.expiry_date IS NULL THEN
+      RAISE EXCEPTION 'Batch number and expiry date are required for %', v_medicine_name;
+    END IF;
+
+    IF v_line.expiry_date <= CURRENT_DATE THEN
+      RAISE EXCEPTION 'Batch % of % expired on %', v_line.batch_number, v_medicine_name, v_line.expiry_date;
+    END IF;
+
+    IF v_line.quantity_delivered < 0 OR v_line.quantity_damaged < 0 OR v_line.quantity_damaged > v_line.quantity_delivered THEN
+      RAISE EXCEPTION 'Check the delivered and damaged quantities for %', v_medicine_name;
+    END IF;
+
+    v_expected := NULL;
+
+    IF v_line.purchase_order_item_id IS NOT NULL THEN
+      SELECT * INTO v_order_item
+      FROM purchase_order_items
+      WHERE id = v_line.purchase_order_item_id AND purchase_order_id = p_purchase_order_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR v_order_item.medicine_id <> v_line.medicine_id THEN
+        RAISE EXCEPTION '% is not on purchase order %', v_medicine_name, v_order.po_number;
+      END IF;
+
+      v_expected := GREATEST(v_order_item.quantity_ordered - v_order_item.quantity_received, 0);
+    END IF;
+
+    v_accepted := v_line.quantity_delivered - v_line.quantity_damaged;
+    v_batch_id := NULL;
+
+    IF v_accepted > 0 THEN
+      v_batch_id := stock_in_batch(
+        v_line.medicine_id,
+        v_line.batch_number,
+        v_line.expiry_date,
+        v_line.manufacture_date,
+        v_accepted,
+        v_line.unit_cost,
+        'Goods received ' || v_grn_number,
+        v_grn_id
+      );
+
+      UPDATE medicines SET unit_price = v_line.unit_cost WHERE id = v_line.medicine_id;
+    END IF;
+
+    IF v_line.purchase_order_item_id IS NOT NULL THEN
+      UPDATE purchase_order_items
+      SET quantity_received = quantity_received + v_accepted
+      WHERE id = v_line.purchase_order_item_id;
+    END IF;
+
+    INSERT INTO goods_received_items (
+      grn_id, purchase_order_item_id, medicine_id, batch_id, batch_number, expiry_date, manufacture_date,
+      quantity_expected, quantity_delivered, quantity_damaged, unit_cost
+    )
+    VALUES (
+      v_grn_id, v_line.purchase_order_item_id, v_line.medicine_id, v_batch_id, v_line.batch_number, v_line.expiry_date,
+      v_line.manufacture_date, v_expected, v_line.quantity_delivered, v_line.quantity_damaged, v_line.unit_cost
+    );
+  END LOOP;
+
+  IF p_purchase_order_id IS NOT NULL THEN
+    UPDATE purchase_orders
+    SET status = CASE
+      WHEN NOT EXISTS (
+        SELECT 1 FROM purchase_order_items
+        WHERE purchase_order_id = p_purchase_order_id AND quantity_received < quantity_ordered
+      ) THEN 'received'
+      ELSE 'partially_received'
+    END
+    WHERE id = p_purchase_order_id;
+  END IF;
+
+  RETURN v_grn_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION invite_staff(p_email TEXT, p_role user_role, p_full_name TEXT DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_email TEXT := LOWER(TRIM(p_email));
+  v_token UUID;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can invite staff';
+  END IF;
+
+  IF v_email IS NULL OR v_email !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+    RAISE EXCEPTION 'Enter a valid email address';
+  END IF;
+
+  IF p_role IS NULL THEN
+    RAISE EXCEPTION 'Choose a role for the invitation';
+  END IF;
+
+  PERFORM 1 FROM auth.users WHERE LOWER(email) = v_email;
+  IF FOUND THEN
+    RAISE EXCEPTION '% already has an account', v_email;
+  END IF;
+
+  UPDATE staff_invitations
+  SET revoked_at = NOW()
+  WHERE LOWER(email) = v_email AND accepted_at IS NULL AND revoked_at IS NULL;
+
+  INSERT INTO staff_invitations (email, full_name, role, invited_by)
+  VALUES (v_email, NULLIF(TRIM(p_full_name), ''), p_role, acting_user_id())
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_staff_role(p_profile_id UUID, p_role user_role)
+RETURNS VOID AS $$
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can change staff roles';
+  END IF;
+
+  IF p_profile_id = acting_user_id() AND p_role <> 'admin' THEN
+    RAISE EXCEPTION 'You cannot remove your own admin role';
+  END IF;
+
+  IF p_role <> 'cashier' AND EXISTS (SELECT 1 FROM tills WHERE account_id = p_profile_id AND retired_at IS NULL) THEN
+    RAISE EXCEPTION 'Till accounts stay cashiers. Retire the till before changing its role';
+  END IF;
+
+  UPDATE profiles SET role = p_role WHERE id = p_profile_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Staff member % not found', p_profile_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION set_staff_active(p_profile_id UUID, p_active BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() <> 'admin' THEN
+    RAISE EXCEPTION 'Only an admin can change staff access';
+  END IF;
+
+  IF p_profile_id = acting_user_id() AND NOT p_active THEN
+    RAISE EXCEPTION 'You cannot deactivate your own account';
+  END IF;
+
+  UPDATE profiles
+  SET is_active = p_active,
+      deactivated_at = CASE WHEN p_active THEN NULL ELSE NOW() END
+  WHERE id = p_profile_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Staff member % not found', p_profile_id;
+  END IF;
+
+  UPDATE auth.users
+  SET banned_until = CASE WHEN p_active THEN NULL ELSE 'infinity'::TIMESTAMPTZ END
+  WHERE id = p_profile_id;
+
+  IF NOT p_active THEN
+    DELETE FROM auth.sessions WHERE user_id = p_profile_id;
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
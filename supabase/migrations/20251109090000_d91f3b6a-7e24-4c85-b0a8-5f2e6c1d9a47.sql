@@ -0,0 +1,82 @@
+-- Audit trail. Row-level triggers record every insert, update and delete on
+-- the tables below with the acting user and the row before and after. The
+-- log is append-only: there are no insert, update or delete policies, and
+-- the trigger writes to it as the table owner.
+CREATE TABLE audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  table_name TEXT NOT NULL,
+  record_id UUID,
+  action TEXT NOT NULL CHECK (action IN ('insert', 'update', 'delete')),
+  actor_id UUID REFERENCES profiles(id) ON DELETE SET NULL,
+  old_data JSONB,
+  new_data JSONB,
+  changed_fields TEXT[],
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX audit_log_record_idx ON audit_log (table_name, record_id, created_at DESC);
+CREATE INDEX audit_log_actor_idx ON audit_log (actor_id, created_at DESC);
+CREATE INDEX audit_log_created_at_idx ON audit_log (created_at DESC);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view the audit log" ON audit_log FOR SELECT TO authenticated
+  USING (current_user_role() = 'admin');
+
+-- Pharmacists see the history behind the catalogue and supplier screens
+CREATE POLICY "Pharmacists can view catalogue history" ON audit_log FOR SELECT TO authenticated
+  USING (current_user_role() = 'pharmacist' AND table_name IN ('medicines', 'suppliers'));
+
+CREATE OR REPLACE FUNCTION record_audit()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_old JSONB := CASE WHEN TG_OP IN ('UPDATE', 'DELETE') THEN to_jsonb(OLD) END;
+  v_new JSONB := CASE WHEN TG_OP IN ('INSERT', 'UPDATE') THEN to_jsonb(NEW) END;
+  v_changed TEXT[];
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    SELECT array_agg(n.key ORDER BY n.key) INTO v_changed
+    FROM jsonb_each(v_new) n
+    WHERE n.key <> 'updated_at' AND n.value IS DISTINCT FROM v_old->n.key;
+
+    -- An update that only touches updated_at is not worth recording
+    IF v_changed IS NULL THEN
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  INSERT INTO audit_log (table_name, record_id, action, actor_id, old_data, new_data, changed_fields)
+  VALUES (
+    TG_TABLE_NAME,
+    COALESCE(v_new->>'id', v_old->>'id')::UUID,
+    LOWER(TG_OP),
+    -- On a till, whoever unlocked it rather than the till account
+    acting_user_id(),
+    v_old,
+    v_new,
+    v_changed
+  );
+
+  RETURN COALESCE(NEW, OLD);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_medicines
+  AFTER INSERT OR UPDATE OR DELETE ON medicines
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_suppliers
+  AFTER INSERT OR UPDATE OR DELETE ON suppliers
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_prescriptions
+  AFTER INSERT OR UPDATE OR DELETE ON prescriptions
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_sales
+  AFTER INSERT OR UPDATE OR DELETE ON sales
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
+
+CREATE TRIGGER audit_profiles
+  AFTER INSERT OR UPDATE OR DELETE ON profiles
+  FOR EACH ROW EXECUTE FUNCTION record_audit();
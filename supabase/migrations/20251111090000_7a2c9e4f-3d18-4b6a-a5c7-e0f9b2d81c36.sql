@@ -0,0 +1,379 @@
+-- Cash drawer shifts. A shift is opened with a float and every sale is
+-- attached to the open shift; closing it records what was counted for each
+-- payment method against what the sales say should be there. A shift on a
+-- registered till belongs to the till so staff who swap in with their PIN
+-- share one drawer; elsewhere it belongs to the person who opened it.
+CREATE SEQUENCE cash_shift_number_seq;
+
+CREATE TABLE cash_shifts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  shift_number TEXT UNIQUE NOT NULL,
+  till_id UUID REFERENCES tills(id),
+  opened_by UUID NOT NULL REFERENCES profiles(id),
+  opening_float DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (opening_float >= 0),
+  opened_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  closed_by UUID REFERENCES profiles(id),
+  closed_at TIMESTAMPTZ,
+  notes TEXT
+);
+
+CREATE TABLE cash_shift_totals (
+  shift_id UUID NOT NULL REFERENCES cash_shifts(id) ON DELETE CASCADE,
+  payment_method TEXT NOT NULL CHECK (payment_method IN ('cash', 'mpesa', 'card', 'insurance')),
+  expected_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  counted_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (counted_amount >= 0),
+  PRIMARY KEY (shift_id, payment_method)
+);
+
+-- One open drawer per till, and one per person away from a till
+CREATE UNIQUE INDEX cash_shifts_open_till_idx ON cash_shifts (till_id)
+  WHERE closed_at IS NULL AND till_id IS NOT NULL;
+CREATE UNIQUE INDEX cash_shifts_open_user_idx ON cash_shifts (opened_by)
+  WHERE closed_at IS NULL AND till_id IS NULL;
+
+ALTER TABLE sales ADD COLUMN shift_id UUID REFERENCES cash_shifts(id);
+
+CREATE INDEX sales_shift_idx ON sales (shift_id);
+
+ALTER TABLE cash_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE cash_shift_totals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view their shifts" ON cash_shifts FOR SELECT TO authenticated
+  USING (
+    current_user_role() IN ('admin', 'pharmacist')
+    OR opened_by = acting_user_id()
+    OR till_id IN (SELECT id FROM tills WHERE account_id = auth.uid())
+  );
+
+CREATE POLICY "Staff can view their shift totals" ON cash_shift_totals FOR SELECT TO authenticated
+  USING (shift_id IN (SELECT id FROM cash_shifts));
+
+CREATE OR REPLACE FUNCTION generate_shift_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.shift_number = 'SH-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(NEXTVAL('cash_shift_number_seq')::TEXT, 4, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER before_cash_shift_insert
+  BEFORE INSERT ON cash_shifts
+  FOR EACH ROW
+  WHEN (NEW.shift_number IS NULL)
+  EXECUTE FUNCTION generate_shift_number();
+
+-- Who is serving on an unlocked till session held by the caller's device.
+-- Raises when the session is closed or belongs to another device.
+CREATE OR REPLACE FUNCTION till_session_staff(p_till_session_id UUID)
+RETURNS UUID AS $$
+DECLARE
+  v_staff_id UUID;
+BEGIN
+  SELECT s.staff_id INTO v_staff_id
+  FROM till_sessions s
+  JOIN tills t ON t.id = s.till_id
+  JOIN profiles p ON p.id = s.staff_id
+  WHERE s.id = p_till_session_id
+    AND s.locked_at IS NULL
+    AND t.account_id = auth.uid()
+    AND t.retired_at IS NULL
+    AND p.is_active;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'The till is locked. Unlock it with your PIN and try again';
+  END IF;
+
+  RETURN v_staff_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION till_session_staff(UUID) FROM PUBLIC, anon, authenticated;
+
+-- The open shift for a till session, or for the caller when not on a till
+CREATE OR REPLACE FUNCTION open_shift_for(p_till_session_id UUID)
+RETURNS UUID AS $$
+  SELECT cs.id
+  FROM cash_shifts cs
+  WHERE cs.closed_at IS NULL
+    AND CASE
+      WHEN p_till_session_id IS NULL THEN cs.till_id IS NULL AND cs.opened_by = acting_user_id()
+      ELSE cs.till_id = (SELECT till_id FROM till_sessions WHERE id = p_till_session_id)
+    END;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION open_shift_for(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION open_cash_shift(p_opening_float NUMERIC, p_till_session_id UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_opened_by UUID := acting_user_id();
+  v_till_id UUID;
+  v_shift_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF p_opening_float IS NULL OR p_opening_float < 0 THEN
+    RAISE EXCEPTION 'The opening float cannot be negative';
+  END IF;
+
+  IF p_till_session_id IS NOT NULL THEN
+    v_opened_by := till_session_staff(p_till_session_id);
+    SELECT till_id INTO v_till_id FROM till_sessions WHERE id = p_till_session_id;
+  END IF;
+
+  IF open_shift_for(p_till_session_id) IS NOT NULL THEN
+    RAISE EXCEPTION 'A shift is already open. Close it before opening another';
+  END IF;
+
+  INSERT INTO cash_shifts (till_id, opened_by, opening_float)
+  VALUES (v_till_id, v_opened_by, ROUND(p_opening_float, 2))
+  RETURNING id INTO v_shift_id;
+
+  RETURN v_shift_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION open_cash_shift(NUMERIC, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION open_cash_shift(NUMERIC, UUID) TO authenticated;
+
+-- What should be in the drawer per payment method: sales taken on the
+-- shift, plus the opening float in cash.
+CREATE OR REPLACE FUNCTION cash_shift_expected(p_shift_id UUID)
+RETURNS TABLE (payment_method TEXT, sale_count BIGINT, expected_amount NUMERIC) AS $$
+BEGIN
+  PERFORM 1 FROM cash_shifts WHERE id = p_shift_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.method,
+         COUNT(s.id),
+         COALESCE(SUM(s.total_amount), 0) + CASE WHEN m.method = 'cash' THEN cs.opening_float ELSE 0 END
+  FROM cash_shifts cs
+  CROSS JOIN UNNEST(ARRAY['cash', 'mpesa', 'card', 'insurance']) AS m(method)
+  LEFT JOIN sales s ON s.shift_id = cs.id AND s.payment_method = m.method
+  WHERE cs.id = p_shift_id
+  GROUP BY m.method, cs.opening_float
+  ORDER BY ARRAY_POSITION(ARRAY['cash', 'mpesa', 'card', 'insurance'], m.method);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION cash_shift_expected(UUID) TO authenticated;
+
+-- Close a shift with the counted amount for each payment method.
+-- p_counts is an array of { payment_method, counted_amount }; methods that
+-- are left out count as zero.
+CREATE OR REPLACE FUNCTION close_cash_shift(
+  p_shift_id UUID,
+  p_counts JSONB,
+  p_notes TEXT DEFAULT NULL,
+  p_till_session_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_shift cash_shifts%ROWTYPE;
+  v_closed_by UUID := acting_user_id();
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF p_till_session_id IS NOT NULL THEN
+    v_closed_by := till_session_staff(p_till_session_id);
+  END IF;
+
+  SELECT * INTO v_shift FROM cash_shifts WHERE id = p_shift_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  IF v_shift.closed_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Shift % is already closed', v_shift.shift_number;
+  END IF;
+
+  IF current_user_role() NOT IN ('admin', 'pharmacist')
+     AND v_shift.opened_by <> acting_user_id()
+     AND NOT EXISTS (SELECT 1 FROM tills WHERE id = v_shift.till_id AND account_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Only the cashier who opened shift % or a pharmacist can close it', v_shift.shift_number;
+  END IF;
+
+  IF p_counts IS NOT NULL AND jsonb_typeof(p_counts) <> 'array' THEN
+    RAISE EXCEPTION 'Counted amounts must be a list';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM jsonb_array_elements(COALESCE(p_counts, '[]'::JSONB)) c
+    WHERE COALESCE((c->>'counted_amount')::NUMERIC, 0) < 0
+  ) THEN
+    RAISE EXCEPTION 'Counted amounts cannot be negative';
+  END IF;
+
+  INSERT INTO cash_shift_totals (shift_id, payment_method, expected_amount, counted_amount)
+  SELECT p_shift_id,
+         e.payment_method,
+         e.expected_amount,
+         COALESCE((
+           SELECT ROUND(SUM((c->>'counted_amount')::NUMERIC), 2)
+           FROM jsonb_array_elements(COALESCE(p_counts, '[]'::JSONB)) c
+           WHERE c->>'payment_method' = e.payment_method
+         ), 0)
+  FROM cash_shift_expected(p_shift_id) e;
+
+  UPDATE cash_shifts
+  SET closed_at = NOW(),
+      closed_by = v_closed_by,
+      notes = NULLIF(TRIM(p_notes), '')
+  WHERE id = p_shift_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION close_cash_shift(UUID, JSONB, TEXT, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION close_cash_shift(UUID, JSONB, TEXT, UUID) TO authenticated;
+
+-- Sales are blocked unless a shift is open, and attach to it
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_prescription_id UUID := NULLIF(payment->>'prescription_id', '')::UUID;
+  v_till_session_id UUID := NULLIF(payment->>'till_session_id', '')::UUID;
+  v_served_by UUID := acting_user_id();
+  v_shift_id UUID;
+  v_line RECORD;
+  v_batch RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_available INTEGER;
+  v_expired INTEGER;
+  v_remaining INTEGER;
+  v_take INTEGER;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF v_till_session_id IS NOT NULL THEN
+    v_served_by := till_session_staff(v_till_session_id);
+  END IF;
+
+  v_shift_id := open_shift_for(v_till_session_id);
+
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a cash shift before making sales';
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by, till_session_id, shift_id)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    v_prescription_id,
+    0,
+    v_served_by,
+    v_till_session_id,
+    v_shift_id
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity,
+           MAX(NULLIF(value->>'override_id', ''))::UUID AS override_id
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    IF v_medicine.requires_prescription AND v_prescription_id IS NULL THEN
+      UPDATE prescription_overrides
+      SET sale_id = v_sale_id,
+          used_at = NOW()
+      WHERE id = v_line.override_id
+        AND medicine_id = v_medicine.id
+        AND sale_id IS NULL
+        AND used_at IS NULL
+        AND created_at > NOW() - INTERVAL '1 hour';
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% requires a prescription or a pharmacist override', v_medicine.name;
+      END IF;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity) FILTER (WHERE expiry_date > CURRENT_DATE), 0),
+           COALESCE(SUM(quantity) FILTER (WHERE expiry_date <= CURRENT_DATE), 0)
+    INTO v_available, v_expired
+    FROM medicine_batches
+    WHERE medicine_id = v_medicine.id AND status = 'available';
+
+    IF v_available < v_line.quantity THEN
+      IF v_expired > 0 THEN
+        RAISE EXCEPTION '% has expired stock that cannot be sold (% in date)', v_medicine.name, v_available;
+      END IF;
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_available;
+    END IF;
+
+    v_remaining := v_line.quantity;
+
+    FOR v_batch IN
+      SELECT id, quantity
+      FROM medicine_batches
+      WHERE medicine_id = v_medicine.id AND quantity > 0 AND status = 'available' AND expiry_date > CURRENT_DATE
+      ORDER BY expiry_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_batch.quantity);
+
+      INSERT INTO sale_items (sale_id, medicine_id, batch_id, quantity, unit_price, total_price)
+      VALUES (v_sale_id, v_medicine.id, v_batch.id, v_take, v_medicine.selling_price, v_take * v_medicine.selling_price);
+
+      UPDATE medicine_batches
+      SET quantity = quantity - v_take
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+      VALUES (v_medicine.id, v_batch.id, 'out', v_take, 'Sale', v_sale_id, v_served_by);
+
+      v_remaining := v_remaining - v_take;
+    END LOOP;
+
+    v_total := v_total + v_line.quantity * v_medicine.selling_price;
+  END LOOP;
+
+  UPDATE sales SET total_amount = v_total WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
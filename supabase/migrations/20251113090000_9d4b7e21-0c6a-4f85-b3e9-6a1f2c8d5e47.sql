@@ -0,0 +1,11 @@
+-- Receipts. Pharmacy details printed at the top of every receipt and on the
+-- letterhead of printed documents, plus the paper width the counter printer
+-- takes (58mm or 80mm thermal rolls).
+ALTER TABLE pharmacy_settings
+  ADD COLUMN pharmacy_name TEXT NOT NULL DEFAULT 'Pawa Pharmacy' CHECK (LENGTH(TRIM(pharmacy_name)) > 0),
+  ADD COLUMN pharmacy_address TEXT,
+  ADD COLUMN pharmacy_phone TEXT,
+  ADD COLUMN kra_pin TEXT,
+  ADD COLUMN ppb_licence_number TEXT,
+  ADD COLUMN receipt_footer TEXT DEFAULT 'Thank you for your purchase. Get well soon!',
+  ADD COLUMN receipt_width INTEGER NOT NULL DEFAULT 80 CHECK (receipt_width IN (58, 80));
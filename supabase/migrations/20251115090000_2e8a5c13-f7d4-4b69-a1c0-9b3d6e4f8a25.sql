@@ -0,0 +1,327 @@
+-- Customer returns. A return is recorded against the original sale as a
+-- credit note: the returned lines go back to their batch when they can be
+-- sold again, or into a quarantined copy of the batch when they can't, and
+-- the refund comes out of the open cash shift. Returning prescription-only
+-- items needs a pharmacist, either serving or approving at the till.
+CREATE SEQUENCE credit_note_number_seq;
+
+CREATE TABLE sale_returns (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  return_number TEXT UNIQUE NOT NULL,
+  sale_id UUID NOT NULL REFERENCES sales(id),
+  refund_method TEXT NOT NULL CHECK (refund_method IN ('cash', 'mpesa', 'card', 'insurance')),
+  refund_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  reason TEXT NOT NULL,
+  processed_by UUID REFERENCES profiles(id),
+  approved_by UUID REFERENCES profiles(id),
+  till_session_id UUID REFERENCES till_sessions(id),
+  shift_id UUID REFERENCES cash_shifts(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- restock_to is where the units went: back on sale, or quarantined
+CREATE TABLE sale_return_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  return_id UUID NOT NULL REFERENCES sale_returns(id) ON DELETE CASCADE,
+  sale_item_id UUID NOT NULL REFERENCES sale_items(id),
+  medicine_id UUID REFERENCES medicines(id) ON DELETE SET NULL,
+  batch_id UUID REFERENCES medicine_batches(id),
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) NOT NULL,
+  total_price DECIMAL(10,2) NOT NULL,
+  restock_to TEXT NOT NULL CHECK (restock_to IN ('available', 'quarantined'))
+);
+
+-- A pharmacist's sign-off for returning prescription-only items from one
+-- sale, used by at most one return.
+CREATE TABLE sale_return_approvals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sale_id UUID NOT NULL REFERENCES sales(id) ON DELETE CASCADE,
+  approved_by UUID NOT NULL REFERENCES profiles(id),
+  requested_by UUID REFERENCES profiles(id),
+  return_id UUID REFERENCES sale_returns(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  used_at TIMESTAMPTZ
+);
+
+CREATE INDEX sale_returns_sale_idx ON sale_returns (sale_id);
+CREATE INDEX sale_returns_shift_idx ON sale_returns (shift_id);
+CREATE INDEX sale_return_items_sale_item_idx ON sale_return_items (sale_item_id);
+
+ALTER TABLE sale_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_return_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sale_return_approvals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON sale_returns FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Allow authenticated read access" ON sale_return_items FOR SELECT TO authenticated USING (true);
+CREATE POLICY "Allow authenticated read access" ON sale_return_approvals FOR SELECT TO authenticated USING (true);
+
+CREATE OR REPLACE FUNCTION generate_credit_note_number()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.return_number = 'CN-' || TO_CHAR(NOW(), 'YYYYMMDD') || '-' || LPAD(NEXTVAL('credit_note_number_seq')::TEXT, 4, '0');
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER before_sale_return_insert
+  BEFORE INSERT ON sale_returns
+  FOR EACH ROW
+  WHEN (NEW.return_number IS NULL)
+  EXECUTE FUNCTION generate_credit_note_number();
+
+-- Called from the pharmacist's own session. p_requested_by is the cashier
+-- processing the return when the pharmacist approves at their till.
+CREATE OR REPLACE FUNCTION grant_return_approval(p_sale_id UUID, p_requested_by UUID DEFAULT NULL)
+RETURNS UUID AS $$
+DECLARE
+  v_approval_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can approve returning prescription-only items';
+  END IF;
+
+  PERFORM 1 FROM sales WHERE id = p_sale_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id;
+  END IF;
+
+  INSERT INTO sale_return_approvals (sale_id, approved_by, requested_by)
+  VALUES (p_sale_id, acting_user_id(), COALESCE(p_requested_by, acting_user_id()))
+  RETURNING id INTO v_approval_id;
+
+  RETURN v_approval_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION grant_return_approval(UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION grant_return_approval(UUID, UUID) TO authenticated;
+
+-- Return lines from a sale. p_items is an array of
+-- { sale_item_id, quantity, restock_to } where restock_to is 'available'
+-- or 'quarantined'. Returns the new credit note's id.
+CREATE OR REPLACE FUNCTION record_sale_return(
+  p_sale_id UUID,
+  p_items JSONB,
+  p_refund_method TEXT,
+  p_reason TEXT,
+  p_till_session_id UUID DEFAULT NULL,
+  p_approval_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_return_id UUID;
+  v_return_number TEXT;
+  v_processed_by UUID := acting_user_id();
+  v_processor_role user_role;
+  v_approved_by UUID;
+  v_shift_id UUID;
+  v_line RECORD;
+  v_batch medicine_batches%ROWTYPE;
+  v_restock_batch_id UUID;
+  v_returned INTEGER;
+  v_needs_approval BOOLEAN := false;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF p_till_session_id IS NOT NULL THEN
+    v_processed_by := till_session_staff(p_till_session_id);
+  END IF;
+
+  SELECT role INTO v_processor_role FROM profiles WHERE id = v_processed_by;
+
+  v_shift_id := open_shift_for(p_till_session_id);
+
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a cash shift before making refunds';
+  END IF;
+
+  IF p_refund_method IS NULL OR p_refund_method NOT IN ('cash', 'mpesa', 'card', 'insurance') THEN
+    RAISE EXCEPTION 'Choose how the refund is paid';
+  END IF;
+
+  IF LENGTH(COALESCE(TRIM(p_reason), '')) < 3 THEN
+    RAISE EXCEPTION 'Give a reason for the return';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to return';
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id;
+  END IF;
+
+  -- Medicines are locked before any of their batches, in id order as
+  -- record_sale does, so a return running alongside a checkout can't deadlock
+  PERFORM 1 FROM medicines
+  WHERE id IN (SELECT medicine_id FROM sale_items WHERE sale_id = p_sale_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  INSERT INTO sale_returns (sale_id, refund_method, reason, processed_by, till_session_id, shift_id)
+  VALUES (p_sale_id, p_refund_method, TRIM(p_reason), v_processed_by, p_till_session_id, v_shift_id)
+  RETURNING id, return_number INTO v_return_id, v_return_number;
+
+  FOR v_line IN
+    SELECT si.id AS sale_item_id,
+           si.medicine_id,
+           si.batch_id,
+           si.quantity AS sold,
+           si.unit_price,
+           m.name,
+           COALESCE(m.requires_prescription, false) AS requires_prescription,
+           SUM((value->>'quantity')::INTEGER) AS quantity,
+           MAX(value->>'restock_to') AS restock_to
+    FROM jsonb_array_elements(p_items)
+    LEFT JOIN sale_items si ON si.id = (value->>'sale_item_id')::UUID AND si.sale_id = p_sale_id
+    LEFT JOIN medicines m ON m.id = si.medicine_id
+    GROUP BY si.id, si.medicine_id, si.batch_id, si.quantity, si.unit_price, m.name, m.requires_prescription
+    ORDER BY si.id
+  LOOP
+    IF v_line.sale_item_id IS NULL THEN
+      RAISE EXCEPTION 'Returned items must come from sale %', v_sale.sale_number;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity returned for % must be at least 1', v_line.name;
+    END IF;
+
+    IF v_line.restock_to IS NULL OR v_line.restock_to NOT IN ('available', 'quarantined') THEN
+      RAISE EXCEPTION 'Choose whether % goes back on sale or into quarantine', v_line.name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0) INTO v_returned
+    FROM sale_return_items
+    WHERE sale_item_id = v_line.sale_item_id;
+
+    IF v_returned + v_line.quantity > v_line.sold THEN
+      RAISE EXCEPTION 'Only % of % can still be returned', v_line.sold - v_returned, v_line.name;
+    END IF;
+
+    IF v_line.requires_prescription THEN
+      v_needs_approval := true;
+    END IF;
+
+    SELECT * INTO v_batch FROM medicine_batches WHERE id = v_line.batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The batch % was sold from no longer exists', v_line.name;
+    END IF;
+
+    IF v_line.restock_to = 'available' THEN
+      IF v_batch.status <> 'available' OR v_batch.expiry_date <= CURRENT_DATE THEN
+        RAISE EXCEPTION 'Batch % of % is expired or off sale. Return it to quarantine', v_batch.batch_number, v_line.name;
+      END IF;
+
+      UPDATE medicine_batches SET quantity = quantity + v_line.quantity WHERE id = v_batch.id;
+      v_restock_batch_id := v_batch.id;
+    ELSIF v_batch.status = 'quarantined' THEN
+      UPDATE medicine_batches SET quantity = quantity + v_line.quantity WHERE id = v_batch.id;
+      v_restock_batch_id := v_batch.id;
+    ELSE
+      -- Quarantine is per batch, so returned units are held in a quarantined
+      -- copy rather than taking the rest of the batch off sale.
+      INSERT INTO medicine_batches (
+        medicine_id, batch_number, expiry_date, manufacture_date, quantity, unit_cost,
+        status, quarantine_reason, quarantined_by, quarantined_at
+      )
+      VALUES (
+        v_batch.medicine_id, v_batch.batch_number, v_batch.expiry_date, v_batch.manufacture_date, v_line.quantity,
+        v_batch.unit_cost, 'quarantined', 'Customer return ' || v_return_number, v_processed_by, NOW()
+      )
+      RETURNING id INTO v_restock_batch_id;
+    END IF;
+
+    INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+    VALUES (
+      v_line.medicine_id,
+      v_restock_batch_id,
+      'in',
+      v_line.quantity,
+      CASE WHEN v_line.restock_to = 'available' THEN 'Customer return' ELSE 'Customer return (quarantined)' END,
+      v_return_id,
+      v_processed_by
+    );
+
+    INSERT INTO sale_return_items (return_id, sale_item_id, medicine_id, batch_id, quantity, unit_price, total_price, restock_to)
+    VALUES (
+      v_return_id,
+      v_line.sale_item_id,
+      v_line.medicine_id,
+      v_restock_batch_id,
+      v_line.quantity,
+      v_line.unit_price,
+      v_line.quantity * v_line.unit_price,
+      v_line.restock_to
+    );
+
+    v_total := v_total + v_line.quantity * v_line.unit_price;
+  END LOOP;
+
+  IF v_needs_approval THEN
+    IF v_processor_role IN ('admin', 'pharmacist') THEN
+      v_approved_by := v_processed_by;
+    ELSE
+      UPDATE sale_return_approvals
+      SET return_id = v_return_id,
+          used_at = NOW()
+      WHERE id = p_approval_id
+        AND sale_id = p_sale_id
+        AND used_at IS NULL
+        AND created_at > NOW() - INTERVAL '1 hour'
+      RETURNING approved_by INTO v_approved_by;
+
+      IF v_approved_by IS NULL THEN
+        RAISE EXCEPTION 'Returning prescription-only items needs a pharmacist''s approval';
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE sale_returns
+  SET refund_amount = v_total,
+      approved_by = v_approved_by
+  WHERE id = v_return_id;
+
+  RETURN v_return_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION record_sale_return(UUID, JSONB, TEXT, TEXT, UUID, UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION record_sale_return(UUID, JSONB, TEXT, TEXT, UUID, UUID) TO authenticated;
+
+-- Refunds paid out during a shift come off what the drawer should hold
+CREATE OR REPLACE FUNCTION cash_shift_expected(p_shift_id UUID)
+RETURNS TABLE (payment_method TEXT, sale_count BIGINT, expected_amount NUMERIC) AS $$
+BEGIN
+  PERFORM 1 FROM cash_shifts WHERE id = p_shift_id;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Shift not found';
+  END IF;
+
+  RETURN QUERY
+  SELECT m.method,
+         (SELECT COUNT(*) FROM sales s WHERE s.shift_id = cs.id AND s.payment_method = m.method),
+         COALESCE((SELECT SUM(s.total_amount) FROM sales s WHERE s.shift_id = cs.id AND s.payment_method = m.method), 0)
+           - COALESCE((SELECT SUM(r.refund_amount) FROM sale_returns r WHERE r.shift_id = cs.id AND r.refund_method = m.method), 0)
+           + CASE WHEN m.method = 'cash' THEN cs.opening_float ELSE 0 END
+  FROM cash_shifts cs
+  CROSS JOIN UNNEST(ARRAY['cash', 'mpesa', 'card', 'insurance']) AS m(method)
+  WHERE cs.id = p_shift_id
+  ORDER BY ARRAY_POSITION(ARRAY['cash', 'mpesa', 'card', 'insurance'], m.method);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
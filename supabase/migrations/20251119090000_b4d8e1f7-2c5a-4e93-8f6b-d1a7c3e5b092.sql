@@ -0,0 +1,525 @@
+-- Discounts and price overrides. A line can be discounted by a percentage,
+-- a fixed amount or by overriding its unit price, and the whole basket by a
+-- percentage or fixed amount. Each role has a ceiling on how deep a discount
+-- it can give, and any discount needs a reason. Sale items keep the price
+-- they were listed at alongside the discount and the net price, so margins
+-- are worked out on what was actually charged.
+ALTER TABLE pharmacy_settings
+  ADD COLUMN cashier_max_discount_percent DECIMAL(5,2) NOT NULL DEFAULT 5
+    CHECK (cashier_max_discount_percent BETWEEN 0 AND 100),
+  ADD COLUMN pharmacist_max_discount_percent DECIMAL(5,2) NOT NULL DEFAULT 20
+    CHECK (pharmacist_max_discount_percent BETWEEN 0 AND 100);
+
+ALTER TABLE sales
+  ADD COLUMN subtotal DECIMAL(10,2) NOT NULL DEFAULT 0,
+  ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0),
+  ADD COLUMN discount_reason TEXT;
+
+-- Filling in existing sales isn't a change anyone made, so it is kept out of
+-- the audit log
+ALTER TABLE sales DISABLE TRIGGER audit_sales;
+UPDATE sales SET subtotal = total_amount WHERE subtotal IS DISTINCT FROM total_amount;
+ALTER TABLE sales ENABLE TRIGGER audit_sales;
+
+-- unit_price and total_price are net of discounts; original_price is the
+-- selling price at the time of sale and discount_amount the line's share of
+-- all discounts.
+ALTER TABLE sale_items
+  ADD COLUMN original_price DECIMAL(10,2),
+  ADD COLUMN discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (discount_amount >= 0);
+
+UPDATE sale_items SET original_price = unit_price;
+
+ALTER TABLE sale_items ALTER COLUMN original_price SET NOT NULL;
+
+-- items: [{ medicine_id, quantity, override_id, discount_type, discount_value }]
+-- with discount_type 'percent', 'amount' (KES off the line) or 'price' (the
+-- unit price charged). payment may carry discount_type ('percent' or
+-- 'amount'), discount_value and discount_reason for the basket.
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_prescription_id UUID := NULLIF(payment->>'prescription_id', '')::UUID;
+  v_till_session_id UUID := NULLIF(payment->>'till_session_id', '')::UUID;
+  v_served_by UUID := acting_user_id();
+  v_shift_id UUID;
+  v_line RECORD;
+  v_batch RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_available INTEGER;
+  v_expired INTEGER;
+  v_remaining INTEGER;
+  v_take INTEGER;
+  v_gross DECIMAL(10,2);
+  v_line_discount DECIMAL(10,2);
+  v_discount_left DECIMAL(10,2);
+  v_share DECIMAL(10,2);
+  v_subtotal DECIMAL(10,2) := 0;
+  v_line_discounts DECIMAL(10,2) := 0;
+  v_basket_type TEXT := NULLIF(payment->>'discount_type', '');
+  v_basket_value NUMERIC := COALESCE(NULLIF(payment->>'discount_value', '')::NUMERIC, 0);
+  v_basket_discount DECIMAL(10,2) := 0;
+  v_discount_reason TEXT := NULLIF(TRIM(payment->>'discount_reason'), '');
+  v_max_discount NUMERIC;
+  v_item RECORD;
+  v_over TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF v_till_session_id IS NOT NULL THEN
+    v_served_by := till_session_staff(v_till_session_id);
+  END IF;
+
+  v_shift_id := open_shift_for(v_till_session_id);
+
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a cash shift before making sales';
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(items)
+    WHERE COALESCE(value->>'discount_type', '') NOT IN ('', 'percent', 'amount', 'price')
+       OR (NULLIF(value->>'discount_type', '') IS NOT NULL AND NULLIF(value->>'discount_value', '') IS NULL)
+       OR COALESCE(NULLIF(value->>'discount_value', '')::NUMERIC, 0) < 0
+       OR (value->>'discount_type' = 'percent' AND (value->>'discount_value')::NUMERIC > 100)
+  ) THEN
+    RAISE EXCEPTION 'Line discounts must be a percentage up to 100, an amount or a price, and not negative';
+  END IF;
+
+  IF COALESCE(v_basket_type, 'percent') NOT IN ('percent', 'amount')
+     OR v_basket_value < 0
+     OR (v_basket_type = 'percent' AND v_basket_value > 100) THEN
+    RAISE EXCEPTION 'The basket discount must be a percentage up to 100 or an amount, and not negative';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by, till_session_id, shift_id)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    v_prescription_id,
+    0,
+    v_served_by,
+    v_till_session_id,
+    v_shift_id
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell. Their discounts
+  -- are merged too, as a number of units' worth of the selling price plus
+  -- a fixed amount, since the price is only read once the medicine is
+  -- locked. A price override of p on q units is q units' worth less q * p.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity,
+           MAX(NULLIF(value->>'override_id', ''))::UUID AS override_id,
+           COALESCE(SUM(CASE value->>'discount_type'
+             WHEN 'percent' THEN (value->>'quantity')::INTEGER * (value->>'discount_value')::NUMERIC / 100
+             WHEN 'price' THEN (value->>'quantity')::INTEGER
+           END), 0) AS discount_units,
+           COALESCE(SUM(CASE value->>'discount_type'
+             WHEN 'amount' THEN (value->>'discount_value')::NUMERIC
+             WHEN 'price' THEN -(value->>'quantity')::INTEGER * (value->>'discount_value')::NUMERIC
+           END), 0) AS discount_fixed
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    IF v_medicine.requires_prescription AND v_prescription_id IS NULL THEN
+      UPDATE prescription_overrides
+      SET sale_id = v_sale_id,
+          used_at = NOW()
+      WHERE id = v_line.override_id
+        AND medicine_id = v_medicine.id
+        AND sale_id IS NULL
+        AND used_at IS NULL
+        AND created_at > NOW() - INTERVAL '1 hour';
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% requires a prescription or a pharmacist override', v_medicine.name;
+      END IF;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity) FILTER (WHERE expiry_date > CURRENT_DATE), 0),
+           COALESCE(SUM(quantity) FILTER (WHERE expiry_date <= CURRENT_DATE), 0)
+    INTO v_available, v_expired
+    FROM medicine_batches
+    WHERE medicine_id = v_medicine.id AND status = 'available';
+
+    IF v_available < v_line.quantity THEN
+      IF v_expired > 0 THEN
+        RAISE EXCEPTION '% has expired stock that cannot be sold (% in date)', v_medicine.name, v_available;
+      END IF;
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_available;
+    END IF;
+
+    v_gross := v_line.quantity * v_medicine.selling_price;
+    v_line_discount := ROUND(v_medicine.selling_price * v_line.discount_units + v_line.discount_fixed, 2);
+
+    IF v_line_discount < 0 OR v_line_discount > v_gross THEN
+      RAISE EXCEPTION 'The discount on % must be between nothing and its full price', v_medicine.name;
+    END IF;
+
+    v_remaining := v_line.quantity;
+    v_discount_left := v_line_discount;
+
+    FOR v_batch IN
+      SELECT id, quantity
+      FROM medicine_batches
+      WHERE medicine_id = v_medicine.id AND quantity > 0 AND status = 'available' AND expiry_date > CURRENT_DATE
+      ORDER BY expiry_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_batch.quantity);
+      -- The last batch takes whatever rounding left of the line's discount
+      v_share := CASE
+        WHEN v_take = v_remaining THEN v_discount_left
+        ELSE ROUND(v_line_discount * v_take / v_line.quantity, 2)
+      END;
+
+      INSERT INTO sale_items (
+        sale_id, medicine_id, batch_id, quantity, original_price, discount_amount, unit_price, total_price
+      )
+      VALUES (
+        v_sale_id,
+        v_medicine.id,
+        v_batch.id,
+        v_take,
+        v_medicine.selling_price,
+        v_share,
+        ROUND((v_take * v_medicine.selling_price - v_share) / v_take, 2),
+        v_take * v_medicine.selling_price - v_share
+      );
+
+      UPDATE medicine_batches
+      SET quantity = quantity - v_take
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+      VALUES (v_medicine.id, v_batch.id, 'out', v_take, 'Sale', v_sale_id, v_served_by);
+
+      v_remaining := v_remaining - v_take;
+      v_discount_left := v_discount_left - v_share;
+    END LOOP;
+
+    v_subtotal := v_subtotal + v_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+  END LOOP;
+
+  v_basket_discount := CASE v_basket_type
+    WHEN 'percent' THEN ROUND((v_subtotal - v_line_discounts) * v_basket_value / 100, 2)
+    WHEN 'amount' THEN v_basket_value
+    ELSE 0
+  END;
+
+  IF v_basket_discount > v_subtotal - v_line_discounts THEN
+    RAISE EXCEPTION 'The basket discount is more than the sale total';
+  END IF;
+
+  -- The basket discount is spread over the lines in proportion to what they
+  -- cost after their own discounts, so each line's net price is what it
+  -- actually sold for and returns refund exactly that.
+  IF v_basket_discount > 0 THEN
+    v_discount_left := v_basket_discount;
+
+    FOR v_item IN
+      SELECT id, total_price, COUNT(*) OVER () - ROW_NUMBER() OVER (ORDER BY total_price, id) AS lines_after
+      FROM sale_items
+      WHERE sale_id = v_sale_id
+      ORDER BY total_price, id
+    LOOP
+      v_share := CASE
+        WHEN v_item.lines_after = 0 THEN v_discount_left
+        ELSE ROUND(v_basket_discount * v_item.total_price / (v_subtotal - v_line_discounts), 2)
+      END;
+
+      UPDATE sale_items
+      SET discount_amount = discount_amount + v_share,
+          total_price = total_price - v_share,
+          unit_price = ROUND((total_price - v_share) / quantity, 2)
+      WHERE id = v_item.id;
+
+      v_discount_left := v_discount_left - v_share;
+    END LOOP;
+  END IF;
+
+  IF v_line_discounts + v_basket_discount > 0 THEN
+    IF v_discount_reason IS NULL OR LENGTH(v_discount_reason) < 5 THEN
+      RAISE EXCEPTION 'Give a reason for the discount';
+    END IF;
+
+    -- Limits apply to whoever is serving, and to each medicine's combined
+    -- line and basket discount so a basket discount can't hide a deep cut
+    -- on one item.
+    SELECT CASE p.role
+             WHEN 'admin' THEN 100
+             WHEN 'pharmacist' THEN s.pharmacist_max_discount_percent
+             ELSE s.cashier_max_discount_percent
+           END
+    INTO v_max_discount
+    FROM profiles p, pharmacy_settings s
+    WHERE p.id = v_served_by;
+
+    SELECT m.name INTO v_over
+    FROM sale_items si
+    JOIN medicines m ON m.id = si.medicine_id
+    WHERE si.sale_id = v_sale_id
+    GROUP BY m.id, m.name
+    HAVING SUM(si.discount_amount) > ROUND(SUM(si.original_price * si.quantity) * COALESCE(v_max_discount, 0) / 100, 2)
+    ORDER BY m.name
+    LIMIT 1;
+
+    IF v_over IS NOT NULL THEN
+      RAISE EXCEPTION 'The discount on % is more than your limit of % percent', v_over, COALESCE(v_max_discount, 0);
+    END IF;
+  ELSE
+    v_discount_reason := NULL;
+  END IF;
+
+  UPDATE sales
+  SET subtotal = v_subtotal,
+      discount_amount = v_line_discounts + v_basket_discount,
+      discount_reason = v_discount_reason,
+      total_amount = v_subtotal - v_line_discounts - v_basket_discount
+  WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Refund the net price paid rather than the list price
+CREATE OR REPLACE FUNCTION record_sale_return(
+  p_sale_id UUID,
+  p_items JSONB,
+  p_refund_method TEXT,
+  p_reason TEXT,
+  p_till_session_id UUID DEFAULT NULL,
+  p_approval_id UUID DEFAULT NULL
+)
+RETURNS UUID AS $$
+DECLARE
+  v_sale sales%ROWTYPE;
+  v_return_id UUID;
+  v_return_number TEXT;
+  v_processed_by UUID := acting_user_id();
+  v_processor_role user_role;
+  v_approved_by UUID;
+  v_shift_id UUID;
+  v_line RECORD;
+  v_batch medicine_batches%ROWTYPE;
+  v_restock_batch_id UUID;
+  v_returned INTEGER;
+  v_refunded DECIMAL(10,2);
+  v_refund DECIMAL(10,2);
+  v_needs_approval BOOLEAN := false;
+  v_total DECIMAL(10,2) := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF p_till_session_id IS NOT NULL THEN
+    v_processed_by := till_session_staff(p_till_session_id);
+  END IF;
+
+  SELECT role INTO v_processor_role FROM profiles WHERE id = v_processed_by;
+
+  v_shift_id := open_shift_for(p_till_session_id);
+
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a cash shift before making refunds';
+  END IF;
+
+  IF p_refund_method IS NULL OR p_refund_method NOT IN ('cash', 'mpesa', 'card', 'insurance') THEN
+    RAISE EXCEPTION 'Choose how the refund is paid';
+  END IF;
+
+  IF LENGTH(COALESCE(TRIM(p_reason), '')) < 3 THEN
+    RAISE EXCEPTION 'Give a reason for the return';
+  END IF;
+
+  IF p_items IS NULL OR jsonb_typeof(p_items) <> 'array' OR jsonb_array_length(p_items) = 0 THEN
+    RAISE EXCEPTION 'Choose at least one item to return';
+  END IF;
+
+  SELECT * INTO v_sale FROM sales WHERE id = p_sale_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Sale % not found', p_sale_id;
+  END IF;
+
+  IF v_sale.status = 'voided' THEN
+    RAISE EXCEPTION 'Sale % has been voided and cannot be returned', v_sale.sale_number;
+  END IF;
+
+  -- Medicines are locked before any of their batches, in id order as
+  -- record_sale does, so a return running alongside a checkout can't deadlock
+  PERFORM 1 FROM medicines
+  WHERE id IN (SELECT medicine_id FROM sale_items WHERE sale_id = p_sale_id)
+  ORDER BY id
+  FOR UPDATE;
+
+  INSERT INTO sale_returns (sale_id, refund_method, reason, processed_by, till_session_id, shift_id)
+  VALUES (p_sale_id, p_refund_method, TRIM(p_reason), v_processed_by, p_till_session_id, v_shift_id)
+  RETURNING id, return_number INTO v_return_id, v_return_number;
+
+  FOR v_line IN
+    SELECT si.id AS sale_item_id,
+           si.medicine_id,
+           si.batch_id,
+           si.quantity AS sold,
+           si.unit_price,
+           si.total_price,
+           m.name,
+           COALESCE(m.requires_prescription, false) AS requires_prescription,
+           SUM((value->>'quantity')::INTEGER) AS quantity,
+           MAX(value->>'restock_to') AS restock_to
+    FROM jsonb_array_elements(p_items)
+    LEFT JOIN sale_items si ON si.id = (value->>'sale_item_id')::UUID AND si.sale_id = p_sale_id
+    LEFT JOIN medicines m ON m.id = si.medicine_id
+    GROUP BY si.id, si.medicine_id, si.batch_id, si.quantity, si.unit_price, si.total_price, m.name, m.requires_prescription
+    ORDER BY si.id
+  LOOP
+    IF v_line.sale_item_id IS NULL THEN
+      RAISE EXCEPTION 'Returned items must come from sale %', v_sale.sale_number;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity returned for % must be at least 1', v_line.name;
+    END IF;
+
+    IF v_line.restock_to IS NULL OR v_line.restock_to NOT IN ('available', 'quarantined') THEN
+      RAISE EXCEPTION 'Choose whether % goes back on sale or into quarantine', v_line.name;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity), 0), COALESCE(SUM(total_price), 0) INTO v_returned, v_refunded
+    FROM sale_return_items
+    WHERE sale_item_id = v_line.sale_item_id;
+
+    IF v_returned + v_line.quantity > v_line.sold THEN
+      RAISE EXCEPTION 'Only % of % can still be returned', v_line.sold - v_returned, v_line.name;
+    END IF;
+
+    -- Refunds are at the net price paid. Returning the last units of a line
+    -- refunds whatever is left of it, so rounding never over- or under-pays.
+    v_refund := CASE
+      WHEN v_returned + v_line.quantity = v_line.sold THEN v_line.total_price - v_refunded
+      ELSE ROUND(v_line.total_price * v_line.quantity / v_line.sold, 2)
+    END;
+
+    IF v_line.requires_prescription THEN
+      v_needs_approval := true;
+    END IF;
+
+    SELECT * INTO v_batch FROM medicine_batches WHERE id = v_line.batch_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'The batch % was sold from no longer exists', v_line.name;
+    END IF;
+
+    IF v_line.restock_to = 'available' THEN
+      IF v_batch.status <> 'available' OR v_batch.expiry_date <= CURRENT_DATE THEN
+        RAISE EXCEPTION 'Batch % of % is expired or off sale. Return it to quarantine', v_batch.batch_number, v_line.name;
+      END IF;
+
+      UPDATE medicine_batches SET quantity = quantity + v_line.quantity WHERE id = v_batch.id;
+      v_restock_batch_id := v_batch.id;
+    ELSIF v_batch.status = 'quarantined' THEN
+      UPDATE medicine_batches SET quantity = quantity + v_line.quantity WHERE id = v_batch.id;
+      v_restock_batch_id := v_batch.id;
+    ELSE
+      -- Quarantine is per batch, so returned units are held in a quarantined
+      -- copy rather than taking the rest of the batch off sale.
+      INSERT INTO medicine_batches (
+        medicine_id, batch_number, expiry_date, manufacture_date, quantity, unit_cost,
+        status, quarantine_reason, quarantined_by, quarantined_at
+      )
+      VALUES (
+        v_batch.medicine_id, v_batch.batch_number, v_batch.expiry_date, v_batch.manufacture_date, v_line.quantity,
+        v_batch.unit_cost, 'quarantined', 'Customer return ' || v_return_number, v_processed_by, NOW()
+      )
+      RETURNING id INTO v_restock_batch_id;
+    END IF;
+
+    INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+    VALUES (
+      v_line.medicine_id,
+      v_restock_batch_id,
+      'in',
+      v_line.quantity,
+      CASE WHEN v_line.restock_to = 'available' THEN 'Customer return' ELSE 'Customer return (quarantined)' END,
+      v_return_id,
+      v_processed_by
+    );
+
+    INSERT INTO sale_return_items (return_id, sale_item_id, medicine_id, batch_id, quantity, unit_price, total_price, restock_to)
+    VALUES (
+      v_return_id,
+      v_line.sale_item_id,
+      v_line.medicine_id,
+      v_restock_batch_id,
+      v_line.quantity,
+      v_line.unit_price,
+      v_refund,
+      v_line.restock_to
+    );
+
+    v_total := v_total + v_refund;
+  END LOOP;
+
+  IF v_needs_approval THEN
+    IF v_processor_role IN ('admin', 'pharmacist') THEN
+      v_approved_by := v_processed_by;
+    ELSE
+      UPDATE sale_return_approvals
+      SET return_id = v_return_id,
+          used_at = NOW()
+      WHERE id = p_approval_id
+        AND sale_id = p_sale_id
+        AND used_at IS NULL
+        AND created_at > NOW() - INTERVAL '1 hour'
+      RETURNING approved_by INTO v_approved_by;
+
+      IF v_approved_by IS NULL THEN
+        RAISE EXCEPTION 'Returning prescription-only items needs a pharmacist''s approval';
+      END IF;
+    END IF;
+  END IF;
+
+  UPDATE sale_returns
+  SET refund_amount = v_total,
+      approved_by = v_approved_by
+  WHERE id = v_return_id;
+
+  RETURN v_return_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,415 @@
+-- M-Pesa STK Push. The mpesa-stk-push edge function asks Safaricom's Daraja
+-- API to prompt the customer's phone for their PIN and records the request
+-- here; the mpesa-callback function fills in the outcome when Safaricom
+-- calls back. Both write with the service role, so staff can only read.
+-- A sale claims a confirmed payment when it is recorded, and a payment can
+-- only ever settle one sale.
+CREATE TABLE mpesa_payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  merchant_request_id TEXT,
+  checkout_request_id TEXT UNIQUE,
+  phone TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  account_reference TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed', 'cancelled')),
+  result_code INTEGER,
+  result_description TEXT,
+  mpesa_receipt_number TEXT UNIQUE,
+  transaction_date TIMESTAMPTZ,
+  callback_payload JSONB,
+  sale_id UUID REFERENCES sales(id) ON DELETE SET NULL,
+  requested_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX mpesa_payments_status_idx ON mpesa_payments (status, created_at DESC);
+
+ALTER TABLE mpesa_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON mpesa_payments FOR SELECT TO authenticated USING (true);
+
+-- Who an STK Push is being asked for by: the mpesa-stk-push function calls
+-- this as the signed-in user, so on a till it is whoever unlocked it.
+CREATE OR REPLACE FUNCTION mpesa_requester(p_till_session_id UUID DEFAULT NULL)
+RETURNS UUID AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF p_till_session_id IS NOT NULL THEN
+    RETURN till_session_staff(p_till_session_id);
+  END IF;
+
+  RETURN acting_user_id();
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION mpesa_requester(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION mpesa_requester(UUID) TO authenticated;
+
+ALTER TABLE sale_payments
+  ADD COLUMN mpesa_payment_id UUID UNIQUE REFERENCES mpesa_payments(id);
+
+-- An M-Pesa tender must carry mpesa_payment_id, a payment confirmed by STK
+-- Push, so a sale can't be closed on a payment that never arrived; its
+-- receipt number becomes the tender's reference.
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_prescription_id UUID := NULLIF(payment->>'prescription_id', '')::UUID;
+  v_till_session_id UUID := NULLIF(payment->>'till_session_id', '')::UUID;
+  v_served_by UUID := acting_user_id();
+  v_shift_id UUID;
+  v_line RECORD;
+  v_batch RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_available INTEGER;
+  v_expired INTEGER;
+  v_remaining INTEGER;
+  v_take INTEGER;
+  v_gross DECIMAL(10,2);
+  v_line_discount DECIMAL(10,2);
+  v_discount_left DECIMAL(10,2);
+  v_share DECIMAL(10,2);
+  v_subtotal DECIMAL(10,2) := 0;
+  v_line_discounts DECIMAL(10,2) := 0;
+  v_basket_type TEXT := NULLIF(payment->>'discount_type', '');
+  v_basket_value NUMERIC := COALESCE(NULLIF(payment->>'discount_value', '')::NUMERIC, 0);
+  v_basket_discount DECIMAL(10,2) := 0;
+  v_discount_reason TEXT := NULLIF(TRIM(payment->>'discount_reason'), '');
+  v_max_discount NUMERIC;
+  v_item RECORD;
+  v_over TEXT;
+  v_total DECIMAL(10,2);
+  v_paid DECIMAL(10,2);
+  v_payment_method TEXT;
+  v_tender RECORD;
+  v_receipt_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF v_till_session_id IS NOT NULL THEN
+    v_served_by := till_session_staff(v_till_session_id);
+  END IF;
+
+  v_shift_id := open_shift_for(v_till_session_id);
+
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a cash shift before making sales';
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(items)
+    WHERE COALESCE(value->>'discount_type', '') NOT IN ('', 'percent', 'amount', 'price')
+       OR (NULLIF(value->>'discount_type', '') IS NOT NULL AND NULLIF(value->>'discount_value', '') IS NULL)
+       OR COALESCE(NULLIF(value->>'discount_value', '')::NUMERIC, 0) < 0
+       OR (value->>'discount_type' = 'percent' AND (value->>'discount_value')::NUMERIC > 100)
+  ) THEN
+    RAISE EXCEPTION 'Line discounts must be a percentage up to 100, an amount or a price, and not negative';
+  END IF;
+
+  IF COALESCE(v_basket_type, 'percent') NOT IN ('percent', 'amount')
+     OR v_basket_value < 0
+     OR (v_basket_type = 'percent' AND v_basket_value > 100) THEN
+    RAISE EXCEPTION 'The basket discount must be a percentage up to 100 or an amount, and not negative';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by, till_session_id, shift_id)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    v_prescription_id,
+    0,
+    v_served_by,
+    v_till_session_id,
+    v_shift_id
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell. Their discounts
+  -- are merged too, as a number of units' worth of the selling price plus
+  -- a fixed amount, since the price is only read once the medicine is
+  -- locked. A price override of p on q units is q units' worth less q * p.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity,
+           MAX(NULLIF(value->>'override_id', ''))::UUID AS override_id,
+           COALESCE(SUM(CASE value->>'discount_type'
+             WHEN 'percent' THEN (value->>'quantity')::INTEGER * (value->>'discount_value')::NUMERIC / 100
+             WHEN 'price' THEN (value->>'quantity')::INTEGER
+           END), 0) AS discount_units,
+           COALESCE(SUM(CASE value->>'discount_type'
+             WHEN 'amount' THEN (value->>'discount_value')::NUMERIC
+             WHEN 'price' THEN -(value->>'quantity')::INTEGER * (value->>'discount_value')::NUMERIC
+           END), 0) AS discount_fixed
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    IF v_medicine.requires_prescription AND v_prescription_id IS NULL THEN
+      UPDATE prescription_overrides
+      SET sale_id = v_sale_id,
+          used_at = NOW()
+      WHERE id = v_line.override_id
+        AND medicine_id = v_medicine.id
+        AND sale_id IS NULL
+        AND used_at IS NULL
+        AND created_at > NOW() - INTERVAL '1 hour';
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% requires a prescription or a pharmacist override', v_medicine.name;
+      END IF;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity) FILTER (WHERE expiry_date > CURRENT_DATE), 0),
+           COALESCE(SUM(quantity) FILTER (WHERE expiry_date <= CURRENT_DATE), 0)
+    INTO v_available, v_expired
+    FROM medicine_batches
+    WHERE medicine_id = v_medicine.id AND status = 'available';
+
+    IF v_available < v_line.quantity THEN
+      IF v_expired > 0 THEN
+        RAISE EXCEPTION '% has expired stock that cannot be sold (% in date)', v_medicine.name, v_available;
+      END IF;
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_available;
+    END IF;
+
+    v_gross := v_line.quantity * v_medicine.selling_price;
+    v_line_discount := ROUND(v_medicine.selling_price * v_line.discount_units + v_line.discount_fixed, 2);
+
+    IF v_line_discount < 0 OR v_line_discount > v_gross THEN
+      RAISE EXCEPTION 'The discount on % must be between nothing and its full price', v_medicine.name;
+    END IF;
+
+    v_remaining := v_line.quantity;
+    v_discount_left := v_line_discount;
+
+    FOR v_batch IN
+      SELECT id, quantity
+      FROM medicine_batches
+      WHERE medicine_id = v_medicine.id AND quantity > 0 AND status = 'available' AND expiry_date > CURRENT_DATE
+      ORDER BY expiry_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_batch.quantity);
+      -- The last batch takes whatever rounding left of the line's discount
+      v_share := CASE
+        WHEN v_take = v_remaining THEN v_discount_left
+        ELSE ROUND(v_line_discount * v_take / v_line.quantity, 2)
+      END;
+
+      INSERT INTO sale_items (
+        sale_id, medicine_id, batch_id, quantity, original_price, discount_amount, unit_price, total_price
+      )
+      VALUES (
+        v_sale_id,
+        v_medicine.id,
+        v_batch.id,
+        v_take,
+        v_medicine.selling_price,
+        v_share,
+        ROUND((v_take * v_medicine.selling_price - v_share) / v_take, 2),
+        v_take * v_medicine.selling_price - v_share
+      );
+
+      UPDATE medicine_batches
+      SET quantity = quantity - v_take
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+      VALUES (v_medicine.id, v_batch.id, 'out', v_take, 'Sale', v_sale_id, v_served_by);
+
+      v_remaining := v_remaining - v_take;
+      v_discount_left := v_discount_left - v_share;
+    END LOOP;
+
+    v_subtotal := v_subtotal + v_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+  END LOOP;
+
+  v_basket_discount := CASE v_basket_type
+    WHEN 'percent' THEN ROUND((v_subtotal - v_line_discounts) * v_basket_value / 100, 2)
+    WHEN 'amount' THEN v_basket_value
+    ELSE 0
+  END;
+
+  IF v_basket_discount > v_subtotal - v_line_discounts THEN
+    RAISE EXCEPTION 'The basket discount is more than the sale total';
+  END IF;
+
+  -- The basket discount is spread over the lines in proportion to what they
+  -- cost after their own discounts, so each line's net price is what it
+  -- actually sold for and returns refund exactly that.
+  IF v_basket_discount > 0 THEN
+    v_discount_left := v_basket_discount;
+
+    FOR v_item IN
+      SELECT id, total_price, COUNT(*) OVER () - ROW_NUMBER() OVER (ORDER BY total_price, id) AS lines_after
+      FROM sale_items
+      WHERE sale_id = v_sale_id
+      ORDER BY total_price, id
+    LOOP
+      v_share := CASE
+        WHEN v_item.lines_after = 0 THEN v_discount_left
+        ELSE ROUND(v_basket_discount * v_item.total_price / (v_subtotal - v_line_discounts), 2)
+      END;
+
+      UPDATE sale_items
+      SET discount_amount = discount_amount + v_share,
+          total_price = total_price - v_share,
+          unit_price = ROUND((total_price - v_share) / quantity, 2)
+      WHERE id = v_item.id;
+
+      v_discount_left := v_discount_left - v_share;
+    END LOOP;
+  END IF;
+
+  IF v_line_discounts + v_basket_discount > 0 THEN
+    IF v_discount_reason IS NULL OR LENGTH(v_discount_reason) < 5 THEN
+      RAISE EXCEPTION 'Give a reason for the discount';
+    END IF;
+
+    -- Limits apply to whoever is serving, and to each medicine's combined
+    -- line and basket discount so a basket discount can't hide a deep cut
+    -- on one item.
+    SELECT CASE p.role
+             WHEN 'admin' THEN 100
+             WHEN 'pharmacist' THEN s.pharmacist_max_discount_percent
+             ELSE s.cashier_max_discount_percent
+           END
+    INTO v_max_discount
+    FROM profiles p, pharmacy_settings s
+    WHERE p.id = v_served_by;
+
+    SELECT m.name INTO v_over
+    FROM sale_items si
+    JOIN medicines m ON m.id = si.medicine_id
+    WHERE si.sale_id = v_sale_id
+    GROUP BY m.id, m.name
+    HAVING SUM(si.discount_amount) > ROUND(SUM(si.original_price * si.quantity) * COALESCE(v_max_discount, 0) / 100, 2)
+    ORDER BY m.name
+    LIMIT 1;
+
+    IF v_over IS NOT NULL THEN
+      RAISE EXCEPTION 'The discount on % is more than your limit of % percent', v_over, COALESCE(v_max_discount, 0);
+    END IF;
+  ELSE
+    v_discount_reason := NULL;
+  END IF;
+
+  v_total := v_subtotal - v_line_discounts - v_basket_discount;
+
+  -- Without tenders the whole sale is paid by payment_method
+  IF jsonb_typeof(payment->'tenders') = 'array' AND jsonb_array_length(payment->'tenders') > 0 THEN
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(payment->'tenders')
+      WHERE COALESCE(value->>'method', '') NOT IN ('cash', 'mpesa', 'card', 'insurance')
+         OR COALESCE(NULLIF(value->>'amount', '')::NUMERIC, 0) <= 0
+         OR (NULLIF(value->>'tendered', '') IS NOT NULL
+             AND (value->>'method' <> 'cash' OR (value->>'tendered')::NUMERIC < (value->>'amount')::NUMERIC))
+         OR (NULLIF(value->>'mpesa_payment_id', '') IS NOT NULL AND value->>'method' <> 'mpesa')
+    ) THEN
+      RAISE EXCEPTION 'Each payment needs a method and an amount, and only cash can be handed over in excess';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(payment->'tenders')
+      WHERE value->>'method' = 'mpesa' AND NULLIF(value->>'mpesa_payment_id', '') IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Take M-Pesa by STK Push so the payment is confirmed before the sale is recorded';
+    END IF;
+
+    INSERT INTO sale_payments (sale_id, method, amount, tendered, reference, mpesa_payment_id)
+    SELECT v_sale_id,
+           value->>'method',
+           (value->>'amount')::NUMERIC,
+           NULLIF(value->>'tendered', '')::NUMERIC,
+           NULLIF(TRIM(value->>'reference'), ''),
+           NULLIF(value->>'mpesa_payment_id', '')::UUID
+    FROM jsonb_array_elements(payment->'tenders');
+
+    -- An STK Push payment settles exactly one tender, and only once Safaricom
+    -- has confirmed it for the amount the tender claims.
+    FOR v_tender IN
+      SELECT id, mpesa_payment_id, amount
+      FROM sale_payments
+      WHERE sale_id = v_sale_id AND mpesa_payment_id IS NOT NULL
+    LOOP
+      UPDATE mpesa_payments
+      SET sale_id = v_sale_id
+      WHERE id = v_tender.mpesa_payment_id
+        AND status = 'paid'
+        AND sale_id IS NULL
+        AND amount = v_tender.amount
+      RETURNING mpesa_receipt_number INTO v_receipt_number;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The M-Pesa payment has not been confirmed or has already been used';
+      END IF;
+
+      UPDATE sale_payments SET reference = v_receipt_number WHERE id = v_tender.id;
+    END LOOP;
+  ELSIF v_total > 0 THEN
+    IF payment->>'payment_method' = 'mpesa' THEN
+      RAISE EXCEPTION 'Take M-Pesa by STK Push so the payment is confirmed before the sale is recorded';
+    END IF;
+
+    INSERT INTO sale_payments (sale_id, method, amount)
+    VALUES (v_sale_id, COALESCE(payment->>'payment_method', 'cash'), v_total);
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0),
+         CASE WHEN COUNT(DISTINCT method) > 1 THEN 'split' ELSE MIN(method) END
+  INTO v_paid, v_payment_method
+  FROM sale_payments
+  WHERE sale_id = v_sale_id;
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments of KES % do not match the sale total of KES %', v_paid, v_total;
+  END IF;
+
+  UPDATE sales
+  SET subtotal = v_subtotal,
+      discount_amount = v_line_discounts + v_basket_discount,
+      discount_reason = v_discount_reason,
+      total_amount = v_total,
+      payment_method = COALESCE(v_payment_method, payment_method)
+  WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
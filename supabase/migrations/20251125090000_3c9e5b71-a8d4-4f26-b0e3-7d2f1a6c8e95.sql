@@ -0,0 +1,709 @@
+-- M-Pesa reconciliation. Money paid straight to the till or paybill number
+-- arrives in mpesa_transactions, either imported from an M-Pesa statement or
+-- pushed by Safaricom's C2B confirmation callback (the till-c2b function).
+-- Each transaction is matched to the M-Pesa tender it paid for; whatever
+-- can't be matched automatically waits in a queue for a manager to link by
+-- hand or set aside as not being a sale.
+CREATE TABLE mpesa_transactions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  transaction_id TEXT NOT NULL UNIQUE,
+  transaction_time TIMESTAMPTZ NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  -- Statements mask the middle digits, e.g. 2547******678
+  phone TEXT,
+  payer_name TEXT,
+  bill_ref_number TEXT,
+  details TEXT,
+  source TEXT NOT NULL CHECK (source IN ('statement', 'c2b')),
+  payload JSONB,
+  status TEXT NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'matched', 'ignored')),
+  sale_payment_id UUID UNIQUE REFERENCES sale_payments(id) ON DELETE SET NULL,
+  match_method TEXT CHECK (match_method IN ('reference', 'auto', 'manual')),
+  matched_by UUID REFERENCES profiles(id),
+  matched_at TIMESTAMPTZ,
+  notes TEXT,
+  imported_by UUID REFERENCES profiles(id),
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE INDEX mpesa_transactions_status_idx ON mpesa_transactions (status, transaction_time DESC);
+
+ALTER TABLE mpesa_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow authenticated read access" ON mpesa_transactions FOR SELECT TO authenticated USING (true);
+
+-- Masked numbers keep their last three digits, which is all two numbers can
+-- be compared on.
+CREATE OR REPLACE FUNCTION mpesa_phone_suffix(p_phone TEXT)
+RETURNS TEXT AS $$
+  SELECT NULLIF(RIGHT(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), 3), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Matches unmatched transactions, oldest first, to M-Pesa tenders nothing
+-- else has claimed. A tender recorded with the transaction's code and amount
+-- is a sure match; a code on a tender for a different amount is left for a
+-- person, as it would hide a shortfall. Otherwise a tender recorded without a
+-- code, for the same amount, on a completed sale rung up within p_window of
+-- the payment is taken when it is the only one, or the only one whose
+-- customer phone ends the same. Anything still ambiguous is left for a person
+-- to decide.
+CREATE OR REPLACE FUNCTION auto_match_mpesa_transactions(p_window INTERVAL DEFAULT INTERVAL '15 minutes')
+RETURNS INTEGER AS $$
+DECLARE
+  v_transaction RECORD;
+  v_payment_id UUID;
+  v_method TEXT;
+  v_candidates INTEGER;
+  v_phone_candidates INTEGER;
+  v_phone_payment_id UUID;
+  v_matched INTEGER := 0;
+BEGIN
+  FOR v_transaction IN
+    SELECT id, transaction_id, transaction_time, amount, phone
+    FROM mpesa_transactions
+    WHERE status = 'unmatched'
+    ORDER BY transaction_time
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_method := 'reference';
+
+    SELECT sp.id INTO v_payment_id
+    FROM sale_payments sp
+    WHERE sp.method = 'mpesa'
+      AND UPPER(sp.reference) = v_transaction.transaction_id
+      AND sp.amount = v_transaction.amount
+      AND NOT EXISTS (SELECT 1 FROM mpesa_transactions t WHERE t.sale_payment_id = sp.id)
+    LIMIT 1;
+
+    IF v_payment_id IS NULL THEN
+      v_method := 'auto';
+
+      SELECT COUNT(*),
+             (array_agg(candidate.id))[1],
+             COUNT(*) FILTER (WHERE candidate.same_phone),
+             (array_agg(candidate.id) FILTER (WHERE candidate.same_phone))[1]
+      INTO v_candidates, v_payment_id, v_phone_candidates, v_phone_payment_id
+      FROM (
+        SELECT sp.id,
+               mpesa_phone_suffix(s.customer_phone) = mpesa_phone_suffix(v_transaction.phone) AS same_phone
+        FROM sale_payments sp
+        JOIN sales s ON s.id = sp.sale_id
+        WHERE sp.method = 'mpesa'
+          AND sp.reference IS NULL
+          AND sp.amount = v_transaction.amount
+          AND s.status = 'completed'
+          AND s.created_at BETWEEN v_transaction.transaction_time - p_window
+                               AND v_transaction.transaction_time + p_window
+          AND NOT EXISTS (SELECT 1 FROM mpesa_transactions t WHERE t.sale_payment_id = sp.id)
+      ) candidate;
+
+      IF v_candidates <> 1 THEN
+        v_payment_id := CASE WHEN v_phone_candidates = 1 THEN v_phone_payment_id END;
+      END IF;
+    END IF;
+
+    IF v_payment_id IS NOT NULL THEN
+      UPDATE mpesa_transactions
+      SET status = 'matched',
+          sale_payment_id = v_payment_id,
+          match_method = v_method,
+          matched_by = NULL,
+          matched_at = NOW()
+      WHERE id = v_transaction.id;
+
+      UPDATE sale_payments
+      SET reference = v_transaction.transaction_id
+      WHERE id = v_payment_id AND reference IS NULL;
+
+      v_matched := v_matched + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_matched;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Staff run matching through the functions below; the C2B callback calls it
+-- with the service role.
+REVOKE EXECUTE ON FUNCTION auto_match_mpesa_transactions(INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION auto_match_mpesa_transactions(INTERVAL) TO service_role;
+
+-- An STK Push payment reaches mpesa_transactions as well, by C2B or on the
+-- statement, and may land before the sale that took it is recorded, so
+-- matching runs again whenever an M-Pesa tender is recorded. The trigger is
+-- deferred to the end of the transaction, by which time record_sale has
+-- finished the sale and filled in the STK Push receipt.
+CREATE OR REPLACE FUNCTION match_new_mpesa_tender()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM auto_match_mpesa_transactions();
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE CONSTRAINT TRIGGER after_mpesa_tender_insert
+  AFTER INSERT ON sale_payments
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  WHEN (NEW.method = 'mpesa')
+  EXECUTE FUNCTION match_new_mpesa_tender();
+
+CREATE OR REPLACE FUNCTION match_mpesa_transactions()
+RETURNS INTEGER AS $$
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can reconcile M-Pesa payments';
+  END IF;
+
+  RETURN auto_match_mpesa_transactions();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- transactions: [{ "transaction_id", "transaction_time", "amount", "phone",
+-- "payer_name", "bill_ref_number", "details" }], the money paid in from an
+-- M-Pesa statement. Transactions already on file are skipped, so the same
+-- statement can be imported again safely.
+CREATE OR REPLACE FUNCTION import_mpesa_transactions(transactions JSONB)
+RETURNS JSONB AS $$
+DECLARE
+  v_received INTEGER := jsonb_array_length(transactions);
+  v_imported INTEGER;
+  v_matched INTEGER;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can reconcile M-Pesa payments';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(transactions)
+    WHERE COALESCE(value->>'transaction_id', '') !~ '^[A-Za-z0-9]{10}$'
+       OR NULLIF(value->>'transaction_time', '') IS NULL
+       OR COALESCE(NULLIF(value->>'amount', '')::NUMERIC, 0) <= 0
+  ) THEN
+    RAISE EXCEPTION 'Each transaction needs an M-Pesa code, a time and an amount paid in';
+  END IF;
+
+  INSERT INTO mpesa_transactions (
+    transaction_id, transaction_time, amount, phone, payer_name, bill_ref_number, details, source, payload, imported_by
+  )
+  SELECT UPPER(value->>'transaction_id'),
+         (value->>'transaction_time')::TIMESTAMPTZ,
+         (value->>'amount')::NUMERIC,
+         NULLIF(TRIM(value->>'phone'), ''),
+         NULLIF(TRIM(value->>'payer_name'), ''),
+         NULLIF(TRIM(value->>'bill_ref_number'), ''),
+         NULLIF(TRIM(value->>'details'), ''),
+         'statement',
+         value,
+         acting_user_id()
+  FROM jsonb_array_elements(transactions)
+  ON CONFLICT (transaction_id) DO NOTHING;
+
+  GET DIAGNOSTICS v_imported = ROW_COUNT;
+
+  v_matched := auto_match_mpesa_transactions();
+
+  RETURN jsonb_build_object(
+    'imported', v_imported,
+    'skipped', v_received - v_imported,
+    'matched', v_matched
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION link_mpesa_transaction(p_transaction_id UUID, p_sale_payment_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_transaction mpesa_transactions%ROWTYPE;
+  v_payment sale_payments%ROWTYPE;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can reconcile M-Pesa payments';
+  END IF;
+
+  SELECT * INTO v_transaction FROM mpesa_transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF v_transaction.id IS NULL THEN
+    RAISE EXCEPTION 'M-Pesa transaction % not found', p_transaction_id;
+  END IF;
+
+  IF v_transaction.status <> 'unmatched' THEN
+    RAISE EXCEPTION 'M-Pesa transaction % has already been %', v_transaction.transaction_id, v_transaction.status;
+  END IF;
+
+  SELECT * INTO v_payment FROM sale_payments WHERE id = p_sale_payment_id FOR UPDATE;
+
+  IF v_payment.id IS NULL OR v_payment.method <> 'mpesa' THEN
+    RAISE EXCEPTION 'Only an M-Pesa payment on a sale can be linked';
+  END IF;
+
+  IF v_payment.amount <> v_transaction.amount THEN
+    RAISE EXCEPTION 'The sale took KES % by M-Pesa but the transaction is for KES %', v_payment.amount, v_transaction.amount;
+  END IF;
+
+  IF v_payment.reference IS NOT NULL AND UPPER(v_payment.reference) <> v_transaction.transaction_id THEN
+    RAISE EXCEPTION 'That payment was recorded with M-Pesa code %', v_payment.reference;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM mpesa_transactions WHERE sale_payment_id = p_sale_payment_id) THEN
+    RAISE EXCEPTION 'That payment is already linked to another M-Pesa transaction';
+  END IF;
+
+  UPDATE mpesa_transactions
+  SET status = 'matched',
+      sale_payment_id = p_sale_payment_id,
+      match_method = CASE WHEN v_payment.reference IS NULL THEN 'manual' ELSE 'reference' END,
+      matched_by = acting_user_id(),
+      matched_at = NOW()
+  WHERE id = p_transaction_id;
+
+  UPDATE sale_payments SET reference = v_transaction.transaction_id WHERE id = p_sale_payment_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- For money that isn't a sale, e.g. a customer settling an account
+CREATE OR REPLACE FUNCTION ignore_mpesa_transaction(p_transaction_id UUID, p_reason TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can reconcile M-Pesa payments';
+  END IF;
+
+  IF LENGTH(TRIM(COALESCE(p_reason, ''))) < 5 THEN
+    RAISE EXCEPTION 'Give a reason for setting the transaction aside';
+  END IF;
+
+  UPDATE mpesa_transactions
+  SET status = 'ignored',
+      notes = TRIM(p_reason),
+      matched_by = acting_user_id(),
+      matched_at = NOW()
+  WHERE id = p_transaction_id AND status = 'unmatched';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only unmatched transactions can be set aside';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Puts a matched or set-aside transaction back in the queue. The tender keeps
+-- the code it was given, so the reference is cleared only when matching had
+-- filled it in.
+CREATE OR REPLACE FUNCTION unmatch_mpesa_transaction(p_transaction_id UUID)
+RETURNS VOID AS $$
+DECLARE
+  v_transaction mpesa_transactions%ROWTYPE;
+BEGIN
+  IF current_user_role() IS NULL OR current_user_role() NOT IN ('admin', 'pharmacist') THEN
+    RAISE EXCEPTION 'Only a pharmacist or admin can reconcile M-Pesa payments';
+  END IF;
+
+  SELECT * INTO v_transaction FROM mpesa_transactions WHERE id = p_transaction_id FOR UPDATE;
+
+  IF v_transaction.id IS NULL OR v_transaction.status = 'unmatched' THEN
+    RAISE EXCEPTION 'The transaction is not matched';
+  END IF;
+
+  IF v_transaction.match_method IN ('auto', 'manual') THEN
+    UPDATE sale_payments
+    SET reference = NULL
+    WHERE id = v_transaction.sale_payment_id AND mpesa_payment_id IS NULL;
+  END IF;
+
+  UPDATE mpesa_transactions
+  SET status = 'unmatched',
+      sale_payment_id = NULL,
+      match_method = NULL,
+      matched_by = NULL,
+      matched_at = NULL,
+      notes = NULL
+  WHERE id = p_transaction_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- An M-Pesa tender may now carry the code of a payment made straight to the
+-- till instead of an STK Push payment. The sale is only recorded once that
+-- payment is in mpesa_transactions, and it is matched to the tender there and
+-- then.
+CREATE OR REPLACE FUNCTION record_sale(items JSONB, payment JSONB)
+RETURNS TEXT AS $$
+DECLARE
+  v_sale_id UUID;
+  v_sale_number TEXT;
+  v_prescription_id UUID := NULLIF(payment->>'prescription_id', '')::UUID;
+  v_till_session_id UUID := NULLIF(payment->>'till_session_id', '')::UUID;
+  v_served_by UUID := acting_user_id();
+  v_shift_id UUID;
+  v_line RECORD;
+  v_batch RECORD;
+  v_medicine medicines%ROWTYPE;
+  v_available INTEGER;
+  v_expired INTEGER;
+  v_remaining INTEGER;
+  v_take INTEGER;
+  v_gross DECIMAL(10,2);
+  v_line_discount DECIMAL(10,2);
+  v_discount_left DECIMAL(10,2);
+  v_share DECIMAL(10,2);
+  v_subtotal DECIMAL(10,2) := 0;
+  v_line_discounts DECIMAL(10,2) := 0;
+  v_basket_type TEXT := NULLIF(payment->>'discount_type', '');
+  v_basket_value NUMERIC := COALESCE(NULLIF(payment->>'discount_value', '')::NUMERIC, 0);
+  v_basket_discount DECIMAL(10,2) := 0;
+  v_discount_reason TEXT := NULLIF(TRIM(payment->>'discount_reason'), '');
+  v_max_discount NUMERIC;
+  v_item RECORD;
+  v_over TEXT;
+  v_total DECIMAL(10,2);
+  v_paid DECIMAL(10,2);
+  v_payment_method TEXT;
+  v_tender RECORD;
+  v_receipt_number TEXT;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF current_user_role() IS NULL THEN
+    RAISE EXCEPTION 'This account has been deactivated';
+  END IF;
+
+  IF v_till_session_id IS NOT NULL THEN
+    v_served_by := till_session_staff(v_till_session_id);
+  END IF;
+
+  v_shift_id := open_shift_for(v_till_session_id);
+
+  IF v_shift_id IS NULL THEN
+    RAISE EXCEPTION 'Open a cash shift before making sales';
+  END IF;
+
+  IF items IS NULL OR jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) = 0 THEN
+    RAISE EXCEPTION 'Add at least one medicine to the sale';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM jsonb_array_elements(items)
+    WHERE COALESCE(value->>'discount_type', '') NOT IN ('', 'percent', 'amount', 'price')
+       OR (NULLIF(value->>'discount_type', '') IS NOT NULL AND NULLIF(value->>'discount_value', '') IS NULL)
+       OR COALESCE(NULLIF(value->>'discount_value', '')::NUMERIC, 0) < 0
+       OR (value->>'discount_type' = 'percent' AND (value->>'discount_value')::NUMERIC > 100)
+  ) THEN
+    RAISE EXCEPTION 'Line discounts must be a percentage up to 100, an amount or a price, and not negative';
+  END IF;
+
+  IF COALESCE(v_basket_type, 'percent') NOT IN ('percent', 'amount')
+     OR v_basket_value < 0
+     OR (v_basket_type = 'percent' AND v_basket_value > 100) THEN
+    RAISE EXCEPTION 'The basket discount must be a percentage up to 100 or an amount, and not negative';
+  END IF;
+
+  INSERT INTO sales (customer_name, customer_phone, payment_method, prescription_id, total_amount, served_by, till_session_id, shift_id)
+  VALUES (
+    NULLIF(TRIM(payment->>'customer_name'), ''),
+    NULLIF(TRIM(payment->>'customer_phone'), ''),
+    COALESCE(payment->>'payment_method', 'cash'),
+    v_prescription_id,
+    0,
+    v_served_by,
+    v_till_session_id,
+    v_shift_id
+  )
+  RETURNING id, sale_number INTO v_sale_id, v_sale_number;
+
+  -- Lines for the same medicine are merged and locked in a stable order
+  -- so concurrent checkouts cannot deadlock or oversell. Their discounts
+  -- are merged too, as a number of units' worth of the selling price plus
+  -- a fixed amount, since the price is only read once the medicine is
+  -- locked. A price override of p on q units is q units' worth less q * p.
+  FOR v_line IN
+    SELECT (value->>'medicine_id')::UUID AS medicine_id,
+           SUM((value->>'quantity')::INTEGER) AS quantity,
+           MAX(NULLIF(value->>'override_id', ''))::UUID AS override_id,
+           COALESCE(SUM(CASE value->>'discount_type'
+             WHEN 'percent' THEN (value->>'quantity')::INTEGER * (value->>'discount_value')::NUMERIC / 100
+             WHEN 'price' THEN (value->>'quantity')::INTEGER
+           END), 0) AS discount_units,
+           COALESCE(SUM(CASE value->>'discount_type'
+             WHEN 'amount' THEN (value->>'discount_value')::NUMERIC
+             WHEN 'price' THEN -(value->>'quantity')::INTEGER * (value->>'discount_value')::NUMERIC
+           END), 0) AS discount_fixed
+    FROM jsonb_array_elements(items)
+    GROUP BY 1
+    ORDER BY 1
+  LOOP
+    SELECT * INTO v_medicine FROM medicines WHERE id = v_line.medicine_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Medicine % not found', v_line.medicine_id;
+    END IF;
+
+    IF v_line.quantity IS NULL OR v_line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', v_medicine.name;
+    END IF;
+
+    IF v_medicine.requires_prescription AND v_prescription_id IS NULL THEN
+      UPDATE prescription_overrides
+      SET sale_id = v_sale_id,
+          used_at = NOW()
+      WHERE id = v_line.override_id
+        AND medicine_id = v_medicine.id
+        AND sale_id IS NULL
+        AND used_at IS NULL
+        AND created_at > NOW() - INTERVAL '1 hour';
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% requires a prescription or a pharmacist override', v_medicine.name;
+      END IF;
+    END IF;
+
+    SELECT COALESCE(SUM(quantity) FILTER (WHERE expiry_date > CURRENT_DATE), 0),
+           COALESCE(SUM(quantity) FILTER (WHERE expiry_date <= CURRENT_DATE), 0)
+    INTO v_available, v_expired
+    FROM medicine_batches
+    WHERE medicine_id = v_medicine.id AND status = 'available';
+
+    IF v_available < v_line.quantity THEN
+      IF v_expired > 0 THEN
+        RAISE EXCEPTION '% has expired stock that cannot be sold (% in date)', v_medicine.name, v_available;
+      END IF;
+      RAISE EXCEPTION 'Insufficient stock for % (% available)', v_medicine.name, v_available;
+    END IF;
+
+    v_gross := v_line.quantity * v_medicine.selling_price;
+    v_line_discount := ROUND(v_medicine.selling_price * v_line.discount_units + v_line.discount_fixed, 2);
+
+    IF v_line_discount < 0 OR v_line_discount > v_gross THEN
+      RAISE EXCEPTION 'The discount on % must be between nothing and its full price', v_medicine.name;
+    END IF;
+
+    v_remaining := v_line.quantity;
+    v_discount_left := v_line_discount;
+
+    FOR v_batch IN
+      SELECT id, quantity
+      FROM medicine_batches
+      WHERE medicine_id = v_medicine.id AND quantity > 0 AND status = 'available' AND expiry_date > CURRENT_DATE
+      ORDER BY expiry_date, created_at
+      FOR UPDATE
+    LOOP
+      EXIT WHEN v_remaining = 0;
+      v_take := LEAST(v_remaining, v_batch.quantity);
+      -- The last batch takes whatever rounding left of the line's discount
+      v_share := CASE
+        WHEN v_take = v_remaining THEN v_discount_left
+        ELSE ROUND(v_line_discount * v_take / v_line.quantity, 2)
+      END;
+
+      INSERT INTO sale_items (
+        sale_id, medicine_id, batch_id, quantity, original_price, discount_amount, unit_price, total_price
+      )
+      VALUES (
+        v_sale_id,
+        v_medicine.id,
+        v_batch.id,
+        v_take,
+        v_medicine.selling_price,
+        v_share,
+        ROUND((v_take * v_medicine.selling_price - v_share) / v_take, 2),
+        v_take * v_medicine.selling_price - v_share
+      );
+
+      UPDATE medicine_batches
+      SET quantity = quantity - v_take
+      WHERE id = v_batch.id;
+
+      INSERT INTO stock_movements (medicine_id, batch_id, movement_type, quantity, reason, reference_id, created_by)
+      VALUES (v_medicine.id, v_batch.id, 'out', v_take, 'Sale', v_sale_id, v_served_by);
+
+      v_remaining := v_remaining - v_take;
+      v_discount_left := v_discount_left - v_share;
+    END LOOP;
+
+    v_subtotal := v_subtotal + v_gross;
+    v_line_discounts := v_line_discounts + v_line_discount;
+  END LOOP;
+
+  v_basket_discount := CASE v_basket_type
+    WHEN 'percent' THEN ROUND((v_subtotal - v_line_discounts) * v_basket_value / 100, 2)
+    WHEN 'amount' THEN v_basket_value
+    ELSE 0
+  END;
+
+  IF v_basket_discount > v_subtotal - v_line_discounts THEN
+    RAISE EXCEPTION 'The basket discount is more than the sale total';
+  END IF;
+
+  -- The basket discount is spread over the lines in proportion to what they
+  -- cost after their own discounts, so each line's net price is what it
+  -- actually sold for and returns refund exactly that.
+  IF v_basket_discount > 0 THEN
+    v_discount_left := v_basket_discount;
+
+    FOR v_item IN
+      SELECT id, total_price, COUNT(*) OVER () - ROW_NUMBER() OVER (ORDER BY total_price, id) AS lines_after
+      FROM sale_items
+      WHERE sale_id = v_sale_id
+      ORDER BY total_price, id
+    LOOP
+      v_share := CASE
+        WHEN v_item.lines_after = 0 THEN v_discount_left
+        ELSE ROUND(v_basket_discount * v_item.total_price / (v_subtotal - v_line_discounts), 2)
+      END;
+
+      UPDATE sale_items
+      SET discount_amount = discount_amount + v_share,
+          total_price = total_price - v_share,
+          unit_price = ROUND((total_price - v_share) / quantity, 2)
+      WHERE id = v_item.id;
+
+      v_discount_left := v_discount_left - v_share;
+    END LOOP;
+  END IF;
+
+  IF v_line_discounts + v_basket_discount > 0 THEN
+    IF v_discount_reason IS NULL OR LENGTH(v_discount_reason) < 5 THEN
+      RAISE EXCEPTION 'Give a reason for the discount';
+    END IF;
+
+    -- Limits apply to whoever is serving, and to each medicine's combined
+    -- line and basket discount so a basket discount can't hide a deep cut
+    -- on one item.
+    SELECT CASE p.role
+             WHEN 'admin' THEN 100
+             WHEN 'pharmacist' THEN s.pharmacist_max_discount_percent
+             ELSE s.cashier_max_discount_percent
+           END
+    INTO v_max_discount
+    FROM profiles p, pharmacy_settings s
+    WHERE p.id = v_served_by;
+
+    SELECT m.name INTO v_over
+    FROM sale_items si
+    JOIN medicines m ON m.id = si.medicine_id
+    WHERE si.sale_id = v_sale_id
+    GROUP BY m.id, m.name
+    HAVING SUM(si.discount_amount) > ROUND(SUM(si.original_price * si.quantity) * COALESCE(v_max_discount, 0) / 100, 2)
+    ORDER BY m.name
+    LIMIT 1;
+
+    IF v_over IS NOT NULL THEN
+      RAISE EXCEPTION 'The discount on % is more than your limit of % percent', v_over, COALESCE(v_max_discount, 0);
+    END IF;
+  ELSE
+    v_discount_reason := NULL;
+  END IF;
+
+  v_total := v_subtotal - v_line_discounts - v_basket_discount;
+
+  -- Without tenders the whole sale is paid by payment_method
+  IF jsonb_typeof(payment->'tenders') = 'array' AND jsonb_array_length(payment->'tenders') > 0 THEN
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(payment->'tenders')
+      WHERE COALESCE(value->>'method', '') NOT IN ('cash', 'mpesa', 'card', 'insurance')
+         OR COALESCE(NULLIF(value->>'amount', '')::NUMERIC, 0) <= 0
+         OR (NULLIF(value->>'tendered', '') IS NOT NULL
+             AND (value->>'method' <> 'cash' OR (value->>'tendered')::NUMERIC < (value->>'amount')::NUMERIC))
+         OR (NULLIF(value->>'mpesa_payment_id', '') IS NOT NULL AND value->>'method' <> 'mpesa')
+    ) THEN
+      RAISE EXCEPTION 'Each payment needs a method and an amount, and only cash can be handed over in excess';
+    END IF;
+
+    IF EXISTS (
+      SELECT 1
+      FROM jsonb_array_elements(payment->'tenders')
+      WHERE value->>'method' = 'mpesa'
+        AND NULLIF(value->>'mpesa_payment_id', '') IS NULL
+        AND NULLIF(TRIM(value->>'reference'), '') IS NULL
+    ) THEN
+      RAISE EXCEPTION 'Take M-Pesa by STK Push, or enter the code of a payment that has been received';
+    END IF;
+
+    INSERT INTO sale_payments (sale_id, method, amount, tendered, reference, mpesa_payment_id)
+    SELECT v_sale_id,
+           value->>'method',
+           (value->>'amount')::NUMERIC,
+           NULLIF(value->>'tendered', '')::NUMERIC,
+           NULLIF(TRIM(value->>'reference'), ''),
+           NULLIF(value->>'mpesa_payment_id', '')::UUID
+    FROM jsonb_array_elements(payment->'tenders');
+
+    -- An STK Push payment settles exactly one tender, and only once Safaricom
+    -- has confirmed it for the amount the tender claims.
+    FOR v_tender IN
+      SELECT id, mpesa_payment_id, amount
+      FROM sale_payments
+      WHERE sale_id = v_sale_id AND mpesa_payment_id IS NOT NULL
+    LOOP
+      UPDATE mpesa_payments
+      SET sale_id = v_sale_id
+      WHERE id = v_tender.mpesa_payment_id
+        AND status = 'paid'
+        AND sale_id IS NULL
+        AND amount = v_tender.amount
+      RETURNING mpesa_receipt_number INTO v_receipt_number;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The M-Pesa payment has not been confirmed or has already been used';
+      END IF;
+
+      UPDATE sale_payments SET reference = v_receipt_number WHERE id = v_tender.id;
+    END LOOP;
+
+    -- A code typed in for money paid straight to the till settles its tender
+    -- only once that payment has arrived, for the amount the tender claims
+    FOR v_tender IN
+      SELECT id, reference, amount
+      FROM sale_payments
+      WHERE sale_id = v_sale_id AND method = 'mpesa' AND mpesa_payment_id IS NULL
+    LOOP
+      UPDATE mpesa_transactions
+      SET status = 'matched',
+          sale_payment_id = v_tender.id,
+          match_method = 'reference',
+          matched_by = v_served_by,
+          matched_at = NOW()
+      WHERE transaction_id = UPPER(v_tender.reference)
+        AND status = 'unmatched'
+        AND amount = v_tender.amount
+      RETURNING transaction_id INTO v_receipt_number;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'No unused M-Pesa payment % for KES % has been received', UPPER(v_tender.reference), v_tender.amount;
+      END IF;
+
+      UPDATE sale_payments SET reference = v_receipt_number WHERE id = v_tender.id;
+    END LOOP;
+  ELSIF v_total > 0 THEN
+    IF payment->>'payment_method' = 'mpesa' THEN
+      RAISE EXCEPTION 'Take M-Pesa by STK Push so the payment is confirmed before the sale is recorded';
+    END IF;
+
+    INSERT INTO sale_payments (sale_id, method, amount)
+    VALUES (v_sale_id, COALESCE(payment->>'payment_method', 'cash'), v_total);
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0),
+         CASE WHEN COUNT(DISTINCT method) > 1 THEN 'split' ELSE MIN(method) END
+  INTO v_paid, v_payment_method
+  FROM sale_payments
+  WHERE sale_id = v_sale_id;
+
+  IF v_paid <> v_total THEN
+    RAISE EXCEPTION 'Payments of KES % do not match the sale total of KES %', v_paid, v_total;
+  END IF;
+
+  UPDATE sales
+  SET subtotal = v_subtotal,
+      discount_amount = v_line_discounts + v_basket_discount,
+      discount_reason = v_discount_reason,
+      total_amount = v_total,
+      payment_method = COALESCE(v_payment_method, payment_method)
+  WHERE id = v_sale_id;
+
+  RETURN v_sale_number;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
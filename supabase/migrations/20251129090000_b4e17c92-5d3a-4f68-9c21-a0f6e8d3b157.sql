@@ -0,0 +1,10 @@
+-- Product barcodes. Holds the GTIN printed on the pack (EAN-8, UPC-A, EAN-13
+-- or GTIN-14) so a scan at the till or goods-in can find the medicine.
+-- The same product scanned from a retail barcode or from a GS1 DataMatrix
+-- comes through at different lengths, so uniqueness is on the 14-digit form.
+ALTER TABLE medicines ADD COLUMN barcode TEXT;
+
+ALTER TABLE medicines
+  ADD CONSTRAINT medicines_barcode_format CHECK (barcode IS NULL OR barcode ~ '^([0-9]{8}|[0-9]{12,14})$');
+
+CREATE UNIQUE INDEX medicines_barcode_gtin_idx ON medicines (LPAD(barcode, 14, '0')) WHERE barcode IS NOT NULL;